@@ -1,19 +1,73 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { Dashboard } from './components/Dashboard';
-import { parseFile, prepareDataSample } from './services/dataService';
-import { generateDashboardConfig } from './services/geminiService';
-import { DataSet, DashboardConfig, AnalysisState } from './types';
+import { SheetPicker } from './components/SheetPicker';
+import { HeaderPreview } from './components/HeaderPreview';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { DashboardLibrary } from './components/DashboardLibrary';
+import { TemplateSelector } from './components/TemplateSelector';
+import { TemplateMapper } from './components/TemplateMapper';
+import { TransformEditor } from './components/TransformEditor';
+import { CombineEditor } from './components/CombineEditor';
+import { PrivacyReview } from './components/PrivacyReview';
+import { applyTransformsInBackground, buildDataSetsInBackground, isCancelled, ParseTask, readSheetsInBackground, TransformResult } from './services/parseService';
+import { askQuestion, generateDashboardConfig, loadProviderSettings, previewQuestionPrompt, saveProviderSettings } from './services/providerService';
+import { loadDashboard, saveDashboard } from './services/storageService';
+import { normalizeFilters } from './services/filterService';
+import { describeStep, loadTransformSteps, saveTransformSteps } from './services/transformService';
+import { nameUploadedSheets } from './services/combineService';
+import { defaultPolicies, withFieldPolicies } from './services/privacyService';
+import { DataSet, AnalysisState, RawSheet, HeaderRange, ProviderSettings, ActiveFilters, FilterCombinator, DashboardConfig, DashboardTemplate, ParseProgress, TransformStep, PrivacyPolicies, ProviderId, CalculatedField } from './types';
 import { BarChart3, PieChart, TrendingUp, Moon, Sun } from 'lucide-react';
 
 const App: React.FC = () => {
-  const [dataSet, setDataSet] = useState<DataSet | null>(null);
+  const [dataSets, setDataSets] = useState<DataSet[]>([]);
+  // Sheets of a multi-sheet workbook waiting for the user to pick from
+  const [pendingSheets, setPendingSheets] = useState<RawSheet[] | null>(null);
+  // Selected sheets waiting for the user to confirm their header rows
+  const [previewSheets, setPreviewSheets] = useState<RawSheet[] | null>(null);
+  // Datasets of several sheets or files, waiting to be stacked or joined
+  const [combineSets, setCombineSets] = useState<DataSet[] | null>(null);
+  // Datasets built from the file, waiting for the clean-up steps to be confirmed
+  const [transformSets, setTransformSets] = useState<DataSet[] | null>(null);
   const [analysis, setAnalysis] = useState<AnalysisState>({
     isLoading: false,
     error: null,
     config: null,
+    notices: [],
   });
 
+  // Background parse of the current file, cancellable from the upload box
+  const [parseProgress, setParseProgress] = useState<ParseProgress | null>(null);
+  const parseTask = useRef<ParseTask<unknown> | null>(null);
+
+  // Template the next upload is laid out with, and the datasets waiting for its column mapping
+  const [template, setTemplate] = useState<DashboardTemplate | null>(null);
+  const [templateSets, setTemplateSets] = useState<DataSet[] | null>(null);
+  const [cleanupNotices, setCleanupNotices] = useState<string[]>([]);
+
+  // Privacy mode: cleaned datasets waiting for their columns to be reviewed
+  const [privacySets, setPrivacySets] = useState<{ dataSets: DataSet[]; steps: TransformStep[]; notices: string[] } | null>(null);
+
+  // Library entry the dashboard was saved as or reopened from
+  const [savedDashboard, setSavedDashboard] = useState<{ id: string; version: number } | null>(null);
+  const [initialFilters, setInitialFilters] = useState<ActiveFilters | undefined>(undefined);
+  const [initialCombinator, setInitialCombinator] = useState<FilterCombinator | undefined>(undefined);
+
+  // Analysis engine, persisted like the theme
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  // Clean-up steps of the last dashboard, replayed on the next file
+  const [transformSteps, setTransformSteps] = useState<TransformStep[]>(loadTransformSteps);
+
+  useEffect(() => {
+    saveTransformSteps(transformSteps);
+  }, [transformSteps]);
+
   // Dark Mode State
   const [isDarkMode, setIsDarkMode] = useState(() => {
     if (typeof window !== 'undefined') {
@@ -36,43 +90,230 @@ const App: React.FC = () => {
 
   const toggleTheme = () => setIsDarkMode(!isDarkMode);
 
-  const handleFileSelect = useCallback(async (file: File) => {
+  const runAnalysis = useCallback(async (selected: DataSet[], steps: TransformStep[] = [], stepNotices: string[] = [], policies?: PrivacyPolicies) => {
     setAnalysis(prev => ({ ...prev, isLoading: true, error: null }));
     
     try {
-      // 1. Parse File
-      const data = await parseFile(file);
-      setDataSet(data);
-
-      // 2. Prepare for AI
-      const sample = prepareDataSample(data);
+      setDataSets(selected);
 
-      // 3. Generate Config with Gemini
-      const config = await generateDashboardConfig(sample);
+      // 2. Generate Config with the selected analysis engine
+      const { config, notices } = await generateDashboardConfig(selected, providerSettings, policies);
       
       setAnalysis({
         isLoading: false,
         error: null,
-        config: config,
+        config: { ...config, transforms: steps.length > 0 ? steps : undefined, privacy: policies },
+        notices: [...stepNotices, ...notices],
+      });
+
+    } catch (err: any) {
+      console.error(err);
+      setAnalysis({
+        isLoading: false,
+        error: err.message || "An unexpected error occurred",
+        config: null,
+        notices: [],
       });
+      setDataSets([]); // Reset data on fatal error
+    }
+  }, [providerSettings]);
 
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    setAnalysis(prev => ({ ...prev, isLoading: true, error: null }));
+    setParseProgress({ phase: 'reading', fraction: 0 });
+
+    try {
+      // 1. Read the files one by one in a worker - workbooks yield one raw sheet per sheet
+      const perFile: RawSheet[][] = [];
+      for (const [index, file] of files.entries()) {
+        const task = readSheetsInBackground(file, progress =>
+          setParseProgress({ ...progress, fraction: (index + progress.fraction) / files.length })
+        );
+        parseTask.current = task;
+        perFile.push(await task.promise);
+      }
+      const sheets = nameUploadedSheets(perFile);
+
+      if (sheets.length > 1) {
+        setPendingSheets(sheets);
+      } else {
+        setPreviewSheets(sheets);
+      }
+      setAnalysis(prev => ({ ...prev, isLoading: false }));
     } catch (err: any) {
+      if (isCancelled(err)) {
+        setAnalysis(prev => ({ ...prev, isLoading: false }));
+        return;
+      }
       console.error(err);
       setAnalysis({
         isLoading: false,
         error: err.message || "An unexpected error occurred",
         config: null,
+        notices: [],
+      });
+    } finally {
+      parseTask.current = null;
+      setParseProgress(null);
+    }
+  }, []);
+
+  const handleCancelParse = () => {
+    parseTask.current?.cancel();
+  };
+
+  const handleSheetsConfirm = (selected: RawSheet[]) => {
+    setPendingSheets(null);
+    setPreviewSheets(selected);
+  };
+
+  const handleHeadersConfirm = async (ranges: HeaderRange[]) => {
+    if (!previewSheets) return;
+
+    const sheets = previewSheets;
+    setPreviewSheets(null);
+    setAnalysis(prev => ({ ...prev, isLoading: true, error: null }));
+    setParseProgress({ phase: 'parsing', fraction: 0 });
+
+    try {
+      const task = buildDataSetsInBackground(sheets, ranges, setParseProgress);
+      parseTask.current = task;
+      const selected = await task.promise;
+      parseTask.current = null;
+      setParseProgress(null);
+      if (selected.length > 1) {
+        setCombineSets(selected);
+      } else {
+        setTransformSets(selected);
+      }
+      setAnalysis(prev => ({ ...prev, isLoading: false }));
+    } catch (err: any) {
+      parseTask.current = null;
+      setParseProgress(null);
+      setAnalysis(prev => ({
+        ...prev,
+        isLoading: false,
+        error: isCancelled(err) ? null : err.message || "An unexpected error occurred",
+      }));
+    }
+  };
+
+  const handleCombineConfirm = (combined: DataSet[]) => {
+    setCombineSets(null);
+    setTransformSets(combined);
+  };
+
+  // The whole file goes through the confirmed steps; steps that didn't fit it are reported
+  const handleTransformsConfirm = async (steps: TransformStep[]) => {
+    if (!transformSets) return;
+    const sets = transformSets;
+    setTransformSets(null);
+    setTransformSteps(steps);
+
+    let result: TransformResult;
+    if (steps.length === 0) {
+      result = { dataSets: sets, issues: [] };
+    } else {
+      setAnalysis(prev => ({ ...prev, isLoading: true, error: null }));
+      setParseProgress({ phase: 'cleaning', fraction: 0 });
+      try {
+        const task = applyTransformsInBackground(sets, steps, setParseProgress);
+        parseTask.current = task;
+        result = await task.promise;
+        setAnalysis(prev => ({ ...prev, isLoading: false }));
+      } catch (err: any) {
+        setAnalysis(prev => ({
+          ...prev,
+          isLoading: false,
+          error: isCancelled(err) ? null : err.message || "An unexpected error occurred",
+        }));
+        return;
+      } finally {
+        parseTask.current = null;
+        setParseProgress(null);
+      }
+    }
+
+    const { dataSets: cleaned, issues } = result;
+    const notices = issues.map(issue => `Clean-up step ${issue.index + 1} (${describeStep(steps[issue.index])}) was skipped: ${issue.message}.`);
+
+    if (template) {
+      setTemplateSets(cleaned);
+      setCleanupNotices(notices);
+    } else if (providerSettings.privacyMode && providerSettings.provider !== ProviderId.HEURISTIC) {
+      setPrivacySets({ dataSets: cleaned, steps, notices });
+    } else {
+      runAnalysis(cleaned, steps, notices);
+    }
+  };
+
+  const handlePrivacyConfirm = (policies: PrivacyPolicies) => {
+    if (!privacySets) return;
+    setPrivacySets(null);
+    runAnalysis(privacySets.dataSets, privacySets.steps, privacySets.notices, policies);
+  };
+
+  // Templates reproduce their charts on the new data, so no analysis engine is called
+  const handleTemplateApply = (config: DashboardConfig) => {
+    if (!templateSets || !template) return;
+    setDataSets(templateSets);
+    setTemplateSets(null);
+    setAnalysis({
+      isLoading: false,
+      error: null,
+      config: { ...config, transforms: transformSteps.length > 0 ? transformSteps : undefined },
+      notices: [...cleanupNotices, `Charts were laid out by the "${template.name}" template.`],
+    });
+  };
+
+  // Reopening restores the stored data and config, so no analysis engine is called
+  const handleOpenSaved = useCallback(async (id: string, version?: number) => {
+    setAnalysis(prev => ({ ...prev, isLoading: true, error: null }));
+    try {
+      const loaded = await loadDashboard(id, version);
+      setDataSets(loaded.dataSets);
+      setInitialFilters(normalizeFilters(loaded.version.filters));
+      setInitialCombinator(loaded.version.combinator);
+      setSavedDashboard({ id, version: loaded.version.version });
+      setTransformSteps(loaded.version.config.transforms || []);
+      setAnalysis({
+        isLoading: false,
+        error: null,
+        config: loaded.version.config,
+        notices: [],
       });
-      setDataSet(null); // Reset data on fatal error
+    } catch (err: any) {
+      console.error(err);
+      setAnalysis(prev => ({ ...prev, isLoading: false, error: err.message || "Could not open the dashboard" }));
     }
   }, []);
 
+  // In privacy mode questions go out under the policies the dashboard was reviewed with, or the
+  // default ones for dashboards that never were; calculated fields are held back like the columns they read
+  const questionPolicies = (sets: DataSet[], fields: CalculatedField[]): PrivacyPolicies | undefined =>
+    providerSettings.privacyMode ? withFieldPolicies(analysis.config?.privacy || defaultPolicies(sets), sets, fields) : undefined;
+
+  const handleSave = async (config: DashboardConfig, filters: ActiveFilters, combinator: FilterCombinator) => {
+    const saved = await saveDashboard(savedDashboard?.id || null, dataSets, config, filters, combinator);
+    setSavedDashboard({ id: saved.id, version: saved.versions[saved.versions.length - 1].version });
+  };
+
   const handleReset = () => {
-    setDataSet(null);
+    setDataSets([]);
+    setSavedDashboard(null);
+    setInitialFilters(undefined);
+    setInitialCombinator(undefined);
+    setPendingSheets(null);
+    setPreviewSheets(null);
+    setCombineSets(null);
+    setTransformSets(null);
+    setTemplateSets(null);
+    setPrivacySets(null);
     setAnalysis({
       isLoading: false,
       error: null,
       config: null,
+      notices: [],
     });
   };
 
@@ -89,12 +330,21 @@ const App: React.FC = () => {
       </button>
 
       {/* If we have a dashboard configuration, show the dashboard */}
-      {analysis.config && dataSet ? (
+      {analysis.config && dataSets.length > 0 ? (
         <Dashboard 
           config={analysis.config} 
-          data={dataSet.data} 
-          fileName={dataSet.fileName}
+          dataSets={dataSets}
+          fileName={dataSets[0].fileName}
+          notices={analysis.notices}
+          initialFilters={initialFilters}
+          initialCombinator={initialCombinator}
+          savedVersion={savedDashboard?.version}
+          onSave={handleSave}
           onReset={handleReset}
+          onAsk={(sets, question, fields) => askQuestion(sets, question, providerSettings, questionPolicies(sets, fields))}
+          previewQuestion={providerSettings.privacyMode && providerSettings.provider !== ProviderId.HEURISTIC
+            ? (sets, question, fields) => previewQuestionPrompt(sets, question, providerSettings, questionPolicies(sets, fields))
+            : undefined}
           isDarkMode={isDarkMode}
         />
       ) : (
@@ -120,10 +370,67 @@ const App: React.FC = () => {
                 </p>
 
                 <div className="bg-white dark:bg-slate-800 p-8 rounded-3xl shadow-xl shadow-slate-200/50 dark:shadow-black/20 border border-slate-100 dark:border-slate-700 w-full transition-colors duration-300">
-                  <FileUpload 
-                    onFileSelect={handleFileSelect} 
-                    isProcessing={analysis.isLoading} 
-                  />
+                  {privacySets ? (
+                    <PrivacyReview
+                      dataSets={privacySets.dataSets}
+                      settings={providerSettings}
+                      onConfirm={handlePrivacyConfirm}
+                      onCancel={() => setPrivacySets(null)}
+                    />
+                  ) : templateSets && template ? (
+                    <TemplateMapper
+                      template={template}
+                      dataSets={templateSets}
+                      onApply={handleTemplateApply}
+                      onCancel={() => setTemplateSets(null)}
+                    />
+                  ) : transformSets ? (
+                    <TransformEditor
+                      dataSets={transformSets}
+                      steps={template ? template.config.transforms || [] : transformSteps}
+                      onConfirm={handleTransformsConfirm}
+                      onCancel={() => setTransformSets(null)}
+                    />
+                  ) : combineSets ? (
+                    <CombineEditor
+                      dataSets={combineSets}
+                      onConfirm={handleCombineConfirm}
+                      onCancel={() => setCombineSets(null)}
+                    />
+                  ) : previewSheets ? (
+                    <HeaderPreview
+                      sheets={previewSheets}
+                      onConfirm={handleHeadersConfirm}
+                      onCancel={() => setPreviewSheets(null)}
+                    />
+                  ) : pendingSheets ? (
+                    <SheetPicker
+                      fileNames={Array.from(new Set(pendingSheets.map((sheet: RawSheet) => sheet.fileName)))}
+                      sheets={pendingSheets}
+                      onConfirm={handleSheetsConfirm}
+                      onCancel={() => setPendingSheets(null)}
+                    />
+                  ) : (
+                    <FileUpload 
+                      onFilesSelect={handleFilesSelect}
+                      isProcessing={analysis.isLoading} 
+                      progress={parseProgress}
+                      onCancel={handleCancelParse}
+                    />
+                  )}
+                  {!pendingSheets && !previewSheets && !combineSets && !transformSets && !templateSets && !privacySets && (
+                    <>
+                      <TemplateSelector template={template} onChange={setTemplate} disabled={analysis.isLoading} />
+                      {!template && (
+                        <ProviderSettingsPanel
+                          settings={providerSettings}
+                          onChange={setProviderSettings}
+                          disabled={analysis.isLoading}
+                        />
+                      )}
+                      <DashboardLibrary onOpen={handleOpenSaved} disabled={analysis.isLoading} />
+                    </>
+                  )}
                   {analysis.error && (
                     <div className="mt-6 p-4 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-200 rounded-lg text-sm font-medium border border-red-100 dark:border-red-900/50">
                       Error: {analysis.error}
@@ -158,7 +465,7 @@ const App: React.FC = () => {
             </main>
             
             <footer className="py-6 text-center text-slate-400 dark:text-slate-500 text-sm">
-              <p>&copy; {new Date().getFullYear()} InsightFlow AI. Data is processed locally and via Gemini API.</p>
+              <p>&copy; {new Date().getFullYear()} InsightFlow AI. Data is processed locally and, if selected, via Gemini or your own model server.</p>
             </footer>
         </div>
       )}
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ChartConfig } from '../types';
+import { ANOMALY_METHOD_LABELS, Anomaly } from '../services/anomalyService';
+import { ArrowRight, ChevronDown, TriangleAlert } from 'lucide-react';
+
+interface AnomalyPanelProps {
+  anomalies: Anomaly[]; // Most unusual first
+  charts: ChartConfig[];
+  onSelect: (chartId: string) => void; // Brings the chart into view
+}
+
+// Findings shown before the list is expanded
+const TOP_FINDINGS = 5;
+
+export const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ anomalies, charts, onSelect }) => {
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? anomalies : anomalies.slice(0, TOP_FINDINGS);
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700 mb-8 p-5 transition-colors duration-300">
+      <div className="flex items-center gap-2 text-slate-700 dark:text-slate-200 mb-3">
+        <TriangleAlert className="w-5 h-5 text-red-500 dark:text-red-400" />
+        <h3 className="font-semibold text-base">Anomalies</h3>
+        <span className="text-xs text-slate-400 dark:text-slate-500">
+          {anomalies.length} unusual {anomalies.length === 1 ? 'point' : 'points'} in the filtered data
+        </span>
+      </div>
+      <ul className="divide-y divide-slate-100 dark:divide-slate-700">
+        {shown.map((anomaly) => {
+          const chart = charts.find(c => c.id === anomaly.chartId);
+          return (
+            <li key={`${anomaly.chartId}-${anomaly.key}-${anomaly.index}`}>
+              <button
+                onClick={() => onSelect(anomaly.chartId)}
+                className="w-full flex items-start gap-3 py-2 text-left group"
+                title="Show the chart"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-slate-700 dark:text-slate-200">
+                    <span className="font-semibold">{anomaly.label}</span>
+                    <span className="text-slate-400 dark:text-slate-500"> in </span>
+                    <span className="group-hover:text-indigo-600 dark:group-hover:text-indigo-400">{chart?.title || 'a chart'}</span>
+                  </p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {anomaly.reason} <span className="text-slate-400 dark:text-slate-500">({ANOMALY_METHOD_LABELS[anomaly.method]})</span>
+                  </p>
+                </div>
+                <ArrowRight className="w-4 h-4 mt-1 flex-shrink-0 text-slate-300 dark:text-slate-600 group-hover:text-indigo-600 dark:group-hover:text-indigo-400" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {anomalies.length > TOP_FINDINGS && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="flex items-center gap-1 mt-2 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${showAll ? 'rotate-180' : ''}`} />
+          {showAll ? 'Show fewer' : `Show all ${anomalies.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
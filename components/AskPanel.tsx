@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import { ChartConfig, DataSet } from '../types';
+import { AnsweredQuestion } from '../services/providerService';
+import { QuestionResult, runQuestionQuery } from '../services/questionService';
+import { findDataSet } from '../services/dataService';
+import { allRows } from '../services/queryService';
+import { estimateTokens } from '../services/samplingService';
+import { ChartWidget } from './ChartWidget';
+import { Check, Info, Loader2, MessageSquare, Pin, Send, ShieldCheck, X } from 'lucide-react';
+
+interface AskPanelProps {
+  dataSets: DataSet[];
+  onAsk: (question: string) => Promise<AnsweredQuestion>;
+  previewPrompt?: (question: string) => string; // Privacy mode: the prompt is shown and confirmed before it is sent
+  onPin: (chart: ChartConfig) => void;
+  isDarkMode: boolean;
+}
+
+interface Entry extends AnsweredQuestion {
+  id: number;
+  question: string;
+  pinned?: boolean;
+}
+
+const formatValue = (value: number | null | undefined) =>
+  value === null || value === undefined ? '–' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatChange = (change: number | null | undefined) =>
+  change === null || change === undefined ? '–' : `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%`;
+
+const changeClass = (change: number | null | undefined) =>
+  !change ? 'text-slate-500 dark:text-slate-400' : change > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400';
+
+// A number, or a table of groups when the question asked for a breakdown
+const QueryAnswer: React.FC<{ result: QuestionResult; groupBy?: string }> = ({ result, groupBy }) => {
+  const comparing = !!result.ranges;
+
+  if (!groupBy) {
+    const [row] = result.rows;
+    return (
+      <div>
+        <p className="text-xs text-slate-500 dark:text-slate-400">{result.label}</p>
+        <p className="text-3xl font-bold text-slate-900 dark:text-white tabular-nums">{formatValue(row?.value)}</p>
+        {comparing && (
+          <p className="text-sm mt-1">
+            <span className={`font-medium ${changeClass(row?.change)}`}>{formatChange(row?.change)}</span>
+            <span className="text-slate-500 dark:text-slate-400"> vs {formatValue(row?.previous)} in {result.ranges!.previous}</span>
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="max-h-80 overflow-auto border border-slate-100 dark:border-slate-700 rounded-lg">
+        <table className="min-w-full text-sm text-slate-700 dark:text-slate-200">
+          <thead className="sticky top-0 bg-slate-50 dark:bg-slate-700/50 text-xs text-slate-600 dark:text-slate-300">
+            <tr>
+              <th className="px-3 py-2 text-left font-semibold">{groupBy}</th>
+              <th className="px-3 py-2 text-right font-semibold">{result.label}</th>
+              {comparing && <th className="px-3 py-2 text-right font-semibold">Before</th>}
+              {comparing && <th className="px-3 py-2 text-right font-semibold">Change</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {result.rows.map(row => (
+              <tr key={row.label} className="border-t border-slate-100 dark:border-slate-700/60">
+                <td className="px-3 py-1.5">{row.label}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{formatValue(row.value)}</td>
+                {comparing && <td className="px-3 py-1.5 text-right tabular-nums">{formatValue(row.previous)}</td>}
+                {comparing && <td className={`px-3 py-1.5 text-right tabular-nums ${changeClass(row.change)}`}>{formatChange(row.change)}</td>}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-slate-400 dark:text-slate-500 mt-2">
+        {result.rows.length < result.groupCount ? `Showing ${result.rows.length} of ${result.groupCount} groups. ` : ''}
+        {comparing ? `${result.ranges!.current} against ${result.ranges!.previous}.` : ''}
+      </p>
+    </div>
+  );
+};
+
+interface AnswerCardProps {
+  entry: Entry;
+  dataSets: DataSet[];
+  onPin: (chart: ChartConfig) => void; // The chart as last adjusted in the card
+  onDismiss: () => void;
+  isDarkMode: boolean;
+}
+
+// Answers are computed on every row of the sheet, regardless of the dashboard's filters
+const AnswerCard: React.FC<AnswerCardProps> = ({ entry, dataSets, onPin, onDismiss, isDarkMode }) => {
+  const { answer, notes } = entry;
+  const [chart, setChart] = useState<ChartConfig | null>(answer.kind === 'chart' ? answer.chart : null);
+  const source = useMemo(() => findDataSet(dataSets, answer.kind === 'chart' ? answer.chart.sheetName : answer.query.sheetName), [dataSets, answer]);
+  const rows = useMemo(() => allRows(source.columns), [source]);
+  const result = useMemo(() => {
+    if (answer.kind !== 'query') return null;
+    try {
+      return runQuestionQuery(dataSets, answer.query);
+    } catch (err: any) {
+      return err.message as string;
+    }
+  }, [dataSets, answer]);
+
+  return (
+    <div className="border border-slate-100 dark:border-slate-700 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <p className="font-medium text-slate-900 dark:text-white">{entry.question}</p>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          {chart && (
+            <button
+              onClick={() => onPin(chart)}
+              disabled={entry.pinned}
+              className="flex items-center gap-1.5 text-xs font-medium px-2 py-1 rounded-md border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-60 disabled:hover:bg-transparent"
+              title="Add this chart to the dashboard"
+            >
+              {entry.pinned ? <Check className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+              {entry.pinned ? 'Pinned' : 'Pin to dashboard'}
+            </button>
+          )}
+          <button onClick={onDismiss} className="p-1 rounded-md text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700" title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      {answer.explanation && <p className="text-sm text-slate-600 dark:text-slate-300 mb-3">{answer.explanation}</p>}
+      {notes.length > 0 && (
+        <div className="mb-3 space-y-1 text-xs text-amber-700 dark:text-amber-300">
+          {notes.map((note, index) => (
+            <div key={index} className="flex items-start gap-1.5">
+              <Info className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+              <span>{note}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {chart && (
+        <div className="h-[420px]">
+          <ChartWidget config={chart} dataSet={source} rows={rows} onConfigChange={setChart} isDarkMode={isDarkMode} />
+        </div>
+      )}
+      {answer.kind === 'query' && (typeof result === 'string'
+        ? <p className="text-sm text-red-600 dark:text-red-400">{result}</p>
+        : result && <QueryAnswer result={result} groupBy={answer.query.groupBy} />)}
+    </div>
+  );
+};
+
+export const AskPanel: React.FC<AskPanelProps> = ({ dataSets, onAsk, previewPrompt, onPin, isDarkMode }) => {
+  const [question, setQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<Entry[]>([]);
+  // A question waiting for its prompt to be confirmed
+  const [pending, setPending] = useState<{ question: string; prompt: string } | null>(null);
+
+  const send = async (text: string) => {
+    setPending(null);
+    setIsAsking(true);
+    setError(null);
+    try {
+      const answered = await onAsk(text);
+      setEntries(prev => [{ ...answered, id: Date.now(), question: text }, ...prev]);
+      setQuestion('');
+    } catch (err: any) {
+      setError(err.message || 'The question could not be answered.');
+    } finally {
+      setIsAsking(false);
+    }
+  };
+
+  const handleAsk = () => {
+    const text = question.trim();
+    if (!text || isAsking || pending) return;
+    if (previewPrompt) {
+      setError(null);
+      setPending({ question: text, prompt: previewPrompt(text) });
+      return;
+    }
+    send(text);
+  };
+
+  const pin = (id: number, chart: ChartConfig) => {
+    onPin(chart);
+    setEntries(prev => prev.map(e => (e.id === id ? { ...e, pinned: true } : e)));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700 mb-8 p-5 transition-colors duration-300">
+      <div className="flex items-center gap-2 text-slate-700 dark:text-slate-200 mb-3">
+        <MessageSquare className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+        <h3 className="font-semibold text-base">Ask your data</h3>
+      </div>
+      <form
+        onSubmit={(e) => { e.preventDefault(); handleAsk(); }}
+        className="flex items-center gap-2"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="e.g. Which region grew fastest last quarter?"
+          disabled={isAsking || !!pending}
+          className="flex-1 text-sm border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={isAsking || !!pending || !question.trim()}
+          className="flex items-center gap-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50"
+        >
+          {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          Ask
+        </button>
+      </form>
+      {pending && (
+        <div className="mt-3">
+          <div className="flex items-center justify-between mb-1 text-xs text-slate-500 dark:text-slate-400">
+            <span className="flex items-center gap-1.5 font-semibold text-slate-600 dark:text-slate-300">
+              <ShieldCheck className="w-3.5 h-3.5 text-indigo-600 dark:text-indigo-400" />
+              Prompt to be sent
+            </span>
+            <span>~{estimateTokens(pending.prompt).toLocaleString()} tokens</span>
+          </div>
+          <pre className="max-h-64 overflow-auto text-[11px] leading-snug whitespace-pre-wrap break-all p-3 rounded-lg bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+            {pending.prompt.trim()}
+          </pre>
+          <div className="flex justify-end gap-3 mt-3">
+            <button
+              type="button"
+              onClick={() => setPending(null)}
+              className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => send(pending.question)}
+              className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow"
+            >
+              Send
+            </button>
+          </div>
+        </div>
+      )}
+      {error && (
+        <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-200 rounded-lg text-sm border border-red-100 dark:border-red-900/50">
+          {error}
+        </div>
+      )}
+
+      {entries.length > 0 && (
+        <div className="mt-4 space-y-4">
+          {entries.map(entry => (
+            <AnswerCard
+              key={entry.id}
+              entry={entry}
+              dataSets={dataSets}
+              onPin={(chart) => pin(entry.id, chart)}
+              onDismiss={() => setEntries(prev => prev.filter(e => e.id !== entry.id))}
+              isDarkMode={isDarkMode}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,322 @@
+import React, { useState, useMemo } from 'react';
+import { ChartConfig, ChartSpan, ChartType, DataSet, PivotOptions } from '../types';
+import { findDataSet } from '../services/dataService';
+import { isNumericType } from '../services/schemaService';
+import { getPivotOptions } from '../services/pivotService';
+import { COLORS } from './ChartWidget';
+import { X } from 'lucide-react';
+
+interface ChartEditorProps {
+  chart: ChartConfig;
+  dataSets: DataSet[];
+  isNew: boolean;
+  onSave: (chart: ChartConfig) => void;
+  onCancel: () => void;
+}
+
+const TYPE_LABELS: Record<ChartType, string> = {
+  [ChartType.BAR]: 'Bar',
+  [ChartType.LINE]: 'Line',
+  [ChartType.AREA]: 'Area',
+  [ChartType.PIE]: 'Pie',
+  [ChartType.SCATTER]: 'Scatter',
+  [ChartType.PIVOT]: 'Pivot table',
+};
+
+const inputClass = "w-full text-sm border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+const labelClass = "text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5 block";
+
+// Dimensions of a pivot table, numbered in the order they nest
+const DimensionChips = ({ headers, selected, onChange }: { headers: string[]; selected: string[]; onChange: (columns: string[]) => void }) => (
+  <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto">
+    {headers.map((header) => {
+      const position = selected.indexOf(header);
+      return (
+        <button
+          key={header}
+          type="button"
+          onClick={() => onChange(position >= 0 ? selected.filter(c => c !== header) : [...selected, header])}
+          className={`text-xs px-2 py-0.5 rounded-md border transition-colors
+            ${position >= 0
+              ? 'bg-indigo-600 border-indigo-600 text-white'
+              : 'border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700'}
+          `}
+        >
+          {position >= 0 && <span className="mr-1 opacity-70">{position + 1}.</span>}
+          {header}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// First non-numeric column on the x axis, first numeric column as the measure
+const defaultColumns = (dataSet: DataSet): Pick<ChartConfig, 'xKey' | 'yKeys'> => {
+  const numeric = dataSet.headers.filter(header => isNumericType(dataSet.schema[header]?.type));
+  const xKey = dataSet.headers.find(header => !numeric.includes(header)) || dataSet.headers[0] || '';
+  const yKey = numeric.find(header => header !== xKey) || dataSet.headers.find(header => header !== xKey);
+  return { xKey, yKeys: yKey ? [yKey] : [] };
+};
+
+// First free chart id, so added charts don't clash with the existing ones
+export const nextChartId = (charts: ChartConfig[]): string => {
+  const ids = new Set(charts.map(chart => chart.id));
+  let index = charts.length + 1;
+  while (ids.has(`chart-${index}`)) index++;
+  return `chart-${index}`;
+};
+
+/**
+ * Builds a starting point for a chart added by hand, drawing from the first
+ * sheet and with an id that doesn't clash with the existing charts.
+ */
+export const createChartConfig = (dataSets: DataSet[], charts: ChartConfig[]): ChartConfig => {
+  const [dataSet] = dataSets;
+  return {
+    id: nextChartId(charts),
+    type: ChartType.BAR,
+    title: 'New chart',
+    description: '',
+    sheetName: dataSet.sheetName,
+    ...defaultColumns(dataSet),
+  };
+};
+
+export const ChartEditor: React.FC<ChartEditorProps> = ({ chart, dataSets, isNew, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ChartConfig>(chart);
+
+  const dataSet = findDataSet(dataSets, draft.sheetName);
+  const isPie = draft.type === ChartType.PIE;
+  const isScatter = draft.type === ChartType.SCATTER;
+  const isPivot = draft.type === ChartType.PIVOT;
+  const pivot = isPivot ? draft.pivot || getPivotOptions(draft) : null;
+
+  // Pie slices take the palette in order, other charts one colour per measure
+  const colorSlots = isPie ? COLORS.length : draft.yKeys.length;
+  const colors = useMemo(
+    () => Array.from({ length: colorSlots }, (_, i) => draft.colors?.[i] || COLORS[i % COLORS.length]),
+    [draft.colors, colorSlots]
+  );
+
+  const update = (patch: Partial<ChartConfig>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleSheetChange = (sheetName: string) => {
+    const next = findDataSet(dataSets, sheetName);
+    const columns = defaultColumns(next);
+    const pivot = draft.pivot && { ...draft.pivot, rows: [columns.xKey], columns: [], sort: undefined };
+    update({ sheetName: next.sheetName, groupBy: undefined, aggregations: {}, colors: undefined, pivot, ...columns });
+  };
+
+  const handleTypeChange = (type: ChartType) => {
+    let yKeys = draft.yKeys;
+    if (type === ChartType.PIE) yKeys = yKeys.slice(0, 1);
+    if (type === ChartType.SCATTER) yKeys = yKeys.filter(key => isNumericType(dataSet.schema[key]?.type));
+    // A pivot table starts out with the chart's category down the side
+    update({ type, yKeys, pivot: type === ChartType.PIVOT ? getPivotOptions(draft) : draft.pivot });
+  };
+
+  // The first row dimension doubles as the x axis, so the chart still works as another type
+  const updatePivot = (patch: Partial<PivotOptions>) => {
+    const next = { ...getPivotOptions(draft), ...draft.pivot, ...patch };
+    update({ pivot: next, xKey: next.rows[0] || '', yKeys: draft.yKeys.filter(key => key !== next.rows[0]) });
+  };
+
+  const toggleMeasure = (key: string) => {
+    const position = draft.yKeys.indexOf(key);
+    if (position >= 0) {
+      const nextColors = draft.colors ? draft.colors.filter((_, i) => i !== position) : undefined;
+      update({ yKeys: draft.yKeys.filter(k => k !== key), colors: isPie ? draft.colors : nextColors });
+    } else {
+      update({ yKeys: isPie ? [key] : [...draft.yKeys, key] });
+    }
+  };
+
+  const setColor = (index: number, color: string) => {
+    const next = [...colors];
+    next[index] = color;
+    update({ colors: next });
+  };
+
+  const handleSave = () => {
+    const aggregations = Object.fromEntries(
+      Object.entries(draft.aggregations || {}).filter(([key]) => draft.yKeys.includes(key))
+    );
+    onSave({
+      ...draft,
+      title: draft.title.trim(),
+      // A group-by column or drill path left over from a different x axis would silently change the chart
+      groupBy: draft.xKey === chart.xKey ? draft.groupBy : undefined,
+      drillPath: draft.xKey === chart.xKey ? draft.drillPath : undefined,
+      aggregations,
+      colors: draft.colors ? colors : undefined,
+    });
+  };
+
+  const canSave = draft.title.trim() !== '' && draft.xKey !== '' && draft.yKeys.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-6 text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">{isNew ? 'Add chart' : 'Edit chart'}</h3>
+          <button onClick={onCancel} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className={labelClass} htmlFor="chart-title">Title</label>
+            <input id="chart-title" type="text" value={draft.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="chart-description">Description</label>
+            <textarea id="chart-description" rows={2} value={draft.description} onChange={(e) => update({ description: e.target.value })} className={inputClass} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {dataSets.length > 1 && (
+              <div className="col-span-2">
+                <label className={labelClass} htmlFor="chart-sheet">Sheet</label>
+                <select id="chart-sheet" value={dataSet.sheetName} onChange={(e) => handleSheetChange(e.target.value)} className={inputClass}>
+                  {dataSets.map((d) => (
+                    <option key={d.sheetName} value={d.sheetName}>{d.sheetName}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className={labelClass} htmlFor="chart-type">Chart type</label>
+              <select id="chart-type" value={draft.type} onChange={(e) => handleTypeChange(e.target.value as ChartType)} className={inputClass}>
+                {Object.values(ChartType).map((type) => (
+                  <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            {!isPivot && (
+              <div>
+                <label className={labelClass} htmlFor="chart-x">X axis</label>
+                <select id="chart-x" value={draft.xKey} onChange={(e) => update({ xKey: e.target.value, yKeys: draft.yKeys.filter(key => key !== e.target.value) })} className={inputClass}>
+                  {dataSet.headers.map((header) => (
+                    <option key={header} value={header}>{header}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {pivot && (
+            <>
+              <div>
+                <span className={labelClass}>Rows</span>
+                <DimensionChips
+                  headers={dataSet.headers.filter(header => !pivot.columns.includes(header))}
+                  selected={pivot.rows}
+                  onChange={(rows) => updatePivot({ rows })}
+                />
+              </div>
+              <div>
+                <span className={labelClass}>Columns</span>
+                <DimensionChips
+                  headers={dataSet.headers.filter(header => !pivot.rows.includes(header))}
+                  selected={pivot.columns}
+                  onChange={(columns) => updatePivot({ columns })}
+                />
+              </div>
+            </>
+          )}
+
+          <div>
+            <span className={labelClass}>{isPie ? 'Value' : 'Values'}</span>
+            <div className="max-h-48 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+              {dataSet.headers.filter(header => header !== draft.xKey).map((header) => {
+                const position = draft.yKeys.indexOf(header);
+                const disabled = isScatter && !isNumericType(dataSet.schema[header]?.type);
+                return (
+                  <div key={header} className={`flex items-center gap-2 px-3 py-1.5 text-sm ${disabled ? 'opacity-40' : ''}`}>
+                    <label className="flex items-center gap-2 flex-1 min-w-0 cursor-pointer text-slate-700 dark:text-slate-200">
+                      <input
+                        type={isPie ? 'radio' : 'checkbox'}
+                        name="chart-measure"
+                        checked={position >= 0}
+                        disabled={disabled}
+                        onChange={() => toggleMeasure(header)}
+                        className="border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="truncate">{header}</span>
+                    </label>
+                    {position >= 0 && !isPie && (
+                      <input
+                        type="color"
+                        value={colors[position]}
+                        onChange={(e) => setColor(position, e.target.value)}
+                        className="w-6 h-6 rounded cursor-pointer bg-transparent"
+                        aria-label={`Colour for ${header}`}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {isPie && (
+            <div>
+              <span className={labelClass}>Slice colours</span>
+              <div className="flex flex-wrap gap-2">
+                {colors.map((color, index) => (
+                  <input
+                    key={index}
+                    type="color"
+                    value={color}
+                    onChange={(e) => setColor(index, e.target.value)}
+                    className="w-7 h-7 rounded cursor-pointer bg-transparent"
+                    aria-label={`Colour ${index + 1}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="chart-width">Width</label>
+              <select id="chart-width" value={draft.width || 1} onChange={(e) => update({ width: Number(e.target.value) as ChartSpan })} className={inputClass}>
+                <option value={1}>Half row</option>
+                <option value={2}>Full row</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="chart-height">Height</label>
+              <select id="chart-height" value={draft.height || 1} onChange={(e) => update({ height: Number(e.target.value) as ChartSpan })} className={inputClass}>
+                <option value={1}>Normal</option>
+                <option value={2}>Tall</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave}
+            className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isNew ? 'Add chart' : 'Save changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import {
   BarChart,
   Bar,
@@ -16,24 +16,68 @@ import {
   Tooltip,
   Legend,
   ResponsiveContainer,
-  Cell
+  Cell,
+  ReferenceArea,
+  ReferenceDot,
+  DotProps,
+  MouseHandlerDataParam,
+  PieSectorDataItem
 } from 'recharts';
-import { ChartConfig, ChartType, DataRow } from '../types';
-import { BarChart2, TrendingUp, Activity, PieChart as PieIcon, Dot } from 'lucide-react';
+import type { ScatterPointItem } from 'recharts/types/cartesian/Scatter';
+import { ActiveFilters, AggregationType, AnomalyMethod, AnomalySettings, CellValue, ChartConfig, ChartType, DataRow, DataSet, DateGranularity, FilterValue, RowSelection } from '../types';
+import {
+  AGGREGATION_LABELS,
+  BLANK_LABEL,
+  MAX_SCATTER_POINTS,
+  PRIOR_YEAR_SUFFIX,
+  TIME_KEY,
+  addPriorYear,
+  aggregateSeries,
+  describeDrillLevel,
+  getAggregation,
+  getAllowedAggregations,
+  getCategoryKey,
+  getCrossFilterColumn,
+  getDrillConfig,
+  getDrillPredicate,
+  getGranularity,
+  hasTimeAxis,
+  isAggregatedChart,
+  supportsScatter,
+  isTimeSeries,
+} from '../services/aggregationService';
+import { DATE_GRANULARITIES, GRANULARITY_LABELS, formatPeriodTick } from '../services/periodService';
+import { periodFilter, rangeFilter, toggleValueFilter } from '../services/filterService';
+import { selectRows } from '../services/queryService';
+import { ANOMALY_METHOD_LABELS, Anomaly, DEFAULT_THRESHOLDS, findAnomalies, resolveAnomalyMethod, supportsAnomalies } from '../services/anomalyService';
+import { PivotTable } from './PivotTable';
+import { BarChart2, TrendingUp, Activity, PieChart as PieIcon, Dot, Table2, Sheet, ChevronRight, Lightbulb, AlertCircle } from 'lucide-react';
 
 interface ChartWidgetProps {
   config: ChartConfig;
-  data: DataRow[];
+  dataSet: DataSet;
+  rows: RowSelection; // Rows left after filtering
+  comparisonRows?: RowSelection; // Rows left without the filter on the date axis, for the prior-year overlay
+  sourceLabel?: string; // Sheet name, shown when the dashboard spans several sheets
+  onConfigChange: (config: ChartConfig) => void;
+  crossFilters?: ActiveFilters; // Filters this chart set by being clicked, by column
+  onCrossFilter?: (column: string, value: FilterValue | null) => void;
   isDarkMode?: boolean;
 }
 
-const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4', '#f43f5e'];
+const selectClass = "text-xs border border-slate-200 dark:border-slate-600 rounded-md px-1.5 py-1 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+export const COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#8b5cf6', '#06b6d4', '#f43f5e'];
+const ANOMALY_COLOR = '#ef4444';
 
-const CustomTooltip = ({ active, payload, label, isDarkMode }: any) => {
+// On a time axis the label is a timestamp, so the period's own label is read from labelKey.
+// Anomalies are looked up by the point's category, read from categoryKey.
+const CustomTooltip = ({ active, payload, label, labelKey, categoryKey, anomalies, isDarkMode }: any) => {
   if (active && payload && payload.length) {
+    const flagged: Anomaly[] = (categoryKey && anomalies?.get(String(payload[0].payload?.[categoryKey]))) || [];
     return (
       <div className={`p-3 border shadow-xl rounded-lg text-sm ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-100' : 'bg-white border-slate-200 text-slate-900'}`}>
-        <p className={`font-semibold mb-2 ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{label}</p>
+        <p className={`font-semibold mb-2 ${isDarkMode ? 'text-slate-200' : 'text-slate-700'}`}>{labelKey ? payload[0].payload?.[labelKey] : label}</p>
         {payload.map((entry: any, index: number) => (
           <div key={index} className="flex items-center gap-2 mb-1 last:mb-0">
             <div className="w-3 h-3 rounded-full" style={{ backgroundColor: entry.color }} />
@@ -43,15 +87,124 @@ const CustomTooltip = ({ active, payload, label, isDarkMode }: any) => {
             </span>
           </div>
         ))}
+        {flagged.map((anomaly, index) => (
+          <p key={`anomaly-${index}`} className="mt-2 max-w-xs text-xs text-red-600 dark:text-red-400">{anomaly.reason}</p>
+        ))}
       </div>
     );
   }
   return null;
 };
 
-export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMode = false }) => {
-  const [currentType, setCurrentType] = useState<ChartType>(config.type);
+export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, dataSet, rows, comparisonRows, sourceLabel, onConfigChange, crossFilters, onCrossFilter, isDarkMode = false }) => {
+  const { schema } = dataSet;
   // Removed isHovering state as buttons should be always visible for better UX
+
+  // Drilling down: the members clicked so far, one per level above the one shown.
+  // Pivot tables show every level at once instead.
+  const isPivot = config.type === ChartType.PIVOT;
+  const drillPath = isAggregatedChart(config) && !isPivot ? config.drillPath || [] : [];
+  const [trail, setTrail] = useState<string[]>([]);
+  const drillKey = JSON.stringify(drillPath);
+  useEffect(() => setTrail([]), [drillKey]);
+  const canDrill = trail.length < drillPath.length - 1;
+
+  // Type and aggregation changes are written back to the dashboard config so they survive re-renders
+  const viewConfig = useMemo(() => getDrillConfig(config, trail.length), [config, trail.length]);
+  const viewRows = useMemo(
+    () => (trail.length > 0 ? selectRows(dataSet.columns, trail.map((member, i) => getDrillPredicate(drillPath[i], member)), rows) : rows),
+    // drillKey stands in for drillPath, which is a new array on every render
+    [dataSet, rows, trail, drillKey]
+  );
+  const categoryKey = getCategoryKey(viewConfig);
+
+  // Date categories are grouped by period; line and area charts put them on a time scale
+  const granularity = getGranularity(viewConfig, schema);
+  const timeAxis = hasTimeAxis(viewConfig, schema);
+  const canComparePrevious = config.type === ChartType.LINE && timeAxis && drillPath.length === 0;
+  const showPriorYear = canComparePrevious && !!config.comparePrevious;
+
+  const chartData = useMemo(() => {
+    const series = aggregateSeries(dataSet, viewRows, viewConfig);
+    return showPriorYear ? addPriorYear(dataSet, series, comparisonRows || viewRows, viewConfig) : series;
+  }, [dataSet, viewRows, viewConfig, showPriorYear, comparisonRows]);
+  const xAxisKey = timeAxis ? TIME_KEY : categoryKey;
+  const colorAt = (index: number) => config.colors?.[index] || COLORS[index % COLORS.length];
+
+  // Unusual points of the series shown, marked on the chart and explained in the tooltip
+  const anomalyMethod: AnomalyMethod = resolveAnomalyMethod(viewConfig, schema, chartData.length);
+  const anomalies = useMemo(() => findAnomalies(chartData, viewConfig, schema), [chartData, viewConfig, schema]);
+
+  // Clicking a category drills into it, or at the bottom of the drill path filters the
+  // other charts on it; shift-click picks several
+  const filterColumn = getCrossFilterColumn(viewConfig);
+  const crossFilter = crossFilters?.[filterColumn];
+  const picked = crossFilter?.kind === 'values' ? crossFilter.values : null;
+  const isPicked = (entry: DataRow) => !picked || picked.includes(String(entry[categoryKey]));
+  const isClickable = canDrill || !!onCrossFilter;
+  const selectValue = (value: CellValue, additive: boolean) => {
+    if (canDrill) {
+      setTrail([...trail, value === null ? BLANK_LABEL : String(value)]);
+      return;
+    }
+    if (!onCrossFilter) return;
+    if (granularity) {
+      // Periods filter on their dates; clicking the filtered period again clears it
+      const next = periodFilter(String(value), String(value), granularity);
+      const same = next?.kind === 'date' && crossFilter?.kind === 'date' && next.start === crossFilter.start && next.end === crossFilter.end;
+      onCrossFilter(filterColumn, same ? null : next);
+      return;
+    }
+    onCrossFilter(filterColumn, toggleValueFilter(crossFilter, value, additive));
+  };
+
+  // Line and area charts can be brushed: dragging across categories filters to that stretch
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+  const indexOf = (state: MouseHandlerDataParam): number | null => {
+    const index = state?.activeTooltipIndex;
+    return index === undefined || index === null || isNaN(Number(index)) ? null : Number(index);
+  };
+  // Chart-level handlers get a synthetic event; the ones recharts passes on are mouse events
+  const withShift = (event: React.SyntheticEvent) => (event as React.MouseEvent).shiftKey === true;
+  const handleBrushEnd = (state: MouseHandlerDataParam, event: React.SyntheticEvent) => {
+    if (!brush) return;
+    setBrush(null);
+    const end = indexOf(state) ?? brush.end;
+    if (end === brush.start) {
+      selectValue(chartData[end]?.[categoryKey] ?? null, withShift(event));
+      return;
+    }
+    const stretch = chartData.slice(Math.min(brush.start, end), Math.max(brush.start, end) + 1).map(entry => entry[categoryKey]);
+    onCrossFilter?.(filterColumn, granularity
+      ? periodFilter(String(stretch[0]), String(stretch[stretch.length - 1]), granularity)
+      : rangeFilter(stretch, schema[categoryKey]?.type));
+  };
+  const brushProps = isClickable ? {
+    onMouseDown: (state: MouseHandlerDataParam) => {
+      const index = indexOf(state);
+      if (index !== null) setBrush({ start: index, end: index });
+    },
+    onMouseMove: (state: MouseHandlerDataParam) => {
+      const index = indexOf(state);
+      if (brush && index !== null && index !== brush.end) setBrush({ ...brush, end: index });
+    },
+    onMouseUp: handleBrushEnd,
+    onMouseLeave: () => setBrush(null),
+    style: { cursor: 'crosshair', userSelect: 'none' as const },
+  } : {};
+  // Categories and period starts are strings or numbers; anything else can't be an axis position
+  const axisValue = (entry: DataRow | undefined): string | number | undefined => {
+    const value = entry?.[xAxisKey];
+    return typeof value === 'string' || typeof value === 'number' ? value : undefined;
+  };
+  const brushArea = brush && brush.start !== brush.end && (
+    <ReferenceArea
+      x1={axisValue(chartData[Math.min(brush.start, brush.end)])}
+      x2={axisValue(chartData[Math.max(brush.start, brush.end)])}
+      fill={isDarkMode ? '#818cf8' : '#6366f1'}
+      fillOpacity={0.15}
+    />
+  );
   
   // State for Legend Interactions
   const [hiddenSeries, setHiddenSeries] = useState<Set<string>>(new Set());
@@ -93,6 +246,48 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
     setHoveredSeries(null);
   };
 
+  const handleAggregationChange = (key: string, aggregation: AggregationType) => {
+    onConfigChange({ ...config, aggregations: { ...config.aggregations, [key]: aggregation } });
+  };
+
+  // A new method starts from its own default threshold, since thresholds of different methods aren't comparable
+  const handleAnomaliesChange = (patch: AnomalySettings) => {
+    const next = { ...config.anomalies, ...patch };
+    const isDefault = !next.method && next.threshold === undefined && !next.hidden;
+    onConfigChange({ ...config, anomalies: isDefault ? undefined : next });
+  };
+
+  // Markers for the shown series; on stacked areas they sit on top of the series below
+  const shownAnomalies = anomalies.filter(anomaly => !hiddenSeries.has(anomaly.key));
+  const anomaliesByCategory = new Map<string, Anomaly[]>();
+  shownAnomalies.forEach(anomaly => anomaliesByCategory.set(anomaly.label, [...(anomaliesByCategory.get(anomaly.label) || []), anomaly]));
+  const markerY = (anomaly: Anomaly) => config.type !== ChartType.AREA ? anomaly.value : config.yKeys
+    .slice(0, config.yKeys.indexOf(anomaly.key) + 1)
+    .filter(key => !hiddenSeries.has(key))
+    .reduce((acc, key) => acc + (Number(chartData[anomaly.index]?.[key]) || 0), 0);
+  const anomalyMarkers = shownAnomalies.map(anomaly => (
+    <ReferenceDot
+      key={`anomaly-${anomaly.key}-${anomaly.index}`}
+      x={anomaly.x}
+      y={markerY(anomaly)}
+      ifOverflow="extendDomain"
+      shape={(props: DotProps) => (
+        <circle cx={props.cx} cy={props.cy} r={8} fill={ANOMALY_COLOR} fillOpacity={0.15} stroke={ANOMALY_COLOR} strokeWidth={2}>
+          <title>{anomaly.reason}</title>
+        </circle>
+      )}
+    />
+  ));
+
+  const timeAxisProps = {
+    dataKey: TIME_KEY,
+    type: 'number' as const,
+    scale: 'time' as const,
+    domain: ['dataMin', 'dataMax'],
+    tickFormatter: (start: number) => formatPeriodTick(start, granularity!),
+    ...axisProps,
+  };
+
   const renderChart = () => {
     const legendProps = {
       wrapperStyle: { paddingTop: '20px', cursor: 'pointer' },
@@ -102,14 +297,22 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
       formatter: (value: string) => <span className={isDarkMode ? 'text-slate-300' : 'text-slate-600'}>{value}</span>
     };
 
-    switch (currentType) {
+    switch (config.type) {
       case ChartType.BAR:
         return (
-          <BarChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <BarChart
+            data={chartData}
+            margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+            onClick={isClickable ? (state: MouseHandlerDataParam, event: React.SyntheticEvent) => {
+              const index = indexOf(state);
+              if (index !== null) selectValue(chartData[index]?.[categoryKey] ?? null, withShift(event));
+            } : undefined}
+            style={isClickable ? { cursor: 'pointer' } : undefined}
+          >
             <CartesianGrid {...gridProps} />
-            <XAxis dataKey={config.xKey} {...axisProps} />
+            <XAxis dataKey={categoryKey} {...axisProps} />
             <YAxis {...axisProps} />
-            <Tooltip content={<CustomTooltip isDarkMode={isDarkMode} />} cursor={{ fill: isDarkMode ? '#1e293b' : '#f8fafc' }} />
+            <Tooltip content={<CustomTooltip isDarkMode={isDarkMode} categoryKey={categoryKey} anomalies={anomaliesByCategory} />} cursor={{ fill: isDarkMode ? '#1e293b' : '#f8fafc' }} />
             <Legend {...legendProps} />
             {config.yKeys.map((key, index) => {
               const isDimmed = hoveredSeries && hoveredSeries !== key;
@@ -117,24 +320,29 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
                 <Bar 
                   key={key} 
                   dataKey={key} 
-                  fill={COLORS[index % COLORS.length]} 
+                  fill={colorAt(index)} 
                   radius={[4, 4, 0, 0]}
                   maxBarSize={60}
                   hide={hiddenSeries.has(key)}
                   opacity={isDimmed ? 0.3 : 1}
-                />
+                >
+                  {chartData.map((entry, i) => (
+                    <Cell key={i} fillOpacity={isPicked(entry) ? 1 : 0.35} />
+                  ))}
+                </Bar>
               );
             })}
+            {anomalyMarkers}
           </BarChart>
         );
 
       case ChartType.LINE:
         return (
-          <LineChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }} {...brushProps}>
             <CartesianGrid {...gridProps} />
-            <XAxis dataKey={config.xKey} {...axisProps} />
+            {timeAxis ? <XAxis {...timeAxisProps} /> : <XAxis dataKey={categoryKey} {...axisProps} />}
             <YAxis {...axisProps} />
-            <Tooltip content={<CustomTooltip isDarkMode={isDarkMode} />} />
+            <Tooltip content={<CustomTooltip isDarkMode={isDarkMode} labelKey={timeAxis ? categoryKey : undefined} categoryKey={categoryKey} anomalies={anomaliesByCategory} />} />
             <Legend {...legendProps} />
             {config.yKeys.map((key, index) => {
               const isDimmed = hoveredSeries && hoveredSeries !== key;
@@ -143,7 +351,7 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
                   key={key} 
                   type="monotone" 
                   dataKey={key} 
-                  stroke={COLORS[index % COLORS.length]} 
+                  stroke={colorAt(index)} 
                   strokeWidth={3}
                   dot={{ r: 4, strokeWidth: 2, fill: isDarkMode ? '#1e293b' : '#fff' }}
                   activeDot={{ r: 6, strokeWidth: 0 }}
@@ -152,16 +360,37 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
                 />
               );
             })}
+            {/* Prior-year overlay - the same colour, dashed and fainter */}
+            {showPriorYear && config.yKeys.map((key, index) => {
+              const priorKey = `${key}${PRIOR_YEAR_SUFFIX}`;
+              const isDimmed = hoveredSeries && hoveredSeries !== priorKey;
+              return (
+                <Line
+                  key={priorKey}
+                  type="monotone"
+                  dataKey={priorKey}
+                  stroke={colorAt(index)}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  activeDot={{ r: 4, strokeWidth: 0 }}
+                  hide={hiddenSeries.has(priorKey)}
+                  strokeOpacity={isDimmed ? 0.1 : 0.5}
+                />
+              );
+            })}
+            {anomalyMarkers}
+            {brushArea}
           </LineChart>
         );
 
       case ChartType.AREA:
         return (
-          <AreaChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }} {...brushProps}>
             <CartesianGrid {...gridProps} />
-            <XAxis dataKey={config.xKey} {...axisProps} />
+            {timeAxis ? <XAxis {...timeAxisProps} /> : <XAxis dataKey={categoryKey} {...axisProps} />}
             <YAxis {...axisProps} />
-            <Tooltip content={<CustomTooltip isDarkMode={isDarkMode} />} />
+            <Tooltip content={<CustomTooltip isDarkMode={isDarkMode} labelKey={timeAxis ? categoryKey : undefined} categoryKey={categoryKey} anomalies={anomaliesByCategory} />} />
             <Legend {...legendProps} />
             {config.yKeys.map((key, index) => {
               const isDimmed = hoveredSeries && hoveredSeries !== key;
@@ -171,42 +400,46 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
                   type="monotone" 
                   dataKey={key} 
                   stackId="1" 
-                  stroke={COLORS[index % COLORS.length]} 
-                  fill={COLORS[index % COLORS.length]} 
+                  stroke={colorAt(index)} 
+                  fill={colorAt(index)} 
                   fillOpacity={isDimmed ? 0.1 : 0.6}
                   strokeOpacity={isDimmed ? 0.2 : 1}
                   hide={hiddenSeries.has(key)}
                 />
               );
             })}
+            {anomalyMarkers}
+            {brushArea}
           </AreaChart>
         );
 
       case ChartType.PIE:
-        const pieData = data.filter(entry => !hiddenSeries.has(String(entry[config.xKey])));
+        const pieData = chartData.filter(entry => !hiddenSeries.has(String(entry[categoryKey])));
 
         return (
           <PieChart>
             <Pie
               data={pieData}
               dataKey={config.yKeys[0]}
-              nameKey={config.xKey}
+              nameKey={categoryKey}
               cx="50%"
               cy="50%"
               innerRadius={60}
               outerRadius={100}
               fill="#8884d8"
               paddingAngle={2}
+              onClick={isClickable ? (_: PieSectorDataItem, index: number, event: React.MouseEvent) => selectValue(pieData[index]?.[categoryKey] ?? null, event.shiftKey) : undefined}
+              style={isClickable ? { cursor: 'pointer' } : undefined}
             >
               {pieData.map((entry, index) => {
-                const name = String(entry[config.xKey]);
-                const originalIndex = data.findIndex(d => String(d[config.xKey]) === name);
-                const isDimmed = hoveredSeries && hoveredSeries !== name;
+                const name = String(entry[categoryKey]);
+                const originalIndex = chartData.findIndex(d => String(d[categoryKey]) === name);
+                const isDimmed = (hoveredSeries && hoveredSeries !== name) || !isPicked(entry);
                 
                 return (
                   <Cell 
                     key={`cell-${index}`} 
-                    fill={COLORS[originalIndex % COLORS.length]} 
+                    fill={colorAt(originalIndex)} 
                     fillOpacity={isDimmed ? 0.3 : 1}
                     stroke={isDimmed ? "none" : (isDarkMode ? '#1e293b' : '#fff')}
                   />
@@ -237,10 +470,12 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
             <Legend {...legendProps} />
             <Scatter 
               name={config.title} 
-              data={data} 
-              fill={COLORS[0]} 
+              data={chartData} 
+              fill={colorAt(0)} 
               hide={hiddenSeries.has(config.title)}
               opacity={hoveredSeries && hoveredSeries !== config.title ? 0.3 : 1}
+              onClick={onCrossFilter ? (point: ScatterPointItem, _: number, event: React.MouseEvent) => selectValue(point.payload?.[config.xKey] ?? null, event.shiftKey) : undefined}
+              style={onCrossFilter ? { cursor: 'pointer' } : undefined}
             />
           </ScatterChart>
          );
@@ -256,7 +491,8 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
     { type: ChartType.AREA, icon: Activity, label: 'Area' },
     { type: ChartType.PIE, icon: PieIcon, label: 'Pie' },
     { type: ChartType.SCATTER, icon: Dot, label: 'Scatter' },
-  ];
+    { type: ChartType.PIVOT, icon: Table2, label: 'Pivot' },
+  ].filter(option => option.type !== ChartType.SCATTER || config.type === ChartType.SCATTER || supportsScatter(config, schema));
 
   return (
     <div 
@@ -265,7 +501,126 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
       <div className="mb-6 flex flex-col sm:flex-row justify-between items-start gap-4">
         <div className="flex-1">
           <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100 leading-tight">{config.title}</h3>
+          {sourceLabel && (
+            <span className="inline-flex items-center gap-1 mt-1 text-[11px] font-medium text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 px-2 py-0.5 rounded-full">
+              <Sheet className="w-3 h-3" />
+              {sourceLabel}
+            </span>
+          )}
           <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">{config.description}</p>
+
+          {/* Drill breadcrumb - each step goes back up to that level */}
+          {drillPath.length > 1 && (
+            <nav className="flex flex-wrap items-center gap-1 mt-2 text-xs" aria-label="Drill path">
+              {[describeDrillLevel(drillPath[0]), ...trail].map((crumb, i) => (
+                <React.Fragment key={i}>
+                  {i > 0 && <ChevronRight className="w-3 h-3 text-slate-400" />}
+                  {i === trail.length ? (
+                    <span className="font-semibold text-slate-700 dark:text-slate-200">{crumb}</span>
+                  ) : (
+                    <button onClick={() => setTrail(trail.slice(0, i))} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                      {crumb}
+                    </button>
+                  )}
+                </React.Fragment>
+              ))}
+              <span className="text-slate-400 dark:text-slate-500 ml-1">
+                {trail.length > 0 && `by ${describeDrillLevel(drillPath[trail.length])}`}
+                {canDrill && `${trail.length > 0 ? ' · ' : ''}click to see ${describeDrillLevel(drillPath[trail.length + 1])}`}
+              </span>
+            </nav>
+          )}
+
+          {/* Aggregation Overrides - one selector per measure, plus the period of date axes */}
+          {isAggregatedChart(config) && (
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              {isTimeSeries(viewConfig, schema) && drillPath.length === 0 && (
+                <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                  <span>Per</span>
+                  <select
+                    value={config.granularity || ''}
+                    onChange={(e) => onConfigChange({ ...config, granularity: (e.target.value || undefined) as DateGranularity | undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">Auto ({granularity && GRANULARITY_LABELS[granularity].toLowerCase()})</option>
+                    {DATE_GRANULARITIES.map((option) => (
+                      <option key={option} value={option}>{GRANULARITY_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {timeAxis && (
+                <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                  <span>Missing periods</span>
+                  <select
+                    value={config.gapFill || 'null'}
+                    onChange={(e) => onConfigChange({ ...config, gapFill: e.target.value as 'zero' | 'null' })}
+                    className={selectClass}
+                  >
+                    <option value="null">Gap</option>
+                    <option value="zero">Zero</option>
+                  </select>
+                </label>
+              )}
+              {canComparePrevious && (
+                <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!config.comparePrevious}
+                    onChange={(e) => onConfigChange({ ...config, comparePrevious: e.target.checked || undefined })}
+                    className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>vs prior year</span>
+                </label>
+              )}
+              {supportsAnomalies(config) && (
+                <label className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                  <span>Anomalies</span>
+                  <select
+                    value={config.anomalies?.hidden ? 'off' : config.anomalies?.method || ''}
+                    onChange={(e) => handleAnomaliesChange(e.target.value === 'off'
+                      ? { hidden: true }
+                      : { hidden: undefined, method: (e.target.value || undefined) as AnomalyMethod | undefined, threshold: undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">Auto ({ANOMALY_METHOD_LABELS[anomalyMethod].toLowerCase()})</option>
+                    {(Object.keys(ANOMALY_METHOD_LABELS) as AnomalyMethod[]).map((method) => (
+                      <option key={method} value={method}>{ANOMALY_METHOD_LABELS[method]}</option>
+                    ))}
+                    <option value="off">Off</option>
+                  </select>
+                  {!config.anomalies?.hidden && (
+                    <input
+                      type="number"
+                      min={0.5}
+                      step={0.5}
+                      value={config.anomalies?.threshold ?? ''}
+                      placeholder={String(DEFAULT_THRESHOLDS[anomalyMethod])}
+                      onChange={(e) => handleAnomaliesChange({ threshold: e.target.value === '' ? undefined : Math.max(0.5, Number(e.target.value)) })}
+                      className={`${selectClass} w-14`}
+                      title={anomalyMethod === 'iqr' ? 'Interquartile ranges beyond the quartiles' : 'Standard deviations from the expected value'}
+                      aria-label="Anomaly threshold"
+                    />
+                  )}
+                  {anomalies.length > 0 && <span className="text-red-600 dark:text-red-400 font-medium">{anomalies.length} found</span>}
+                </label>
+              )}
+              {config.yKeys.map((key) => (
+                <label key={key} className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                  <span className="truncate max-w-[120px]" title={key}>{key}</span>
+                  <select
+                    value={getAggregation(config, key, schema)}
+                    onChange={(e) => handleAggregationChange(key, e.target.value as AggregationType)}
+                    className={selectClass}
+                  >
+                    {getAllowedAggregations(key, schema).map((aggregation) => (
+                      <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
         </div>
         
         {/* Chart Switcher - Styled like a segmented control/toolbar */}
@@ -273,24 +628,61 @@ export const ChartWidget: React.FC<ChartWidgetProps> = ({ config, data, isDarkMo
           {chartOptions.map((option) => (
             <button
               key={option.type}
-              onClick={() => setCurrentType(option.type)}
+              onClick={() => onConfigChange({ ...config, type: option.type })}
               className={`p-1.5 rounded-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-indigo-500/50 ${
-                currentType === option.type 
+                config.type === option.type 
                   ? 'bg-white dark:bg-slate-600 text-indigo-600 dark:text-indigo-400 shadow-sm ring-1 ring-black/5 dark:ring-white/10' 
                   : 'text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-200/50 dark:hover:bg-slate-600/50'
               }`}
-              title={`Switch to ${option.label} Chart`}
+              title={`Switch to ${option.label} ${option.type === ChartType.PIVOT ? 'Table' : 'Chart'}`}
             >
               <option.icon className="w-4 h-4" />
             </button>
           ))}
         </div>
       </div>
-      <div className="flex-1 w-full min-h-[300px]">
-        <ResponsiveContainer width="100%" height="100%">
-          {renderChart()}
-        </ResponsiveContainer>
-      </div>
+      {isPivot ? (
+        <div className="flex-1 w-full min-h-[300px]">
+          <PivotTable
+            config={config}
+            dataSet={dataSet}
+            rows={rows}
+            onConfigChange={onConfigChange}
+            crossFilters={crossFilters}
+            onCrossFilter={onCrossFilter}
+          />
+        </div>
+      ) : (
+        <div className="flex-1 w-full min-h-[300px]">
+          <ResponsiveContainer width="100%" height="100%">
+            {renderChart()}
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {!isAggregatedChart(config) && viewRows.length > MAX_SCATTER_POINTS && (
+        <p className="mt-2 text-xs text-slate-400 dark:text-slate-500 text-right">
+          A random sample of {MAX_SCATTER_POINTS.toLocaleString()} of {viewRows.length.toLocaleString()} points
+        </p>
+      )}
+
+      {/* Finding from the full data; flagged when its facts don't back it */}
+      {config.insight && (
+        <div
+          className={`mt-4 flex items-start gap-2 text-xs rounded-lg px-3 py-2 ${config.insight.unsupported
+            ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200'
+            : 'bg-slate-50 dark:bg-slate-700/40 text-slate-600 dark:text-slate-300'}`}
+          title={config.insight.unsupported || 'Computed from all rows, regardless of the filters'}
+        >
+          {config.insight.unsupported
+            ? <AlertCircle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            : <Lightbulb className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-indigo-500 dark:text-indigo-400" />}
+          <span>
+            {config.insight.text}
+            {config.insight.unsupported && <span className="block mt-0.5 font-medium">Not backed by the computed statistics: {config.insight.unsupported}</span>}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
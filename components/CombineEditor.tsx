@@ -0,0 +1,374 @@
+import React, { useState, useMemo } from 'react';
+import { CombineStep, DataSet, JoinKey, JoinType } from '../types';
+import { CombineStats, JOIN_LABELS, applyCombineSteps, combineStepStats, describeCombineStep } from '../services/combineService';
+import { Sheet, Plus, Trash2, XCircle, X, TriangleAlert } from 'lucide-react';
+
+interface CombineEditorProps {
+  dataSets: DataSet[]; // Every confirmed sheet of every uploaded file
+  onConfirm: (dataSets: DataSet[]) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full text-sm border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+const labelClass = "text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5 block";
+
+const sheetName = (dataSet: DataSet) => dataSet.sheetName || dataSet.fileName;
+
+// Matching on the first column both sheets share by name, or their first columns
+const guessKeys = (left?: DataSet, right?: DataSet): JoinKey[] => {
+  if (!left || !right) return [];
+  const shared = left.headers.find(header => right.headers.some(other => other.toLowerCase() === header.toLowerCase()));
+  if (shared) return [{ left: shared, right: right.headers.find(other => other.toLowerCase() === shared.toLowerCase())! }];
+  return [{ left: left.headers[0], right: right.headers[0] }];
+};
+
+const newStep = (kind: CombineStep['kind'], sheets: DataSet[]): CombineStep => {
+  if (kind === 'union') return { kind, sheets: sheets.map(sheetName), name: 'Combined', sourceColumn: 'Source' };
+  const [left, right] = sheets;
+  return {
+    kind,
+    left: left ? sheetName(left) : '',
+    right: right ? sheetName(right) : '',
+    keys: guessKeys(left, right),
+    type: 'left',
+    name: left ? sheetName(left) : '',
+  };
+};
+
+const percent = (part: number, whole: number) => (whole === 0 ? '0%' : `${Math.round((part / whole) * 100)}%`);
+
+// Row counts of a step, and for joins how well the keys matched
+const StatsSummary = ({ stats, step }: { stats: CombineStats; step: CombineStep }) => {
+  if (stats.kind === 'union') {
+    return (
+      <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+        <div>
+          {stats.rows.map(r => `${r.sheetName}: ${r.rowCount.toLocaleString()}`).join(' + ')} = {stats.resultRows.toLocaleString()} rows
+        </div>
+        {stats.partialColumns.length > 0 && (
+          <div className="flex items-start gap-1.5 text-amber-700 dark:text-amber-400">
+            <TriangleAlert className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+            <span>Not in every sheet, so left blank for some rows: {stats.partialColumns.join(', ')}</span>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const left = step.kind === 'join' ? step.left : '';
+  const right = step.kind === 'join' ? step.right : '';
+  return (
+    <div className="text-xs text-slate-500 dark:text-slate-400 space-y-1">
+      <div>
+        {stats.matchedLeftRows.toLocaleString()} of {stats.leftRows.toLocaleString()} rows of "{left}" matched ({percent(stats.matchedLeftRows, stats.leftRows)});{' '}
+        {stats.matchedRightRows.toLocaleString()} of {stats.rightRows.toLocaleString()} rows of "{right}" matched ({percent(stats.matchedRightRows, stats.rightRows)}).
+        The result has {stats.resultRows.toLocaleString()} rows.
+      </div>
+      {stats.unmatchedLeftKeyCount > 0 && (
+        <div>
+          {stats.unmatchedLeftKeyCount.toLocaleString()} keys only in "{left}": <span className="font-mono">{stats.unmatchedLeftKeys.join(', ')}</span>
+          {stats.unmatchedLeftKeyCount > stats.unmatchedLeftKeys.length && ', …'}
+        </div>
+      )}
+      {stats.unmatchedRightKeyCount > 0 && (
+        <div>
+          {stats.unmatchedRightKeyCount.toLocaleString()} keys only in "{right}": <span className="font-mono">{stats.unmatchedRightKeys.join(', ')}</span>
+          {stats.unmatchedRightKeyCount > stats.unmatchedRightKeys.length && ', …'}
+        </div>
+      )}
+      {stats.duplicateRightKeys > 0 && (
+        <div className="flex items-start gap-1.5 text-amber-700 dark:text-amber-400">
+          <TriangleAlert className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+          <span>{stats.duplicateRightKeys.toLocaleString()} keys appear on several rows of "{right}", so matching rows of "{left}" are repeated.</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const CombineEditor: React.FC<CombineEditorProps> = ({ dataSets, onConfirm, onCancel }) => {
+  const [steps, setSteps] = useState<CombineStep[]>([]);
+  const [draft, setDraft] = useState<CombineStep | null>(null);
+
+  // Steps build the whole combined sheets, so they only rerun when a step is added or removed
+  const result = useMemo(() => applyCombineSteps(dataSets, steps), [dataSets, steps]);
+  const sheets = result.dataSets;
+
+  const check = useMemo<{ stats?: CombineStats; error?: string }>(() => {
+    if (!draft) return {};
+    try {
+      return { stats: combineStepStats(sheets, draft) };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }, [draft, sheets]);
+
+  const update = (changes: Partial<CombineStep>) => setDraft(prev => (prev ? ({ ...prev, ...changes } as CombineStep) : prev));
+  const find = (name: string) => sheets.find(d => sheetName(d) === name);
+
+  const handleAdd = () => {
+    if (!draft || check.error) return;
+    setSteps(prev => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const renderFields = (step: CombineStep) => {
+    if (step.kind === 'union') {
+      return (
+        <>
+          <div>
+            <label className={labelClass}>Sheets to stack</label>
+            <div className="flex flex-wrap gap-1.5">
+              {sheets.map((d) => {
+                const name = sheetName(d);
+                const isSelected = step.sheets.includes(name);
+                return (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => update({ sheets: isSelected ? step.sheets.filter(s => s !== name) : [...step.sheets, name] })}
+                    className={`text-xs px-2 py-0.5 rounded-md border transition-colors
+                      ${isSelected
+                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                        : 'border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700'}
+                    `}
+                  >
+                    {name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="combine-name">Combined sheet</label>
+              <input id="combine-name" type="text" value={step.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="flex items-center gap-2 text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5">
+                <input
+                  type="checkbox"
+                  checked={step.sourceColumn !== undefined}
+                  onChange={(e) => update({ sourceColumn: e.target.checked ? 'Source' : undefined })}
+                  className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500"
+                />
+                Column naming each row's sheet
+              </label>
+              <input
+                type="text"
+                value={step.sourceColumn ?? ''}
+                disabled={step.sourceColumn === undefined}
+                onChange={(e) => update({ sourceColumn: e.target.value })}
+                className={`${inputClass} disabled:opacity-50`}
+                aria-label="Source column"
+              />
+            </div>
+          </div>
+        </>
+      );
+    }
+
+    const left = find(step.left);
+    const right = find(step.right);
+    const setSheets = (changes: { left?: string; right?: string }) => {
+      const next = { left: step.left, right: step.right, ...changes };
+      update({ ...changes, keys: guessKeys(find(next.left), find(next.right)), name: step.name === step.left ? next.left : step.name });
+    };
+    const setKey = (index: number, key: JoinKey) => update({ keys: step.keys.map((k, i) => (i === index ? key : k)) });
+
+    return (
+      <>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass} htmlFor="join-left">First sheet</label>
+            <select id="join-left" value={step.left} onChange={(e) => setSheets({ left: e.target.value })} className={inputClass}>
+              {sheets.map((d) => <option key={sheetName(d)} value={sheetName(d)}>{sheetName(d)}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="join-right">Second sheet</label>
+            <select id="join-right" value={step.right} onChange={(e) => setSheets({ right: e.target.value })} className={inputClass}>
+              {sheets.map((d) => <option key={sheetName(d)} value={sheetName(d)}>{sheetName(d)}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Match rows on</label>
+          <div className="space-y-2">
+            {step.keys.map((key, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select value={key.left} onChange={(e) => setKey(index, { ...key, left: e.target.value })} className={inputClass} aria-label="Key in the first sheet">
+                  {(left?.headers || []).map((header) => <option key={header} value={header}>{header}</option>)}
+                </select>
+                <span className="text-slate-400">=</span>
+                <select value={key.right} onChange={(e) => setKey(index, { ...key, right: e.target.value })} className={inputClass} aria-label="Key in the second sheet">
+                  {(right?.headers || []).map((header) => <option key={header} value={header}>{header}</option>)}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => update({ keys: step.keys.filter((_, i) => i !== index) })}
+                  className="p-1 rounded-md text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                  title="Remove key"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {left && right && (
+            <button
+              type="button"
+              onClick={() => update({ keys: [...step.keys, { left: left.headers[0], right: right.headers[0] }] })}
+              className="flex items-center gap-1 mt-2 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add a key column
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass} htmlFor="join-type">Keep</label>
+            <select id="join-type" value={step.type} onChange={(e) => update({ type: e.target.value as JoinType })} className={inputClass}>
+              {Object.entries<string>(JOIN_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass} htmlFor="combine-name">Combined sheet</label>
+            <input id="combine-name" type="text" value={step.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+          </div>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mt-10 text-left animate-fade-in">
+      <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">Combine sheets</h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-5">
+        Stack sheets that share columns, or join them on a key column. A combined sheet replaces the sheets it was made from.
+        Continue without steps to keep the sheets separate.
+      </p>
+
+      {/* Sheets that go on to the analysis */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {sheets.map((d) => (
+          <span
+            key={sheetName(d)}
+            className="flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-full border border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300"
+            title={d.headers.join(', ')}
+          >
+            <Sheet className="w-3.5 h-3.5 text-indigo-600 dark:text-indigo-400" />
+            {sheetName(d)}
+            <span className="font-normal text-slate-400 dark:text-slate-500">
+              {d.rowCount.toLocaleString()} rows · {d.headers.length} columns
+            </span>
+          </span>
+        ))}
+      </div>
+
+      {steps.length > 0 && (
+        <ol className="mb-4 border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+          {steps.map((step, index) => {
+            const outcome = result.outcomes[index];
+            return (
+              <li key={index} className="flex items-start gap-3 px-3 py-2 text-sm">
+                <span className="text-xs font-mono text-slate-400 mt-0.5 w-5 text-right">{index + 1}</span>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className={outcome.error ? 'text-slate-400 dark:text-slate-500 line-through' : 'text-slate-700 dark:text-slate-200'}>
+                    {describeCombineStep(step)}
+                  </div>
+                  {outcome.error && <div className="text-xs text-red-600 dark:text-red-400">Skipped: {outcome.error}</div>}
+                  {outcome.stats && <StatsSummary stats={outcome.stats} step={step} />}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                  className="p-1 rounded-md text-slate-400 hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400"
+                  title="Remove step"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {draft ? (
+        <div className="mb-4 p-4 border border-indigo-200 dark:border-indigo-900/60 rounded-lg space-y-3">
+          <div className="flex gap-2">
+            {(['union', 'join'] as const).map((kind) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setDraft(newStep(kind, sheets))}
+                className={`text-xs font-medium px-3 py-1.5 rounded-full border transition-colors
+                  ${draft.kind === kind
+                    ? 'bg-indigo-600 border-indigo-600 text-white'
+                    : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}
+                `}
+              >
+                {kind === 'union' ? 'Stack rows' : 'Join on a key'}
+              </button>
+            ))}
+          </div>
+          {renderFields(draft)}
+          {check.error ? (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{check.error}</span>
+            </div>
+          ) : check.stats && <StatsSummary stats={check.stats} step={draft} />}
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-3 py-1.5 rounded-lg transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!!check.error}
+              className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-3 py-1.5 rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Combine
+            </button>
+          </div>
+        </div>
+      ) : sheets.length > 1 && (
+        <button
+          type="button"
+          onClick={() => setDraft(newStep('join', sheets))}
+          className="flex items-center gap-1.5 mb-4 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          Combine sheets
+        </button>
+      )}
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(sheets)}
+          className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Continue with {sheets.length} {sheets.length === 1 ? 'sheet' : 'sheets'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,21 @@
-import React, { useState, useEffect } from 'react';
-import { DashboardConfig, DataRow } from '../types';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ActiveFilters, CalculatedField, ChartConfig, ChartSpan, DashboardConfig, DataSet, FilterCombinator, FilterValue, Insight, KpiConfig, RowSelection, StatFact } from '../types';
 import { ChartWidget } from './ChartWidget';
+import { ChartEditor, createChartConfig, nextChartId } from './ChartEditor';
+import { AskPanel } from './AskPanel';
+import { AnomalyPanel } from './AnomalyPanel';
+import { KpiCard, createKpiConfig } from './KpiCard';
+import { FormulaEditor } from './FormulaEditor';
 import { FilterPanel } from './FilterPanel';
-import { LayoutDashboard, FileText, BarChart2, Download, Loader2 } from 'lucide-react';
+import { applyFilters, describeFilter } from '../services/filterService';
+import { findDataSet } from '../services/dataService';
+import { getCategoryKey } from '../services/aggregationService';
+import { getCellValue } from '../services/queryService';
+import { createTemplate } from '../services/templateService';
+import { applyCalculatedFields } from '../services/formulaService';
+import { Anomaly, findChartAnomalies } from '../services/anomalyService';
+import { AnsweredQuestion } from '../services/providerService';
+import { LayoutDashboard, FileText, BarChart2, Download, Loader2, Info, Pencil, Check, Plus, Trash2, GripVertical, MoveHorizontal, MoveVertical, Save, LayoutTemplate, MousePointerClick, X, Sigma } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 
@@ -11,20 +24,111 @@ import { jsPDF } from 'jspdf';
 
 interface DashboardProps {
   config: DashboardConfig;
-  data: DataRow[];
+  dataSets: DataSet[];
   fileName: string;
+  notices?: string[];
+  initialFilters?: ActiveFilters; // Filters of a reopened dashboard
+  initialCombinator?: FilterCombinator;
+  savedVersion?: number; // Library version currently shown, if the dashboard was saved
+  onSave: (config: DashboardConfig, filters: ActiveFilters, combinator: FilterCombinator) => Promise<void>;
   onReset: () => void;
+  onAsk?: (dataSets: DataSet[], question: string, fields: CalculatedField[]) => Promise<AnsweredQuestion>; // Left out when questions can't be answered
+  previewQuestion?: (dataSets: DataSet[], question: string, fields: CalculatedField[]) => string; // Given in privacy mode, where each prompt is confirmed before it is sent
   isDarkMode: boolean;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ config, data, fileName, onReset, isDarkMode }) => {
-  const [filteredData, setFilteredData] = useState<DataRow[]>(data);
+export const Dashboard: React.FC<DashboardProps> = ({ config, dataSets: loadedDataSets, fileName, notices = [], initialFilters, initialCombinator = 'and', savedVersion, onSave, onReset, onAsk, previewQuestion, isDarkMode }) => {
+  const [activeFilters, setActiveFilters] = useState<ActiveFilters>(initialFilters || {});
+  const [combinator, setCombinator] = useState<FilterCombinator>(initialCombinator);
+  // Filters set by clicking a chart: column -> id of that chart. They sit in
+  // activeFilters like any other filter, but don't apply to their own chart.
+  const [crossFilters, setCrossFilters] = useState<Record<string, string>>({});
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
 
-  // Reset filtered data when the underlying dataset changes (e.g. new file upload)
+  // The dashboard owns its config from here on, so edits survive filtering
+  const [dashboard, setDashboard] = useState<DashboardConfig>(config);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingChart, setEditingChart] = useState<ChartConfig | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [isEditingFields, setIsEditingFields] = useState(false);
+
+  useEffect(() => {
+    setDashboard(config);
+    setIsEditing(false);
+  }, [config]);
+
+  // Reset filters when the underlying datasets change (e.g. new file upload or reopened dashboard)
   useEffect(() => {
-    setFilteredData(data);
-  }, [data]);
+    setActiveFilters(initialFilters || {});
+    setCombinator(initialCombinator);
+    setCrossFilters({});
+  }, [loadedDataSets, initialFilters, initialCombinator]);
+
+  // Everything below works on the data with the calculated fields added as columns
+  const { dataSets, errors: fieldErrors } = useMemo(
+    () => applyCalculatedFields(loadedDataSets, dashboard.calculatedFields),
+    [loadedDataSets, dashboard.calculatedFields]
+  );
+  const allNotices = [
+    ...notices,
+    ...fieldErrors.map(({ field, message }) => `Calculated field "${field.name}" was left out: ${message}`),
+  ];
+
+  // Indices of the rows passing the filters, per sheet in the same order as dataSets
+  const selections = useMemo<RowSelection[]>(
+    () => dataSets.map((dataSet: DataSet) => applyFilters(dataSet, activeFilters, combinator)),
+    [dataSets, activeFilters, combinator]
+  );
+
+  // Charts that set cross-filters see the data without them, so their other categories stay clickable
+  const ownSelections = useMemo<Record<string, RowSelection>>(() => {
+    const result: Record<string, RowSelection> = {};
+    dashboard.charts.forEach((chart: ChartConfig) => {
+      const own = Object.keys(crossFilters).filter(column => crossFilters[column] === chart.id);
+      if (own.length === 0) return;
+      const filters = { ...activeFilters };
+      own.forEach(column => delete filters[column]);
+      result[chart.id] = applyFilters(findDataSet(dataSets, chart.sheetName), filters, combinator);
+    });
+    return result;
+  }, [dashboard.charts, dataSets, activeFilters, crossFilters, combinator]);
+
+  // Period comparisons reach outside the filtered dates: rows passing every filter but the one
+  // on the date column, keyed by sheet and column. Without such a filter the plain selection serves.
+  const comparisonSelections = useMemo<Record<string, RowSelection>>(() => {
+    const result: Record<string, RowSelection> = {};
+    const add = (sheetName: string | undefined, column: string) => {
+      const key = `${sheetName ?? ''}\u0000${column}`;
+      if (!activeFilters[column] || result[key]) return;
+      const filters = { ...activeFilters };
+      delete filters[column];
+      result[key] = applyFilters(findDataSet(dataSets, sheetName), filters, combinator);
+    };
+    dashboard.charts.filter(chart => chart.comparePrevious).forEach(chart => add(chart.sheetName, getCategoryKey(chart)));
+    (dashboard.kpis || []).forEach(kpi => add(kpi.sheetName, kpi.dateKey));
+    return result;
+  }, [dashboard.charts, dashboard.kpis, dataSets, activeFilters, combinator]);
+  const comparisonRowsFor = (sheetName: string | undefined, column: string): RowSelection | undefined =>
+    comparisonSelections[`${sheetName ?? ''}\u0000${column}`];
+
+  // Unusual points of every chart, computed on the rows each chart shows, most unusual first
+  const anomalies = useMemo<Anomaly[]>(
+    () => dashboard.charts
+      .flatMap((chart: ChartConfig) => {
+        const source = findDataSet(dataSets, chart.sheetName);
+        return findChartAnomalies(source, ownSelections[chart.id] || selections[dataSets.indexOf(source)], chart);
+      })
+      .sort((a, b) => b.severity - a.severity),
+    [dashboard.charts, dataSets, selections, ownSelections]
+  );
+  const scrollToChart = (chartId: string) =>
+    document.getElementById(`chart-${chartId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+  const totalRows = dataSets.reduce((acc: number, dataSet: DataSet) => acc + dataSet.rowCount, 0);
+  const filteredRows = selections.reduce((acc: number, rows: RowSelection) => acc + rows.length, 0);
+  const isMultiSheet = dataSets.length > 1;
+  const canAddKpi = useMemo(() => createKpiConfig(dataSets, []) !== null, [dataSets]);
 
   const handleDownloadPDF = async () => {
     const element = document.getElementById('dashboard-content');
@@ -74,47 +178,59 @@ export const Dashboard: React.FC<DashboardProps> = ({ config, data, fileName, on
 
     // Add Summary/Title
     doc.setFontSize(18);
-    doc.text(config.title, 14, 22);
+    doc.text(dashboard.title, 14, 22);
 
     doc.setFontSize(11);
     doc.setTextColor(100);
     const dateStr = new Date().toLocaleDateString();
     doc.text(`File: ${fileName} | Generated: ${dateStr}`, 14, 30);
 
-    // Prepare Data
-    if (filteredData.length === 0) {
+    // Prepare Data - one table per sheet that still has rows
+    const exportSets = dataSets
+      .map((dataSet: DataSet, index: number) => ({ dataSet, rows: selections[index] }))
+      .filter(({ rows }) => rows.length > 0);
+    if (exportSets.length === 0) {
       alert("No data to export");
       return;
     }
 
-    const tableColumn = Object.keys(filteredData[0]);
-    const tableRows = filteredData.map(row => Object.values(row));
-
     try {
       // Dynamic import to avoid breaking the main bundle if the library has issues
       const autoTableModule = await import('jspdf-autotable');
       const autoTable = autoTableModule.default || (autoTableModule as any);
 
-      // Sometimes it attaches to jsPDF prototype, sometimes it's a function.
-      // We check if it modified the prototype or if we need to call it.
-      if (typeof (doc as any).autoTable === 'function') {
-        (doc as any).autoTable({
-          head: [tableColumn],
-          body: tableRows as any[],
-          startY: 35,
-          styles: { fontSize: 8 },
-          headStyles: { fillColor: [79, 70, 229] },
-        });
-      } else {
-        // Fallback if it exports a function directly (less common with this lib recent versions but possible)
-        autoTable(doc, {
-          head: [tableColumn],
-          body: tableRows as any[],
-          startY: 35,
+      exportSets.forEach(({ dataSet, rows }, index) => {
+        let startY = 35;
+        if (index > 0) {
+          doc.addPage();
+          startY = 20;
+        }
+        if (isMultiSheet) {
+          doc.setFontSize(13);
+          doc.setTextColor(40);
+          doc.text(dataSet.sheetName || dataSet.fileName, 14, startY);
+          startY += 5;
+        }
+
+        const tableOptions = {
+          head: [dataSet.headers],
+          body: Array.from(rows, (row: number) =>
+            dataSet.headers.map(header => getCellValue(dataSet.columns.columns[header], row))
+          ) as any[],
+          startY,
           styles: { fontSize: 8 },
           headStyles: { fillColor: [79, 70, 229] },
-        });
-      }
+        };
+
+        // Sometimes it attaches to jsPDF prototype, sometimes it's a function.
+        // We check if it modified the prototype or if we need to call it.
+        if (typeof (doc as any).autoTable === 'function') {
+          (doc as any).autoTable(tableOptions);
+        } else {
+          // Fallback if it exports a function directly (less common with this lib recent versions but possible)
+          autoTable(doc, tableOptions as any);
+        }
+      });
 
       doc.save(`${fileName.split('.')[0]}_data.pdf`);
 
@@ -124,8 +240,108 @@ export const Dashboard: React.FC<DashboardProps> = ({ config, data, fileName, on
     }
   };
 
-  const handleFilterChange = (newData: DataRow[]) => {
-    setFilteredData(newData);
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(dashboard, activeFilters, combinator);
+    } catch (error: any) {
+      console.error('Failed to save dashboard', error);
+      alert(`Failed to save the dashboard: ${error.message || 'unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The template keeps the current layout and edits, so the next export can be laid out the same way
+  const handleDownloadTemplate = () => {
+    const template = createTemplate(dashboard, dataSets);
+    const blob = new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.split('.')[0]}_template.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // A filter changed from the panel is no longer tied to the chart it was clicked on
+  const handleFiltersChange = (filters: ActiveFilters) => {
+    setActiveFilters(filters);
+    setCrossFilters(prev => Object.fromEntries(Object.entries(prev).filter(([column]) => filters[column] === activeFilters[column])));
+  };
+
+  const handleCrossFilter = (chartId: string, column: string, value: FilterValue | null) => {
+    const next = { ...activeFilters };
+    const sources = { ...crossFilters };
+    if (value) {
+      next[column] = value;
+      sources[column] = chartId;
+    } else {
+      delete next[column];
+      delete sources[column];
+    }
+    setActiveFilters(next);
+    setCrossFilters(sources);
+  };
+
+  const updateChart = (chart: ChartConfig) => {
+    setDashboard(prev => ({ ...prev, charts: prev.charts.map(c => (c.id === chart.id ? chart : c)) }));
+  };
+
+  // Cross-filters go away with the chart they were clicked on
+  const removeChart = (id: string) => {
+    setDashboard(prev => ({ ...prev, charts: prev.charts.filter(c => c.id !== id) }));
+    const owned = Object.keys(crossFilters).filter(column => crossFilters[column] === id);
+    if (owned.length > 0) {
+      const next = { ...activeFilters };
+      owned.forEach(column => delete next[column]);
+      handleFiltersChange(next);
+    }
+  };
+
+  const updateKpi = (kpi: KpiConfig) => {
+    setDashboard(prev => ({ ...prev, kpis: (prev.kpis || []).map(k => (k.id === kpi.id ? kpi : k)) }));
+  };
+
+  const removeKpi = (id: string) => {
+    setDashboard(prev => ({ ...prev, kpis: (prev.kpis || []).filter(k => k.id !== id) }));
+  };
+
+  const addKpi = () => {
+    const kpi = createKpiConfig(dataSets, dashboard.kpis || []);
+    if (kpi) setDashboard(prev => ({ ...prev, kpis: [...(prev.kpis || []), kpi] }));
+  };
+
+  // Charts pinned from an answer get a fresh id, as the answer's own may be taken
+  const pinChart = (chart: ChartConfig) => {
+    setDashboard(prev => ({ ...prev, charts: [...prev.charts, { ...chart, id: nextChartId(prev.charts) }] }));
+  };
+
+  // Saving from the editor either replaces an existing chart or appends a new one
+  const handleEditorSave = (chart: ChartConfig) => {
+    setDashboard(prev => prev.charts.some(c => c.id === chart.id)
+      ? { ...prev, charts: prev.charts.map(c => (c.id === chart.id ? chart : c)) }
+      : { ...prev, charts: [...prev.charts, chart] });
+    setEditingChart(null);
+  };
+
+  // Dropping a chart onto another moves it into that chart's slot
+  const handleDrop = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+    setDashboard(prev => {
+      const charts = [...prev.charts];
+      const from = charts.findIndex(c => c.id === draggedId);
+      const to = charts.findIndex(c => c.id === targetId);
+      const [moved] = charts.splice(from, 1);
+      charts.splice(to, 0, moved);
+      return { ...prev, charts };
+    });
+    setDraggedId(null);
+  };
+
+  const toggleSpan = (chart: ChartConfig, dimension: 'width' | 'height') => {
+    const span: ChartSpan = chart[dimension] === 2 ? 1 : 2;
+    updateChart({ ...chart, [dimension]: span });
   };
 
   return (
@@ -138,18 +354,57 @@ export const Dashboard: React.FC<DashboardProps> = ({ config, data, fileName, on
               <LayoutDashboard className="w-6 h-6 text-indigo-700 dark:text-indigo-400" />
             </div>
             <div>
-              <h1 className="text-xl font-bold text-slate-900 dark:text-white">{config.title}</h1>
+              <h1 className="text-xl font-bold text-slate-900 dark:text-white">{dashboard.title}</h1>
               <div className="flex items-center text-xs text-slate-500 dark:text-slate-400 gap-2">
                 <FileText className="w-3 h-3" />
                 <span>{fileName}</span>
                 <span className="w-1 h-1 rounded-full bg-slate-300 dark:bg-slate-600"></span>
                 <BarChart2 className="w-3 h-3" />
-                <span>{filteredData.length} / {data.length} rows</span>
+                <span>{filteredRows} / {totalRows} rows</span>
+                {isMultiSheet && (
+                  <>
+                    <span className="w-1 h-1 rounded-full bg-slate-300 dark:bg-slate-600"></span>
+                    <span>{dataSets.length} sheets</span>
+                  </>
+                )}
+                {savedVersion !== undefined && (
+                  <>
+                    <span className="w-1 h-1 rounded-full bg-slate-300 dark:bg-slate-600"></span>
+                    <span>Saved v{savedVersion}</span>
+                  </>
+                )}
               </div>
             </div>
           </div>
 
           <div className="flex items-center gap-3 pr-12 sm:pr-0">
+            <button
+              onClick={() => setIsEditing(!isEditing)}
+              className={`flex items-center gap-2 border px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                isEditing
+                  ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 border-indigo-200 dark:border-indigo-800'
+                  : 'bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400'
+              }`}
+            >
+              {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+              {isEditing ? 'Done' : 'Edit Layout'}
+            </button>
+            <button
+              onClick={() => setIsEditingFields(true)}
+              title="Add columns computed from a formula"
+              className="flex items-center gap-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              <Sigma className="w-4 h-4" />
+              Fields
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              {savedVersion !== undefined ? 'Save Version' : 'Save'}
+            </button>
             <button
               onClick={handleDownloadPDF}
               disabled={isDownloading}
@@ -169,6 +424,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ config, data, fileName, on
               <FileText className="w-4 h-4" />
               Export Data
             </button>
+            <button
+              onClick={handleDownloadTemplate}
+              title="Download a template to lay out files with the same columns the same way"
+              className="flex items-center gap-2 bg-white dark:bg-slate-800 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              <LayoutTemplate className="w-4 h-4" />
+              Export Template
+            </button>
             <button
               onClick={onReset}
               className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow"
@@ -186,43 +449,229 @@ export const Dashboard: React.FC<DashboardProps> = ({ config, data, fileName, on
           <div className="bg-gradient-to-r from-indigo-600 to-purple-600 dark:from-indigo-800 dark:to-purple-900 rounded-2xl p-6 sm:p-10 shadow-lg text-white">
             <h2 className="text-2xl font-bold mb-3">Executive Summary</h2>
             <p className="text-indigo-100 dark:text-indigo-200 text-lg leading-relaxed max-w-4xl opacity-90">
-              {config.summary}
+              {dashboard.insights ? dashboard.insights.map((insight: Insight, index: number) => (
+                <React.Fragment key={index}>
+                  {index > 0 && ' '}
+                  {/* Sentences the cited facts don't back are underlined, with the reason on hover */}
+                  <span
+                    className={insight.unsupported ? 'underline decoration-dotted decoration-amber-300 underline-offset-4 cursor-help' : undefined}
+                    title={insight.unsupported
+                      ? `Not backed by the computed statistics: ${insight.unsupported}`
+                      : (dashboard.facts || []).filter((fact: StatFact) => insight.factIds.includes(fact.id)).map((fact: StatFact) => fact.text).join('\n')}
+                  >
+                    {insight.text}
+                  </span>
+                </React.Fragment>
+              )) : dashboard.summary}
             </p>
           </div>
         </div>
 
+        {/* Notices about how the dashboard was produced */}
+        {allNotices.length > 0 && (
+          <div data-html2canvas-ignore="true" className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-6">
+            <div className="p-4 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-200 rounded-lg text-sm border border-amber-100 dark:border-amber-900/50 space-y-1">
+              {allNotices.map((notice: string, index: number) => (
+                <div key={index} className="flex items-start gap-2">
+                  <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{notice}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Filter Section */}
         <div data-html2canvas-ignore="true" className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-8">
-          <FilterPanel data={data} onFilterChange={handleFilterChange} />
+          <FilterPanel
+            dataSets={dataSets}
+            activeFilters={activeFilters}
+            combinator={combinator}
+            onFiltersChange={handleFiltersChange}
+            onCombinatorChange={setCombinator}
+          />
         </div>
 
+        {/* Questions answered on the full data */}
+        {onAsk && (
+          <div data-html2canvas-ignore="true" className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <AskPanel
+              dataSets={dataSets}
+              onAsk={(question) => onAsk(dataSets, question, dashboard.calculatedFields || [])}
+              previewPrompt={previewQuestion && ((question) => previewQuestion(dataSets, question, dashboard.calculatedFields || []))}
+              onPin={pinChart}
+              isDarkMode={isDarkMode}
+            />
+          </div>
+        )}
+
+        {/* Unusual points across the charts, each linking to its chart */}
+        {filteredRows > 0 && anomalies.length > 0 && (
+          <div data-html2canvas-ignore="true" className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <AnomalyPanel anomalies={anomalies} charts={dashboard.charts} onSelect={scrollToChart} />
+          </div>
+        )}
+
         {/* Charts Grid */}
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-4">
-          {filteredData.length === 0 ? (
+          {/* Cross-filter chips - one per filter set by clicking a chart */}
+          {Object.keys(crossFilters).length > 0 && (
+            <div data-html2canvas-ignore="true" className="flex flex-wrap items-center gap-2 mb-4">
+              <span className="flex items-center gap-1 text-xs text-slate-500 dark:text-slate-400">
+                <MousePointerClick className="w-3.5 h-3.5" />
+                Filtered from charts:
+              </span>
+              {Object.entries<string>(crossFilters).filter(([column]) => activeFilters[column]).map(([column, chartId]) => (
+                <span
+                  key={column}
+                  className="inline-flex items-center gap-1 max-w-xs text-xs text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800 pl-2.5 pr-1 py-1 rounded-full"
+                  title={`From "${dashboard.charts.find(c => c.id === chartId)?.title || 'a chart'}"`}
+                >
+                  <span className="truncate"><span className="font-semibold">{column}</span>: {describeFilter(activeFilters[column])}</span>
+                  <button
+                    onClick={() => handleCrossFilter(chartId, column, null)}
+                    className="p-0.5 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-800"
+                    aria-label={`Remove filter on ${column}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {filteredRows === 0 ? (
             <div className="flex flex-col items-center justify-center p-20 bg-white dark:bg-slate-800 rounded-xl border border-dashed border-slate-300 dark:border-slate-700">
               <p className="text-slate-500 dark:text-slate-400 font-medium">No data matches your filters.</p>
               <button
-                onClick={() => handleFilterChange(data)}
+                onClick={() => handleFiltersChange({})}
                 className="mt-2 text-indigo-600 dark:text-indigo-400 hover:underline text-sm"
               >
                 Reset Filters
               </button>
             </div>
           ) : (
+            <>
+            {/* KPI cards - headline numbers against an earlier period */}
+            {((dashboard.kpis?.length || 0) > 0 || (isEditing && canAddKpi)) && (
+              <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+                {(dashboard.kpis || []).map((kpi: KpiConfig) => {
+                  const source = findDataSet(dataSets, kpi.sheetName);
+                  return (
+                    <KpiCard
+                      key={kpi.id}
+                      kpi={kpi}
+                      dataSet={source}
+                      rows={selections[dataSets.indexOf(source)]}
+                      comparisonRows={comparisonRowsFor(kpi.sheetName, kpi.dateKey)}
+                      onChange={updateKpi}
+                      onRemove={isEditing ? () => removeKpi(kpi.id) : undefined}
+                    />
+                  );
+                })}
+                {isEditing && canAddKpi && (
+                  <button
+                    data-html2canvas-ignore="true"
+                    onClick={addKpi}
+                    className="min-h-[120px] flex flex-col items-center justify-center gap-1 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                  >
+                    <Plus className="w-6 h-6" />
+                    <span className="text-sm font-medium">Add KPI</span>
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-6 auto-rows-fr">
-              {config.charts.map((chartConfig) => (
-                <div key={chartConfig.id} className="min-h-[400px]">
-                  <ChartWidget
-                    config={chartConfig}
-                    data={filteredData}
-                    isDarkMode={isDarkMode}
-                  />
-                </div>
-              ))}
+              {dashboard.charts.map((chartConfig) => {
+                const source = findDataSet(dataSets, chartConfig.sheetName);
+                const rows = ownSelections[chartConfig.id] || selections[dataSets.indexOf(source)];
+                const ownFilters = Object.fromEntries(
+                  Object.keys(crossFilters).filter(column => crossFilters[column] === chartConfig.id).map(column => [column, activeFilters[column]])
+                );
+                const spanClass = `${chartConfig.width === 2 ? 'md:col-span-2' : ''} ${chartConfig.height === 2 ? 'md:row-span-2 min-h-[824px]' : 'min-h-[400px]'}`;
+                return (
+                  <div
+                    key={chartConfig.id}
+                    id={`chart-${chartConfig.id}`}
+                    className={`${spanClass} flex flex-col ${isEditing ? 'rounded-xl outline-2 outline-dashed outline-offset-4 outline-indigo-300 dark:outline-indigo-700' : ''} ${draggedId === chartConfig.id ? 'opacity-50' : ''}`}
+                    draggable={isEditing}
+                    onDragStart={() => setDraggedId(chartConfig.id)}
+                    onDragEnd={() => setDraggedId(null)}
+                    onDragOver={(e) => isEditing && e.preventDefault()}
+                    onDrop={() => handleDrop(chartConfig.id)}
+                  >
+                    {/* Edit Toolbar - drag handle, resize, edit and delete */}
+                    {isEditing && (
+                      <div data-html2canvas-ignore="true" className="flex items-center gap-1 px-2 py-1.5 text-slate-500 dark:text-slate-400">
+                        <GripVertical className="w-4 h-4 cursor-grab" />
+                        <span className="text-xs flex-1 truncate">Drag to reorder</span>
+                        <button onClick={() => toggleSpan(chartConfig, 'width')} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400" title={chartConfig.width === 2 ? 'Half width' : 'Full width'}>
+                          <MoveHorizontal className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => toggleSpan(chartConfig, 'height')} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400" title={chartConfig.height === 2 ? 'Normal height' : 'Double height'}>
+                          <MoveVertical className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setEditingChart(chartConfig)} className="p-1.5 rounded-md hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400" title="Edit chart">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => removeChart(chartConfig.id)} className="p-1.5 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400" title="Delete chart">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                    <div className="flex-1">
+                      <ChartWidget
+                        config={chartConfig}
+                        dataSet={source}
+                        rows={rows}
+                        comparisonRows={chartConfig.comparePrevious ? comparisonRowsFor(chartConfig.sheetName, getCategoryKey(chartConfig)) : undefined}
+                        sourceLabel={isMultiSheet ? source.sheetName : undefined}
+                        onConfigChange={updateChart}
+                        crossFilters={ownFilters}
+                        onCrossFilter={isEditing ? undefined : (column, value) => handleCrossFilter(chartConfig.id, column, value)}
+                        isDarkMode={isDarkMode}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+
+              {isEditing && (
+                <button
+                  data-html2canvas-ignore="true"
+                  onClick={() => setEditingChart(createChartConfig(dataSets, dashboard.charts))}
+                  className="min-h-[400px] flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-slate-300 dark:border-slate-700 text-slate-500 dark:text-slate-400 hover:border-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                >
+                  <Plus className="w-8 h-8" />
+                  <span className="text-sm font-medium">Add chart</span>
+                </button>
+              )}
             </div>
+            </>
           )}
         </div>
       </div>
+
+      {isEditingFields && (
+        <FormulaEditor
+          config={dashboard}
+          dataSets={loadedDataSets}
+          onChange={(calculatedFields: CalculatedField[]) => setDashboard(prev => ({ ...prev, calculatedFields }))}
+          onClose={() => setIsEditingFields(false)}
+        />
+      )}
+
+      {editingChart && (
+        <ChartEditor
+          key={editingChart.id}
+          chart={editingChart}
+          dataSets={dataSets}
+          isNew={!dashboard.charts.some(c => c.id === editingChart.id)}
+          onSave={handleEditorSave}
+          onCancel={() => setEditingChart(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { DashboardVersion, SavedDashboard } from '../types';
+import { deleteDashboard, duplicateDashboard, listDashboards, renameDashboard } from '../services/storageService';
+import { Library, FolderOpen, Pencil, Copy, Trash2, History, Check, X } from 'lucide-react';
+
+interface DashboardLibraryProps {
+  onOpen: (id: string, version?: number) => void;
+  disabled?: boolean;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const iconButtonClass = "p-1.5 rounded-md text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors disabled:opacity-50";
+
+export const DashboardLibrary: React.FC<DashboardLibraryProps> = ({ onOpen, disabled = false }) => {
+  const [dashboards, setDashboards] = useState<SavedDashboard[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setDashboards(await listDashboards());
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not load saved dashboards');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Runs a library operation and reloads the list, surfacing failures inline
+  const run = async (operation: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await operation();
+      await refresh();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'The operation failed');
+    }
+  };
+
+  const startRename = (dashboard: SavedDashboard) => {
+    setRenamingId(dashboard.id);
+    setNameDraft(dashboard.name);
+  };
+
+  const confirmRename = (id: string) => {
+    const name = nameDraft.trim();
+    setRenamingId(null);
+    if (name) run(() => renameDashboard(id, name));
+  };
+
+  const handleDelete = (dashboard: SavedDashboard) => {
+    if (window.confirm(`Delete "${dashboard.name}" and all of its versions?`)) {
+      run(() => deleteDashboard(dashboard.id));
+    }
+  };
+
+  if (dashboards.length === 0 && !error) return null;
+
+  return (
+    <div className="mt-8 text-left">
+      <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-700 dark:text-slate-200 mb-3">
+        <Library className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+        Saved dashboards
+      </h3>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-200 rounded-lg text-sm border border-red-100 dark:border-red-900/50">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+        {dashboards.map((dashboard) => {
+          const isRenaming = renamingId === dashboard.id;
+          const showHistory = historyId === dashboard.id;
+          const latest = dashboard.versions[dashboard.versions.length - 1];
+          return (
+            <div key={dashboard.id} className="border border-slate-200 dark:border-slate-700 rounded-lg">
+              <div className="flex items-center gap-2 p-3">
+                <div className="min-w-0 flex-1">
+                  {isRenaming ? (
+                    <div className="flex items-center gap-1">
+                      <input
+                        autoFocus
+                        type="text"
+                        value={nameDraft}
+                        onChange={(e) => setNameDraft(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') confirmRename(dashboard.id);
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 text-sm border border-slate-200 dark:border-slate-600 rounded-md px-2 py-1 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        aria-label="Dashboard name"
+                      />
+                      <button onClick={() => confirmRename(dashboard.id)} className={iconButtonClass} title="Save name">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setRenamingId(null)} className={iconButtonClass} title="Cancel">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => onOpen(dashboard.id)}
+                      disabled={disabled}
+                      className="block max-w-full truncate text-sm font-semibold text-slate-800 dark:text-slate-100 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50"
+                    >
+                      {dashboard.name}
+                    </button>
+                  )}
+                  <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5 truncate">
+                    {dashboard.fileName} · {dashboard.rowCount} rows
+                    {dashboard.sheetCount > 1 && ` · ${dashboard.sheetCount} sheets`} · saved {formatDate(dashboard.updatedAt)}
+                  </p>
+                </div>
+
+                <button onClick={() => onOpen(dashboard.id)} disabled={disabled} className={iconButtonClass} title="Open">
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+                <button onClick={() => startRename(dashboard)} className={iconButtonClass} title="Rename">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => run(() => duplicateDashboard(dashboard.id))} className={iconButtonClass} title="Duplicate">
+                  <Copy className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setHistoryId(showHistory ? null : dashboard.id)}
+                  className={`${iconButtonClass} ${showHistory ? 'text-indigo-600 dark:text-indigo-400' : ''}`}
+                  title={`Version history (${dashboard.versions.length})`}
+                >
+                  <History className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(dashboard)} className={`${iconButtonClass} hover:text-red-600 dark:hover:text-red-400`} title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {/* Version History - newest first, any version can be reopened */}
+              {showHistory && (
+                <ul className="border-t border-slate-100 dark:border-slate-700 divide-y divide-slate-100 dark:divide-slate-700">
+                  {[...dashboard.versions].reverse().map((version: DashboardVersion) => (
+                    <li key={version.version} className="flex items-center gap-3 px-3 py-2 text-xs text-slate-600 dark:text-slate-300">
+                      <span className="font-medium w-8">v{version.version}</span>
+                      <span className="flex-1 truncate">
+                        {formatDate(version.savedAt)} · {version.config.charts.length} charts
+                        {Object.keys(version.filters).length > 0 && ` · ${Object.keys(version.filters).length} filters`}
+                      </span>
+                      <button
+                        onClick={() => onOpen(dashboard.id, version.version)}
+                        disabled={disabled}
+                        className="text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50"
+                      >
+                        {version === latest ? 'Open latest' : 'Open'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,22 @@
 import React, { ChangeEvent, useState } from 'react';
 import { Upload, FileSpreadsheet, AlertCircle, Loader2 } from 'lucide-react';
+import { ParseProgress } from '../types';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void; // Several files are read into one session and can be combined
   isProcessing: boolean;
+  progress?: ParseProgress | null; // Set while a file is being parsed in the background
+  onCancel?: () => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessing }) => {
+const PHASE_LABELS: Record<ParseProgress['phase'], string> = {
+  reading: 'Reading file',
+  parsing: 'Parsing rows',
+  cleaning: 'Applying clean-up steps',
+  profiling: 'Detecting column types',
+};
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFilesSelect, isProcessing, progress, onCancel }) => {
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -20,17 +30,21 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
     }
   };
 
-  const validateAndPassFile = (file: File) => {
+  const validateAndPassFiles = (fileList: FileList) => {
     const validTypes = ['text/csv', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'];
-    // Simple extension check as fallback
-    const extension = file.name.split('.').pop()?.toLowerCase();
-    const isCsvOrExcel = extension === 'csv' || extension === 'xls' || extension === 'xlsx';
+    const files = Array.from(fileList);
+    const invalid = files.filter(file => {
+      // Simple extension check as fallback
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const isCsvOrExcel = extension === 'csv' || extension === 'xls' || extension === 'xlsx';
+      return !validTypes.includes(file.type) && !isCsvOrExcel;
+    });
 
-    if (validTypes.includes(file.type) || isCsvOrExcel) {
+    if (invalid.length === 0) {
       setError(null);
-      onFileSelect(file);
+      onFilesSelect(files);
     } else {
-      setError("Please upload a valid CSV or Excel file.");
+      setError(`Please upload valid CSV or Excel files (${invalid.map(file => file.name).join(', ')} is not one).`);
     }
   };
 
@@ -38,15 +52,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      validateAndPassFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      validateAndPassFiles(e.dataTransfer.files);
     }
   };
 
   const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      validateAndPassFile(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      validateAndPassFiles(e.target.files);
     }
   };
 
@@ -63,7 +77,29 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
         onDrop={handleDrop}
       >
         <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center px-4">
-          {isProcessing ? (
+          {isProcessing && progress ? (
+             <div className="flex flex-col items-center w-full max-w-sm">
+                <Loader2 className="w-12 h-12 text-indigo-600 dark:text-indigo-400 animate-spin mb-4" />
+                <p className="text-lg font-semibold text-indigo-700 dark:text-indigo-300">
+                  {PHASE_LABELS[progress.phase]}... {Math.round(progress.fraction * 100)}%
+                </p>
+                {progress.sheetName && (
+                  <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 truncate max-w-full">Sheet {progress.sheetName}</p>
+                )}
+                <div className="w-full h-2 mt-4 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+                  <div className="h-full bg-indigo-600 dark:bg-indigo-400 transition-all duration-300" style={{ width: `${Math.round(progress.fraction * 100)}%` }} />
+                </div>
+                {onCancel && (
+                  <button
+                    type="button"
+                    onClick={onCancel}
+                    className="pointer-events-auto mt-4 text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 px-4 py-2 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+             </div>
+          ) : isProcessing ? (
              <div className="flex flex-col items-center animate-pulse">
                 <Loader2 className="w-16 h-16 text-indigo-600 dark:text-indigo-400 animate-spin mb-4" />
                 <p className="text-lg font-semibold text-indigo-700 dark:text-indigo-300">Analyzing your data...</p>
@@ -78,7 +114,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
                 Drag & Drop your dataset here
               </p>
               <p className="mb-6 text-sm text-slate-500 dark:text-slate-400 max-w-sm">
-                Supports CSV, XLS, and XLSX files. <br/> Max file size 10MB recommended.
+                Supports CSV, XLS, and XLSX files; drop several to combine them. <br/> Large files are parsed in the background.
               </p>
               
               <label htmlFor="file-upload" className="relative cursor-pointer">
@@ -91,6 +127,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, isProcessi
                   type="file" 
                   className="sr-only" 
                   accept=".csv, .xls, .xlsx"
+                  multiple
                   onChange={handleChange}
                   disabled={isProcessing}
                 />
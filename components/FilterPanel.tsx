@@ -1,33 +1,52 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { DataRow } from '../types';
-import { Filter, X, Calendar, Search, ChevronDown, ChevronUp, Check } from 'lucide-react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ActiveFilters, CellValue, ColumnProfile, ColumnType, DataSet, FilterCombinator, FilterValue } from '../types';
+import { isDateType, isNumericType } from '../services/schemaService';
+import { getDistinctValues, histogram } from '../services/queryService';
+import { compileTextSearch, isFilterActive } from '../services/filterService';
+import { Filter, X, Search, ChevronDown, ChevronUp, Check, Regex } from 'lucide-react';
 
 interface FilterPanelProps {
-  data: DataRow[];
-  onFilterChange: (filteredData: DataRow[]) => void;
+  dataSets: DataSet[];
+  activeFilters: ActiveFilters;
+  combinator: FilterCombinator;
+  onFiltersChange: (filters: ActiveFilters) => void;
+  onCombinatorChange: (combinator: FilterCombinator) => void;
 }
 
-type FilterValue = string | { start: string; end: string };
-
 interface ColumnMeta {
   name: string;
-  type: 'categorical' | 'date';
+  type: 'categorical' | 'date' | 'numeric' | 'text';
   options?: string[]; // For categorical
   min?: string; // For date (YYYY-MM-DD)
   max?: string; // For date
+  range?: { min: number; max: number }; // For numeric
+  histogram?: number[]; // For numeric, HISTOGRAM_BINS counts across the range
+  integer?: boolean; // For numeric, whole numbers only
+  nullable?: boolean; // Some cells are blank
 }
 
-// Custom Searchable Dropdown Component
+// Columns with more distinct values than this don't get a dropdown
+const CATEGORICAL_LIMIT = 50;
+const HISTOGRAM_BINS = 24;
+
+const labelClass = "text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide truncate";
+const inputClass = "w-full text-xs border rounded-lg p-2 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 min-h-[38px]";
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Custom searchable multi-select; the picked values are either kept or excluded
 const SearchableDropdown = ({ 
   label, 
   options, 
-  value, 
+  values, 
+  exclude,
   onChange 
 }: { 
   label: string; 
   options: string[]; 
-  value: string; 
-  onChange: (val: string) => void; 
+  values: string[]; 
+  exclude: boolean;
+  onChange: (values: string[], exclude: boolean) => void; 
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
@@ -57,11 +76,17 @@ const SearchableDropdown = ({
     }
   }, [isOpen]);
 
+  const toggle = (opt: string) =>
+    onChange(values.includes(opt) ? values.filter(v => v !== opt) : [...values, opt], exclude);
+
+  let summary: React.ReactNode = <span className="text-slate-400 dark:text-slate-500">All {label}s</span>;
+  if (values.length > 0) {
+    const picked = values.length === 1 ? values[0] : `${values.length} selected`;
+    summary = exclude ? `All except ${picked}` : picked;
+  }
+
   return (
     <div className="relative" ref={wrapperRef}>
-      <label className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide truncate mb-1.5 block" title={label}>
-        {label}
-      </label>
       <button
         type="button"
         onClick={() => setIsOpen(!isOpen)}
@@ -70,15 +95,13 @@ const SearchableDropdown = ({
           bg-slate-50 dark:bg-slate-700 hover:bg-white dark:hover:bg-slate-600 text-slate-900 dark:text-slate-100
         `}
       >
-        <span className="truncate block mr-2">
-          {value || <span className="text-slate-400 dark:text-slate-500">All {label}s</span>}
-        </span>
+        <span className="truncate block mr-2">{summary}</span>
         <ChevronDown className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
 
       {isOpen && (
-        <div className="absolute z-20 w-full mt-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg shadow-lg max-h-64 flex flex-col">
-          <div className="p-2 border-b border-slate-100 dark:border-slate-700 sticky top-0 bg-white dark:bg-slate-800 rounded-t-lg">
+        <div className="absolute z-20 w-full mt-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-600 rounded-lg shadow-lg max-h-72 flex flex-col">
+          <div className="p-2 border-b border-slate-100 dark:border-slate-700 sticky top-0 bg-white dark:bg-slate-800 rounded-t-lg space-y-2">
             <div className="relative">
               <Search className="absolute left-2 top-2.5 w-3.5 h-3.5 text-slate-400" />
               <input
@@ -90,28 +113,40 @@ const SearchableDropdown = ({
                 onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
+            <div className="flex text-xs rounded-md border border-slate-200 dark:border-slate-700 overflow-hidden">
+              {([false, true] as const).map(mode => (
+                <button
+                  key={String(mode)}
+                  type="button"
+                  onClick={() => onChange(values, mode)}
+                  className={`flex-1 py-1 transition-colors ${exclude === mode ? 'bg-indigo-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                >
+                  {mode ? 'Exclude' : 'Include'}
+                </button>
+              ))}
+            </div>
           </div>
           <div className="overflow-y-auto flex-1 p-1">
             <div
-              onClick={() => { onChange(""); setIsOpen(false); }}
+              onClick={() => { onChange([], false); setIsOpen(false); }}
               className={`px-3 py-2 text-sm rounded-md cursor-pointer flex items-center justify-between
-                ${value === "" ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'}
+                ${values.length === 0 ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'}
               `}
             >
               <span>All {label}s</span>
-              {value === "" && <Check className="w-4 h-4" />}
+              {values.length === 0 && <Check className="w-4 h-4" />}
             </div>
             {filteredOptions.length > 0 ? (
               filteredOptions.map((opt) => (
                 <div
                   key={opt}
-                  onClick={() => { onChange(opt); setIsOpen(false); }}
+                  onClick={() => toggle(opt)}
                   className={`px-3 py-2 text-sm rounded-md cursor-pointer flex items-center justify-between
-                    ${value === opt ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'}
+                    ${values.includes(opt) ? 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-700'}
                   `}
                 >
-                  <span className="truncate">{opt}</span>
-                  {value === opt && <Check className="w-4 h-4" />}
+                  <span className={`truncate ${exclude && values.includes(opt) ? 'line-through' : ''}`}>{opt}</span>
+                  {values.includes(opt) && <Check className="w-4 h-4" />}
                 </div>
               ))
             ) : (
@@ -126,136 +161,224 @@ const SearchableDropdown = ({
   );
 };
 
-export const FilterPanel: React.FC<FilterPanelProps> = ({ data, onFilterChange }) => {
-  const [columns, setColumns] = useState<ColumnMeta[]>([]);
-  const [activeFilters, setActiveFilters] = useState<Record<string, FilterValue>>({});
-  const [isExpanded, setIsExpanded] = useState(true);
+// Histogram of the column with a min and a max slider; bars inside the range are highlighted
+const RangeFilter = ({
+  column,
+  value,
+  onChange,
+}: {
+  column: ColumnMeta;
+  value?: { min: number | null; max: number | null };
+  onChange: (value: FilterValue | null) => void;
+}) => {
+  const { min, max } = column.range!;
+  const bins = column.histogram || [];
+  const low = value?.min ?? min;
+  const high = value?.max ?? max;
+  const step = column.integer ? 1 : (max - min) / 100 || 1;
+  const peak = Math.max(1, ...bins);
+  const binWidth = (max - min) / (bins.length || 1);
+
+  // Sliders at the ends of the data leave that side open
+  const setBounds = (nextLow: number, nextHigh: number) => {
+    const open = { min: nextLow <= min ? null : nextLow, max: nextHigh >= max ? null : nextHigh };
+    onChange(open.min === null && open.max === null ? null : { kind: 'range', ...open });
+  };
 
-  // Analyze data to find filterable columns
-  useEffect(() => {
-    if (!data || data.length === 0) return;
-
-    const headers = Object.keys(data[0]);
-    const detectedColumns: ColumnMeta[] = [];
-    const ROW_LIMIT = 200; // Limit analysis to first 200 rows for performance
-    const sampleData = data.slice(0, ROW_LIMIT);
-
-    headers.forEach(header => {
-      // Get all values for this column (excluding null/undefined)
-      const values = sampleData.map(row => row[header]).filter(v => v !== null && v !== undefined);
-      
-      if (values.length === 0) return;
-
-      const uniqueValues = Array.from(new Set(values));
-      const firstVal = values[0];
-
-      // Check for Date
-      // Heuristic: string that looks like a date and parses validly
-      let isDate = false;
-      if (typeof firstVal === 'string' && firstVal.length > 5) {
-         const timestamp = Date.parse(firstVal);
-         // Check if it's a valid number and not just a pure number string like "2023" (which usually means Year, effectively categorical)
-         if (!isNaN(timestamp) && isNaN(Number(firstVal))) {
-           isDate = true;
-         }
-      }
+  return (
+    <div>
+      <div className="flex items-end gap-px h-10">
+        {bins.map((count, i) => {
+          const inside = min + (i + 1) * binWidth >= low && min + i * binWidth <= high;
+          return (
+            <div
+              key={i}
+              className={`flex-1 rounded-t-sm ${inside ? 'bg-indigo-400 dark:bg-indigo-500' : 'bg-slate-200 dark:bg-slate-600'}`}
+              style={{ height: `${Math.max(count > 0 ? 4 : 0, (count / peak) * 100)}%` }}
+              title={`${formatNumber(min + i * binWidth)} - ${formatNumber(min + (i + 1) * binWidth)}: ${count.toLocaleString()}`}
+            />
+          );
+        })}
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={low}
+        onChange={(e) => setBounds(Math.min(parseFloat(e.target.value), high), high)}
+        className="w-full accent-indigo-600 h-1.5 mt-2"
+        aria-label={`Minimum ${column.name}`}
+      />
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={high}
+        onChange={(e) => setBounds(low, Math.max(parseFloat(e.target.value), low))}
+        className="w-full accent-indigo-600 h-1.5"
+        aria-label={`Maximum ${column.name}`}
+      />
+      <div className="flex justify-between text-xs text-slate-500 dark:text-slate-400 tabular-nums">
+        <span>{formatNumber(low)}</span>
+        <span>{formatNumber(high)}</span>
+      </div>
+    </div>
+  );
+};
 
-      // Check for Categorical
-      // Heuristic: Low cardinality (<= 50 unique values)
-      // We allow numbers here too (e.g. Year 2020, 2021)
-      const isCategorical = uniqueValues.length <= 50;
-
-      if (isDate) {
-        detectedColumns.push({
-          name: header,
-          type: 'date',
-        });
-      } else if (isCategorical) {
-        // Sort options. If numbers, numerical sort; else alphabetical
-        const sortedOptions = uniqueValues.sort((a, b) => {
-             if (typeof a === 'number' && typeof b === 'number') return a - b;
-             return String(a).localeCompare(String(b));
-        }).map(String);
-
-        detectedColumns.push({
-          name: header,
-          type: 'categorical',
-          options: sortedOptions
-        });
-      }
-    });
+// Contains search for columns with too many values to list; optionally a regular expression
+const TextFilter = ({
+  column,
+  value,
+  onChange,
+}: {
+  column: ColumnMeta;
+  value?: { query: string; regex: boolean };
+  onChange: (value: FilterValue | null) => void;
+}) => {
+  const query = value?.query || '';
+  const regex = value?.regex || false;
+  const invalid = query !== '' && compileTextSearch(query, regex) === null;
 
-    setColumns(detectedColumns);
-    setActiveFilters({}); // Reset filters on new data
-  }, [data]);
+  const update = (nextQuery: string, nextRegex: boolean) =>
+    onChange(nextQuery === '' && !nextRegex ? null : { kind: 'text', query: nextQuery, regex: nextRegex });
 
-  // Apply filters whenever activeFilters changes
-  useEffect(() => {
-    if (Object.keys(activeFilters).length === 0) {
-      onFilterChange(data);
-      return;
-    }
+  return (
+    <div>
+      <div className="relative">
+        <Search className="absolute left-2.5 top-3 w-3.5 h-3.5 text-slate-400" />
+        <input
+          type="text"
+          className={`${inputClass} pl-8 pr-9 ${invalid ? 'border-red-300 dark:border-red-700' : 'border-slate-200 dark:border-slate-600'}`}
+          placeholder={regex ? 'Regular expression' : 'Contains...'}
+          value={query}
+          onChange={(e) => update(e.target.value, regex)}
+          aria-label={`Search ${column.name}`}
+        />
+        <button
+          type="button"
+          onClick={() => update(query, !regex)}
+          className={`absolute right-1.5 top-1.5 p-1 rounded-md transition-colors ${regex ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
+          title="Use a regular expression"
+          aria-pressed={regex}
+        >
+          <Regex className="w-4 h-4" />
+        </button>
+      </div>
+      {invalid && <p className="text-xs text-red-600 dark:text-red-400 mt-1">Not a valid pattern - the filter is ignored</p>}
+    </div>
+  );
+};
 
-    const filtered = data.filter(row => {
-      return Object.entries(activeFilters).every(([key, filterValue]) => {
-        const rowValue = row[key];
-        
-        if (rowValue === null || rowValue === undefined) return false;
+export const FilterPanel: React.FC<FilterPanelProps> = ({ dataSets, activeFilters, combinator, onFiltersChange, onCombinatorChange }) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  // Derive filterable columns from the dataset schemas.
+  // Columns shared by several sheets are merged into a single filter.
+  const columns = useMemo<ColumnMeta[]>(() => {
+    const detected = new Map<string, ColumnMeta>();
+
+    dataSets.forEach((dataSet: DataSet) => {
+      Object.values<ColumnProfile>(dataSet.schema).forEach(profile => {
+        if (profile.distinctCount === 0) return;
+        const existing = detected.get(profile.name);
+        const nullable = profile.nullCount > 0 || !!existing?.nullable;
+
+        if (isDateType(profile.type)) {
+          const min = typeof profile.min === 'string' ? profile.min.slice(0, 10) : undefined;
+          const max = typeof profile.max === 'string' ? profile.max.slice(0, 10) : undefined;
+          detected.set(profile.name, {
+            name: profile.name,
+            type: 'date',
+            min: existing?.min && min && existing.min < min ? existing.min : min,
+            max: existing?.max && max && existing.max > max ? existing.max : max,
+            nullable,
+          });
+          return;
+        }
 
-        // Categorical Filter
-        if (typeof filterValue === 'string') {
-          return String(rowValue) === filterValue;
+        // Low cardinality columns get a dropdown.
+        // We allow numbers here too (e.g. Year 2020, 2021)
+        if (profile.distinctCount <= CATEGORICAL_LIMIT && profile.type !== ColumnType.TEXT) {
+          // Distinct values come straight from the column dictionary
+          const column = dataSet.columns.columns[profile.name];
+          const values: CellValue[] = column ? getDistinctValues(column) : [];
+          const uniqueValues = Array.from(new Set([...(existing?.options || []), ...values]));
+
+          // Sort options. If numbers, numerical sort; else alphabetical
+          const sortedOptions = uniqueValues.sort((a, b) => {
+               if (typeof a === 'number' && typeof b === 'number') return a - b;
+               return String(a).localeCompare(String(b));
+          }).map(String);
+
+          detected.set(profile.name, {
+            name: profile.name,
+            type: 'categorical',
+            options: Array.from(new Set(sortedOptions)),
+            nullable,
+          });
+          return;
         }
 
-        // Date Filter
-        if (typeof filterValue === 'object') {
-          const rowDate = new Date(String(rowValue)).getTime();
-          const start = filterValue.start ? new Date(filterValue.start).getTime() : -Infinity;
-          const end = filterValue.end ? new Date(filterValue.end).getTime() : Infinity;
-          
-          if (isNaN(rowDate)) return false;
-          return rowDate >= start && rowDate <= end;
+        // Measures get a range slider over their histogram
+        if (isNumericType(profile.type) && typeof profile.min === 'number' && typeof profile.max === 'number') {
+          const range = existing?.range;
+          detected.set(profile.name, {
+            name: profile.name,
+            type: 'numeric',
+            range: { min: Math.min(profile.min, range?.min ?? Infinity), max: Math.max(profile.max, range?.max ?? -Infinity) },
+            integer: profile.type === ColumnType.INTEGER && (existing?.integer ?? true),
+            nullable,
+          });
+          return;
         }
 
-        return true;
+        // Everything else has too many values to list, so it's searched instead
+        detected.set(profile.name, { name: profile.name, type: 'text', nullable });
       });
     });
 
-    onFilterChange(filtered);
-  }, [activeFilters, data, onFilterChange]);
-
-  const handleCategoryChange = (column: string, value: string) => {
-    setActiveFilters(prev => {
-      const next = { ...prev };
-      if (value === "") {
-        delete next[column];
-      } else {
-        next[column] = value;
-      }
-      return next;
+    // Histograms need the merged range, so they are counted once all sheets are seen
+    detected.forEach(meta => {
+      if (meta.type !== 'numeric') return;
+      const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+      dataSets.forEach((dataSet: DataSet) => {
+        const column = dataSet.columns.columns[meta.name];
+        if (!column) return;
+        histogram(column, meta.range!.min, meta.range!.max, HISTOGRAM_BINS).forEach((count, i) => { counts[i] += count; });
+      });
+      meta.histogram = counts;
     });
+
+    return Array.from(detected.values());
+  }, [dataSets]);
+
+  const activeCount = Object.entries<FilterValue>(activeFilters).filter(([column, value]) => isFilterActive(column, value)).length;
+
+  const setFilter = (column: string, value: FilterValue | null) => {
+    const next = { ...activeFilters };
+    if (value === null) {
+      delete next[column];
+    } else {
+      next[column] = value;
+    }
+    onFiltersChange(next);
   };
 
   const handleDateChange = (column: string, field: 'start' | 'end', value: string) => {
-    setActiveFilters(prev => {
-      const next = { ...prev };
-      const current = (next[column] as { start: string; end: string }) || { start: '', end: '' };
-      
-      const newDateRange = { ...current, [field]: value };
-      
-      // If both empty, remove filter
-      if (!newDateRange.start && !newDateRange.end) {
-        delete next[column];
-      } else {
-        next[column] = newDateRange;
-      }
-      return next;
-    });
+    const current = activeFilters[column];
+    const range = current?.kind === 'date' ? current : { kind: 'date' as const, start: '', end: '' };
+    const newDateRange = { ...range, [field]: value };
+    
+    // If both empty, remove filter
+    setFilter(column, !newDateRange.start && !newDateRange.end ? null : newDateRange);
   };
 
   const clearAll = (e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent collapse toggle if button is clicked
-    setActiveFilters({});
+    onFiltersChange({});
   };
 
   if (columns.length === 0) return null;
@@ -271,11 +394,28 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ data, onFilterChange }
           <Filter className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
           <h3 className="font-semibold text-base">Filter Data</h3>
           <span className="text-xs text-slate-400 dark:text-slate-500 font-normal ml-2">
-            {Object.keys(activeFilters).length} active
+            {activeCount} active
           </span>
         </div>
         
         <div className="flex items-center gap-3">
+          {activeCount > 1 && (
+            <div
+              onClick={(e) => e.stopPropagation()}
+              className="flex text-xs rounded-md border border-slate-200 dark:border-slate-600 overflow-hidden"
+              title="Whether rows must match all filters or any of them"
+            >
+              {(['and', 'or'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => onCombinatorChange(mode)}
+                  className={`px-2 py-1 transition-colors ${combinator === mode ? 'bg-indigo-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                >
+                  {mode === 'and' ? 'Match all' : 'Match any'}
+                </button>
+              ))}
+            </div>
+          )}
           {Object.keys(activeFilters).length > 0 && (
             <button 
               onClick={clearAll}
@@ -294,52 +434,94 @@ export const FilterPanel: React.FC<FilterPanelProps> = ({ data, onFilterChange }
       {/* Collapsible Content */}
       <div className={`
         overflow-visible transition-all duration-300 ease-in-out border-t border-slate-100 dark:border-slate-700
-        ${isExpanded ? 'opacity-100 max-h-[1000px]' : 'opacity-0 max-h-0 border-t-0 hidden'}
+        ${isExpanded ? 'opacity-100 max-h-[2000px]' : 'opacity-0 max-h-0 border-t-0 hidden'}
       `}>
         <div className="p-5 pt-4">
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-            {columns.map((col) => (
-              <div key={col.name}>
-                {col.type === 'categorical' && (
-                  <SearchableDropdown 
-                    label={col.name}
-                    options={col.options || []}
-                    value={(activeFilters[col.name] as string) || ""}
-                    onChange={(val) => handleCategoryChange(col.name, val)}
-                  />
-                )}
-
-                {col.type === 'date' && (
-                  <div className="flex flex-col gap-1.5">
-                    <label className="text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide truncate" title={col.name}>
-                      {col.name}
-                    </label>
-                    <div className="flex items-center gap-2">
-                      <div className="relative flex-1">
-                        <input
-                          type="date"
-                          className="w-full text-xs border border-slate-200 dark:border-slate-600 rounded-lg p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 min-h-[38px]"
-                          value={(activeFilters[col.name] as any)?.start || ""}
-                          onChange={(e) => handleDateChange(col.name, 'start', e.target.value)}
-                        />
+            {columns.map((col) => {
+              const current: FilterValue | undefined = activeFilters[col.name];
+              // A blank/filled filter replaces the column's other filter until it's switched off
+              const blanks = current?.kind === 'empty' ? current : undefined;
+              return (
+                <div key={col.name} className="flex flex-col gap-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <label className={labelClass} title={col.name}>{col.name}</label>
+                    {col.nullable && (
+                      <div className="flex text-[10px] font-medium flex-shrink-0">
+                        {[true, false].map(empty => (
+                          <button
+                            key={String(empty)}
+                            type="button"
+                            onClick={() => setFilter(col.name, blanks?.empty === empty ? null : { kind: 'empty', empty })}
+                            className={`px-1.5 py-0.5 rounded transition-colors ${blanks?.empty === empty ? 'bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300' : 'text-slate-400 hover:text-slate-600 dark:hover:text-slate-200'}`}
+                            title={empty ? 'Only rows where this is blank' : 'Only rows where this is filled in'}
+                          >
+                            {empty ? 'Blank' : 'Not blank'}
+                          </button>
+                        ))}
                       </div>
-                      <span className="text-slate-400 dark:text-slate-500">-</span>
-                      <div className="relative flex-1">
-                        <input
-                          type="date"
-                          className="w-full text-xs border border-slate-200 dark:border-slate-600 rounded-lg p-2 focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 min-h-[38px]"
-                          value={(activeFilters[col.name] as any)?.end || ""}
-                          onChange={(e) => handleDateChange(col.name, 'end', e.target.value)}
-                        />
+                    )}
+                  </div>
+
+                  <div className={blanks ? 'opacity-50' : ''}>
+                    {col.type === 'categorical' && (
+                      <SearchableDropdown 
+                        label={col.name}
+                        options={col.options || []}
+                        values={current?.kind === 'values' ? current.values : []}
+                        exclude={current?.kind === 'values' && current.exclude}
+                        onChange={(values, exclude) => setFilter(col.name, values.length === 0 ? null : { kind: 'values', values, exclude })}
+                      />
+                    )}
+
+                    {col.type === 'numeric' && (
+                      <RangeFilter
+                        column={col}
+                        value={current?.kind === 'range' ? current : undefined}
+                        onChange={(value) => setFilter(col.name, value)}
+                      />
+                    )}
+
+                    {col.type === 'text' && (
+                      <TextFilter
+                        column={col}
+                        value={current?.kind === 'text' ? current : undefined}
+                        onChange={(value) => setFilter(col.name, value)}
+                      />
+                    )}
+
+                    {col.type === 'date' && (
+                      <div className="flex items-center gap-2">
+                        <div className="relative flex-1">
+                          <input
+                            type="date"
+                            className={`${inputClass} border-slate-200 dark:border-slate-600`}
+                            min={col.min}
+                            max={col.max}
+                            value={current?.kind === 'date' ? current.start : ""}
+                            onChange={(e) => handleDateChange(col.name, 'start', e.target.value)}
+                          />
+                        </div>
+                        <span className="text-slate-400 dark:text-slate-500">-</span>
+                        <div className="relative flex-1">
+                          <input
+                            type="date"
+                            className={`${inputClass} border-slate-200 dark:border-slate-600`}
+                            min={col.min}
+                            max={col.max}
+                            value={current?.kind === 'date' ? current.end : ""}
+                            onChange={(e) => handleDateChange(col.name, 'end', e.target.value)}
+                          />
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
-                )}
-              </div>
-            ))}
+                </div>
+              );
+            })}
           </div>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,286 @@
+import React, { useState, useMemo } from 'react';
+import { CalculatedField, DashboardConfig, DataSet } from '../types';
+import { CompiledFormula, FORMULA_FUNCTIONS, applyCalculatedFields, checkFieldName, compileFormula, getFormulaColumns } from '../services/formulaService';
+import { findDataSet } from '../services/dataService';
+import { toISODate } from '../services/schemaService';
+import { X, Sigma, Pencil, Trash2, XCircle, Check, ChevronRight } from 'lucide-react';
+
+interface FormulaEditorProps {
+  config: DashboardConfig;
+  dataSets: DataSet[]; // As loaded, without calculated fields
+  onChange: (fields: CalculatedField[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full text-sm border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+const labelClass = "text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5 block";
+
+const PREVIEW_ROWS = 5;
+
+const TYPE_LABELS = { number: 'Number', text: 'Text', date: 'Date', boolean: 'True/false' };
+
+// Charts, KPIs and later fields that read a field, by title
+const findUsages = (config: DashboardConfig, dataSets: DataSet[], field: CalculatedField): string[] => {
+  const sameSheet = (sheetName?: string) => findDataSet(dataSets, sheetName) === findDataSet(dataSets, field.sheetName);
+  const { name } = field;
+  return [
+    ...config.charts
+      .filter(chart => sameSheet(chart.sheetName) && [chart.xKey, chart.groupBy, ...chart.yKeys, ...(chart.drillPath || []).map(level => level.column), ...(chart.pivot?.rows || []), ...(chart.pivot?.columns || [])].includes(name))
+      .map(chart => `chart "${chart.title}"`),
+    ...(config.kpis || [])
+      .filter(kpi => sameSheet(kpi.sheetName) && (kpi.measure === name || kpi.dateKey === name))
+      .map(kpi => `KPI "${kpi.title}"`),
+    ...(config.calculatedFields || [])
+      .filter(other => other !== field && sameSheet(other.sheetName) && getFormulaColumns(other.formula).includes(name))
+      .map(other => `field "${other.name}"`),
+  ];
+};
+
+export const FormulaEditor: React.FC<FormulaEditorProps> = ({ config, dataSets, onChange, onClose }) => {
+  const fields = config.calculatedFields || [];
+  // Index of the field being edited, or null while adding a new one
+  const [editing, setEditing] = useState<number | null>(null);
+  const [draft, setDraft] = useState<CalculatedField>({ name: '', formula: '', sheetName: dataSets[0].sheetName });
+  const [showFunctions, setShowFunctions] = useState(false);
+
+  // A field sees the loaded columns and the fields defined before it
+  const baseSets = useMemo(
+    () => applyCalculatedFields(dataSets, editing === null ? fields : fields.slice(0, editing)).dataSets,
+    [dataSets, fields, editing]
+  );
+  const baseSet = findDataSet(baseSets, draft.sheetName);
+  const original = editing !== null ? fields[editing] : null;
+  const usages = useMemo(() => (original ? findUsages(config, dataSets, original) : []), [config, dataSets, original]);
+
+  const check = useMemo<{ compiled?: CompiledFormula; error?: string }>(() => {
+    const nameProblem = checkFieldName(draft.name, baseSet);
+    if (nameProblem && draft.name !== '') return { error: nameProblem };
+    if (original && draft.name !== original.name && usages.length > 0) {
+      return { error: `"${original.name}" is used by ${usages.join(', ')}, so it can't be renamed.` };
+    }
+    if (!draft.formula.trim()) return {};
+    try {
+      return { compiled: compileFormula(draft.formula, baseSet, baseSets) };
+    } catch (err: any) {
+      return { error: err.message };
+    }
+  }, [draft, baseSet, baseSets, original, usages]);
+
+  const preview = useMemo(() => {
+    if (!check.compiled) return [];
+    const { compiled } = check;
+    return Array.from({ length: Math.min(PREVIEW_ROWS, baseSet.rowCount) }, (_, row) => {
+      const value = compiled.evaluate(row);
+      if (value === null) return '(blank)';
+      return compiled.type === 'date' ? toISODate(value as number) : String(value);
+    });
+  }, [check, baseSet]);
+
+  const reset = () => {
+    setEditing(null);
+    setDraft({ name: '', formula: '', sheetName: draft.sheetName });
+  };
+
+  const startEdit = (index: number) => {
+    setEditing(index);
+    setDraft(fields[index]);
+  };
+
+  const handleSave = () => {
+    const field = { ...draft, sheetName: baseSet.sheetName };
+    onChange(editing === null ? [...fields, field] : fields.map((f, i) => (i === editing ? field : f)));
+    reset();
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+    if (editing === index) reset();
+  };
+
+  const insertColumn = (column: string) => {
+    if (!column) return;
+    setDraft(prev => ({ ...prev, formula: `${prev.formula}${prev.formula && !prev.formula.endsWith(' ') ? ' ' : ''}[${column.replace(/]/g, ']]')}]` }));
+  };
+
+  const canSave = !!check.compiled && !check.error && draft.name.trim() !== '';
+  const categories = Array.from(new Set(FORMULA_FUNCTIONS.map(fn => fn.category)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-6 text-left"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-5">
+          <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 dark:text-slate-100">
+            <Sigma className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+            Calculated fields
+          </h3>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded-full hover:bg-slate-100 dark:hover:bg-slate-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Existing fields */}
+        {fields.length > 0 && (
+          <div className="mb-5 border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+            {fields.map((field, index) => {
+              const usedBy = findUsages(config, dataSets, field);
+              return (
+                <div key={`${field.sheetName ?? ''}:${field.name}`} className={`flex items-center gap-3 px-3 py-2 text-sm ${editing === index ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-slate-700 dark:text-slate-200 truncate">
+                      {field.name}
+                      {dataSets.length > 1 && <span className="ml-2 text-xs font-normal text-slate-400">{field.sheetName}</span>}
+                    </div>
+                    <div className="font-mono text-xs text-slate-500 dark:text-slate-400 truncate" title={field.formula}>{field.formula}</div>
+                  </div>
+                  <button onClick={() => startEdit(index)} className="p-1.5 rounded-md text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400" title="Edit field">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(index)}
+                    disabled={usedBy.length > 0}
+                    className="p-1.5 rounded-md text-slate-500 hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-40 disabled:pointer-events-none"
+                    title={usedBy.length > 0 ? `Used by ${usedBy.join(', ')}` : 'Delete field'}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* New or edited field */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className={dataSets.length > 1 ? '' : 'col-span-2'}>
+              <label className={labelClass} htmlFor="field-name">Name</label>
+              <input
+                id="field-name"
+                type="text"
+                value={draft.name}
+                placeholder="e.g. Margin"
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            {dataSets.length > 1 && (
+              <div>
+                <label className={labelClass} htmlFor="field-sheet">Sheet</label>
+                <select
+                  id="field-sheet"
+                  value={baseSet.sheetName}
+                  disabled={editing !== null}
+                  onChange={(e) => setDraft(prev => ({ ...prev, sheetName: e.target.value }))}
+                  className={inputClass}
+                >
+                  {dataSets.map((d) => (
+                    <option key={d.sheetName} value={d.sheetName}>{d.sheetName}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className={`${labelClass} mb-0`} htmlFor="field-formula">Formula</label>
+              <select value="" onChange={(e) => insertColumn(e.target.value)} className="text-xs border border-slate-200 dark:border-slate-600 rounded-md px-1.5 py-1 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200" aria-label="Insert column">
+                <option value="">Insert column…</option>
+                {baseSet.headers.map((header) => (
+                  <option key={header} value={header}>{header}</option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              id="field-formula"
+              rows={3}
+              value={draft.formula}
+              placeholder='([Revenue] - [Cost]) / [Revenue]'
+              spellCheck={false}
+              onChange={(e) => setDraft(prev => ({ ...prev, formula: e.target.value }))}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          {/* Type check result and a preview of the first rows */}
+          {check.error ? (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{check.error}</span>
+            </div>
+          ) : check.compiled && (
+            <div className="text-sm text-slate-600 dark:text-slate-300">
+              <div className="flex items-center gap-2 text-emerald-700 dark:text-emerald-400">
+                <Check className="w-4 h-4" />
+                {check.compiled.type ? `${TYPE_LABELS[check.compiled.type]} column` : 'Always blank'}
+              </div>
+              {preview.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {preview.map((value, index) => (
+                    <span key={index} className="font-mono text-xs bg-slate-100 dark:bg-slate-700 px-2 py-0.5 rounded">{value}</span>
+                  ))}
+                  <span className="text-xs text-slate-400 self-center">first rows</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Function reference */}
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowFunctions(!showFunctions)}
+              className="flex items-center gap-1 text-xs font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <ChevronRight className={`w-3.5 h-3.5 transition-transform ${showFunctions ? 'rotate-90' : ''}`} />
+              Functions and operators
+            </button>
+            {showFunctions && (
+              <div className="mt-2 max-h-56 overflow-y-auto text-xs border border-slate-200 dark:border-slate-700 rounded-lg p-3 space-y-3">
+                <p className="text-slate-500 dark:text-slate-400">
+                  Columns go in brackets, e.g. <code>[Order Date]</code>; one-word names can be written bare. Operators:
+                  <code> + - * / ^</code>, <code>&amp;</code> to join text, <code>= &lt;&gt; &lt; &lt;= &gt; &gt;=</code>, <code>AND OR NOT</code>.
+                  Text goes in quotes; <code>TRUE</code>, <code>FALSE</code> and <code>NULL</code> are values.
+                </p>
+                {categories.map((category) => (
+                  <div key={category}>
+                    <div className="font-semibold text-slate-700 dark:text-slate-200 mb-1">{category}</div>
+                    {FORMULA_FUNCTIONS.filter(fn => fn.category === category).map((fn) => (
+                      <div key={fn.name} className="flex gap-2 py-0.5">
+                        <code className="text-indigo-700 dark:text-indigo-300 whitespace-nowrap">{fn.signature}</code>
+                        <span className="text-slate-500 dark:text-slate-400">{fn.description}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          {editing !== null && (
+            <button
+              type="button"
+              onClick={reset}
+              className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+            >
+              Cancel edit
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!canSave}
+            className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {editing === null ? 'Add field' : 'Save field'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
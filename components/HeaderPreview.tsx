@@ -0,0 +1,168 @@
+import React, { useState, useMemo } from 'react';
+import { HeaderRange, RawSheet } from '../types';
+import { describeTable } from '../services/dataService';
+import { Rows3, RotateCcw, Sheet } from 'lucide-react';
+
+interface HeaderPreviewProps {
+  sheets: RawSheet[];
+  onConfirm: (ranges: HeaderRange[]) => void;
+  onCancel: () => void;
+}
+
+// Rows shown below the header block in the preview grid
+const PREVIEW_BODY_ROWS = 12;
+const PREVIEW_COLUMNS = 12;
+
+export const HeaderPreview: React.FC<HeaderPreviewProps> = ({ sheets, onConfirm, onCancel }) => {
+  const [ranges, setRanges] = useState<HeaderRange[]>(() => sheets.map((sheet: RawSheet) => sheet.headerRange));
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const sheet: RawSheet = sheets[activeIndex];
+  const range: HeaderRange = ranges[activeIndex];
+
+  const table = useMemo(() => describeTable(sheet, range), [sheet, range]);
+  const excluded = useMemo(() => new Set(table.excludedRows), [table]);
+
+  const visibleRows = sheet.rows.slice(0, Math.min(sheet.rows.length, range.end + 1 + PREVIEW_BODY_ROWS));
+  const columnCount = Math.min(PREVIEW_COLUMNS, Math.max(0, ...visibleRows.map(row => row.length)));
+
+  const updateRange = (next: HeaderRange) => {
+    const last = sheet.rows.length - 1;
+    const start = Math.min(Math.max(0, next.start), last);
+    const end = Math.min(Math.max(start, next.end), last);
+    setRanges(prev => prev.map((r, i) => (i === activeIndex ? { start, end } : r)));
+  };
+
+  // Click sets the first header row, shift-click extends the block
+  const handleRowClick = (index: number, extend: boolean) => {
+    if (extend && index >= range.start) {
+      updateRange({ start: range.start, end: index });
+    } else {
+      updateRange({ start: index, end: index });
+    }
+  };
+
+  const rowClass = (index: number) => {
+    if (index >= range.start && index <= range.end) {
+      return 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-900 dark:text-indigo-100 font-semibold';
+    }
+    if (index < range.start) return 'text-slate-400 dark:text-slate-500 bg-slate-50 dark:bg-slate-900/40';
+    if (excluded.has(index)) return 'text-red-500 dark:text-red-400 line-through bg-red-50/50 dark:bg-red-900/10';
+    return 'text-slate-700 dark:text-slate-200';
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mt-10 text-left animate-fade-in">
+      <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">Check the header rows</h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-5">
+        We detected the highlighted rows as column headers. Click a row to start the header there, shift-click to extend it.
+      </p>
+
+      {sheets.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {sheets.map((s: RawSheet, index: number) => (
+            <button
+              key={s.sheetName || index}
+              type="button"
+              onClick={() => setActiveIndex(index)}
+              className={`flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-full border transition-colors
+                ${index === activeIndex
+                  ? 'bg-indigo-600 border-indigo-600 text-white'
+                  : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}
+              `}
+            >
+              <Sheet className="w-3.5 h-3.5" />
+              {s.sheetName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Header Range Controls */}
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-slate-600 dark:text-slate-300">
+        <Rows3 className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+        <span>Header rows</span>
+        <input
+          type="number"
+          min={1}
+          max={sheet.rows.length}
+          value={range.start + 1}
+          onChange={(e) => updateRange({ start: Number(e.target.value) - 1, end: Math.max(range.end, Number(e.target.value) - 1) })}
+          className="w-16 text-sm border border-slate-200 dark:border-slate-600 rounded-md px-2 py-1 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <span>to</span>
+        <input
+          type="number"
+          min={range.start + 1}
+          max={sheet.rows.length}
+          value={range.end + 1}
+          onChange={(e) => updateRange({ start: range.start, end: Number(e.target.value) - 1 })}
+          className="w-16 text-sm border border-slate-200 dark:border-slate-600 rounded-md px-2 py-1 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+        />
+        <button
+          type="button"
+          onClick={() => updateRange(sheet.headerRange)}
+          className="flex items-center gap-1 text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset to detected
+        </button>
+      </div>
+
+      {/* Raw Sheet Grid */}
+      <div className="overflow-auto max-h-80 border border-slate-200 dark:border-slate-700 rounded-lg">
+        <table className="min-w-full text-xs">
+          <tbody>
+            {visibleRows.map((row, index) => (
+              <tr
+                key={index}
+                onClick={(e) => handleRowClick(index, e.shiftKey)}
+                className={`cursor-pointer border-b border-slate-100 dark:border-slate-700/60 hover:ring-1 hover:ring-inset hover:ring-indigo-300 ${rowClass(index)}`}
+              >
+                <td className="px-2 py-1.5 text-right text-slate-400 dark:text-slate-500 font-mono select-none w-10">{index + 1}</td>
+                {Array.from({ length: columnCount }, (_, c) => (
+                  <td key={c} className="px-2 py-1.5 whitespace-nowrap max-w-[160px] truncate">
+                    {row[c] === null || row[c] === undefined ? '' : String(row[c])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Resulting Columns */}
+      <div className="mt-4">
+        <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+          {table.headers.length} columns, {table.rowCount} data rows
+          {table.excludedRows.length > 0 && `, ${table.excludedRows.length} total rows excluded`}
+        </p>
+        <div className="flex flex-wrap gap-1.5">
+          {table.headers.map((header: string) => (
+            <span key={header} className="text-xs px-2 py-0.5 rounded-md bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-200">
+              {header}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(ranges)}
+          disabled={table.rowCount === 0}
+          className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
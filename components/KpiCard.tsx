@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import { AggregationType, ColumnType, DataSet, KpiComparison, KpiConfig, RowSelection } from '../types';
+import { AGGREGATION_LABELS, getAllowedAggregations, resolveAggregation } from '../services/aggregationService';
+import { COMPARISON_LABELS } from '../services/periodService';
+import { computeKpi } from '../services/kpiService';
+import { isDateType, isNumericType } from '../services/schemaService';
+import { TrendingUp, TrendingDown, Minus, Trash2 } from 'lucide-react';
+
+interface KpiCardProps {
+  kpi: KpiConfig;
+  dataSet: DataSet;
+  rows: RowSelection; // Rows left after filtering; the latest date among them picks the current period
+  comparisonRows?: RowSelection; // Rows left without the filter on the KPI's date column
+  onChange: (kpi: KpiConfig) => void;
+  onRemove?: () => void; // Only while the layout is edited
+}
+
+const selectClass = "text-xs border border-slate-200 dark:border-slate-600 rounded-md px-1.5 py-1 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const compact = new Intl.NumberFormat(undefined, { notation: 'compact', maximumFractionDigits: 1 });
+
+/**
+ * New KPI on the first sheet with a date column, reading its first numeric
+ * column; null when no sheet has both.
+ */
+export const createKpiConfig = (dataSets: DataSet[], kpis: KpiConfig[]): KpiConfig | null => {
+  const ids = new Set(kpis.map(kpi => kpi.id));
+  let index = kpis.length + 1;
+  while (ids.has(`kpi-${index}`)) index++;
+
+  for (const dataSet of dataSets) {
+    const dateKey = dataSet.headers.find(header => isDateType(dataSet.schema[header]?.type));
+    const measure = dataSet.headers.find(header => isNumericType(dataSet.schema[header]?.type));
+    if (dateKey && measure) {
+      return { id: `kpi-${index}`, title: measure, measure, dateKey, comparison: 'month', sheetName: dataSet.sheetName };
+    }
+  }
+  return null;
+};
+
+export const KpiCard: React.FC<KpiCardProps> = ({ kpi, dataSet, rows, comparisonRows, onChange, onRemove }) => {
+  const { schema, headers } = dataSet;
+  const result = useMemo(() => computeKpi(dataSet, rows, kpi, comparisonRows), [dataSet, rows, kpi, comparisonRows]);
+  const aggregation = resolveAggregation(kpi.aggregation, kpi.measure, schema);
+
+  // Counts are plain numbers even when the measure is a percentage
+  const isPercent = schema[kpi.measure]?.type === ColumnType.PERCENT
+    && aggregation !== AggregationType.COUNT && aggregation !== AggregationType.DISTINCT_COUNT;
+  const format = (value: number | null) => (value === null ? '–' : `${compact.format(value)}${isPercent ? '%' : ''}`);
+
+  const change = result?.change ?? null;
+  const TrendIcon = change === null || change === 0 ? Minus : change > 0 ? TrendingUp : TrendingDown;
+  const trendClass = change === null || change === 0
+    ? 'text-slate-500 dark:text-slate-400'
+    : change > 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-red-600 dark:text-red-400';
+  const delta = result && result.current !== null && result.previous !== null ? result.current - result.previous : null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border border-slate-100 dark:border-slate-700 p-5 flex flex-col gap-2 hover:shadow-md transition-shadow duration-300">
+      <div className="flex items-start justify-between gap-2">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 truncate" title={kpi.title}>{kpi.title}</h3>
+        {onRemove && (
+          <button
+            data-html2canvas-ignore="true"
+            onClick={onRemove}
+            className="p-1 -m-1 rounded-md text-slate-400 hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400"
+            title="Delete KPI"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </div>
+
+      <div className="text-3xl font-bold text-slate-900 dark:text-white">{format(result?.current ?? null)}</div>
+
+      {result ? (
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm">
+          <span className={`flex items-center gap-1 font-medium ${trendClass}`}>
+            <TrendIcon className="w-4 h-4" />
+            {change !== null ? `${change > 0 ? '+' : ''}${(change * 100).toFixed(1)}%` : 'n/a'}
+          </span>
+          {delta !== null && (
+            <span className="text-slate-500 dark:text-slate-400">({delta > 0 ? '+' : ''}{format(delta)})</span>
+          )}
+          <span className="text-xs text-slate-400 dark:text-slate-500" title={`${result.currentLabel} vs ${result.previousLabel}`}>
+            vs {result.previousLabel}
+          </span>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400 dark:text-slate-500">No dated rows match the filters.</p>
+      )}
+
+      <div data-html2canvas-ignore="true" className="flex flex-wrap items-center gap-2 mt-1">
+        <select
+          value={kpi.comparison}
+          onChange={(e) => onChange({ ...kpi, comparison: e.target.value as KpiComparison })}
+          className={selectClass}
+          aria-label="Comparison"
+        >
+          {Object.entries<string>(COMPARISON_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+
+        {/* What the number is made of, while the layout is edited */}
+        {onRemove && (
+          <>
+            <select
+              value={kpi.measure}
+              onChange={(e) => onChange({ ...kpi, measure: e.target.value, title: kpi.title === kpi.measure ? e.target.value : kpi.title, aggregation: undefined })}
+              className={selectClass}
+              aria-label="Measure"
+            >
+              {headers.map((header) => <option key={header} value={header}>{header}</option>)}
+            </select>
+            <select
+              value={aggregation}
+              onChange={(e) => onChange({ ...kpi, aggregation: e.target.value as AggregationType })}
+              className={selectClass}
+              aria-label="Aggregation"
+            >
+              {getAllowedAggregations(kpi.measure, schema).map((option) => (
+                <option key={option} value={option}>{AGGREGATION_LABELS[option]}</option>
+              ))}
+            </select>
+            <select
+              value={kpi.dateKey}
+              onChange={(e) => onChange({ ...kpi, dateKey: e.target.value })}
+              className={selectClass}
+              aria-label="Date column"
+            >
+              {headers.filter(header => isDateType(schema[header]?.type)).map((header) => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
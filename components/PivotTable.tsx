@@ -0,0 +1,187 @@
+import React, { useMemo } from 'react';
+import { ActiveFilters, ChartConfig, DataSet, FilterValue, PivotColorScale, PivotOptions, PivotSort, RowSelection } from '../types';
+import {
+  COLOR_SCALE_LABELS,
+  buildPivot,
+  exportPivotWorkbook,
+  getCellColor,
+  getColumnHeaderRows,
+  getDimensionGranularity,
+  getPivotOptions,
+  getRowLabels,
+} from '../services/pivotService';
+import { periodFilter, toggleValueFilter } from '../services/filterService';
+import { Download } from 'lucide-react';
+
+interface PivotTableProps {
+  config: ChartConfig;
+  dataSet: DataSet;
+  rows: RowSelection; // Rows left after filtering
+  onConfigChange: (config: ChartConfig) => void;
+  crossFilters?: ActiveFilters; // Filters this table set by being clicked, by column
+  onCrossFilter?: (column: string, value: FilterValue | null) => void;
+}
+
+const selectClass = "text-xs border border-slate-200 dark:border-slate-600 rounded-md px-1.5 py-1 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+const checkboxClass = "rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500";
+const headerCellClass = "px-3 py-2 font-semibold text-slate-600 dark:text-slate-300 bg-slate-50 dark:bg-slate-700/50 border-b border-slate-200 dark:border-slate-700 whitespace-nowrap";
+
+const formatValue = (value: number | null) =>
+  value === null ? '' : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+// Sorting is offered as one list: by label either way, or by any measure's total.
+// The first measure is the default, so it is keyed without its name.
+const sortKey = (sort: PivotSort, firstMeasure?: string) => {
+  if (sort.by === 'label') return `label:${sort.direction}`;
+  return `value:${sort.direction}:${sort.measure && sort.measure !== firstMeasure ? sort.measure : ''}`;
+};
+
+export const PivotTable: React.FC<PivotTableProps> = ({ config, dataSet, rows, onConfigChange, crossFilters, onCrossFilter }) => {
+  const options = getPivotOptions(config);
+  const pivot = useMemo(() => buildPivot(dataSet, rows, config), [dataSet, rows, config]);
+  const headerRows = useMemo(() => getColumnHeaderRows(pivot), [pivot]);
+  const lead = pivot.rowDimensions.length;
+
+  const updatePivot = (patch: Partial<PivotOptions>) => onConfigChange({ ...config, pivot: { ...options, ...patch } });
+
+  const handleSortChange = (key: string) => {
+    const [by, direction, measure] = key.split(':');
+    updatePivot({ sort: by === 'label' ? { by: 'label', direction: direction as PivotSort['direction'] } : { by: 'value', direction: direction as PivotSort['direction'], measure: measure || undefined } });
+  };
+
+  // Clicking a row label filters the other charts on that member; shift-click picks several
+  const selectMember = (column: string, label: string, additive: boolean) => {
+    if (!onCrossFilter) return;
+    const current = crossFilters?.[column];
+    const granularity = getDimensionGranularity(config, column, dataSet.schema);
+    if (granularity) {
+      const next = periodFilter(label, label, granularity);
+      const same = next?.kind === 'date' && current?.kind === 'date' && next.start === current.start && next.end === current.end;
+      onCrossFilter(column, same ? null : next);
+      return;
+    }
+    onCrossFilter(column, toggleValueFilter(current, label, additive));
+  };
+  const isPicked = (column: string, label: string) => {
+    const filter = crossFilters?.[column];
+    return filter?.kind === 'values' && filter.values.includes(label);
+  };
+
+  if (pivot.measures.length === 0) {
+    return <div className="flex items-center justify-center h-full text-sm text-slate-400">Pick at least one value to show.</div>;
+  }
+
+  return (
+    <div className="flex flex-col h-full gap-3">
+      {/* Layout controls and export */}
+      <div data-html2canvas-ignore="true" className="flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+        <label className="flex items-center gap-1.5">
+          <span>Sort</span>
+          <select value={sortKey(options.sort, pivot.measures[0]?.key)} onChange={(e) => handleSortChange(e.target.value)} className={selectClass}>
+            <option value="label:asc">A to Z</option>
+            <option value="label:desc">Z to A</option>
+            {pivot.measures.map((measure, index) => (
+              <React.Fragment key={measure.key}>
+                <option value={`value:desc:${index === 0 ? '' : measure.key}`}>Highest {measure.label.toLowerCase()}</option>
+                <option value={`value:asc:${index === 0 ? '' : measure.key}`}>Lowest {measure.label.toLowerCase()}</option>
+              </React.Fragment>
+            ))}
+          </select>
+        </label>
+        <select
+          value={options.colorScale}
+          onChange={(e) => updatePivot({ colorScale: e.target.value as PivotColorScale })}
+          className={selectClass}
+          aria-label="Colour scale"
+        >
+          {Object.entries<string>(COLOR_SCALE_LABELS).map(([scale, label]) => (
+            <option key={scale} value={scale}>{label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={options.subtotals} onChange={(e) => updatePivot({ subtotals: e.target.checked })} className={checkboxClass} />
+          <span>Subtotals</span>
+        </label>
+        <label className="flex items-center gap-1.5 cursor-pointer">
+          <input type="checkbox" checked={options.grandTotals} onChange={(e) => updatePivot({ grandTotals: e.target.checked })} className={checkboxClass} />
+          <span>Grand totals</span>
+        </label>
+        <button
+          onClick={() => exportPivotWorkbook(pivot, config.title)}
+          className="ml-auto flex items-center gap-1.5 px-2 py-1 rounded-md border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 hover:text-indigo-600 dark:hover:text-indigo-400"
+          title="Download the table as an Excel workbook"
+        >
+          <Download className="w-3.5 h-3.5" />
+          XLSX
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-[300px] max-h-[640px] overflow-auto border border-slate-100 dark:border-slate-700 rounded-lg">
+        <table className="min-w-full text-xs text-slate-700 dark:text-slate-200">
+          <thead className="sticky top-0 z-10">
+            {headerRows.map((cells, h) => (
+              <tr key={h}>
+                {h < pivot.columnDimensions.length ? (
+                  <th colSpan={lead} className={`${headerCellClass} text-right font-medium text-slate-400 dark:text-slate-500`}>{pivot.columnDimensions[h]}</th>
+                ) : (
+                  pivot.rowDimensions.map(name => <th key={name} className={`${headerCellClass} text-left`}>{name}</th>)
+                )}
+                {cells.map((cell, index) => (
+                  <th
+                    key={index}
+                    colSpan={cell.colSpan}
+                    rowSpan={cell.rowSpan}
+                    className={`${headerCellClass} ${h === headerRows.length - 1 ? 'text-right font-medium' : 'text-center'} ${cell.isTotal ? 'bg-slate-100 dark:bg-slate-700' : ''}`}
+                  >
+                    {cell.label}
+                  </th>
+                ))}
+              </tr>
+            ))}
+          </thead>
+          <tbody>
+            {pivot.rows.map((row, r) => {
+              const isTotal = row.kind !== 'member';
+              return (
+                <tr key={r} className={`border-b border-slate-100 dark:border-slate-700/60 ${isTotal ? 'font-semibold bg-slate-50 dark:bg-slate-700/40' : ''}`}>
+                  {getRowLabels(pivot, r).map((label, d) => {
+                    const column = pivot.rowDimensions[d];
+                    const clickable = !isTotal && label !== '' && !!onCrossFilter;
+                    return (
+                      <td key={d} className="px-3 py-1.5 whitespace-nowrap text-left">
+                        {clickable ? (
+                          <button
+                            onClick={(e) => selectMember(column, label, e.shiftKey)}
+                            className={`hover:underline ${isPicked(column, label) ? 'font-semibold text-indigo-600 dark:text-indigo-400' : ''}`}
+                          >
+                            {label}
+                          </button>
+                        ) : label}
+                      </td>
+                    );
+                  })}
+                  {pivot.columns.map((column, c) => pivot.measures.map((_, m) => {
+                    const value = pivot.values[r][c][m];
+                    const shaded = !isTotal && column.kind === 'member';
+                    return (
+                      <td
+                        key={`${c}-${m}`}
+                        className={`px-3 py-1.5 text-right tabular-nums whitespace-nowrap ${column.kind !== 'member' ? 'font-semibold bg-slate-50 dark:bg-slate-700/40' : ''}`}
+                        style={{ backgroundColor: shaded ? getCellColor(value, pivot.ranges[m], options.colorScale) : undefined }}
+                      >
+                        {formatValue(value)}
+                      </td>
+                    );
+                  }))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {pivot.truncated && (
+        <p className="text-xs text-amber-600 dark:text-amber-400">The table is too large to show in full; filter the data or remove a dimension to see the rest.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { ColumnPolicy, DataSet, PrivacyPolicies, ProviderSettings } from '../types';
+import { PROVIDER_LABELS, previewDashboardPrompt } from '../services/providerService';
+import { canBucket, defaultPolicies, detectSensitiveColumns, POLICY_LABELS, SENSITIVE_LABELS } from '../services/privacyService';
+import { estimateTokens } from '../services/samplingService';
+import { sheetKey } from '../services/templateService';
+import { ShieldCheck } from 'lucide-react';
+
+interface PrivacyReviewProps {
+  dataSets: DataSet[];
+  settings: ProviderSettings;
+  onConfirm: (policies: PrivacyPolicies) => void;
+  onCancel: () => void;
+}
+
+const selectClass = "text-xs border border-slate-200 dark:border-slate-600 rounded-md px-1.5 py-1 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+const POLICIES: ColumnPolicy[] = ['send', 'pseudonymize', 'bucket', 'exclude'];
+
+export const PrivacyReview: React.FC<PrivacyReviewProps> = ({ dataSets, settings, onConfirm, onCancel }) => {
+  const [policies, setPolicies] = useState<PrivacyPolicies>(() => defaultPolicies(dataSets));
+  const detected = useMemo(() => dataSets.map(detectSensitiveColumns), [dataSets]);
+  const prompt = useMemo(() => previewDashboardPrompt(dataSets, settings, policies), [dataSets, settings, policies]);
+
+  const setPolicy = (dataSet: DataSet, column: string, policy: ColumnPolicy) => {
+    const key = sheetKey(dataSet.sheetName);
+    setPolicies(prev => ({ ...prev, [key]: { ...prev[key], [column]: policy } }));
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-10 text-left animate-fade-in">
+      <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 dark:text-slate-100">
+        <ShieldCheck className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+        Review what is sent
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-5">
+        Choose how each column reaches {PROVIDER_LABELS[settings.provider]}. Pseudonymized values are replaced by stand-ins, the same in every sheet;
+        bucketed numbers and dates become ranges. Charts and figures are still computed from the real data in your browser.
+      </p>
+
+      <div className="space-y-5 max-h-80 overflow-y-auto pr-1">
+        {dataSets.map((dataSet: DataSet, index: number) => {
+          const key = sheetKey(dataSet.sheetName);
+          return (
+            <div key={key}>
+              {dataSets.length > 1 && (
+                <div className="mb-2 text-sm font-semibold text-slate-700 dark:text-slate-200 truncate">{dataSet.sheetName || dataSet.fileName}</div>
+              )}
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+                {dataSet.headers.map((header) => {
+                  const kind = detected[index][header];
+                  const type = dataSet.schema[header]?.type;
+                  return (
+                    <div key={header} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-medium text-slate-700 dark:text-slate-200" title={header}>{header}</div>
+                        <div className="text-xs text-slate-400 dark:text-slate-500">{type}</div>
+                      </div>
+                      {kind && (
+                        <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                          {SENSITIVE_LABELS[kind]}
+                        </span>
+                      )}
+                      <select
+                        value={policies[key]?.[header] || 'send'}
+                        onChange={(e) => setPolicy(dataSet, header, e.target.value as ColumnPolicy)}
+                        className={selectClass}
+                        aria-label={`What to send of ${header}`}
+                      >
+                        {POLICIES.filter(policy => policy !== 'bucket' || canBucket(type)).map(policy => (
+                          <option key={policy} value={policy}>{POLICY_LABELS[policy]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-5">
+        <div className="flex items-center justify-between mb-1 text-xs text-slate-500 dark:text-slate-400">
+          <span className="font-semibold text-slate-600 dark:text-slate-300">Prompt to be sent</span>
+          <span>~{estimateTokens(prompt).toLocaleString()} tokens</span>
+        </div>
+        <pre className="max-h-64 overflow-auto text-[11px] leading-snug whitespace-pre-wrap break-all p-3 rounded-lg bg-slate-50 dark:bg-slate-900/60 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-300">
+          {prompt.trim()}
+        </pre>
+      </div>
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(policies)}
+          className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Send to {PROVIDER_LABELS[settings.provider]}
+        </button>
+      </div>
+    </div>
+  );
+};
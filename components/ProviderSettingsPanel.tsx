@@ -0,0 +1,119 @@
+import React from 'react';
+import { ProviderId, ProviderSettings } from '../types';
+import { PROVIDER_LABELS } from '../services/providerService';
+import { SAMPLE_BUDGETS } from '../services/samplingService';
+import { Cpu } from 'lucide-react';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full text-sm border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="mt-6 text-left">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <label htmlFor="analysis-provider" className="flex items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300 whitespace-nowrap">
+          <Cpu className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+          Analysis engine
+        </label>
+        <select
+          id="analysis-provider"
+          value={settings.provider}
+          disabled={disabled}
+          onChange={(e) => update({ provider: e.target.value as ProviderId })}
+          className={inputClass}
+        >
+          {Object.values(ProviderId).map((id) => (
+            <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+          ))}
+        </select>
+      </div>
+
+      {settings.provider === ProviderId.OPENAI_COMPATIBLE && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-3">
+          <input
+            type="url"
+            placeholder="http://localhost:11434/v1"
+            value={settings.openAIBaseUrl}
+            disabled={disabled}
+            onChange={(e) => update({ openAIBaseUrl: e.target.value })}
+            className={inputClass}
+            aria-label="Server URL"
+          />
+          <input
+            type="text"
+            placeholder="Model, e.g. llama3.1"
+            value={settings.openAIModel}
+            disabled={disabled}
+            onChange={(e) => update({ openAIModel: e.target.value })}
+            className={inputClass}
+            aria-label="Model"
+          />
+          <input
+            type="password"
+            placeholder="API key (optional)"
+            value={settings.openAIApiKey}
+            disabled={disabled}
+            onChange={(e) => update({ openAIApiKey: e.target.value })}
+            className={inputClass}
+            aria-label="API key"
+          />
+        </div>
+      )}
+
+      {settings.provider !== ProviderId.HEURISTIC && (
+        <label className="flex items-center gap-2 mt-3 text-xs text-slate-500 dark:text-slate-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.repromptOnErrors}
+            disabled={disabled}
+            onChange={(e) => update({ repromptOnErrors: e.target.checked })}
+            className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500"
+          />
+          Ask the model again if its charts don't match the data{settings.privacyMode ? ' (not in privacy mode, where only the reviewed prompt is sent)' : ''}
+        </label>
+      )}
+
+      {settings.provider !== ProviderId.HEURISTIC && (
+        <label className="flex items-center gap-2 mt-2 text-xs text-slate-500 dark:text-slate-400">
+          Data sent with each request
+          <select
+            value={settings.sampleTokens}
+            disabled={disabled}
+            onChange={(e) => update({ sampleTokens: Number(e.target.value) })}
+            className="text-xs border border-slate-200 dark:border-slate-600 rounded-md px-1.5 py-1 bg-slate-50 dark:bg-slate-700 text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+          >
+            {SAMPLE_BUDGETS.map(budget => (
+              <option key={budget} value={budget}>up to ~{budget.toLocaleString()} tokens</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {settings.provider !== ProviderId.HEURISTIC && (
+        <label className="flex items-center gap-2 mt-2 text-xs text-slate-500 dark:text-slate-400 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.privacyMode}
+            disabled={disabled}
+            onChange={(e) => update({ privacyMode: e.target.checked })}
+            className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500"
+          />
+          Privacy mode: mask personal data and review the prompt before it is sent
+        </label>
+      )}
+
+      {settings.provider === ProviderId.HEURISTIC && (
+        <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">
+          Charts are chosen from column types only. No data leaves your browser.
+        </p>
+      )}
+    </div>
+  );
+};
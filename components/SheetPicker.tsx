@@ -0,0 +1,114 @@
+import React, { useState, useMemo } from 'react';
+import { RawSheet } from '../types';
+import { describeTable } from '../services/dataService';
+import { Sheet, Check } from 'lucide-react';
+
+interface SheetPickerProps {
+  fileNames: string[]; // Every uploaded file, in upload order
+  sheets: RawSheet[];
+  onConfirm: (selected: RawSheet[]) => void;
+  onCancel: () => void;
+}
+
+interface SheetSummary {
+  sheet: RawSheet;
+  headers: string[];
+  rowCount: number;
+}
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({ fileNames, sheets, onConfirm, onCancel }) => {
+  // Summaries use the detected header range of each sheet
+  const summaries = useMemo<SheetSummary[]>(() => sheets.map((sheet: RawSheet) => {
+    const { headers, rowCount } = describeTable(sheet, sheet.headerRange);
+    return { sheet, headers, rowCount };
+  }), [sheets]);
+
+  // Preselect the largest sheet - it usually holds the actual data - or every sheet of several uploaded files
+  const [selected, setSelected] = useState<Set<string>>(() => {
+    if (fileNames.length > 1) return new Set(sheets.map((sheet: RawSheet) => sheet.sheetName || ''));
+    const largest = summaries.reduce((best, summary) => (summary.rowCount > best.rowCount ? summary : best), summaries[0]);
+    return new Set([largest.sheet.sheetName || '']);
+  });
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    onConfirm(sheets.filter((sheet: RawSheet) => selected.has(sheet.sheetName || '')));
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-10 text-left animate-fade-in">
+      <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">Choose sheets to analyze</h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-5">
+        {fileNames.length > 1
+          ? <><span className="font-medium">{fileNames.length} files</span> hold {sheets.length} sheets with data. Sheets can be stacked or joined in a later step.</>
+          : <><span className="font-medium">{fileNames[0]}</span> contains {sheets.length} sheets with data. Charts can combine several sheets.</>}
+      </p>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {summaries.map(({ sheet, headers, rowCount }) => {
+          const name = sheet.sheetName || '';
+          const isSelected = selected.has(name);
+          return (
+            <button
+              key={name}
+              type="button"
+              onClick={() => toggleSheet(name)}
+              className={`w-full flex items-start gap-3 p-3 rounded-lg border text-left transition-colors
+                ${isSelected
+                  ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+                  : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50'}
+              `}
+            >
+              <div className={`mt-0.5 w-5 h-5 rounded flex items-center justify-center flex-shrink-0 border
+                ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-slate-300 dark:border-slate-600'}
+              `}>
+                {isSelected && <Check className="w-3.5 h-3.5" />}
+              </div>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2 text-sm font-semibold text-slate-800 dark:text-slate-100">
+                  <Sheet className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+                  <span className="truncate">{name}</span>
+                  <span className="text-xs font-normal text-slate-400 dark:text-slate-500">
+                    {fileNames.length > 1 && `${sheet.fileName} · `}{rowCount} rows
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1 truncate">
+                  {headers.join(', ')}
+                </p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleConfirm}
+          disabled={selected.size === 0}
+          className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Analyze {selected.size} {selected.size === 1 ? 'sheet' : 'sheets'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,135 @@
+import React, { useState, useMemo } from 'react';
+import { DashboardConfig, DashboardTemplate, DataSet, TemplateBinding, TemplateSheet } from '../types';
+import { applyTemplate, bindTemplate, checkBinding } from '../services/templateService';
+import { findClosestColumn } from '../services/validationService';
+import { LayoutTemplate, ArrowRight, TriangleAlert, XCircle } from 'lucide-react';
+
+interface TemplateMapperProps {
+  template: DashboardTemplate;
+  dataSets: DataSet[];
+  onApply: (config: DashboardConfig) => void;
+  onCancel: () => void;
+}
+
+const selectClass = "w-full text-sm border rounded-lg px-2 py-1.5 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+
+export const TemplateMapper: React.FC<TemplateMapperProps> = ({ template, dataSets, onApply, onCancel }) => {
+  const [binding, setBinding] = useState<TemplateBinding>(() => bindTemplate(template, dataSets));
+  const issues = useMemo(() => checkBinding(template, dataSets, binding), [template, dataSets, binding]);
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+
+  const setSheet = (sheet: TemplateSheet, target: string) => {
+    const key = sheet.sheetName || '';
+    const dataSet = dataSets.find((d: DataSet) => (d.sheetName || '') === target)!;
+    // Re-match the columns against the newly chosen sheet
+    const columns = Object.fromEntries(sheet.columns.map(column => [column.name, findClosestColumn(column.name, dataSet.headers)]));
+    setBinding(prev => ({ sheets: { ...prev.sheets, [key]: target }, columns: { ...prev.columns, [key]: columns } }));
+  };
+
+  const setColumn = (sheet: TemplateSheet, name: string, target: string) => {
+    const key = sheet.sheetName || '';
+    setBinding(prev => ({
+      ...prev,
+      columns: { ...prev.columns, [key]: { ...prev.columns[key], [name]: target || null } },
+    }));
+  };
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-10 text-left animate-fade-in">
+      <h3 className="flex items-center gap-2 text-lg font-bold text-slate-800 dark:text-slate-100">
+        <LayoutTemplate className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+        Apply template "{template.name}"
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-5">
+        Check which column of <span className="font-medium">{dataSets[0].fileName}</span> each template column reads from. Renamed headers can be mapped by hand.
+      </p>
+
+      <div className="space-y-5 max-h-96 overflow-y-auto pr-1">
+        {template.sheets.map((sheet: TemplateSheet) => {
+          const key = sheet.sheetName || '';
+          const dataSet = dataSets.find((d: DataSet) => (d.sheetName || '') === binding.sheets[key]) || dataSets[0];
+          return (
+            <div key={key}>
+              {(template.sheets.length > 1 || dataSets.length > 1) && (
+                <div className="flex items-center gap-2 mb-2 text-sm">
+                  <span className="font-semibold text-slate-700 dark:text-slate-200 truncate">{key || 'Data'}</span>
+                  <ArrowRight className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                  <select
+                    value={binding.sheets[key]}
+                    onChange={(e) => setSheet(sheet, e.target.value)}
+                    className={`${selectClass} max-w-xs border-slate-200 dark:border-slate-600`}
+                    aria-label={`Sheet for ${key}`}
+                  >
+                    {dataSets.map((d: DataSet) => (
+                      <option key={d.sheetName || ''} value={d.sheetName || ''}>{d.sheetName || d.fileName}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+                {sheet.columns.map((column) => {
+                  const mapped = binding.columns[key]?.[column.name] || '';
+                  return (
+                    <div key={column.name} className="grid grid-cols-[1fr_auto_1fr] items-center gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="truncate font-medium text-slate-700 dark:text-slate-200" title={column.name}>{column.name}</div>
+                        <div className="text-xs text-slate-400 dark:text-slate-500">{column.type}</div>
+                      </div>
+                      <ArrowRight className="w-4 h-4 text-slate-400" />
+                      <select
+                        value={mapped}
+                        onChange={(e) => setColumn(sheet, column.name, e.target.value)}
+                        className={`${selectClass} ${mapped ? 'border-slate-200 dark:border-slate-600' : 'border-red-300 dark:border-red-700'}`}
+                        aria-label={`Column for ${column.name}`}
+                      >
+                        <option value="">Missing - choose a column</option>
+                        {dataSet.headers.map((header) => (
+                          <option key={header} value={header}>{header} ({dataSet.schema[header]?.type})</option>
+                        ))}
+                      </select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="mt-4 space-y-1 text-sm">
+          {issues.map((issue, index) => (
+            <div
+              key={index}
+              className={`flex items-start gap-2 ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-700 dark:text-amber-300'}`}
+            >
+              {issue.severity === 'error'
+                ? <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                : <TriangleAlert className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+              <span>{issue.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onApply(applyTemplate(template, dataSets, binding))}
+          disabled={hasErrors}
+          className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Build dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useRef, useState } from 'react';
+import { DashboardTemplate } from '../types';
+import { parseTemplate } from '../services/templateService';
+import { LayoutTemplate, X } from 'lucide-react';
+
+interface TemplateSelectorProps {
+  template: DashboardTemplate | null;
+  onChange: (template: DashboardTemplate | null) => void;
+  disabled?: boolean;
+}
+
+export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ template, onChange, disabled = false }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      onChange(parseTemplate(await file.text()));
+    } catch (err: any) {
+      setError(err.message || 'Could not read the template');
+    }
+  };
+
+  return (
+    <div className="mt-3 text-left">
+      {template ? (
+        <div className="flex items-center gap-2 text-sm text-indigo-700 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-800 rounded-lg px-3 py-2">
+          <LayoutTemplate className="w-4 h-4 flex-shrink-0" />
+          <span className="flex-1 truncate">
+            Template <span className="font-semibold">{template.name}</span> - the next file is laid out like it, without an analysis engine.
+          </span>
+          <button onClick={() => onChange(null)} disabled={disabled} className="p-0.5 rounded hover:bg-indigo-100 dark:hover:bg-indigo-800" aria-label="Remove template">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={disabled}
+          className="flex items-center gap-2 text-xs font-medium text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50"
+        >
+          <LayoutTemplate className="w-4 h-4" />
+          Use a dashboard template instead
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="text-xs text-red-600 dark:text-red-400 mt-1">{error}</p>}
+    </div>
+  );
+};
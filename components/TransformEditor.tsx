@@ -0,0 +1,510 @@
+import React, { useState, useMemo } from 'react';
+import { ColumnProfile, ColumnType, DataSet, TextCase, TransformStep } from '../types';
+import { findDataSet } from '../services/dataService';
+import { runQuery } from '../services/queryService';
+import { DATE_FORMATS, isDateType } from '../services/schemaService';
+import {
+  CASE_LABELS, COLUMN_TYPE_LABELS, STEP_LABELS, TransformKind, applyTransforms, describeStep, suggestUnpivotKeep,
+} from '../services/transformService';
+import { Sheet, Plus, Trash2, XCircle, WandSparkles, TriangleAlert } from 'lucide-react';
+
+interface TransformEditorProps {
+  dataSets: DataSet[]; // As built from the file, before any step
+  steps: TransformStep[]; // Replayed from the last file or the template
+  onConfirm: (steps: TransformStep[]) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full text-sm border border-slate-200 dark:border-slate-600 rounded-lg px-3 py-2 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500";
+const labelClass = "text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wide mb-1.5 block";
+
+// Steps run on the first rows only while editing; the whole file is processed on confirm
+const SAMPLE_ROWS = 200;
+const PREVIEW_ROWS = 8;
+const PREVIEW_COLUMNS = 10;
+
+const newStep = (kind: TransformKind, headers: string[], sheetName?: string): TransformStep => {
+  const column = headers[0] || '';
+  switch (kind) {
+    case 'rename':
+      return { kind, sheetName, column, to: '' };
+    case 'drop':
+      return { kind, sheetName, columns: [] };
+    case 'changeType':
+      return { kind, sheetName, column, type: ColumnType.TEXT };
+    case 'trim':
+      return { kind, sheetName, columns: [] };
+    case 'split':
+      return { kind, sheetName, column, separator: ' ', into: [`${column} 1`, `${column} 2`] };
+    case 'merge':
+      return { kind, sheetName, columns: [], separator: ' ', into: '' };
+    case 'fillNulls':
+      return { kind, sheetName, column, method: 'value', value: '' };
+    case 'dedupe':
+      return { kind, sheetName, columns: [] };
+    case 'replace':
+      return { kind, sheetName, columns: [], find: '', replace: '', wholeCell: false, matchCase: false };
+    case 'unpivot':
+      return { kind, sheetName, keep: suggestUnpivotKeep(headers), keyName: 'Month', valueName: 'Value' };
+  }
+};
+
+// Toggle chips for steps that work on several columns, in the order they were picked
+const ColumnChips = ({ headers, selected, onChange }: { headers: string[]; selected: string[]; onChange: (columns: string[]) => void }) => (
+  <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto">
+    {headers.map((header) => {
+      const isSelected = selected.includes(header);
+      return (
+        <button
+          key={header}
+          type="button"
+          onClick={() => onChange(isSelected ? selected.filter(c => c !== header) : [...selected, header])}
+          className={`text-xs px-2 py-0.5 rounded-md border transition-colors
+            ${isSelected
+              ? 'bg-indigo-600 border-indigo-600 text-white'
+              : 'border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700'}
+          `}
+        >
+          {header}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export const TransformEditor: React.FC<TransformEditorProps> = ({ dataSets, steps: initialSteps, onConfirm, onCancel }) => {
+  const [steps, setSteps] = useState<TransformStep[]>(initialSteps);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [draft, setDraft] = useState<TransformStep | null>(null);
+  const replayed = initialSteps.length > 0;
+
+  const activeSheet = dataSets[activeIndex].sheetName;
+
+  // The recorded steps on the sample, and the same with the step being added
+  const current = useMemo(() => applyTransforms(dataSets, steps, SAMPLE_ROWS), [dataSets, steps]);
+  const preview = useMemo(
+    () => (draft ? applyTransforms(dataSets, [...steps, draft], SAMPLE_ROWS) : current),
+    [dataSets, steps, draft, current]
+  );
+
+  const headers = findDataSet(current.dataSets, activeSheet).headers;
+  const shown = findDataSet(preview.dataSets, activeSheet);
+  const draftError = draft ? preview.issues.find(issue => issue.index === steps.length)?.message : undefined;
+  const sampled = dataSets[activeIndex].rowCount > SAMPLE_ROWS;
+
+  // What reading the file left open or blanked, until a step sets the column's type
+  const input = dataSets[activeIndex];
+  const retyped = steps.flatMap(step =>
+    step.kind === 'changeType' && findDataSet(dataSets, step.sheetName) === input ? [step.column] : []
+  );
+  const notices = input.headers
+    .map(header => input.schema[header])
+    .filter(profile => !retyped.includes(profile.name) && (profile.ambiguousDates || profile.coercedCount));
+
+  const readDates = (profile: ColumnProfile, dateFormat: string) => {
+    if (!profile.ambiguousDates) return;
+    const step: TransformStep = { kind: 'changeType', sheetName: activeSheet, column: profile.name, type: profile.ambiguousDates.type, dateFormat };
+    setSteps(prev => [...prev, step]);
+  };
+
+  const update = (changes: Partial<TransformStep>) => setDraft(prev => (prev ? ({ ...prev, ...changes } as TransformStep) : prev));
+
+  const selectSheet = (index: number) => {
+    setActiveIndex(index);
+    setDraft(null);
+  };
+
+  const handleAdd = () => {
+    if (!draft || draftError) return;
+    setSteps(prev => [...prev, draft]);
+    setDraft(null);
+  };
+
+  const columnSelect = (value: string, onChange: (column: string) => void, id: string) => (
+    <select id={id} value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+      {headers.map((header) => <option key={header} value={header}>{header}</option>)}
+    </select>
+  );
+
+  // Inputs for the kind of step being added
+  const renderFields = (step: TransformStep) => {
+    switch (step.kind) {
+      case 'rename':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="step-column">Column</label>
+              {columnSelect(step.column, column => update({ column }), 'step-column')}
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="step-to">New name</label>
+              <input id="step-to" type="text" value={step.to} onChange={(e) => update({ to: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+        );
+      case 'drop':
+      case 'dedupe':
+        return (
+          <div>
+            <label className={labelClass}>{step.kind === 'drop' ? 'Columns to drop' : 'Compare columns (all when none are picked)'}</label>
+            <ColumnChips headers={headers} selected={step.columns} onChange={columns => update({ columns })} />
+          </div>
+        );
+      case 'changeType':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="step-column">Column</label>
+              {columnSelect(step.column, column => update({ column }), 'step-column')}
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="step-type">Type</label>
+              <select
+                id="step-type"
+                value={step.type}
+                onChange={(e) => update({ type: e.target.value as ColumnType, dateFormat: undefined })}
+                className={inputClass}
+              >
+                {Object.entries<string>(COLUMN_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {isDateType(step.type) && (
+              <div className="col-span-2">
+                <label className={labelClass} htmlFor="step-date-format">Read dates as</label>
+                <select id="step-date-format" value={step.dateFormat || ''} onChange={(e) => update({ dateFormat: e.target.value || undefined })} className={inputClass}>
+                  <option value="">Any known format</option>
+                  {DATE_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                </select>
+              </div>
+            )}
+          </div>
+        );
+      case 'trim':
+        return (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Columns (all text when none are picked)</label>
+              <ColumnChips headers={headers} selected={step.columns} onChange={columns => update({ columns })} />
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="step-case">Case</label>
+              <select id="step-case" value={step.case || ''} onChange={(e) => update({ case: (e.target.value || undefined) as TextCase | undefined })} className={inputClass}>
+                <option value="">Keep as is</option>
+                {Object.entries<string>(CASE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        );
+      case 'split':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="step-column">Column</label>
+              {columnSelect(step.column, column => update({ column, into: [`${column} 1`, `${column} 2`] }), 'step-column')}
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="step-separator">Split at</label>
+              <input id="step-separator" type="text" value={step.separator} onChange={(e) => update({ separator: e.target.value })} className={inputClass} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass} htmlFor="step-into">New columns, comma separated</label>
+              <input
+                id="step-into"
+                type="text"
+                value={step.into.join(', ')}
+                onChange={(e) => update({ into: e.target.value.split(',').map(name => name.trim()) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        );
+      case 'merge':
+        return (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Columns, in order</label>
+              <ColumnChips headers={headers} selected={step.columns} onChange={columns => update({ columns })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass} htmlFor="step-separator">Join with</label>
+                <input id="step-separator" type="text" value={step.separator} onChange={(e) => update({ separator: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="step-into">New column</label>
+                <input id="step-into" type="text" value={step.into} onChange={(e) => update({ into: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+          </div>
+        );
+      case 'fillNulls':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass} htmlFor="step-column">Column</label>
+              {columnSelect(step.column, column => update({ column }), 'step-column')}
+            </div>
+            <div>
+              <label className={labelClass} htmlFor="step-method">Blank cells</label>
+              <select id="step-method" value={step.method} onChange={(e) => update({ method: e.target.value })} className={inputClass}>
+                <option value="value">Fill with a value</option>
+                <option value="previous">Fill from the row above</option>
+                <option value="drop">Drop the row</option>
+              </select>
+            </div>
+            {step.method === 'value' && (
+              <div className="col-span-2">
+                <label className={labelClass} htmlFor="step-value">Value</label>
+                <input id="step-value" type="text" value={step.value || ''} onChange={(e) => update({ value: e.target.value })} className={inputClass} />
+              </div>
+            )}
+          </div>
+        );
+      case 'replace':
+        return (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Columns (every column when none are picked)</label>
+              <ColumnChips headers={headers} selected={step.columns} onChange={columns => update({ columns })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass} htmlFor="step-find">Find</label>
+                <input id="step-find" type="text" value={step.find} onChange={(e) => update({ find: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="step-replace">Replace with</label>
+                <input id="step-replace" type="text" value={step.replace} placeholder="(blank)" onChange={(e) => update({ replace: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+            <div className="flex gap-4 text-sm text-slate-600 dark:text-slate-300">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={step.wholeCell} onChange={(e) => update({ wholeCell: e.target.checked })} className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500" />
+                Whole cell only
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={step.matchCase} onChange={(e) => update({ matchCase: e.target.checked })} className="rounded border-slate-300 dark:border-slate-600 text-indigo-600 focus:ring-indigo-500" />
+                Match case
+              </label>
+            </div>
+          </div>
+        );
+      case 'unpivot':
+        return (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Columns to keep; the rest turn into rows</label>
+              <ColumnChips headers={headers} selected={step.keep} onChange={keep => update({ keep })} />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass} htmlFor="step-key">Column names go to</label>
+                <input id="step-key" type="text" value={step.keyName} onChange={(e) => update({ keyName: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass} htmlFor="step-value-name">Values go to</label>
+                <input id="step-value-name" type="text" value={step.valueName} onChange={(e) => update({ valueName: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mt-10 text-left animate-fade-in">
+      <h3 className="text-lg font-bold text-slate-800 dark:text-slate-100">Clean up the data</h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mt-1 mb-5">
+        {replayed
+          ? 'The steps from last time were run again on this file. Remove any that don\'t fit, or add more.'
+          : 'Fix columns and values before the analysis. Steps are saved with the dashboard and run again on the next file you load.'}
+      </p>
+
+      {dataSets.length > 1 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {dataSets.map((d: DataSet, index: number) => (
+            <button
+              key={d.sheetName || index}
+              type="button"
+              onClick={() => selectSheet(index)}
+              className={`flex items-center gap-1.5 text-xs font-medium px-3 py-1.5 rounded-full border transition-colors
+                ${index === activeIndex
+                  ? 'bg-indigo-600 border-indigo-600 text-white'
+                  : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'}
+              `}
+            >
+              <Sheet className="w-3.5 h-3.5" />
+              {d.sheetName}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Dates to settle and cells left blank while reading the sheet */}
+      {notices.length > 0 && (
+        <div className="mb-4 p-3 border border-amber-200 dark:border-amber-900/60 rounded-lg space-y-2 text-sm text-amber-700 dark:text-amber-400">
+          {notices.map((profile: ColumnProfile) => (
+            <div key={profile.name} className="flex items-start gap-2">
+              <TriangleAlert className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {profile.ambiguousDates ? (
+                <div className="flex flex-wrap items-center gap-2">
+                  <span>"{profile.name}" reads as dates both month first and day first, so it was left as text. Which is it?</span>
+                  {profile.ambiguousDates.formats.map(format => (
+                    <button
+                      key={format}
+                      type="button"
+                      onClick={() => readDates(profile, format)}
+                      className="text-xs font-medium px-2 py-0.5 rounded-md border border-amber-300 dark:border-amber-800 hover:bg-amber-50 dark:hover:bg-amber-900/30"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <span>
+                  {profile.coercedCount!.toLocaleString()} {profile.coercedCount === 1 ? 'value' : 'values'} in "{profile.name}" didn't read
+                  as {COLUMN_TYPE_LABELS[profile.type].toLowerCase()} and {profile.coercedCount === 1 ? 'was' : 'were'} left blank.
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Recorded steps, in the order they run */}
+      {steps.length > 0 && (
+        <ol className="mb-4 border border-slate-200 dark:border-slate-700 rounded-lg divide-y divide-slate-100 dark:divide-slate-700">
+          {steps.map((step, index) => {
+            const issue = current.issues.find(i => i.index === index);
+            return (
+              <li key={index} className="flex items-start gap-3 px-3 py-2 text-sm">
+                <span className="text-xs font-mono text-slate-400 mt-0.5 w-5 text-right">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className={issue ? 'text-slate-400 dark:text-slate-500 line-through' : 'text-slate-700 dark:text-slate-200'}>
+                    {describeStep(step)}
+                    {dataSets.length > 1 && <span className="ml-2 text-xs text-slate-400">{findDataSet(dataSets, step.sheetName).sheetName}</span>}
+                  </div>
+                  {issue && <div className="text-xs text-red-600 dark:text-red-400">Skipped: {issue.message}</div>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))}
+                  className="p-1 rounded-md text-slate-400 hover:bg-red-50 dark:hover:bg-red-900/30 hover:text-red-600 dark:hover:text-red-400"
+                  title="Remove step"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {/* Step being added */}
+      {draft ? (
+        <div className="mb-4 p-4 border border-indigo-200 dark:border-indigo-900/60 rounded-lg space-y-3">
+          <div>
+            <label className={labelClass} htmlFor="step-kind">Step</label>
+            <select
+              id="step-kind"
+              value={draft.kind}
+              onChange={(e) => setDraft(newStep(e.target.value as TransformKind, headers, activeSheet))}
+              className={inputClass}
+            >
+              {Object.entries<string>(STEP_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+          {renderFields(draft)}
+          {draftError && (
+            <div className="flex items-start gap-2 text-sm text-red-600 dark:text-red-400">
+              <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{draftError}</span>
+            </div>
+          )}
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-3 py-1.5 rounded-lg transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={!!draftError}
+              className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-3 py-1.5 rounded-lg transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add step
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setDraft(newStep('rename', headers, activeSheet))}
+          className="flex items-center gap-1.5 mb-4 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          <Plus className="w-4 h-4" />
+          Add a step
+        </button>
+      )}
+
+      {/* Live preview of the sheet after the steps */}
+      <div className="overflow-auto max-h-80 border border-slate-200 dark:border-slate-700 rounded-lg">
+        <table className="min-w-full text-xs">
+          <thead className="bg-slate-50 dark:bg-slate-900/40 sticky top-0">
+            <tr>
+              {shown.headers.slice(0, PREVIEW_COLUMNS).map((header) => (
+                <th key={header} className="px-2 py-1.5 text-left font-semibold text-slate-700 dark:text-slate-200 whitespace-nowrap">
+                  {header}
+                  <div className="font-normal text-slate-400 dark:text-slate-500">{COLUMN_TYPE_LABELS[shown.schema[header].type]}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {runQuery(shown.columns, { select: shown.headers, limit: PREVIEW_ROWS }).map((row, index) => (
+              <tr key={index} className="border-t border-slate-100 dark:border-slate-700/60 text-slate-700 dark:text-slate-200">
+                {shown.headers.slice(0, PREVIEW_COLUMNS).map((header) => (
+                  <td key={header} className="px-2 py-1.5 whitespace-nowrap max-w-[160px] truncate">
+                    {row[header] === null || row[header] === undefined ? '' : String(row[header])}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400 mt-2">
+        <WandSparkles className="w-3.5 h-3.5" />
+        {shown.headers.length} columns, {shown.rowCount} rows
+        {sampled && ` from the first ${SAMPLE_ROWS}; the whole file is cleaned when you continue`}
+      </p>
+
+      <div className="flex justify-end gap-3 mt-6">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm font-medium text-slate-600 dark:text-slate-300 hover:text-slate-900 dark:hover:text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onConfirm(steps)}
+          disabled={current.dataSets.some(d => d.rowCount === 0)}
+          className="text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-600 dark:hover:bg-indigo-500 px-4 py-2 rounded-lg transition-colors shadow-sm hover:shadow disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Analyze Data
+        </button>
+      </div>
+    </div>
+  );
+};
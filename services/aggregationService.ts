@@ -0,0 +1,250 @@
+import { AggregationType, ChartConfig, ChartType, DataRow, DataSchema, DataSet, DateGranularity, DrillLevel, RowSelection } from '../types';
+import { isDateType, isNumericType, parseDateValue } from './schemaService';
+import { BLANK_LABEL, Predicate, runQuery } from './queryService';
+import { sampleRows } from './samplingService';
+import { GRANULARITY_LABELS, autoGranularity, formatPeriod, nextPeriod, parsePeriod, yearEarlier } from './periodService';
+
+export { BLANK_LABEL } from './queryService';
+
+// Key of the period start timestamp in the series of charts drawn on a time axis
+export const TIME_KEY = '__periodStart';
+// Gap filling stops past this many periods, e.g. days across decades
+const MAX_FILLED_PERIODS = 5000;
+// Appended to a measure's name for its prior-year overlay series
+export const PRIOR_YEAR_SUFFIX = ' (prior year)';
+
+type CellValue = DataRow[string];
+
+export const AGGREGATION_LABELS: Record<AggregationType, string> = {
+  [AggregationType.SUM]: 'Sum',
+  [AggregationType.MEAN]: 'Average',
+  [AggregationType.COUNT]: 'Count',
+  [AggregationType.MIN]: 'Min',
+  [AggregationType.MAX]: 'Max',
+  [AggregationType.MEDIAN]: 'Median',
+  [AggregationType.DISTINCT_COUNT]: 'Distinct Count',
+};
+
+const isEmpty = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || value === '';
+
+const toNumber = (value: CellValue | undefined): number | null => {
+  if (isEmpty(value)) return null;
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(String(value).replace(/,/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * The column whose values end up on the category axis.
+ */
+export const getCategoryKey = (config: ChartConfig): string => config.groupBy || config.xKey;
+
+// Most points a scatter chart draws; larger selections are sampled, as more freeze the browser
+export const MAX_SCATTER_POINTS = 5000;
+
+/**
+ * Charts that plot raw points instead of grouped totals.
+ */
+export const isAggregatedChart = (config: ChartConfig): boolean => config.type !== ChartType.SCATTER;
+
+/**
+ * Scatter charts place raw values on both axes, so they only make sense
+ * when the x column and every y column hold numbers.
+ */
+export const supportsScatter = (config: ChartConfig, schema: DataSchema): boolean =>
+  isNumericType(schema[config.xKey]?.type) && config.yKeys.length > 0 && config.yKeys.every(key => isNumericType(schema[key]?.type));
+
+/**
+ * Aggregations that make sense for a column of the given schema type.
+ * Non-numeric columns can only be counted.
+ */
+export const getAllowedAggregations = (key: string, schema: DataSchema): AggregationType[] =>
+  isNumericType(schema[key]?.type)
+    ? Object.values(AggregationType)
+    : [AggregationType.COUNT, AggregationType.DISTINCT_COUNT];
+
+/**
+ * The column that clicking one of the chart's elements filters on.
+ */
+export const getCrossFilterColumn = (config: ChartConfig): string =>
+  isAggregatedChart(config) ? getCategoryKey(config) : config.xKey;
+
+/**
+ * Charts whose categories are dates. Their rows are grouped by period and
+ * kept in time order.
+ */
+export const isTimeSeries = (config: ChartConfig, schema: DataSchema): boolean =>
+  isAggregatedChart(config) && isDateType(schema[getCategoryKey(config)]?.type);
+
+/**
+ * Line and area time series are drawn on a real time scale, with missing
+ * periods filled in.
+ */
+export const hasTimeAxis = (config: ChartConfig, schema: DataSchema): boolean =>
+  (config.type === ChartType.LINE || config.type === ChartType.AREA) && isTimeSeries(config, schema);
+
+/**
+ * The period a time series is grouped by: the chart's own choice, or else
+ * one that suits the column's date range.
+ */
+export const getGranularity = (config: ChartConfig, schema: DataSchema): DateGranularity | undefined => {
+  if (!isTimeSeries(config, schema)) return undefined;
+  return config.granularity || getColumnGranularity(getCategoryKey(config), schema);
+};
+
+/**
+ * The period that suits a date column's range, or undefined for columns that
+ * aren't dates. maxPeriods caps the number of periods, as in autoGranularity.
+ */
+export const getColumnGranularity = (key: string, schema: DataSchema, maxPeriods?: number): DateGranularity | undefined => {
+  const profile = schema[key];
+  if (!isDateType(profile?.type)) return undefined;
+  const min = parseDateValue(typeof profile.min === 'string' ? profile.min : null);
+  const max = parseDateValue(typeof profile.max === 'string' ? profile.max : null);
+  return min !== null && max !== null ? autoGranularity(min, max, maxPeriods) : 'day';
+};
+
+// Adds the period start to every point and inserts the periods that had no rows.
+// Blank dates have no place on a time axis and are left out.
+const fillPeriods = (series: DataRow[], key: string, granularity: DateGranularity, yKeys: string[], fill: number | null): DataRow[] => {
+  const points = series
+    .map(row => ({ row, start: parsePeriod(String(row[key]), granularity) }))
+    .filter((point): point is { row: DataRow; start: number } => point.start !== null);
+  if (points.length === 0) return [];
+
+  const byStart = new Map(points.map(point => [point.start, point.row]));
+  const filled: DataRow[] = [];
+  const last = points[points.length - 1].start;
+  for (let start = points[0].start; start <= last; start = nextPeriod(start, granularity)) {
+    if (filled.length >= MAX_FILLED_PERIODS) {
+      return points.map(({ row, start: pointStart }) => ({ ...row, [TIME_KEY]: pointStart }));
+    }
+    const row = byStart.get(start) || Object.fromEntries([[key, formatPeriod(start, granularity)], ...yKeys.map(y => [y, fill])]);
+    filled.push({ ...row, [TIME_KEY]: start });
+  }
+  return filled;
+};
+
+/**
+ * The chart as shown at a depth of its drill path: the level's column
+ * becomes the category axis. Charts without a drill path are returned as-is.
+ */
+export const getDrillConfig = (config: ChartConfig, depth: number): ChartConfig => {
+  const level = config.drillPath?.[depth];
+  if (!level || !isAggregatedChart(config)) return config;
+  return { ...config, xKey: level.column, groupBy: level.column, granularity: level.granularity };
+};
+
+/**
+ * Restricts rows to one member of a drill level, given as the category label
+ * the chart showed for it.
+ */
+export const getDrillPredicate = (level: DrillLevel, member: string): Predicate => {
+  if (member === BLANK_LABEL) return { column: level.column, op: 'empty' };
+  const start = level.granularity ? parsePeriod(member, level.granularity) : null;
+  if (level.granularity && start !== null) {
+    return { column: level.column, op: 'between', min: start, max: nextPeriod(start, level.granularity) - 1 };
+  }
+  return { column: level.column, op: 'in', values: [member] };
+};
+
+export const describeDrillLevel = (level: DrillLevel): string =>
+  level.granularity ? `${GRANULARITY_LABELS[level.granularity]} of ${level.column}` : level.column;
+
+/**
+ * Resolves the aggregation for a column, keeping an explicit choice when it
+ * suits the column and otherwise falling back to SUM for numeric columns and
+ * COUNT for anything else.
+ */
+export const resolveAggregation = (explicit: AggregationType | undefined, key: string, schema: DataSchema): AggregationType => {
+  if (explicit && getAllowedAggregations(key, schema).includes(explicit)) return explicit;
+  return isNumericType(schema[key]?.type) ? AggregationType.SUM : AggregationType.COUNT;
+};
+
+/**
+ * Resolves the aggregation for a y-key of a chart.
+ */
+export const getAggregation = (config: ChartConfig, key: string, schema: DataSchema): AggregationType =>
+  resolveAggregation(config.aggregations?.[key], key, schema);
+
+/**
+ * Reduces a list of raw cell values to a single number.
+ */
+export const aggregateValues = (values: CellValue[], aggregation: AggregationType): number | null => {
+  const present = values.filter(v => !isEmpty(v));
+
+  if (aggregation === AggregationType.COUNT) return present.length;
+  if (aggregation === AggregationType.DISTINCT_COUNT) return new Set(present.map(String)).size;
+
+  const numbers = present.map(toNumber).filter((n): n is number => n !== null);
+  if (numbers.length === 0) return null;
+
+  switch (aggregation) {
+    case AggregationType.SUM:
+      return numbers.reduce((acc, n) => acc + n, 0);
+    case AggregationType.MEAN:
+      return numbers.reduce((acc, n) => acc + n, 0) / numbers.length;
+    // Reduced rather than spread, which overflows the stack on large groups
+    case AggregationType.MIN:
+      return numbers.reduce((acc, n) => Math.min(acc, n), Infinity);
+    case AggregationType.MAX:
+      return numbers.reduce((acc, n) => Math.max(acc, n), -Infinity);
+    case AggregationType.MEDIAN: {
+      const sorted = [...numbers].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Computes the series a chart renders from the selected rows: one row per
+ * distinct category with every y-key reduced by its aggregation. Scatter
+ * charts keep raw points, a sample of them past MAX_SCATTER_POINTS. Categories keep the order in which they first
+ * appear in the data, except dates, which are grouped by period in time
+ * order; on a time axis every period gets a point and its start under TIME_KEY.
+ */
+export const aggregateSeries = (dataSet: DataSet, rows: RowSelection, config: ChartConfig): DataRow[] => {
+  if (!isAggregatedChart(config)) {
+    return runQuery(dataSet.columns, { rows: sampleRows(rows, MAX_SCATTER_POINTS), select: [config.xKey, ...config.yKeys] });
+  }
+
+  const granularity = getGranularity(config, dataSet.schema);
+  const series = runQuery(dataSet.columns, {
+    rows,
+    groupBy: getCategoryKey(config),
+    granularity,
+    aggregates: config.yKeys.map(key => ({ column: key, aggregation: getAggregation(config, key, dataSet.schema) })),
+  });
+
+  if (!granularity || !hasTimeAxis(config, dataSet.schema)) return series;
+  return fillPeriods(series, getCategoryKey(config), granularity, config.yKeys, config.gapFill === 'zero' ? 0 : null);
+};
+
+/**
+ * Adds the same periods a year earlier to a time-axis series, as
+ * `<yKey> (prior year)`. The prior rows must not be cut to the charted dates,
+ * or the earlier year is missing.
+ */
+export const addPriorYear = (dataSet: DataSet, series: DataRow[], priorRows: RowSelection, config: ChartConfig): DataRow[] => {
+  const granularity = getGranularity(config, dataSet.schema);
+  if (!granularity || series.length === 0) return series;
+
+  const key = getCategoryKey(config);
+  const prior = runQuery(dataSet.columns, {
+    rows: priorRows,
+    groupBy: key,
+    granularity,
+    aggregates: config.yKeys.map(y => ({ column: y, aggregation: getAggregation(config, y, dataSet.schema) })),
+  });
+  const byStart = new Map(prior.map(row => [parsePeriod(String(row[key]), granularity), row]));
+
+  return series.map(point => {
+    const earlier = byStart.get(yearEarlier(point[TIME_KEY] as number, granularity));
+    return { ...point, ...Object.fromEntries(config.yKeys.map(y => [`${y}${PRIOR_YEAR_SUFFIX}`, earlier?.[y] ?? null])) };
+  });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { AnomalySettings, ChartConfig, ChartType } from '../types';
+import { findAnomalies, findChartAnomalies } from './anomalyService';
+import { allRows, runQuery } from './queryService';
+import { toISODate } from './schemaService';
+import { makeDataSet } from './testData';
+
+const chart = (type: ChartType, xKey: string, anomalies?: AnomalySettings): ChartConfig => ({
+  id: 'chart',
+  type,
+  title: 'Sales',
+  description: '',
+  xKey,
+  yKeys: ['Sales'],
+  granularity: 'month',
+  anomalies,
+});
+
+// One store sells far more than the others
+const stores = makeDataSet({ Store: ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'], Sales: ['10', '12', '11', '9', '10', '13', '11', '60'] });
+const storeSeries = runQuery(stores.columns, { select: ['Store', 'Sales'] });
+
+// Three years of monthly sales: a steady rise, a December peak every year and one spike in June 2024
+const months = Array.from({ length: 36 }, (_, i) => i);
+const monthly = makeDataSet({
+  Month: months.map(i => toISODate(new Date(2022, i, 1).getTime())),
+  Sales: months.map(i => String(100 + i + (i % 12 === 11 ? 60 : 0) + [3, -2, 1, -1, 2, 0][i % 6] + (i === 29 ? 45 : 0))),
+});
+const monthlyAnomalies = (anomalies?: AnomalySettings) =>
+  findChartAnomalies(monthly, allRows(monthly.columns), chart(ChartType.LINE, 'Month', anomalies));
+
+describe('findAnomalies', () => {
+  it('flags points beyond the quartiles on category charts', () => {
+    const [anomaly, ...rest] = findAnomalies(storeSeries, chart(ChartType.BAR, 'Store'), stores.schema);
+    expect(rest).toEqual([]);
+    expect(anomaly).toMatchObject({ chartId: 'chart', key: 'Sales', index: 7, label: 'H', x: 'H', value: 60, method: 'iqr' });
+    expect(anomaly.score).toBeGreaterThan(1.5);
+    expect(anomaly.severity).toBeCloseTo(anomaly.score / 1.5);
+  });
+
+  it('uses the chart\'s own method and threshold', () => {
+    const strict = findAnomalies(storeSeries, chart(ChartType.BAR, 'Store', { method: 'zscore', threshold: 2 }), stores.schema);
+    expect(strict.map(anomaly => [anomaly.label, anomaly.method])).toEqual([['H', 'zscore']]);
+    expect(strict[0].reason).toMatch(/^60 is 2\.\d+ standard deviations above the mean of 17\.$/);
+
+    const lenient = findAnomalies(storeSeries, chart(ChartType.BAR, 'Store', { method: 'zscore', threshold: 3 }), stores.schema);
+    expect(lenient).toEqual([]);
+  });
+
+  it('finds nothing on hidden settings, pies or too few points', () => {
+    expect(findAnomalies(storeSeries, chart(ChartType.BAR, 'Store', { hidden: true }), stores.schema)).toEqual([]);
+    expect(findAnomalies(storeSeries, chart(ChartType.PIE, 'Store'), stores.schema)).toEqual([]);
+    expect(findAnomalies(storeSeries.slice(-4), chart(ChartType.BAR, 'Store'), stores.schema)).toEqual([]);
+  });
+
+  it('leaves out what trend and season explain on a time axis with two seasons', () => {
+    const anomalies = monthlyAnomalies();
+    expect(anomalies.map(anomaly => [anomaly.label, anomaly.method, anomaly.value])).toEqual([['2024-06', 'seasonal', 174]]);
+    expect(anomalies[0].x).toBe(new Date(2024, 5, 1).getTime());
+  });
+
+  it('flags the seasonal peaks with methods that ignore the season', () => {
+    const labels = monthlyAnomalies({ method: 'iqr' }).map(anomaly => anomaly.label);
+    expect(labels).toEqual(expect.arrayContaining(['2022-12', '2023-12', '2024-12']));
+  });
+});
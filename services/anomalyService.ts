@@ -0,0 +1,198 @@
+import { AnomalyMethod, ChartConfig, ChartType, DataRow, DataSchema, DataSet, DateGranularity, RowSelection } from '../types';
+import { TIME_KEY, aggregateSeries, getCategoryKey, getGranularity, hasTimeAxis } from './aggregationService';
+import { getOutlierBounds } from './queryService';
+
+export const ANOMALY_METHOD_LABELS: Record<AnomalyMethod, string> = {
+  zscore: 'Z-score',
+  iqr: 'IQR',
+  seasonal: 'Seasonal',
+};
+
+export const DEFAULT_THRESHOLDS: Record<AnomalyMethod, number> = {
+  zscore: 3,
+  iqr: 1.5,
+  seasonal: 3,
+};
+
+// Periods in one season; years have none
+const SEASON_LENGTHS: Partial<Record<DateGranularity, number>> = {
+  day: 7,
+  week: 52,
+  month: 12,
+  quarter: 4,
+};
+
+// Fewer points than this say nothing about what is usual
+const MIN_POINTS = 5;
+// Scales a median absolute deviation to a standard deviation for normally distributed values
+const MAD_SCALE = 1.4826;
+
+export interface Anomaly {
+  chartId: string;
+  key: string; // yKey the point belongs to
+  index: number; // Position of the point in the series
+  label: string; // Category or period of the point
+  x: string | number; // Where the point sits on the chart's x axis
+  value: number;
+  expected: number; // Mean, nearer quartile, or trend plus season
+  score: number; // Signed distance from expected, in the units of the method
+  severity: number; // Score over the threshold, so findings of different charts can be ranked
+  method: AnomalyMethod;
+  reason: string;
+}
+
+// Charts whose points stand for groups; pies and pivot tables show shares and exact figures instead
+export const supportsAnomalies = (config: ChartConfig): boolean =>
+  config.type === ChartType.BAR || config.type === ChartType.LINE || config.type === ChartType.AREA;
+
+const seasonLength = (config: ChartConfig, schema: DataSchema): number | undefined => {
+  const granularity = getGranularity(config, schema);
+  return granularity && hasTimeAxis(config, schema) ? SEASON_LENGTHS[granularity] : undefined;
+};
+
+/**
+ * The method a chart is checked with. Seasonal decomposition needs a time
+ * axis with two full seasons; a chart set to it falls back to z-scores
+ * without them.
+ */
+export const resolveAnomalyMethod = (config: ChartConfig, schema: DataSchema, pointCount: number): AnomalyMethod => {
+  const season = seasonLength(config, schema);
+  const canDecompose = season !== undefined && pointCount >= season * 2;
+  const method = config.anomalies?.method;
+  if (method === 'seasonal') return canDecompose ? 'seasonal' : 'zscore';
+  return method || (canDecompose ? 'seasonal' : 'iqr');
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+type Score = { expected: number; score: number; reason: string } | null;
+
+const zScores = (values: (number | null)[]): Score[] => {
+  const present = values.filter((value): value is number => value !== null);
+  const mean = present.reduce((acc, value) => acc + value, 0) / present.length;
+  const sd = Math.sqrt(present.reduce((acc, value) => acc + (value - mean) ** 2, 0) / (present.length - 1));
+  if (!(sd > 0)) return values.map(() => null);
+  return values.map(value => {
+    if (value === null) return null;
+    const score = (value - mean) / sd;
+    return { expected: mean, score, reason: `${format(Math.abs(score))} standard deviations ${score > 0 ? 'above' : 'below'} the mean of ${format(mean)}` };
+  });
+};
+
+const iqrScores = (values: (number | null)[]): Score[] => {
+  const bounds = getOutlierBounds({ kind: 'number', values: Float64Array.from(values, value => value ?? NaN) });
+  if (!bounds) return values.map(() => null);
+  const { q1, q3 } = bounds;
+  return values.map(value => {
+    if (value === null) return null;
+    const above = value > q3;
+    const expected = above ? q3 : q1;
+    const score = above ? (value - q3) / (q3 - q1) : value < q1 ? (value - q1) / (q3 - q1) : 0;
+    return { expected, score, reason: `${format(Math.abs(score))} interquartile ranges ${above ? 'above the upper' : 'below the lower'} quartile of ${format(expected)}` };
+  });
+};
+
+/**
+ * Additive decomposition: a centred moving average over one season is the
+ * trend, the median detrended value at each position of the season is the
+ * seasonal effect (so one spike doesn't shift its whole season), and what
+ * neither explains is scored against the residuals' robust spread. Gaps are
+ * skipped rather than filled.
+ */
+const seasonalScores = (values: (number | null)[], season: number): Score[] => {
+  const half = Math.floor(season / 2);
+  const trend = values.map((_, index) => {
+    // Even seasons take half of each end point, so the window stays centred
+    let sum = 0;
+    let weight = 0;
+    for (let offset = -half; offset <= half; offset++) {
+      const value = values[index + offset];
+      if (value === null || value === undefined) continue;
+      const w = season % 2 === 0 && Math.abs(offset) === half ? 0.5 : 1;
+      sum += value * w;
+      weight += w;
+    }
+    return weight >= season / 2 ? sum / weight : null;
+  });
+  // The ends lack a full window; they take the nearest trend value
+  const firstTrend = trend.find(value => value !== null);
+  if (firstTrend === undefined) return values.map(() => null);
+  let last = firstTrend!;
+  const filled = trend.map(value => (last = value ?? last));
+
+  const effects = Array.from({ length: season }, (_, position) => {
+    const detrended = values
+      .map((value, index) => (index % season === position && value !== null ? value - filled[index] : null))
+      .filter((value): value is number => value !== null);
+    return detrended.length > 0 ? median(detrended) : 0;
+  });
+  const meanEffect = effects.reduce((acc, value) => acc + value, 0) / season;
+  const seasonal = effects.map(effect => effect - meanEffect);
+
+  const expected = values.map((_, index) => filled[index] + seasonal[index % season]);
+  const residuals = values.map((value, index) => (value === null ? null : value - expected[index]));
+  const present = residuals.filter((value): value is number => value !== null);
+  const centre = median(present);
+  const spread = MAD_SCALE * median(present.map(value => Math.abs(value - centre)));
+  if (!(spread > 0)) return values.map(() => null);
+
+  return residuals.map((residual, index) => {
+    if (residual === null) return null;
+    const score = (residual - centre) / spread;
+    return {
+      expected: expected[index],
+      score,
+      reason: `${format(Math.abs(score))} typical deviations ${score > 0 ? 'above' : 'below'} the ${format(expected[index])} expected from trend and season`,
+    };
+  });
+};
+
+/**
+ * Flags the unusual points of a chart's series, one list for all its
+ * measures. A point is unusual when its score passes the chart's threshold,
+ * or the method's default one.
+ */
+export const findAnomalies = (series: DataRow[], config: ChartConfig, schema: DataSchema): Anomaly[] => {
+  if (config.anomalies?.hidden || !supportsAnomalies(config) || series.length < MIN_POINTS) return [];
+  const categoryKey = getCategoryKey(config);
+  const timeAxis = hasTimeAxis(config, schema);
+  const method = resolveAnomalyMethod(config, schema, series.length);
+  const threshold = config.anomalies?.threshold ?? DEFAULT_THRESHOLDS[method];
+
+  return config.yKeys.flatMap(key => {
+    const values = series.map(row => (typeof row[key] === 'number' ? row[key] as number : null));
+    if (values.filter(value => value !== null).length < MIN_POINTS) return [];
+    const scores = method === 'seasonal' ? seasonalScores(values, seasonLength(config, schema)!)
+      : method === 'zscore' ? zScores(values)
+      : iqrScores(values);
+
+    return scores.flatMap((scored, index): Anomaly[] => {
+      if (!scored || Math.abs(scored.score) <= threshold) return [];
+      const row = series[index];
+      const label = String(row[categoryKey]);
+      return [{
+        chartId: config.id,
+        key,
+        index,
+        label,
+        x: (timeAxis ? row[TIME_KEY] : row[categoryKey]) as string | number,
+        value: values[index]!,
+        expected: scored.expected,
+        score: scored.score,
+        severity: Math.abs(scored.score) / threshold,
+        method,
+        reason: `${config.yKeys.length > 1 ? `${key} at ` : ''}${format(values[index]!)} is ${scored.reason}.`,
+      }];
+    });
+  });
+};
+
+/** A chart's anomalies on the given rows, as its widget shows them at the top drill level. */
+export const findChartAnomalies = (dataSet: DataSet, rows: RowSelection, config: ChartConfig): Anomaly[] =>
+  config.anomalies?.hidden || !supportsAnomalies(config) ? [] : findAnomalies(aggregateSeries(dataSet, rows, config), config, dataSet.schema);
@@ -0,0 +1,73 @@
+import { CellValue, Column, DictionaryColumn } from '../types';
+
+// Rows a builder has room for before it first grows; it doubles from there
+const INITIAL_CAPACITY = 1024;
+
+const isBlank = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+export interface ColumnBuilder {
+  push: (value: CellValue | undefined) => void;
+  finish: () => DictionaryColumn;
+}
+
+/**
+ * Dictionary-encodes cells as they arrive one row at a time, for columns that
+ * are read from a file or put together from the rows of other columns. The
+ * column starts with `blankRows` empty rows. Cells are kept as they are; the
+ * schema service types them once the column is complete.
+ */
+export const createColumnBuilder = (blankRows = 0): ColumnBuilder => {
+  let codes = new Int32Array(Math.max(INITIAL_CAPACITY, blankRows));
+  let length = 0;
+  const dictionary: CellValue[] = [];
+  const lookup = new Map<CellValue, number>();
+
+  const push = (value: CellValue | undefined) => {
+    if (length === codes.length) {
+      const grown = new Int32Array(codes.length * 2);
+      grown.set(codes);
+      codes = grown;
+    }
+    if (isBlank(value)) {
+      codes[length++] = -1;
+      return;
+    }
+    let code = lookup.get(value!);
+    if (code === undefined) {
+      code = dictionary.length;
+      dictionary.push(value!);
+      lookup.set(value!, code);
+    }
+    codes[length++] = code;
+  };
+
+  for (let i = 0; i < blankRows; i++) push(null);
+  return { push, finish: () => ({ kind: 'dictionary', codes: codes.slice(0, length), dictionary }) };
+};
+
+/** A column made of the given rows of another, in that order; a row of -1 gives an empty cell. */
+export const takeRows = (column: Column, rows: ArrayLike<number>): Column => {
+  if (column.kind === 'number') {
+    const values = new Float64Array(rows.length);
+    for (let i = 0; i < rows.length; i++) values[i] = rows[i] < 0 ? NaN : column.values[rows[i]];
+    return { kind: 'number', values };
+  }
+  const codes = new Int32Array(rows.length);
+  for (let i = 0; i < rows.length; i++) codes[i] = rows[i] < 0 ? -1 : column.codes[rows[i]];
+  return { ...column, codes };
+};
+
+/** The first `count` rows of a column. */
+export const firstRows = (column: Column, count: number): Column =>
+  column.kind === 'number'
+    ? { kind: 'number', values: column.values.slice(0, count) }
+    : { ...column, codes: column.codes.slice(0, count) };
+
+/** A column in dictionary form; number columns are encoded by their distinct values. */
+export const toDictionary = (column: Column): DictionaryColumn => {
+  if (column.kind === 'dictionary') return column;
+  const builder = createColumnBuilder();
+  column.values.forEach(value => builder.push(Number.isNaN(value) ? null : value));
+  return builder.finish();
+};
@@ -0,0 +1,359 @@
+import { CellValue, Column, ColumnStore, ColumnType, CombineStep, DataSet, JoinKey, JoinType } from '../types';
+import { profileColumns } from './schemaService';
+import { getCellValue } from './queryService';
+import { createColumnBuilder, takeRows } from './columnService';
+
+// Unmatched keys listed in the match statistics
+const SAMPLE_KEYS = 10;
+
+export const JOIN_LABELS: Record<JoinType, string> = {
+  inner: 'Inner - only rows with a match',
+  left: 'Left - every row of the first sheet',
+  full: 'Full - every row of both sheets',
+};
+
+export interface UnionStats {
+  kind: 'union';
+  rows: { sheetName: string; rowCount: number }[];
+  resultRows: number;
+  partialColumns: string[]; // Columns some sheets don't have; their rows are left blank there
+}
+
+export interface JoinStats {
+  kind: 'join';
+  leftRows: number;
+  rightRows: number;
+  matchedLeftRows: number;
+  matchedRightRows: number;
+  unmatchedLeftKeys: string[]; // The first few, for spotting typos and format differences
+  unmatchedRightKeys: string[];
+  unmatchedLeftKeyCount: number;
+  unmatchedRightKeyCount: number;
+  duplicateRightKeys: number; // Keys on several rows of the second sheet, which repeat rows of the first
+  resultRows: number;
+}
+
+export type CombineStats = UnionStats | JoinStats;
+
+export interface CombineOutcome {
+  stats?: CombineStats;
+  error?: string; // Set instead of stats when the step couldn't run
+}
+
+const isBlank = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const displayName = (dataSet: DataSet) => dataSet.sheetName || dataSet.fileName;
+
+const findSheet = (dataSets: DataSet[], name: string): DataSet => {
+  const dataSet = dataSets.find(d => displayName(d) === name);
+  if (!dataSet) throw new Error(`There is no sheet "${name}"`);
+  return dataSet;
+};
+
+// Key cells compare as trimmed text, so 42 matches "42"; rows with a blank key cell never match
+const keyParts = (dataSet: DataSet, row: number, columns: string[]): string[] | null => {
+  const parts: string[] = [];
+  for (const column of columns) {
+    const value = getCellValue(dataSet.columns.columns[column], row);
+    if (isBlank(value)) return null;
+    parts.push(String(value).trim());
+  }
+  return parts;
+};
+
+const indexRows = (dataSet: DataSet, columns: string[]): Map<string, number[]> => {
+  const index = new Map<string, number[]>();
+  for (let i = 0; i < dataSet.rowCount; i++) {
+    const parts = keyParts(dataSet, i, columns);
+    if (!parts) continue;
+    const key = JSON.stringify(parts);
+    const rows = index.get(key);
+    if (rows) rows.push(i);
+    else index.set(key, [i]);
+  }
+  return index;
+};
+
+// The sheets a step reads, checked before anything is built
+const resolveStep = (dataSets: DataSet[], step: CombineStep): DataSet[] => {
+  if (!step.name.trim()) throw new Error('The combined sheet needs a name');
+
+  const sources = step.kind === 'union'
+    ? step.sheets.map(name => findSheet(dataSets, name))
+    : [findSheet(dataSets, step.left), findSheet(dataSets, step.right)];
+  if (step.kind === 'union' && sources.length < 2) throw new Error('Pick at least two sheets to stack');
+  if (step.kind === 'join') {
+    if (sources[0] === sources[1]) throw new Error('Pick two different sheets to join');
+    if (step.keys.length === 0) throw new Error('Pick the columns to match rows on');
+    step.keys.forEach(key => {
+      if (!sources[0].headers.includes(key.left)) throw new Error(`"${step.left}" has no column "${key.left}"`);
+      if (!sources[1].headers.includes(key.right)) throw new Error(`"${step.right}" has no column "${key.right}"`);
+    });
+  }
+
+  // The combined sheet may take the name of a sheet it replaces, but no other
+  const clash = dataSets.find(d => displayName(d) === step.name && !sources.includes(d));
+  if (clash) throw new Error(`There is already a sheet "${step.name}"`);
+  if (step.kind === 'union' && step.sourceColumn !== undefined) {
+    if (!step.sourceColumn.trim()) throw new Error('The source column needs a name');
+    if (sources.some(source => source.headers.includes(step.sourceColumn!))) {
+      throw new Error(`There is already a column "${step.sourceColumn}"`);
+    }
+  }
+  return sources;
+};
+
+const unionStats = (sources: DataSet[]): UnionStats => {
+  const headers = Array.from(new Set(sources.flatMap(source => source.headers)));
+  return {
+    kind: 'union',
+    rows: sources.map(source => ({ sheetName: displayName(source), rowCount: source.rowCount })),
+    resultRows: sources.reduce((acc, source) => acc + source.rowCount, 0),
+    partialColumns: headers.filter(header => sources.some(source => !source.headers.includes(header))),
+  };
+};
+
+const joinStats = (left: DataSet, right: DataSet, keys: JoinKey[], type: JoinType): JoinStats => {
+  const index = indexRows(right, keys.map(key => key.right));
+  const matchedKeys = new Set<string>();
+  const unmatchedLeft = new Map<string, string>();
+  let matchedLeftRows = 0;
+  let resultRows = 0;
+
+  const leftKeys = keys.map(key => key.left);
+  for (let row = 0; row < left.rowCount; row++) {
+    const parts = keyParts(left, row, leftKeys);
+    const key = parts ? JSON.stringify(parts) : null;
+    const matches = key !== null ? index.get(key) : undefined;
+    if (matches) {
+      matchedLeftRows++;
+      resultRows += matches.length;
+      matchedKeys.add(key!);
+    } else {
+      if (type !== 'inner') resultRows++;
+      if (parts) unmatchedLeft.set(key!, parts.join(' / '));
+    }
+  }
+
+  const unmatchedRight: string[] = [];
+  let matchedRightRows = 0;
+  let duplicateRightKeys = 0;
+  index.forEach((rows, key) => {
+    if (rows.length > 1) duplicateRightKeys++;
+    if (matchedKeys.has(key)) matchedRightRows += rows.length;
+    else unmatchedRight.push((JSON.parse(key) as string[]).join(' / '));
+  });
+  if (type === 'full') resultRows += right.rowCount - matchedRightRows;
+
+  return {
+    kind: 'join',
+    leftRows: left.rowCount,
+    rightRows: right.rowCount,
+    matchedLeftRows,
+    matchedRightRows,
+    unmatchedLeftKeys: Array.from(unmatchedLeft.values()).slice(0, SAMPLE_KEYS),
+    unmatchedRightKeys: unmatchedRight.slice(0, SAMPLE_KEYS),
+    unmatchedLeftKeyCount: unmatchedLeft.size,
+    unmatchedRightKeyCount: unmatchedRight.length,
+    duplicateRightKeys,
+    resultRows,
+  };
+};
+
+/**
+ * Checks a step against the sheets and returns what it would produce - row
+ * counts, and for joins how many keys found a partner - without building the
+ * combined sheet. Throws when the step can't run.
+ */
+export const combineStepStats = (dataSets: DataSet[], step: CombineStep): CombineStats => {
+  const sources = resolveStep(dataSets, step);
+  return step.kind === 'union' ? unionStats(sources) : joinStats(sources[0], sources[1], step.keys, step.type);
+};
+
+// Columns keep the type they had when every source agrees on it, and are profiled again otherwise
+const buildCombined = (
+  sources: DataSet[],
+  name: string,
+  headers: string[],
+  store: ColumnStore,
+  types: Record<string, ColumnType>
+): DataSet => {
+  const { schema, columns } = profileColumns(headers, store, types);
+  return {
+    fileName: Array.from(new Set(sources.map(source => source.fileName))).join(' + '),
+    sheetName: name,
+    headers,
+    rowCount: store.rowCount,
+    schema,
+    columns,
+  };
+};
+
+const union = (sources: DataSet[], step: Extract<CombineStep, { kind: 'union' }>): DataSet => {
+  const columns = Array.from(new Set(sources.flatMap(source => source.headers)));
+  const headers = step.sourceColumn ? [step.sourceColumn, ...columns] : columns;
+
+  // Stacked cell by cell; sheets without a column leave its rows blank
+  const stacked: Record<string, Column> = {};
+  headers.forEach(header => {
+    const builder = createColumnBuilder();
+    sources.forEach(source => {
+      const column = source.columns.columns[header];
+      for (let row = 0; row < source.rowCount; row++) {
+        builder.push(header === step.sourceColumn ? displayName(source) : column ? getCellValue(column, row) : null);
+      }
+    });
+    stacked[header] = builder.finish();
+  });
+
+  const types: Record<string, ColumnType> = {};
+  columns.forEach(column => {
+    const found = new Set(sources.filter(source => source.headers.includes(column)).map(source => source.schema[column].type));
+    if (found.size === 1) types[column] = Array.from(found)[0];
+  });
+  const rowCount = sources.reduce((acc, source) => acc + source.rowCount, 0);
+  return buildCombined(sources, step.name, headers, { rowCount, columns: stacked }, types);
+};
+
+const join = (left: DataSet, right: DataSet, step: Extract<CombineStep, { kind: 'join' }>): DataSet => {
+  const leftKeys = step.keys.map(key => key.left);
+  const rightKeys = step.keys.map(key => key.right);
+
+  // Columns of the second sheet, renamed where the first sheet already has the name
+  const renamed = new Map<string, string>();
+  right.headers.filter(header => !rightKeys.includes(header)).forEach(header => {
+    let name = header;
+    if (left.headers.includes(name)) name = `${header} (${displayName(right)})`;
+    for (let n = 2; left.headers.includes(name) || Array.from(renamed.values()).includes(name); n++) {
+      name = `${header} (${displayName(right)} ${n})`;
+    }
+    renamed.set(header, name);
+  });
+
+  // The result as pairs of source rows, -1 where a side has no row
+  const index = indexRows(right, rightKeys);
+  const matchedRight = new Set<number>();
+  const leftRows: number[] = [];
+  const rightRows: number[] = [];
+
+  for (let row = 0; row < left.rowCount; row++) {
+    const parts = keyParts(left, row, leftKeys);
+    const matches = parts ? index.get(JSON.stringify(parts)) : undefined;
+    if (matches) {
+      matches.forEach(i => {
+        matchedRight.add(i);
+        leftRows.push(row);
+        rightRows.push(i);
+      });
+    } else if (step.type !== 'inner') {
+      leftRows.push(row);
+      rightRows.push(-1);
+    }
+  }
+
+  // A full join adds the unmatched rows of the second sheet
+  const withLeftRow = leftRows.length;
+  if (step.type === 'full') {
+    for (let i = 0; i < right.rowCount; i++) {
+      if (matchedRight.has(i)) continue;
+      leftRows.push(-1);
+      rightRows.push(i);
+    }
+  }
+
+  const columns: Record<string, Column> = {};
+  left.headers.forEach(header => {
+    columns[header] = takeRows(left.columns.columns[header], leftRows);
+  });
+  // Rows only the second sheet has fill the first sheet's key columns with their keys
+  if (withLeftRow < leftRows.length) {
+    step.keys.forEach(key => {
+      const builder = createColumnBuilder();
+      const leftColumn = left.columns.columns[key.left];
+      const rightColumn = right.columns.columns[key.right];
+      leftRows.forEach((row, i) => builder.push(row < 0 ? getCellValue(rightColumn, rightRows[i]) : getCellValue(leftColumn, row)));
+      columns[key.left] = builder.finish();
+    });
+  }
+  renamed.forEach((name, header) => {
+    columns[name] = takeRows(right.columns.columns[header], rightRows);
+  });
+
+  const types: Record<string, ColumnType> = {};
+  left.headers.forEach(header => {
+    types[header] = left.schema[header].type;
+  });
+  if (step.type === 'full') {
+    step.keys
+      .filter(key => left.schema[key.left].type !== right.schema[key.right].type)
+      .forEach(key => delete types[key.left]);
+  }
+  renamed.forEach((name, header) => {
+    types[name] = right.schema[header].type;
+  });
+
+  const headers = [...left.headers, ...renamed.values()];
+  return buildCombined([left, right], step.name, headers, { rowCount: leftRows.length, columns }, types);
+};
+
+/**
+ * Runs the combine steps in order. Each step replaces the sheets it reads
+ * with the combined sheet, so later steps can build on earlier results and
+ * only what is left goes on to the analysis. Steps that fail are skipped and
+ * report why.
+ */
+export const applyCombineSteps = (
+  dataSets: DataSet[],
+  steps: CombineStep[]
+): { dataSets: DataSet[]; outcomes: CombineOutcome[] } => {
+  let working = dataSets;
+  const outcomes = steps.map((step): CombineOutcome => {
+    try {
+      const sources = resolveStep(working, step);
+      const combined = step.kind === 'union' ? union(sources, step) : join(sources[0], sources[1], step);
+      const stats = step.kind === 'union' ? unionStats(sources) : joinStats(sources[0], sources[1], step.keys, step.type);
+      const at = working.indexOf(sources[0]);
+      working = [...working.slice(0, at), combined, ...working.slice(at + 1)].filter(d => !sources.includes(d));
+      return { stats };
+    } catch (error: any) {
+      return { error: error.message };
+    }
+  });
+  return { dataSets: working, outcomes };
+};
+
+/** One-line description of a step for the step list. */
+export const describeCombineStep = (step: CombineStep): string => {
+  if (step.kind === 'union') return `Stack ${step.sheets.map(name => `"${name}"`).join(', ')} as "${step.name}"`;
+  const keys = step.keys.map(key => (key.left === key.right ? key.left : `${key.left} = ${key.right}`)).join(', ');
+  return `${step.type[0].toUpperCase()}${step.type.slice(1)} join "${step.left}" with "${step.right}" on ${keys} as "${step.name}"`;
+};
+
+/**
+ * Gives every sheet of several uploaded files a distinct name, so sheets can
+ * be told apart once they are combined: a CSV is named after its file, and
+ * workbook sheets get their file's name in front when another file has a
+ * sheet of the same name.
+ */
+export const nameUploadedSheets = <T extends { fileName: string; sheetName?: string }>(files: T[][]): T[] => {
+  if (files.length === 1) return files[0];
+  const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+  const filesBySheet = new Map<string, Set<string>>();
+  files.flat().forEach(sheet => {
+    if (sheet.sheetName === undefined) return;
+    filesBySheet.set(sheet.sheetName, (filesBySheet.get(sheet.sheetName) || new Set()).add(sheet.fileName));
+  });
+
+  const used = new Set<string>();
+  return files.flat().map(sheet => {
+    let base = sheet.sheetName ?? baseName(sheet.fileName);
+    if (sheet.sheetName !== undefined && filesBySheet.get(sheet.sheetName)!.size > 1) base = `${baseName(sheet.fileName)} - ${sheet.sheetName}`;
+    // The same file uploaded twice still needs two names
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base} (${n})`;
+    used.add(name);
+    return { ...sheet, sheetName: name };
+  });
+};
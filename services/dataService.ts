@@ -1,103 +1,453 @@
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
-import { DataSet, DataRow } from '../types';
+import { CellValue, Column, DataSet, HeaderRange, ParseProgress, RawSheet, SheetTail } from '../types';
+import { profileColumns, toISODate } from './schemaService';
+import { ColumnBuilder, createColumnBuilder } from './columnService';
 
-export const parseFile = async (file: File): Promise<DataSet> => {
+// How far down a sheet to look for the header block
+const HEADER_SCAN_ROWS = 30;
+// Maximum number of stacked header rows (e.g. "Q1" above "Revenue")
+const MAX_HEADER_ROWS = 4;
+// Labels that mark subtotal / total rows in exported reports
+const TOTAL_LABEL = /^(grand\s*|sub-?)?totals?\b|^(gesamt|summe|zwischensumme)\b|^sum$/i;
+
+// Bytes handed to the CSV parser at a time; progress is reported per chunk
+const CSV_CHUNK_SIZE = 4 * 1024 * 1024;
+// Rows of a sheet kept for choosing the header rows; the rest is only read into columns
+const SHEET_HEAD_ROWS = 100;
+
+type ProgressCallback = (progress: ParseProgress) => void;
+
+const isBlank = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Reads a CSV or Excel file into raw sheets with a detected header range.
+ * Workbooks yield one RawSheet per non-empty sheet. Only the first rows of
+ * each sheet are kept; the rest are summed up and read again by
+ * buildDataSets. Runs inside the parse worker (see parseService) but works
+ * on the main thread as well.
+ */
+export const readSheets = async (file: File, onProgress: ProgressCallback = () => {}): Promise<RawSheet[]> => {
   const extension = file.name.split('.').pop()?.toLowerCase();
 
   if (extension === 'csv') {
-    return parseCSV(file);
+    const sheet = createSheetCollector();
+    await readCSVRows(file, sheet.add, onProgress);
+    if (!sheet.hasData()) throw new Error('No data found in CSV file');
+    return [sheet.finish(file)];
   } else if (['xls', 'xlsx'].includes(extension || '')) {
-    return parseExcel(file);
+    return readExcel(file, onProgress);
   } else {
     throw new Error('Unsupported file format. Please upload CSV or Excel files.');
   }
 };
 
-const parseCSV = (file: File): Promise<DataSet> => {
+/**
+ * Parses a file straight into DataSets using the detected header ranges.
+ */
+export const parseFile = async (file: File): Promise<DataSet[]> => {
+  const sheets = await readSheets(file);
+  return buildDataSets(sheets, sheets.map(sheet => sheet.headerRange));
+};
+
+/**
+ * Finds the DataSet a chart draws from, falling back to the first one.
+ */
+export const findDataSet = (dataSets: DataSet[], sheetName?: string): DataSet =>
+  dataSets.find(dataSet => sheetName !== undefined && dataSet.sheetName === sheetName) || dataSets[0];
+
+// Streams the file in chunks so large files never sit in memory as one string, nor as rows
+const readCSVRows = (file: File, onRow: (row: CellValue[]) => void, onProgress: ProgressCallback): Promise<void> => {
   return new Promise((resolve, reject) => {
+    let chunks = 0;
+
     Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
+      header: false,
+      skipEmptyLines: false, // Keep blank rows so row numbers match the file
       dynamicTyping: true,
-      complete: (results) => {
+      chunkSize: CSV_CHUNK_SIZE,
+      chunk: (results: { data: unknown[][]; errors: unknown[] }) => {
         if (results.errors.length > 0) {
           // Log errors but try to proceed if we have data
           console.warn('CSV Parse errors:', results.errors);
         }
-        
-        const data = results.data as DataRow[];
-        if (!data || data.length === 0) {
-          reject(new Error('No data found in CSV file'));
-          return;
-        }
-
-        const headers = results.meta.fields || Object.keys(data[0]);
+        results.data.forEach(row => onRow(row.map(toCellValue)));
 
-        resolve({
-          fileName: file.name,
-          headers,
-          data,
-          rowCount: data.length,
-        });
+        chunks++;
+        onProgress({ phase: 'parsing', fraction: Math.min(1, (chunks * CSV_CHUNK_SIZE) / Math.max(1, file.size)) });
       },
-      error: (error) => {
+      complete: () => resolve(),
+      error: (error: Error) => {
         reject(error);
       },
     });
   });
 };
 
-const parseExcel = (file: File): Promise<DataSet> => {
+// Reading the bytes counts as the first half of the progress, parsing the workbook as the second
+const readWorkbook = (file: File, onProgress: ProgressCallback, sheets?: string[]): Promise<XLSX.WorkBook> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
 
+    reader.onprogress = (e) => {
+      if (e.lengthComputable) onProgress({ phase: 'reading', fraction: (e.loaded / e.total) * 0.5 });
+    };
+
     reader.onload = (e) => {
       try {
-        const data = e.target?.result;
-        const workbook = XLSX.read(data, { type: 'binary' });
-        
-        // Assume the first sheet is the target
-        const sheetName = workbook.SheetNames[0];
-        const sheet = workbook.Sheets[sheetName];
-        
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(sheet) as DataRow[];
-        
-        if (!jsonData || jsonData.length === 0) {
-          reject(new Error('No data found in Excel file'));
-          return;
-        }
-
-        const headers = Object.keys(jsonData[0]);
-
-        resolve({
-          fileName: file.name,
-          headers,
-          data: jsonData,
-          rowCount: jsonData.length,
-        });
+        const data = new Uint8Array(e.target?.result as ArrayBuffer);
+        onProgress({ phase: 'parsing', fraction: 0.5 });
+        // Dense sheets keep cells in row arrays, which is far lighter for big workbooks
+        resolve(XLSX.read(data, { type: 'array', cellDates: true, dense: true, sheets }));
       } catch (error) {
         reject(error);
       }
     };
 
-    reader.onerror = (error) => reject(error);
-    reader.readAsBinaryString(file);
+    reader.onerror = () => reject(reader.error || new Error('Could not read the file'));
+    reader.readAsArrayBuffer(file);
+  });
+};
+
+// The cells of a worksheet with merged ranges filled in, or null for an empty sheet
+const worksheetRows = (worksheet: XLSX.WorkSheet | undefined): CellValue[][] | null => {
+  if (!worksheet?.['!ref']) return null;
+  const origin = XLSX.utils.decode_range(worksheet['!ref']).s;
+  const rows = (XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: true, defval: null, blankrows: true }) as unknown[][])
+    .map(row => row.map(toCellValue));
+  fillMergedCells(rows, worksheet['!merges'] || [], origin);
+  return rows;
+};
+
+const readExcel = async (file: File, onProgress: ProgressCallback): Promise<RawSheet[]> => {
+  const workbook = await readWorkbook(file, onProgress);
+
+  // Every sheet becomes its own RawSheet; empty sheets are skipped
+  const sheets: RawSheet[] = [];
+  workbook.SheetNames.forEach((sheetName, index) => {
+    onProgress({ phase: 'parsing', fraction: 0.5 + (index / workbook.SheetNames.length) * 0.5, sheetName });
+    const sheet = createSheetCollector();
+    worksheetRows(workbook.Sheets[sheetName])?.forEach(sheet.add);
+    if (sheet.hasData()) sheets.push(sheet.finish(file, sheetName));
+  });
+
+  if (sheets.length === 0) throw new Error('No data found in Excel file');
+  return sheets;
+};
+
+const toCellValue = (value: unknown): CellValue => {
+  if (value instanceof Date) {
+    const hasTime = value.getHours() !== 0 || value.getMinutes() !== 0 || value.getSeconds() !== 0;
+    return toISODate(value.getTime(), hasTime);
+  }
+  if (typeof value === 'string') return value.trim() === '' ? null : value;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return null;
+};
+
+/**
+ * Copies the value of each merged range's top-left cell into every cell of
+ * the range, so merged group headers ("Q1" over three columns) and merged
+ * category cells apply to all columns/rows they visually cover.
+ */
+const fillMergedCells = (rows: CellValue[][], merges: XLSX.Range[], origin: XLSX.CellAddress) => {
+  merges.forEach(({ s, e }) => {
+    const value = rows[s.r - origin.r]?.[s.c - origin.c];
+    if (isBlank(value)) return;
+
+    for (let r = s.r; r <= e.r; r++) {
+      const row = rows[r - origin.r];
+      if (!row) continue;
+      for (let c = s.c; c <= e.c; c++) {
+        row[c - origin.c] = value;
+      }
+    }
+  });
+};
+
+// --- Header detection --------------------------------------------------------
+
+const filledCells = (row: CellValue[] = []) => row.filter(cell => !isBlank(cell));
+
+// A header row spans most of the table, is mostly text and isn't a banner
+// repeated across merged cells
+const looksLikeHeader = (row: CellValue[], tableWidth: number): boolean => {
+  const cells = filledCells(row);
+  if (cells.length < Math.max(2, Math.ceil(tableWidth * 0.5))) return false;
+  if (new Set(cells.map(String)).size < 2) return false;
+  return cells.filter(cell => typeof cell === 'string').length / cells.length >= 0.5;
+};
+
+// Upper header rows group the columns below them: the same label repeated
+// (merged cells) or a label followed by gaps
+const isGroupingRow = (row: CellValue[]): boolean => {
+  let lastIndex = -1;
+  for (let i = 0; i < row.length; i++) {
+    if (isBlank(row[i])) continue;
+    if (lastIndex >= 0 && (i - lastIndex > 1 || String(row[i]) === String(row[lastIndex]))) return true;
+    lastIndex = i;
+  }
+  return false;
+};
+
+/**
+ * Finds the header block of a raw sheet, skipping title banners and spacer
+ * rows and including stacked multi-level header rows.
+ */
+export const detectHeaderRange = (rows: CellValue[][]): HeaderRange => {
+  const scan = rows.slice(0, HEADER_SCAN_ROWS);
+  const tableWidth = Math.max(0, ...scan.map(row => filledCells(row).length));
+
+  let start = scan.findIndex(row => looksLikeHeader(row, tableWidth));
+  if (start === -1) {
+    start = Math.max(0, rows.findIndex(row => filledCells(row).length > 0));
+  }
+
+  let end = start;
+  while (end - start + 1 < MAX_HEADER_ROWS && end + 2 < rows.length) {
+    const next = filledCells(rows[end + 1]);
+    if (next.length === 0 || !next.every(cell => typeof cell === 'string')) break;
+    if (!isGroupingRow(rows[end])) break;
+    end++;
+  }
+
+  return { start, end };
+};
+
+/**
+ * Flattens a (possibly multi-row) header block into one name per column,
+ * e.g. "Q1" above "Revenue" becomes "Q1 / Revenue".
+ */
+export const flattenHeaders = (
+  rows: CellValue[][],
+  range: HeaderRange,
+  // Reduced rather than spread: a spread of every row overflows the stack on large sheets
+  width = rows.reduce((max, row) => Math.max(max, row.length), 0)
+): string[] => {
+  const headerRows = rows.slice(range.start, range.end + 1);
+
+  // Group labels without merged cells only sit above their first column
+  const filled = headerRows.map((row, index) => {
+    if (index === headerRows.length - 1) return row;
+    const result: CellValue[] = [];
+    let current: CellValue = null;
+    for (let c = 0; c < width; c++) {
+      if (!isBlank(row[c])) current = row[c];
+      result.push(current);
+    }
+    return result;
   });
+
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, c) => {
+    const parts: string[] = [];
+    filled.forEach(row => {
+      const part = isBlank(row[c]) ? '' : String(row[c]).trim();
+      if (part && parts[parts.length - 1] !== part) parts.push(part);
+    });
+
+    const base = parts.join(' / ') || `Column ${c + 1}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+};
+
+/**
+ * Subtotal and total rows are labelled in one of their first text cells.
+ */
+export const isTotalRow = (row: CellValue[]): boolean =>
+  filledCells(row)
+    .filter((cell): cell is string => typeof cell === 'string')
+    .slice(0, 2)
+    .some(cell => TOTAL_LABEL.test(cell.trim()));
+
+export interface TableSummary {
+  headers: string[];
+  rowCount: number;
+  excludedRows: number[]; // Raw row indices of detected total rows
+}
+
+export interface ExtractedTable extends TableSummary {
+  columns: Record<string, Column>; // Dictionary-encoded cells as read, before the schema types them
+}
+
+export interface TableBuilder {
+  add: (row: CellValue[]) => void;
+  finish: () => ExtractedTable;
+  // Headers and counts of a sheet of which only the first rows were added, the rest summed up in its tail
+  summarize: (tail: SheetTail) => TableSummary;
+}
+
+/**
+ * Collects the rows of a sheet into columns as they arrive, so a file can be
+ * read in chunks without keeping its rows. Rows above the header block are
+ * skipped; blank rows, total rows and columns without a header or any values
+ * are dropped.
+ */
+export const createTableBuilder = (range: HeaderRange): TableBuilder => {
+  const headerRows: CellValue[][] = [];
+  const builders: ColumnBuilder[] = [];
+  const filled = new Set<number>();
+  const excludedRows: number[] = [];
+  let index = 0;
+  let rowCount = 0;
+
+  const add = (row: CellValue[]) => {
+    const at = index++;
+    if (at < range.start) return;
+    if (at <= range.end) {
+      headerRows.push(row);
+      return;
+    }
+    if (filledCells(row).length === 0) return;
+    if (isTotalRow(row)) {
+      excludedRows.push(at);
+      return;
+    }
+    for (let c = builders.length; c < row.length; c++) builders.push(createColumnBuilder(rowCount));
+    builders.forEach((builder, c) => {
+      builder.push(row[c]);
+      if (!isBlank(row[c])) filled.add(c);
+    });
+    rowCount++;
+  };
+
+  // Flattened headers of the columns that have a header or any value, with their position
+  const keptColumns = (width: number, hasValues: (c: number) => boolean) => {
+    const fullWidth = headerRows.reduce((max, row) => Math.max(max, row.length), width);
+    return flattenHeaders(headerRows, { start: 0, end: headerRows.length - 1 }, fullWidth)
+      .map((header, c) => ({ header, c }))
+      .filter(({ c }) => hasValues(c) || headerRows.some(row => !isBlank(row[c])));
+  };
+
+  const finish = (): ExtractedTable => {
+    const columns: Record<string, Column> = {};
+    const kept = keptColumns(builders.length, c => filled.has(c));
+    kept.forEach(({ header, c }) => {
+      columns[header] = (builders[c] || createColumnBuilder(rowCount)).finish();
+    });
+    return { headers: kept.map(({ header }) => header), rowCount, columns, excludedRows };
+  };
+
+  const summarize = (tail: SheetTail): TableSummary => {
+    const width = Math.max(builders.length, ...tail.filledColumns.map(c => c + 1));
+    const tailColumns = new Set(tail.filledColumns);
+    return {
+      headers: keptColumns(width, c => filled.has(c) || tailColumns.has(c)).map(({ header }) => header),
+      rowCount: rowCount + tail.rowCount,
+      excludedRows: [...excludedRows, ...tail.excludedRows],
+    };
+  };
+
+  return { add, finish, summarize };
 };
 
 /**
- * Prepares a sample of the dataset for the AI model to analyze.
- * We limit to top 50 rows and just the headers to save tokens.
+ * Column headers and row counts a header range gives a raw sheet, for
+ * choosing the header rows before the sheet is read into columns.
  */
-export const prepareDataSample = (dataset: DataSet): string => {
-  const sampleSize = 50;
-  const sampleData = dataset.data.slice(0, sampleSize);
-  
-  return JSON.stringify({
-    headers: dataset.headers,
-    rowCount: dataset.rowCount,
-    sample: sampleData
-  }, null, 2);
+export const describeTable = (sheet: RawSheet, range: HeaderRange): TableSummary => {
+  const table = createTableBuilder(range);
+  sheet.rows.forEach(table.add);
+  return table.summarize(sheet.tail);
+};
+
+interface SheetCollector {
+  add: (row: CellValue[]) => void;
+  hasData: () => boolean;
+  finish: (file: File, workbookSheet?: string) => RawSheet;
+}
+
+// Keeps the first rows of a sheet for the header preview and only sums up the rest
+const createSheetCollector = (): SheetCollector => {
+  const rows: CellValue[][] = [];
+  const tail: SheetTail = { rowCount: 0, excludedRows: [], filledColumns: [] };
+  const filled = new Set<number>();
+  let index = 0;
+
+  const add = (row: CellValue[]) => {
+    const at = index++;
+    if (at < SHEET_HEAD_ROWS) {
+      rows.push(row);
+      return;
+    }
+    if (filledCells(row).length === 0) return;
+    if (isTotalRow(row)) {
+      tail.excludedRows.push(at);
+      return;
+    }
+    tail.rowCount++;
+    row.forEach((cell, c) => {
+      if (!isBlank(cell)) filled.add(c);
+    });
+  };
+
+  return {
+    add,
+    hasData: () => tail.rowCount > 0 || tail.excludedRows.length > 0 || rows.some(row => filledCells(row).length > 0),
+    finish: (file, workbookSheet) => ({
+      fileName: file.name,
+      sheetName: workbookSheet,
+      workbookSheet,
+      file,
+      rows,
+      tail: { ...tail, filledColumns: Array.from(filled).sort((a, b) => a - b) },
+      headerRange: detectHeaderRange(rows),
+    }),
+  };
+};
+
+// Profile once so every consumer shares the same column types
+const profileTable = (sheet: RawSheet, { headers, rowCount, columns }: ExtractedTable): DataSet => {
+  if (rowCount === 0) {
+    throw new Error(`No data found below the header rows${sheet.sheetName ? ` in "${sheet.sheetName}"` : ''}.`);
+  }
+  const profiled = profileColumns(headers, { rowCount, columns });
+  return {
+    fileName: sheet.fileName,
+    sheetName: sheet.sheetName,
+    headers,
+    rowCount,
+    schema: profiled.schema,
+    columns: profiled.columns,
+  };
+};
+
+/**
+ * Builds profiled DataSets from raw sheets and their (possibly user-corrected)
+ * header ranges. The files are read again, straight into columns: CSV files
+ * chunk by chunk, so their rows are never held at once, and each workbook is
+ * parsed only once for all of its sheets.
+ */
+export const buildDataSets = async (
+  sheets: RawSheet[],
+  ranges: HeaderRange[],
+  onProgress: ProgressCallback = () => {}
+): Promise<DataSet[]> => {
+  const workbooks = new Map<File, Promise<XLSX.WorkBook>>();
+  const dataSets: DataSet[] = [];
+
+  for (const [index, sheet] of sheets.entries()) {
+    const report = (progress: ParseProgress) =>
+      onProgress({ ...progress, fraction: (index + progress.fraction) / sheets.length, sheetName: sheet.sheetName });
+    const table = createTableBuilder(ranges[index]);
+
+    if (sheet.workbookSheet === undefined) {
+      await readCSVRows(sheet.file, table.add, report);
+    } else {
+      let workbook = workbooks.get(sheet.file);
+      if (!workbook) {
+        const names = sheets.filter(other => other.file === sheet.file).map(other => other.workbookSheet!);
+        workbook = readWorkbook(sheet.file, report, names);
+        workbooks.set(sheet.file, workbook);
+      }
+      worksheetRows((await workbook).Sheets[sheet.workbookSheet])?.forEach(table.add);
+    }
+
+    report({ phase: 'profiling', fraction: 1 });
+    dataSets.push(profileTable(sheet, table.finish()));
+  }
+  return dataSets;
 };
@@ -0,0 +1,137 @@
+import { ActiveFilters, CellValue, ColumnType, DataSet, DateGranularity, FilterCombinator, FilterValue, RowSelection } from '../types';
+import { isDateType, isNumericType, parseDateValue, toISODate } from './schemaService';
+import { BLANK_LABEL, Predicate, selectRows } from './queryService';
+import { nextPeriod, parsePeriod } from './periodService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Compiles a text search, or returns null when the pattern is not a valid regular expression. */
+export const compileTextSearch = (query: string, regex: boolean): RegExp | null => {
+  try {
+    return new RegExp(regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+  } catch {
+    return null;
+  }
+};
+
+// Filters that don't restrict anything yet (empty list, open range, blank search) give no predicate
+const toPredicate = (column: string, filterValue: FilterValue): Predicate | null => {
+  switch (filterValue.kind) {
+    case 'values':
+      if (filterValue.values.length === 0) return null;
+      return { column, op: 'in', values: filterValue.values, negate: filterValue.exclude };
+    case 'date': {
+      const start = filterValue.start ? parseDateValue(filterValue.start) : null;
+      // End date is inclusive, so compare against the end of that day
+      const endDay = filterValue.end ? parseDateValue(filterValue.end) : null;
+      if (start === null && endDay === null) return null;
+      return { column, op: 'between', min: start ?? undefined, max: endDay !== null ? endDay + DAY_MS - 1 : undefined };
+    }
+    case 'range':
+      if (filterValue.min === null && filterValue.max === null) return null;
+      return { column, op: 'between', min: filterValue.min ?? undefined, max: filterValue.max ?? undefined };
+    case 'text': {
+      if (!filterValue.query) return null;
+      const pattern = compileTextSearch(filterValue.query, filterValue.regex);
+      return pattern ? { column, op: 'match', pattern } : null;
+    }
+    case 'empty':
+      return { column, op: 'empty', negate: !filterValue.empty };
+  }
+};
+
+/** Whether a filter currently restricts any rows; unfinished filters are ignored. */
+export const isFilterActive = (column: string, filterValue: FilterValue): boolean =>
+  toPredicate(column, filterValue) !== null;
+
+/**
+ * Filter for a clicked chart category. A plain click picks only that value
+ * (or clears the filter when it was the only pick); an additive click adds
+ * or removes it from the current picks.
+ */
+export const toggleValueFilter = (current: FilterValue | undefined, value: CellValue, additive: boolean): FilterValue | null => {
+  if (value === null || value === BLANK_LABEL) {
+    return current?.kind === 'empty' && current.empty ? null : { kind: 'empty', empty: true };
+  }
+
+  const text = String(value);
+  const picked = current?.kind === 'values' && !current.exclude ? current.values : [];
+  if (!additive) return picked.length === 1 && picked[0] === text ? null : { kind: 'values', values: [text], exclude: false };
+
+  const values = picked.includes(text) ? picked.filter(v => v !== text) : [...picked, text];
+  return values.length === 0 ? null : { kind: 'values', values, exclude: false };
+};
+
+/**
+ * Filter covering a brushed stretch of chart categories: a date or numeric
+ * range when the column has one, otherwise the categories themselves.
+ */
+export const rangeFilter = (values: CellValue[], type: ColumnType | undefined): FilterValue | null => {
+  const present = values.filter(value => value !== null && value !== BLANK_LABEL);
+  if (present.length === 0) return null;
+
+  if (isDateType(type)) {
+    const timestamps = present.map(value => parseDateValue(value)).filter((t): t is number => t !== null);
+    if (timestamps.length > 0) {
+      return { kind: 'date', start: toISODate(Math.min(...timestamps)), end: toISODate(Math.max(...timestamps)) };
+    }
+  }
+  if (isNumericType(type)) {
+    const numbers = present.map(Number).filter(n => !isNaN(n));
+    if (numbers.length > 0) return { kind: 'range', min: Math.min(...numbers), max: Math.max(...numbers) };
+  }
+  return { kind: 'values', values: Array.from(new Set(present.map(String))), exclude: false };
+};
+
+/** Date filter spanning whole periods, from the one labelled `first` through the one labelled `last`. */
+export const periodFilter = (first: string, last: string, granularity: DateGranularity): FilterValue | null => {
+  const start = parsePeriod(first, granularity);
+  const lastStart = parsePeriod(last, granularity);
+  if (start === null || lastStart === null) return null;
+  return { kind: 'date', start: toISODate(start), end: toISODate(nextPeriod(lastStart, granularity) - 1) };
+};
+
+/** Short human-readable form of a filter, e.g. for chips. */
+export const describeFilter = (filterValue: FilterValue): string => {
+  switch (filterValue.kind) {
+    case 'values':
+      return `${filterValue.exclude ? 'not ' : ''}${filterValue.values.join(', ')}`;
+    case 'date':
+      return `${filterValue.start || '…'} to ${filterValue.end || '…'}`;
+    case 'range':
+      return `${filterValue.min?.toLocaleString() ?? '…'} to ${filterValue.max?.toLocaleString() ?? '…'}`;
+    case 'text':
+      return filterValue.regex ? `matches /${filterValue.query}/` : `contains "${filterValue.query}"`;
+    case 'empty':
+      return filterValue.empty ? 'blank' : 'not blank';
+  }
+};
+
+/**
+ * Brings filters saved before filters had a kind (a plain value, or a bare
+ * date range) into the current shape.
+ */
+export const normalizeFilters = (filters: Record<string, unknown> = {}): ActiveFilters =>
+  Object.fromEntries(
+    Object.entries(filters).map(([column, value]: [string, any]): [string, FilterValue] => {
+      if (typeof value === 'string') return [column, { kind: 'values', values: [value], exclude: false }];
+      if (value && !value.kind) return [column, { kind: 'date', start: value.start || '', end: value.end || '' }];
+      return [column, value];
+    })
+  );
+
+/**
+ * Returns the rows of a dataset that match every active filter, or any of
+ * them when combined with 'or'.
+ * Filters on columns the dataset doesn't have are ignored, so one set of
+ * filters can be shared by all sheets of a workbook.
+ */
+export const applyFilters = (dataSet: DataSet, filters: ActiveFilters, combinator: FilterCombinator = 'and'): RowSelection =>
+  selectRows(
+    dataSet.columns,
+    Object.entries<FilterValue>(filters)
+      .map(([column, value]) => toPredicate(column, value))
+      .filter((predicate): predicate is Predicate => predicate !== null),
+    undefined,
+    combinator
+  );
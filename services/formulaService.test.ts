@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnType } from '../types';
+import { addCalculatedColumn, compileFormula, getFormulaColumns, renameFormulaColumns } from './formulaService';
+import { runQuery } from './queryService';
+import { makeDataSet } from './testData';
+
+const orders = makeDataSet({
+  Revenue: ['100', '200', '', '50'],
+  Cost: ['40', '0', '10', '50'],
+  'Order Date': ['2023-05-01', '2024-01-02', '2024-02-03', ''],
+  Region: ['North', 'South', 'North', 'East'],
+});
+
+const evaluateAll = (formula: string) => {
+  const compiled = compileFormula(formula, orders);
+  return Array.from({ length: orders.rowCount }, (_, row) => compiled.evaluate(row));
+};
+
+const compileError = (formula: string): string => {
+  try {
+    compileFormula(formula, orders);
+  } catch (error: any) {
+    return error.message;
+  }
+  throw new Error(`"${formula}" compiled`);
+};
+
+describe('compileFormula', () => {
+  it('follows operator precedence and reports the columns it reads', () => {
+    const compiled = compileFormula('([Revenue] - Cost) / [Revenue] * 100', orders);
+    expect(compiled.type).toBe('number');
+    expect(compiled.columns).toEqual(['Revenue', 'Cost']);
+    expect(compiled.evaluate(0)).toBe(60);
+    expect(compileFormula('2 + 3 * 2 ^ 2', orders).evaluate(0)).toBe(14);
+  });
+
+  it('keeps empty cells empty through arithmetic', () => {
+    expect(evaluateAll('[Revenue] - [Cost]')).toEqual([60, 200, null, 0]);
+  });
+
+  it('gives an empty cell instead of dividing by zero', () => {
+    expect(evaluateAll('[Revenue] / [Cost]')).toEqual([2.5, null, null, 1]);
+  });
+
+  it('types functions and conditionals by what they return', () => {
+    expect(compileFormula('YEAR([Order Date])', orders).type).toBe('number');
+    expect(evaluateAll('YEAR([Order Date])')).toEqual([2023, 2024, 2024, null]);
+    expect(compileFormula('IF([Revenue] > 100, "Large", "Small")', orders).type).toBe('text');
+    expect(compileFormula('ISBLANK([Revenue])', orders).type).toBe('boolean');
+  });
+
+  it.each([
+    ['[Revenue', 'Column name starting at character 1 is missing its closing ].'],
+    ['1 +', 'The formula ends too early.'],
+    ['[Revnue] * 2', 'Unknown column "Revnue" at character 1. Did you mean [Revenue]?'],
+    ['FOO(1)', 'Unknown function FOO at character 1.'],
+    ['[Revenue] + "a"', '"+" at character 11 needs a number, but got text.'],
+    ['Region > 1', '">" at character 8 compares text with a number.'],
+    ['IF(Revenue > 100, "Large", 1)', 'IF at character 1 returns text in one case and a number in another.'],
+    ['[Revenue] = NULL', 'Comparing with NULL at character 11 is never true. Use ISBLANK(value) to test for empty values.'],
+  ])('rejects %s', (formula, message) => {
+    expect(compileError(formula)).toBe(message);
+  });
+});
+
+describe('formula columns', () => {
+  it('lists bracketed and bare column names, but not functions', () => {
+    expect(getFormulaColumns('ROUND([Order Date] - Cost, 2)')).toEqual(['Order Date', 'Cost']);
+  });
+
+  it('rewrites column references and leaves the rest alone', () => {
+    const renamed = renameFormulaColumns('ROUND(Revenue - [Cost], 2)', name => (name === 'Revenue' ? 'Net Sales' : name));
+    expect(renamed).toBe('ROUND([Net Sales] - [Cost], 2)');
+  });
+});
+
+describe('addCalculatedColumn', () => {
+  it('adds a typed column to the sheet', () => {
+    const result = addCalculatedColumn(orders, { name: 'Margin', formula: '[Revenue] - [Cost]' });
+    expect(result.headers).toEqual([...orders.headers, 'Margin']);
+    expect(result.schema.Margin.type).toBe(ColumnType.INTEGER);
+    expect(runQuery(result.columns, { select: ['Margin'] }).map(row => row.Margin)).toEqual([60, 200, null, 0]);
+    expect(orders.headers).not.toContain('Margin');
+  });
+
+  it('rejects a name the sheet already uses', () => {
+    expect(() => addCalculatedColumn(orders, { name: 'cost', formula: '1' })).toThrow('A column named "cost" already exists.');
+  });
+});
@@ -0,0 +1,890 @@
+import { CalculatedField, CellValue, Column, ColumnProfile, ColumnType, DataSet } from '../types';
+import { isDateType, isNumericType, profileColumn, toISODate } from './schemaService';
+import { getCellValue } from './queryService';
+import { createColumnBuilder } from './columnService';
+import { findDataSet } from './dataService';
+import { findClosestColumn } from './validationService';
+
+/*
+ * A small expression language for calculated columns. Formulas are tokenized,
+ * parsed into a tree and type-checked against the sheet's schema before they
+ * run; evaluation walks the compiled tree, so nothing is ever passed to eval.
+ *
+ *   ([Revenue] - [Cost]) / [Revenue]
+ *   YEAR([Order Date])
+ *   IF(Amount > 100, "Large", "Small")
+ *
+ * Columns are written in square brackets, or bare when the name is a single
+ * word. Empty cells stay empty through arithmetic and text functions.
+ */
+
+export type FormulaType = 'number' | 'text' | 'date' | 'boolean';
+
+// Dates are evaluated as timestamps and written back as ISO strings
+type Value = number | string | boolean | null;
+
+// 'empty' is the type of the NULL literal, which fits anywhere
+type ValueType = FormulaType | 'empty';
+
+export interface CompiledFormula {
+  type: FormulaType | null; // Null when the formula can only be empty
+  columns: string[]; // Columns of its own sheet the formula reads
+  evaluate: (row: number) => Value;
+}
+
+// --- Tokens -------------------------------------------------------------------
+
+type TokenKind = 'number' | 'string' | 'column' | 'name' | 'operator' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string; // Column name for columns, unquoted text for strings
+  position: number; // Zero-based offset into the formula
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '+', '-', '*', '/', '^', '&', '=', '<', '>', '(', ')', ','];
+
+const at = (position: number) => `at character ${position + 1}`;
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(formula.slice(i));
+      if (!match) throw new Error(`Unexpected "${char}" ${at(i)}.`);
+      i += match[0].length;
+      tokens.push({ kind: 'number', text: match[0], position: start, end: i });
+      continue;
+    }
+
+    // Strings use either quote; a doubled quote stands for one quote character
+    if (char === '"' || char === "'") {
+      let text = '';
+      i++;
+      while (true) {
+        if (i >= formula.length) throw new Error(`Text starting ${at(start)} is missing its closing ${char}.`);
+        if (formula[i] === char) {
+          if (formula[i + 1] !== char) break;
+          i++;
+        }
+        text += formula[i++];
+      }
+      i++;
+      tokens.push({ kind: 'string', text, position: start, end: i });
+      continue;
+    }
+
+    // [Column name], with ]] for a literal ]
+    if (char === '[') {
+      let text = '';
+      i++;
+      while (true) {
+        if (i >= formula.length) throw new Error(`Column name starting ${at(start)} is missing its closing ].`);
+        if (formula[i] === ']') {
+          if (formula[i + 1] !== ']') break;
+          i++;
+        }
+        text += formula[i++];
+      }
+      i++;
+      if (!text.trim()) throw new Error(`Empty column name ${at(start)}.`);
+      tokens.push({ kind: 'column', text, position: start, end: i });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(formula.slice(i))!;
+      i += match[0].length;
+      tokens.push({ kind: 'name', text: match[0], position: start, end: i });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => formula.startsWith(op, i));
+    if (!operator) throw new Error(`Unexpected "${char}" ${at(i)}.`);
+    i += operator.length;
+    tokens.push({ kind: 'operator', text: operator, position: start, end: i });
+  }
+
+  tokens.push({ kind: 'end', text: '', position: formula.length, end: formula.length });
+  return tokens;
+};
+
+// --- Syntax tree ----------------------------------------------------------------
+
+type Node =
+  | { kind: 'literal'; value: Value; type: ValueType; position: number }
+  | { kind: 'column'; name: string; position: number }
+  | { kind: 'call'; name: string; args: Node[]; position: number }
+  | { kind: 'unary'; operator: string; operand: Node; position: number }
+  | { kind: 'binary'; operator: string; left: Node; right: Node; position: number };
+
+const KEYWORDS = ['AND', 'OR', 'NOT', 'TRUE', 'FALSE', 'NULL'];
+const COMPARISONS = ['=', '==', '!=', '<>', '<', '<=', '>', '>='];
+
+const isKeyword = (token: Token, keyword: string) => token.kind === 'name' && token.text.toUpperCase() === keyword;
+
+/**
+ * Recursive descent over the tokens, loosest binding first:
+ * OR, AND, NOT, comparisons, &, + and -, * and /, unary minus, ^.
+ */
+const parse = (formula: string): Node => {
+  const tokens = tokenize(formula);
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const isOperator = (text: string) => peek().kind === 'operator' && peek().text === text;
+
+  const describe = (token: Token) => (token.kind === 'end' ? 'end of formula' : `"${formula.slice(token.position, token.end)}"`);
+  const expect = (text: string) => {
+    if (!isOperator(text)) throw new Error(`Expected "${text}" ${at(peek().position)} but found ${describe(peek())}.`);
+    next();
+  };
+
+  const binary = (operand: () => Node, matches: (token: Token) => boolean) => (): Node => {
+    let left = operand();
+    while (matches(peek())) {
+      const token = next();
+      const operator = token.kind === 'name' ? token.text.toUpperCase() : token.text;
+      left = { kind: 'binary', operator, left, right: operand(), position: token.position };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const token = next();
+    switch (token.kind) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text), type: 'number', position: token.position };
+      case 'string':
+        return { kind: 'literal', value: token.text, type: 'text', position: token.position };
+      case 'column':
+        return { kind: 'column', name: token.text, position: token.position };
+      case 'name': {
+        const upper = token.text.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') return { kind: 'literal', value: upper === 'TRUE', type: 'boolean', position: token.position };
+        if (upper === 'NULL') return { kind: 'literal', value: null, type: 'empty', position: token.position };
+        if (KEYWORDS.includes(upper)) throw new Error(`Unexpected ${upper} ${at(token.position)}.`);
+        if (!isOperator('(')) return { kind: 'column', name: token.text, position: token.position };
+
+        next();
+        const args: Node[] = [];
+        if (!isOperator(')')) {
+          args.push(or());
+          while (isOperator(',')) {
+            next();
+            args.push(or());
+          }
+        }
+        expect(')');
+        return { kind: 'call', name: upper, args, position: token.position };
+      }
+      case 'operator':
+        if (token.text === '(') {
+          const inner = or();
+          expect(')');
+          return inner;
+        }
+        throw new Error(`Unexpected "${token.text}" ${at(token.position)}.`);
+      default:
+        throw new Error('The formula ends too early.');
+    }
+  };
+
+  // ^ binds tighter than unary minus and groups to the right: -2^2 is -4, 2^3^2 is 2^9
+  const power = (): Node => {
+    const base = primary();
+    if (!isOperator('^')) return base;
+    const token = next();
+    return { kind: 'binary', operator: '^', left: base, right: unary(), position: token.position };
+  };
+  const unary = (): Node => {
+    if (isOperator('-') || isOperator('+')) {
+      const token = next();
+      return { kind: 'unary', operator: token.text, operand: unary(), position: token.position };
+    }
+    return power();
+  };
+  const multiplicative = binary(unary, token => token.kind === 'operator' && (token.text === '*' || token.text === '/'));
+  const additive = binary(multiplicative, token => token.kind === 'operator' && (token.text === '+' || token.text === '-'));
+  const concatenation = binary(additive, token => token.kind === 'operator' && token.text === '&');
+  const comparison = (): Node => {
+    const left = concatenation();
+    if (peek().kind !== 'operator' || !COMPARISONS.includes(peek().text)) return left;
+    const token = next();
+    return { kind: 'binary', operator: token.text, left, right: concatenation(), position: token.position };
+  };
+  const not = (): Node => {
+    if (isKeyword(peek(), 'NOT')) {
+      const token = next();
+      return { kind: 'unary', operator: 'NOT', operand: not(), position: token.position };
+    }
+    return comparison();
+  };
+  const and = binary(not, token => isKeyword(token, 'AND'));
+  const or: () => Node = binary(and, token => isKeyword(token, 'OR'));
+
+  if (peek().kind === 'end') throw new Error('The formula is empty.');
+  const tree = or();
+  if (peek().kind !== 'end') {
+    // Two words in a row are most likely a column name with a space
+    const previous = tokens[index - 1];
+    const hint = previous.kind === 'name' && peek().kind === 'name'
+      ? ` Column names with spaces go in brackets, e.g. [${formula.slice(previous.position, peek().end)}].`
+      : '';
+    throw new Error(`Unexpected ${describe(peek())} ${at(peek().position)}.${hint}`);
+  }
+  return tree;
+};
+
+// --- Functions --------------------------------------------------------------------
+
+type FunctionCategory = 'Math' | 'Text' | 'Date' | 'Logic' | 'Lookup';
+
+interface FunctionSpec {
+  category: FunctionCategory;
+  signature: string;
+  description: string;
+  params: (ValueType | 'any')[];
+  optional?: number; // Trailing params that may be left out
+  variadic?: boolean; // The last param may repeat
+  keepsEmpty?: boolean; // Called with empty arguments instead of returning empty
+  // Both left out for the functions compiled on their own below
+  returns?: ValueType | ((types: ValueType[], position: number) => ValueType);
+  apply?: (args: Value[]) => Value;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_UNITS = ['day', 'week', 'month', 'year'];
+
+const finite = (value: number): Value => (Number.isFinite(value) ? value : null);
+
+const addToDate = (timestamp: number, amount: number, unit: string): number => {
+  const d = new Date(timestamp);
+  switch (unit) {
+    case 'week':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() + amount * 7, d.getHours(), d.getMinutes(), d.getSeconds()).getTime();
+    case 'month':
+      return new Date(d.getFullYear(), d.getMonth() + amount, d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds()).getTime();
+    case 'year':
+      return new Date(d.getFullYear() + amount, d.getMonth(), d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds()).getTime();
+    default:
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() + amount, d.getHours(), d.getMinutes(), d.getSeconds()).getTime();
+  }
+};
+
+// Whole units from start to end; negative when end comes first
+const dateDifference = (start: number, end: number, unit: string): number => {
+  const a = new Date(start);
+  const b = new Date(end);
+  switch (unit) {
+    case 'week':
+      return Math.trunc(dateDifference(start, end, 'day') / 7);
+    case 'month': {
+      const months = (b.getFullYear() - a.getFullYear()) * 12 + b.getMonth() - a.getMonth();
+      // A month only counts once its day has been reached
+      if (months > 0 && b.getDate() < a.getDate()) return months - 1;
+      if (months < 0 && b.getDate() > a.getDate()) return months + 1;
+      return months;
+    }
+    case 'year':
+      return Math.trunc(dateDifference(start, end, 'month') / 12);
+    default:
+      // Calendar days, so daylight saving changes don't shift the count
+      return Math.round((Date.UTC(b.getFullYear(), b.getMonth(), b.getDate()) - Date.UTC(a.getFullYear(), a.getMonth(), a.getDate())) / DAY_MS);
+  }
+};
+
+const unitOf = (value: Value) => String(value ?? 'day').toLowerCase().replace(/s$/, '');
+
+const toText = (value: Value, type: ValueType): string => {
+  if (value === null) return '';
+  if (type === 'date') return toISODate(value as number);
+  return String(value);
+};
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+  // Math
+  ABS: { category: 'Math', signature: 'ABS(number)', description: 'Absolute value.', params: ['number'], returns: 'number', apply: ([n]) => Math.abs(n as number) },
+  ROUND: {
+    category: 'Math', signature: 'ROUND(number, [digits])', description: 'Rounds to the given number of decimals (0 by default).',
+    params: ['number', 'number'], optional: 1, returns: 'number',
+    apply: ([n, digits]) => {
+      const factor = 10 ** ((digits as number | undefined) ?? 0);
+      return finite(Math.round((n as number) * factor) / factor);
+    },
+  },
+  FLOOR: { category: 'Math', signature: 'FLOOR(number)', description: 'Rounds down to a whole number.', params: ['number'], returns: 'number', apply: ([n]) => Math.floor(n as number) },
+  CEILING: { category: 'Math', signature: 'CEILING(number)', description: 'Rounds up to a whole number.', params: ['number'], returns: 'number', apply: ([n]) => Math.ceil(n as number) },
+  SQRT: { category: 'Math', signature: 'SQRT(number)', description: 'Square root; empty for negative numbers.', params: ['number'], returns: 'number', apply: ([n]) => finite(Math.sqrt(n as number)) },
+  POWER: { category: 'Math', signature: 'POWER(number, exponent)', description: 'Same as number ^ exponent.', params: ['number', 'number'], returns: 'number', apply: ([n, e]) => finite((n as number) ** (e as number)) },
+  MOD: {
+    category: 'Math', signature: 'MOD(number, divisor)', description: 'Remainder of a division; empty when dividing by zero.',
+    params: ['number', 'number'], returns: 'number', apply: ([n, d]) => finite((n as number) % (d as number)),
+  },
+  MIN: {
+    category: 'Math', signature: 'MIN(number, ...)', description: 'Smallest of the values, ignoring empty ones.',
+    params: ['number'], variadic: true, keepsEmpty: true, returns: 'number',
+    apply: args => {
+      const present = args.filter((n): n is number => n !== null);
+      return present.length ? Math.min(...present) : null;
+    },
+  },
+  MAX: {
+    category: 'Math', signature: 'MAX(number, ...)', description: 'Largest of the values, ignoring empty ones.',
+    params: ['number'], variadic: true, keepsEmpty: true, returns: 'number',
+    apply: args => {
+      const present = args.filter((n): n is number => n !== null);
+      return present.length ? Math.max(...present) : null;
+    },
+  },
+  NUMBER: {
+    category: 'Math', signature: 'NUMBER(text)', description: 'Reads a number from text; empty when it isn\'t one.',
+    params: ['text'], returns: 'number',
+    apply: ([text]) => {
+      const cleaned = String(text).trim().replace(/,/g, '');
+      return cleaned === '' || isNaN(Number(cleaned)) ? null : Number(cleaned);
+    },
+  },
+
+  // Text
+  UPPER: { category: 'Text', signature: 'UPPER(text)', description: 'Text in capitals.', params: ['text'], returns: 'text', apply: ([t]) => (t as string).toUpperCase() },
+  LOWER: { category: 'Text', signature: 'LOWER(text)', description: 'Text in lower case.', params: ['text'], returns: 'text', apply: ([t]) => (t as string).toLowerCase() },
+  TRIM: { category: 'Text', signature: 'TRIM(text)', description: 'Removes leading and trailing spaces.', params: ['text'], returns: 'text', apply: ([t]) => (t as string).trim() },
+  LEN: { category: 'Text', signature: 'LEN(text)', description: 'Number of characters.', params: ['text'], returns: 'number', apply: ([t]) => (t as string).length },
+  LEFT: {
+    category: 'Text', signature: 'LEFT(text, count)', description: 'The first characters of the text.',
+    params: ['text', 'number'], returns: 'text', apply: ([t, n]) => (t as string).slice(0, Math.max(0, n as number)),
+  },
+  RIGHT: {
+    category: 'Text', signature: 'RIGHT(text, count)', description: 'The last characters of the text.',
+    params: ['text', 'number'], returns: 'text', apply: ([t, n]) => ((n as number) > 0 ? (t as string).slice(-(n as number)) : ''),
+  },
+  MID: {
+    category: 'Text', signature: 'MID(text, start, count)', description: 'Characters from a position, counting from 1.',
+    params: ['text', 'number', 'number'], returns: 'text',
+    apply: ([t, start, n]) => {
+      const from = Math.max(0, (start as number) - 1);
+      return (t as string).slice(from, from + Math.max(0, n as number));
+    },
+  },
+  CONTAINS: {
+    category: 'Text', signature: 'CONTAINS(text, search)', description: 'Whether the text contains the search, ignoring case.',
+    params: ['text', 'text'], returns: 'boolean', apply: ([t, s]) => (t as string).toLowerCase().includes((s as string).toLowerCase()),
+  },
+  REPLACE: {
+    category: 'Text', signature: 'REPLACE(text, search, replacement)', description: 'Replaces every occurrence of the search.',
+    params: ['text', 'text', 'text'], returns: 'text', apply: ([t, s, r]) => (s === '' ? t : (t as string).split(s as string).join(r as string)),
+  },
+  CONCAT: {
+    category: 'Text', signature: 'CONCAT(value, ...)', description: 'Joins the values as text; empty values are skipped. Same as value & value.',
+    params: ['any'], variadic: true, keepsEmpty: true,
+  },
+  TEXT: {
+    category: 'Text', signature: 'TEXT(value)', description: 'The value as text; dates as YYYY-MM-DD.',
+    params: ['any'],
+  },
+
+  // Dates
+  YEAR: { category: 'Date', signature: 'YEAR(date)', description: 'Year of a date.', params: ['date'], returns: 'number', apply: ([d]) => new Date(d as number).getFullYear() },
+  QUARTER: { category: 'Date', signature: 'QUARTER(date)', description: 'Quarter of a date, 1 to 4.', params: ['date'], returns: 'number', apply: ([d]) => Math.floor(new Date(d as number).getMonth() / 3) + 1 },
+  MONTH: { category: 'Date', signature: 'MONTH(date)', description: 'Month of a date, 1 to 12.', params: ['date'], returns: 'number', apply: ([d]) => new Date(d as number).getMonth() + 1 },
+  DAY: { category: 'Date', signature: 'DAY(date)', description: 'Day of the month, 1 to 31.', params: ['date'], returns: 'number', apply: ([d]) => new Date(d as number).getDate() },
+  WEEKDAY: {
+    category: 'Date', signature: 'WEEKDAY(date)', description: 'Day of the week, 1 (Monday) to 7 (Sunday).',
+    params: ['date'], returns: 'number', apply: ([d]) => ((new Date(d as number).getDay() + 6) % 7) + 1,
+  },
+  DATE: {
+    category: 'Date', signature: 'DATE(year, month, day)', description: 'The date with these parts.',
+    params: ['number', 'number', 'number'], returns: 'date', apply: ([y, m, d]) => finite(new Date(y as number, (m as number) - 1, d as number).getTime()),
+  },
+  TODAY: {
+    category: 'Date', signature: 'TODAY()', description: 'Today\'s date.',
+    params: [], returns: 'date', apply: () => {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    },
+  },
+  DATEADD: {
+    category: 'Date', signature: 'DATEADD(date, amount, [unit])', description: 'Moves a date by days, or by "week", "month" or "year".',
+    params: ['date', 'number', 'text'], optional: 1, returns: 'date',
+    apply: ([d, amount, unit]) => addToDate(d as number, Math.trunc(amount as number), unitOf(unit)),
+  },
+  DATEDIFF: {
+    category: 'Date', signature: 'DATEDIFF(start, end, [unit])', description: 'Whole days from start to end, or "week", "month" or "year".',
+    params: ['date', 'date', 'text'], optional: 1, returns: 'number',
+    apply: ([start, end, unit]) => dateDifference(start as number, end as number, unitOf(unit)),
+  },
+
+  // Logic
+  IF: {
+    category: 'Logic', signature: 'IF(condition, then, [else])', description: 'One of two values depending on a condition; empty without an else.',
+    params: ['boolean', 'any', 'any'], optional: 1, keepsEmpty: true,
+    returns: ([, then, otherwise = 'empty'], position) => unify(then, otherwise, `IF ${at(position)} returns`),
+    apply: ([condition, then, otherwise]) => (condition === true ? then : otherwise ?? null),
+  },
+  IFNULL: {
+    category: 'Logic', signature: 'IFNULL(value, fallback)', description: 'The value, or the fallback when it is empty.',
+    params: ['any', 'any'], keepsEmpty: true,
+    returns: ([value, fallback], position) => unify(value, fallback, `IFNULL ${at(position)} returns`),
+    apply: ([value, fallback]) => (value === null || value === '' ? fallback : value),
+  },
+  ISBLANK: {
+    category: 'Logic', signature: 'ISBLANK(value)', description: 'Whether the value is empty.',
+    params: ['any'], keepsEmpty: true, returns: 'boolean', apply: ([value]) => value === null || value === '',
+  },
+  SWITCH: {
+    category: 'Logic', signature: 'SWITCH(value, match, result, ..., [default])', description: 'The result paired with the first match, else the default.',
+    params: ['any'], variadic: true, keepsEmpty: true,
+  },
+
+  // Lookups
+  LOOKUP: {
+    category: 'Lookup', signature: 'LOOKUP(value, "sheet", "key column", "result column")',
+    description: 'Looks the value up in a key column and returns the same row\'s result column. Use "" for this sheet.',
+    params: ['any', 'text', 'text', 'text'],
+  },
+};
+
+/** The functions formulas can call, for the editor's reference list. */
+export const FORMULA_FUNCTIONS = Object.entries(FUNCTIONS).map(([name, spec]) => ({
+  name,
+  category: spec.category,
+  signature: spec.signature,
+  description: spec.description,
+}));
+
+// --- Type checking and compilation -------------------------------------------------
+
+const TYPE_NAMES: Record<ValueType, string> = {
+  number: 'a number',
+  text: 'text',
+  date: 'a date',
+  boolean: 'true/false',
+  empty: 'empty',
+};
+
+const unify = (a: ValueType, b: ValueType, context: string): ValueType => {
+  if (a === 'empty') return b;
+  if (b === 'empty' || a === b) return a;
+  throw new Error(`${context} ${TYPE_NAMES[a]} in one case and ${TYPE_NAMES[b]} in another.`);
+};
+
+const columnType = (profile: ColumnProfile | undefined): FormulaType => {
+  if (isNumericType(profile?.type)) return 'number';
+  if (isDateType(profile?.type)) return 'date';
+  if (profile?.type === ColumnType.BOOLEAN) return 'boolean';
+  return 'text';
+};
+
+interface Compiled {
+  type: ValueType;
+  evaluate: (row: number) => Value;
+}
+
+// Reads a column of the store as formula values: numbers, timestamps for dates, strings for text
+const columnReader = (dataSet: DataSet, name: string): Compiled => {
+  const column = dataSet.columns.columns[name];
+  const type = columnType(dataSet.schema[name]);
+
+  if (column.kind === 'number') {
+    return { type, evaluate: row => (Number.isNaN(column.values[row]) ? null : column.values[row]) };
+  }
+  if (type === 'date' && column.timestamps) {
+    const timestamps = column.timestamps;
+    return { type, evaluate: row => (column.codes[row] < 0 || Number.isNaN(timestamps[column.codes[row]]) ? null : timestamps[column.codes[row]]) };
+  }
+  if (type === 'boolean') {
+    return { type, evaluate: row => getCellValue(column, row) as boolean | null };
+  }
+  return {
+    type,
+    evaluate: row => {
+      const value = getCellValue(column, row);
+      return value === null ? null : String(value);
+    },
+  };
+};
+
+const compileTree = (tree: Node, dataSet: DataSet, dataSets: DataSet[], columns: Set<string>): Compiled => {
+  const compile = (node: Node): Compiled => {
+    switch (node.kind) {
+      case 'literal': {
+        const { value, type } = node;
+        return { type, evaluate: () => value };
+      }
+
+      case 'column': {
+        if (!dataSet.columns.columns[node.name]) {
+          const closest = findClosestColumn(node.name, dataSet.headers);
+          throw new Error(`Unknown column "${node.name}" ${at(node.position)}.${closest ? ` Did you mean [${closest}]?` : ''}`);
+        }
+        columns.add(node.name);
+        return columnReader(dataSet, node.name);
+      }
+
+      case 'unary': {
+        const operand = compile(node.operand);
+        if (node.operator === 'NOT') {
+          expectType(operand.type, 'boolean', `NOT ${at(node.position)}`);
+          return { type: 'boolean', evaluate: row => operand.evaluate(row) !== true };
+        }
+        expectType(operand.type, 'number', `"${node.operator}" ${at(node.position)}`);
+        if (node.operator === '+') return operand;
+        return {
+          type: 'number',
+          evaluate: row => {
+            const value = operand.evaluate(row);
+            return value === null ? null : -(value as number);
+          },
+        };
+      }
+
+      case 'binary':
+        return compileBinary(node.operator, compile(node.left), compile(node.right), node.position);
+
+      case 'call':
+        return compileCall(node.name, node.args, node.position);
+    }
+  };
+
+  const compileCall = (name: string, argNodes: Node[], position: number): Compiled => {
+    const spec = FUNCTIONS[name];
+    if (!spec) {
+      const closest = findClosestColumn(name, Object.keys(FUNCTIONS));
+      throw new Error(`Unknown function ${name} ${at(position)}.${closest ? ` Did you mean ${closest}?` : ''}`);
+    }
+
+    const required = spec.params.length - (spec.optional || 0);
+    if (argNodes.length < required || (!spec.variadic && argNodes.length > spec.params.length)) {
+      const count = spec.variadic ? `at least ${required}` : spec.optional ? `${required} to ${spec.params.length}` : `${required}`;
+      throw new Error(`${name} ${at(position)} takes ${count} argument${required === 1 && !spec.optional ? '' : 's'}: ${spec.signature}.`);
+    }
+
+    if (name === 'LOOKUP') return compileLookup(argNodes, position);
+    const args = argNodes.map(compile);
+    if (name === 'SWITCH') return compileSwitch(args, position);
+
+    args.forEach((arg, i) => {
+      const expected = spec.params[Math.min(i, spec.params.length - 1)];
+      if (expected !== 'any') expectType(arg.type, expected, `Argument ${i + 1} of ${name} ${at(position)}`);
+    });
+    const types = args.map(arg => arg.type);
+
+    // Dates are timestamps inside a formula, so text conversions have to know which arguments are dates
+    if (name === 'TEXT') {
+      return { type: 'text', evaluate: row => {
+        const value = args[0].evaluate(row);
+        return value === null ? null : toText(value, types[0]);
+      } };
+    }
+    if (name === 'CONCAT') {
+      return { type: 'text', evaluate: row => args.map((arg, i) => toText(arg.evaluate(row), types[i])).join('') };
+    }
+
+    const type = typeof spec.returns === 'function' ? spec.returns(types, position) : spec.returns!;
+    const apply = spec.apply!;
+    return {
+      type,
+      evaluate: row => {
+        const values = args.map(arg => arg.evaluate(row));
+        if (!spec.keepsEmpty && values.some(value => value === null)) return null;
+        return apply(values);
+      },
+    };
+  };
+
+  // SWITCH(value, match1, result1, ..., [default])
+  const compileSwitch = (args: Compiled[], position: number): Compiled => {
+    const [subject, ...rest] = args;
+    if (rest.length < 2) throw new Error(`SWITCH ${at(position)} needs at least one match and result: ${FUNCTIONS.SWITCH.signature}.`);
+    const fallback = rest.length % 2 === 1 ? rest[rest.length - 1] : null;
+    const pairs = Array.from({ length: Math.floor(rest.length / 2) }, (_, i) => ({ match: rest[i * 2], result: rest[i * 2 + 1] }));
+
+    let type: ValueType = fallback ? fallback.type : 'empty';
+    pairs.forEach(({ match, result }, i) => {
+      if (match.type !== 'empty' && subject.type !== 'empty' && match.type !== subject.type) {
+        throw new Error(`SWITCH ${at(position)} compares ${TYPE_NAMES[subject.type]} with ${TYPE_NAMES[match.type]} in match ${i + 1}.`);
+      }
+      type = unify(type, result.type, `SWITCH ${at(position)} returns`);
+    });
+
+    return {
+      type,
+      evaluate: row => {
+        const value = subject.evaluate(row);
+        const hit = pairs.find(({ match }) => value !== null && match.evaluate(row) === value);
+        return hit ? hit.result.evaluate(row) : fallback ? fallback.evaluate(row) : null;
+      },
+    };
+  };
+
+  // LOOKUP(value, "sheet", "key column", "result column") - the names must be written as text
+  const compileLookup = (argNodes: Node[], position: number): Compiled => {
+    const [valueNode, ...nameNodes] = argNodes;
+    const [sheetName, keyName, resultName] = nameNodes.map((node, i) => {
+      if (node.kind !== 'literal' || node.type !== 'text') {
+        throw new Error(`Argument ${i + 2} of LOOKUP ${at(position)} must be written as text in quotes.`);
+      }
+      return node.value as string;
+    });
+
+    const target = sheetName === '' ? dataSet : dataSets.find(d => (d.sheetName || '') === sheetName);
+    if (!target) {
+      const closest = findClosestColumn(sheetName, dataSets.map(d => d.sheetName || ''));
+      throw new Error(`LOOKUP ${at(position)}: unknown sheet "${sheetName}".${closest ? ` Did you mean "${closest}"?` : ''}`);
+    }
+    [keyName, resultName].forEach(name => {
+      if (!target.columns.columns[name]) {
+        const closest = findClosestColumn(name, target.headers);
+        throw new Error(`LOOKUP ${at(position)}: unknown column "${name}"${sheetName ? ` on sheet "${sheetName}"` : ''}.${closest ? ` Did you mean "${closest}"?` : ''}`);
+      }
+    });
+
+    const value = compile(valueNode);
+    const keys = columnReader(target, keyName);
+    const results = columnReader(target, resultName);
+    if (value.type !== 'empty' && value.type !== keys.type) {
+      throw new Error(`LOOKUP ${at(position)} looks up ${TYPE_NAMES[value.type]} in "${keyName}", which holds ${TYPE_NAMES[keys.type]}.`);
+    }
+
+    // First row wins when a key repeats
+    const index = new Map<Value, Value>();
+    for (let row = 0; row < target.rowCount; row++) {
+      const key = keys.evaluate(row);
+      if (key !== null && !index.has(key)) index.set(key, results.evaluate(row));
+    }
+    return {
+      type: results.type,
+      evaluate: row => {
+        const key = value.evaluate(row);
+        return key === null ? null : index.get(key) ?? null;
+      },
+    };
+  };
+
+  return compile(tree);
+};
+
+const expectType = (actual: ValueType, expected: ValueType, context: string) => {
+  if (actual !== 'empty' && actual !== expected) {
+    throw new Error(`${context} needs ${TYPE_NAMES[expected]}, but got ${TYPE_NAMES[actual]}.`);
+  }
+};
+
+const compileBinary = (operator: string, left: Compiled, right: Compiled, position: number): Compiled => {
+  const where = `"${operator}" ${at(position)}`;
+
+  if (operator === 'AND' || operator === 'OR') {
+    expectType(left.type, 'boolean', `${operator} ${at(position)}`);
+    expectType(right.type, 'boolean', `${operator} ${at(position)}`);
+    return operator === 'AND'
+      ? { type: 'boolean', evaluate: row => left.evaluate(row) === true && right.evaluate(row) === true }
+      : { type: 'boolean', evaluate: row => left.evaluate(row) === true || right.evaluate(row) === true };
+  }
+
+  if (operator === '&') {
+    return { type: 'text', evaluate: row => toText(left.evaluate(row), left.type) + toText(right.evaluate(row), right.type) };
+  }
+
+  if (COMPARISONS.includes(operator)) {
+    if (left.type === 'empty' || right.type === 'empty') {
+      throw new Error(`Comparing with NULL ${at(position)} is never true. Use ISBLANK(value) to test for empty values.`);
+    }
+    if (left.type !== right.type) {
+      throw new Error(`${where} compares ${TYPE_NAMES[left.type]} with ${TYPE_NAMES[right.type]}.`);
+    }
+    if (left.type === 'boolean' && !['=', '==', '!=', '<>'].includes(operator)) {
+      throw new Error(`${where} can't order true/false values.`);
+    }
+    // Operands share a type here: numbers and dates (timestamps) subtract, text orders by code point, true/false only tests equality
+    const order: (a: CellValue, b: CellValue) => number = left.type === 'number' || left.type === 'date'
+      ? (a, b) => (a as number) - (b as number)
+      : (a, b) => (a === b ? 0 : (a as string) < (b as string) ? -1 : 1);
+    const holds: (difference: number) => boolean = {
+      '=': (d: number) => d === 0,
+      '==': (d: number) => d === 0,
+      '!=': (d: number) => d !== 0,
+      '<>': (d: number) => d !== 0,
+      '<': (d: number) => d < 0,
+      '<=': (d: number) => d <= 0,
+      '>': (d: number) => d > 0,
+      '>=': (d: number) => d >= 0,
+    }[operator]!;
+    const test = (a: CellValue, b: CellValue) => holds(order(a, b));
+    return {
+      type: 'boolean',
+      evaluate: row => {
+        const a = left.evaluate(row);
+        const b = right.evaluate(row);
+        return a === null || b === null ? null : test(a, b);
+      },
+    };
+  }
+
+  // Arithmetic
+  expectType(left.type, 'number', where);
+  expectType(right.type, 'number', where);
+  const calculate: (a: number, b: number) => number = {
+    '+': (a: number, b: number) => a + b,
+    '-': (a: number, b: number) => a - b,
+    '*': (a: number, b: number) => a * b,
+    '/': (a: number, b: number) => a / b,
+    '^': (a: number, b: number) => a ** b,
+  }[operator]!;
+  return {
+    type: 'number',
+    evaluate: row => {
+      const a = left.evaluate(row);
+      const b = right.evaluate(row);
+      // Division by zero and overflow give an empty cell rather than Infinity
+      return a === null || b === null ? null : finite(calculate(a as number, b as number));
+    },
+  };
+};
+
+/**
+ * Parses and type-checks a formula against a sheet. Throws an Error with a
+ * message meant for the user when the formula is invalid. LOOKUP can read
+ * the other sheets given in dataSets.
+ */
+export const compileFormula = (formula: string, dataSet: DataSet, dataSets: DataSet[] = [dataSet]): CompiledFormula => {
+  const columns = new Set<string>();
+  const compiled = compileTree(parse(formula), dataSet, dataSets, columns);
+  return {
+    type: compiled.type === 'empty' ? null : compiled.type,
+    columns: Array.from(columns),
+    evaluate: compiled.evaluate,
+  };
+};
+
+// Column tokens of a formula: [bracketed] names, and bare names not followed by "("
+const columnTokens = (formula: string): Token[] =>
+  tokenize(formula).filter((token, i, tokens) =>
+    token.kind === 'column' ||
+    (token.kind === 'name' && !KEYWORDS.includes(token.text.toUpperCase()) && !(tokens[i + 1].kind === 'operator' && tokens[i + 1].text === '(')));
+
+/** Columns a formula refers to, without checking them against a sheet. Empty when it doesn't parse. */
+export const getFormulaColumns = (formula: string): string[] => {
+  try {
+    return Array.from(new Set(columnTokens(formula).map(token => token.text)));
+  } catch {
+    return [];
+  }
+};
+
+/** Rewrites the column references of a formula, e.g. after columns were mapped to a new file. */
+export const renameFormulaColumns = (formula: string, rename: (name: string) => string): string => {
+  let tokens: Token[];
+  try {
+    tokens = columnTokens(formula);
+  } catch {
+    return formula;
+  }
+  // Replace from the end so earlier positions stay valid
+  return tokens.reverse().reduce((text, token) => {
+    const name = rename(token.text);
+    if (name === token.text) return text;
+    return `${text.slice(0, token.position)}[${name.replace(/]/g, ']]')}]${text.slice(token.end)}`;
+  }, formula);
+};
+
+// --- Calculated columns -------------------------------------------------------------
+
+/** Why a name can't be used for a new column of the sheet, or null when it can. */
+export const checkFieldName = (name: string, dataSet: DataSet): string | null => {
+  if (!name.trim()) return 'Give the field a name.';
+  if (name !== name.trim()) return 'The name can\'t start or end with a space.';
+  if (name.startsWith('__')) return 'Names starting with "__" are reserved.';
+  if (dataSet.headers.some(header => header.toLowerCase() === name.toLowerCase())) return `A column named "${name}" already exists.`;
+  return null;
+};
+
+// Column type a field gets when its values alone would be profiled as another kind
+const FIELD_COLUMN_TYPES: Record<FormulaType, ColumnType> = {
+  number: ColumnType.DECIMAL,
+  text: ColumnType.CATEGORICAL,
+  date: ColumnType.DATE,
+  boolean: ColumnType.BOOLEAN,
+};
+
+const toCell = (value: Value, type: FormulaType | null, withTime: boolean): CellValue =>
+  value === null || type !== 'date' ? value : toISODate(value as number, withTime);
+
+/**
+ * Adds a calculated column to a sheet: the formula is evaluated for every
+ * row, profiled like a loaded column and added to the column store.
+ */
+export const addCalculatedColumn = (dataSet: DataSet, field: CalculatedField, dataSets: DataSet[] = [dataSet]): DataSet => {
+  const nameProblem = checkFieldName(field.name, dataSet);
+  if (nameProblem) throw new Error(nameProblem);
+  const formula = compileFormula(field.formula, dataSet, dataSets);
+
+  const values: Value[] = new Array(dataSet.rowCount);
+  for (let row = 0; row < dataSet.rowCount; row++) values[row] = formula.evaluate(row);
+  const withTime = formula.type === 'date' && values.some(value => value !== null && new Date(value as number).getHours() + new Date(value as number).getMinutes() + new Date(value as number).getSeconds() > 0);
+
+  // Numbers go straight into a measure column, other values are dictionary-encoded
+  let cells: Column;
+  if (formula.type === 'number') {
+    cells = { kind: 'number', values: Float64Array.from(values, value => (value === null ? NaN : (value as number))) };
+  } else {
+    const builder = createColumnBuilder();
+    values.forEach(value => builder.push(toCell(value, formula.type, withTime)));
+    cells = builder.finish();
+  }
+
+  // Profile the new column on its own, then add only it to the sheet. Values
+  // that read as another kind (a text formula returning "12") keep the type
+  // the formula was checked as, so the field has the same kind in every file.
+  let { profile, column } = profileColumn(field.name, cells);
+  if (formula.type && columnType(profile) !== formula.type) {
+    const forced = formula.type === 'date' && withTime ? ColumnType.DATETIME : FIELD_COLUMN_TYPES[formula.type];
+    ({ profile, column } = profileColumn(field.name, cells, forced));
+  }
+
+  return {
+    ...dataSet,
+    headers: [...dataSet.headers, field.name],
+    schema: { ...dataSet.schema, [field.name]: profile },
+    columns: { ...dataSet.columns, columns: { ...dataSet.columns.columns, [field.name]: column } },
+  };
+};
+
+export interface CalculatedFieldError {
+  field: CalculatedField;
+  message: string;
+}
+
+/**
+ * Adds the calculated fields to their sheets in order, so later fields can
+ * use earlier ones. Fields that fail (say, a column the file no longer has)
+ * are left out and reported.
+ */
+export const applyCalculatedFields = (
+  dataSets: DataSet[],
+  fields: CalculatedField[] = []
+): { dataSets: DataSet[]; errors: CalculatedFieldError[] } => {
+  const errors: CalculatedFieldError[] = [];
+  const result = [...dataSets];
+
+  fields.forEach(field => {
+    const index = result.indexOf(findDataSet(result, field.sheetName));
+    try {
+      result[index] = addCalculatedColumn(result[index], field, result);
+    } catch (error: any) {
+      errors.push({ field, message: error.message });
+    }
+  });
+
+  return { dataSets: fields.length > 0 ? result : dataSets, errors };
+};
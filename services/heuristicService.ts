@@ -0,0 +1,204 @@
+import { AggregationType, AnalysisProvider, ChartConfig, ChartType, ColumnProfile, ColumnType, DashboardConfig, DataSet, KpiConfig, ProviderId } from '../types';
+import { isDateType, isNumericType } from './schemaService';
+import { runQuery } from './queryService';
+
+const MAX_CHARTS = 6;
+const MAX_KPIS = 4;
+// Pie charts only stay readable with a handful of slices
+const PIE_MAX_SLICES = 8;
+
+interface ColumnRoles {
+  dates: ColumnProfile[];
+  measures: ColumnProfile[];
+  categories: ColumnProfile[];
+}
+
+const getRoles = (dataSet: DataSet): ColumnRoles => {
+  const profiles = dataSet.headers.map(header => dataSet.schema[header]);
+  const hasValues = (profile: ColumnProfile) => profile.nullCount < dataSet.rowCount;
+
+  return {
+    dates: profiles.filter(p => isDateType(p.type) && hasValues(p)),
+    measures: profiles.filter(p => isNumericType(p.type) && hasValues(p)),
+    categories: profiles
+      .filter(p => (p.type === ColumnType.CATEGORICAL || p.type === ColumnType.BOOLEAN) && p.distinctCount >= 2)
+      .sort((a, b) => a.distinctCount - b.distinctCount),
+  };
+};
+
+const aggregationFor = (measure: ColumnProfile): AggregationType =>
+  measure.type === ColumnType.PERCENT ? AggregationType.MEAN : AggregationType.SUM;
+
+const measureChart = (
+  type: ChartType,
+  xKey: string,
+  measures: ColumnProfile[],
+  title: string,
+  description: string,
+  sheetName?: string
+): Omit<ChartConfig, 'id'> => ({
+  type,
+  title,
+  description,
+  xKey,
+  yKeys: measures.map(m => m.name),
+  groupBy: xKey,
+  aggregations: Object.fromEntries(measures.map(m => [m.name, aggregationFor(m)])),
+  sheetName,
+});
+
+// Counting needs a y-key other than the category itself
+const countChart = (
+  type: ChartType,
+  dataSet: DataSet,
+  xKey: string,
+  title: string,
+  description: string
+): Omit<ChartConfig, 'id'> | null => {
+  const countKey = dataSet.headers.find(header => header !== xKey);
+  if (!countKey) return null;
+  return {
+    type,
+    title,
+    description,
+    xKey,
+    yKeys: [countKey],
+    groupBy: xKey,
+    aggregations: { [countKey]: AggregationType.COUNT },
+    sheetName: dataSet.sheetName,
+  };
+};
+
+const chartsForDataSet = (dataSet: DataSet): Omit<ChartConfig, 'id'>[] => {
+  const { dates, measures, categories } = getRoles(dataSet);
+  const charts: (Omit<ChartConfig, 'id'> | null)[] = [];
+  const sheet = dataSet.sheetName;
+  const [primary, secondary] = measures;
+
+  if (dates.length > 0) {
+    const date = dates[0].name;
+    if (primary) {
+      const trend = measures.slice(0, 2);
+      charts.push(measureChart(ChartType.LINE, date, trend,
+        `${trend.map(m => m.name).join(' & ')} over time`,
+        `Trend of ${trend.map(m => m.name).join(' and ')} across ${date}.`, sheet));
+    } else {
+      charts.push(countChart(ChartType.AREA, dataSet, date, 'Records over time', `Number of records per ${date}.`));
+    }
+  }
+
+  categories.slice(0, 2).forEach(category => {
+    if (primary) {
+      charts.push(measureChart(ChartType.BAR, category.name, [primary],
+        `${primary.name} by ${category.name}`,
+        `Compares ${primary.name} across each ${category.name}.`, sheet));
+    } else {
+      charts.push(countChart(ChartType.BAR, dataSet, category.name,
+        `Records by ${category.name}`, `Number of records for each ${category.name}.`));
+    }
+  });
+
+  const pieCategory = categories.find(c => c.distinctCount <= PIE_MAX_SLICES);
+  if (pieCategory) {
+    const measure = secondary || primary;
+    charts.push(measure
+      ? measureChart(ChartType.PIE, pieCategory.name, [measure],
+          `Share of ${measure.name} by ${pieCategory.name}`,
+          `How ${measure.name} splits across ${pieCategory.name}.`, sheet)
+      : countChart(ChartType.PIE, dataSet, pieCategory.name,
+          `Share of records by ${pieCategory.name}`, `How records split across ${pieCategory.name}.`));
+  }
+
+  if (primary && secondary) {
+    charts.push({
+      ...measureChart(ChartType.SCATTER, primary.name, [secondary],
+        `${secondary.name} vs ${primary.name}`,
+        `Relationship between ${primary.name} and ${secondary.name} per record.`, sheet),
+      groupBy: undefined,
+      aggregations: {},
+    });
+  }
+
+  return charts.filter((chart): chart is Omit<ChartConfig, 'id'> => chart !== null);
+};
+
+// Month-over-month for the leading measures, plus year-to-date for the first
+const kpisForDataSet = (dataSet: DataSet): Omit<KpiConfig, 'id'>[] => {
+  const { dates, measures } = getRoles(dataSet);
+  if (dates.length === 0 || measures.length === 0) return [];
+  const dateKey = dates[0].name;
+  const kpi = (measure: ColumnProfile, comparison: KpiConfig['comparison'], title: string): Omit<KpiConfig, 'id'> => ({
+    title,
+    measure: measure.name,
+    aggregation: aggregationFor(measure),
+    dateKey,
+    comparison,
+    sheetName: dataSet.sheetName,
+  });
+
+  return [
+    ...measures.slice(0, MAX_KPIS - 1).map(measure => kpi(measure, 'month', measure.name)),
+    kpi(measures[0], 'ytd', `${measures[0].name} year to date`),
+  ];
+};
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const buildSummary = (dataSets: DataSet[]): string => {
+  const [first] = dataSets;
+  const rows = dataSets.reduce((acc, dataSet) => acc + dataSet.rowCount, 0);
+  const parts = [
+    dataSets.length > 1
+      ? `${first.fileName} contains ${rows.toLocaleString()} rows across ${dataSets.length} sheets.`
+      : `${first.fileName} contains ${rows.toLocaleString()} rows and ${first.headers.length} columns.`,
+  ];
+
+  const { dates, measures } = getRoles(first);
+  if (dates[0]?.min && dates[0]?.max) {
+    parts.push(`${dates[0].name} ranges from ${dates[0].min} to ${dates[0].max}.`);
+  }
+  if (measures[0]) {
+    const [result] = runQuery(first.columns, { aggregates: [{ column: measures[0].name, aggregation: aggregationFor(measures[0]) }] });
+    const total = result[measures[0].name] as number | null;
+    if (total !== null) {
+      const label = aggregationFor(measures[0]) === AggregationType.MEAN ? 'Average' : 'Total';
+      parts.push(`${label} ${measures[0].name} is ${formatNumber(total)}.`);
+    }
+  }
+  parts.push('Charts were chosen from the column types without an AI model.');
+  return parts.join(' ');
+};
+
+/**
+ * Deterministic provider that designs a dashboard from column types alone.
+ * Needs no network access, so it doubles as the fallback when a model fails.
+ */
+export const heuristicProvider: AnalysisProvider = {
+  id: ProviderId.HEURISTIC,
+  label: 'Offline rules',
+  generateDashboardConfig: async ({ dataSets }): Promise<DashboardConfig> => {
+    // Take charts from each sheet in turn so multi-sheet dashboards cover every sheet
+    const perSheet = dataSets.map(chartsForDataSet);
+    const longest = Math.max(...perSheet.map(list => list.length));
+    const charts = Array.from({ length: longest }, (_, i) => perSheet.map(list => list[i]))
+      .flat()
+      .filter((chart): chart is Omit<ChartConfig, 'id'> => chart !== undefined)
+      .slice(0, MAX_CHARTS)
+      .map((chart, index) => ({ ...chart, id: `chart-${index + 1}` }));
+
+    if (charts.length === 0) {
+      throw new Error('Could not find any columns to chart.');
+    }
+
+    const kpis = (dataSets.map(kpisForDataSet).find(list => list.length > 0) || [])
+      .map((kpi, index) => ({ ...kpi, id: `kpi-${index + 1}` }));
+
+    const baseName = dataSets[0].fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ');
+    return {
+      title: `${baseName} Overview`,
+      summary: buildSummary(dataSets),
+      charts,
+      kpis,
+    };
+  },
+};
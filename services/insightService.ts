@@ -0,0 +1,409 @@
+import { AggregationType, ChartConfig, ChartType, ColumnType, DashboardConfig, DataSet, Insight, RowSelection, StatFact, StatFactKind } from '../types';
+import { isDateType, isNumericType } from './schemaService';
+import { aggregateGroups, allRows, assignGroups, BLANK_LABEL, getOutlierBounds, Groups } from './queryService';
+import { getColumnGranularity } from './aggregationService';
+
+// Columns looked at per sheet, so the facts stay a prompt-sized list
+const MAX_MEASURES = 4;
+const MAX_RANKED_MEASURES = 2; // Measures ranked across categories for movers and concentration
+const MAX_CATEGORIES = 3;
+const MAX_CATEGORY_MEMBERS = 50; // Columns with more members are too spread out to rank
+const MAX_FACTS = 40;
+const MAX_TREND_PERIODS = 24;
+const MIN_TREND_PERIODS = 3;
+const MIN_STAT_ROWS = 10; // Outliers and correlations need a few rows to mean anything
+const MIN_CORRELATION = 0.5;
+// Concentration counts the leading members up to this share of the total
+const CONCENTRATION_SHARE = 0.8;
+// Bare whole numbers up to this are counts and ordinals ("the top 3") rather than figures
+const MAX_PLAIN_COUNT = 12;
+
+// A column reduced one way, e.g. total Revenue, or records counted on any column
+interface Measure {
+  column: string;
+  aggregation: AggregationType;
+  label: string; // e.g. 'total Revenue', 'average Margin', 'records'
+}
+
+type Draft = Omit<StatFact, 'id'>;
+
+// Facts are read back by the claim check, so figures are always written the same way, whatever the locale
+const formatFigure = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: Math.abs(value) >= 100 ? 0 : 2 });
+const formatShare = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+const formatChange = (ratio: number) => `${ratio >= 0 ? '+' : ''}${formatShare(ratio)}`;
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const getMeasures = (dataSet: DataSet): Measure[] => {
+  const profiles = dataSet.headers.map(header => dataSet.schema[header]).filter(p => p && p.nullCount < dataSet.rowCount);
+  const numeric = profiles.filter(p => isNumericType(p.type)).slice(0, MAX_MEASURES);
+  if (numeric.length === 0) {
+    return dataSet.headers.length > 0 ? [{ column: dataSet.headers[0], aggregation: AggregationType.COUNT, label: 'records' }] : [];
+  }
+  return numeric.map(p => p.type === ColumnType.PERCENT
+    ? { column: p.name, aggregation: AggregationType.MEAN, label: `average ${p.name}` }
+    : { column: p.name, aggregation: AggregationType.SUM, label: `total ${p.name}` });
+};
+
+const getCategories = (dataSet: DataSet): string[] =>
+  dataSet.headers
+    .map(header => dataSet.schema[header])
+    .filter(p => p && (p.type === ColumnType.CATEGORICAL || p.type === ColumnType.BOOLEAN) && p.distinctCount >= 2 && p.distinctCount <= MAX_CATEGORY_MEMBERS)
+    .sort((a, b) => a.distinctCount - b.distinctCount)
+    .slice(0, MAX_CATEGORIES)
+    .map(p => p.name);
+
+// Members of a grouping column with their aggregated value, blanks and empty groups left out
+const aggregateMembers = (dataSet: DataSet, rows: RowSelection, groupBy: string, measure: Measure): Map<string, number> => {
+  const groups = assignGroups(dataSet.columns.columns[groupBy], rows);
+  const values = aggregateGroups(dataSet.columns.columns[measure.column], rows, groups, measure.aggregation);
+  const result = new Map<string, number>();
+  groups.labels.forEach((label, group) => {
+    if (label !== BLANK_LABEL && values[group] !== null) result.set(label, values[group]!);
+  });
+  return result;
+};
+
+const overviewFact = (dataSet: DataSet, measures: Measure[]): Draft => {
+  const name = dataSet.sheetName ? `Sheet "${dataSet.sheetName}"` : dataSet.fileName;
+  const parts = [`${name} has ${formatFigure(dataSet.rowCount)} rows and ${formatFigure(dataSet.headers.length)} columns.`];
+  const date = dataSet.headers.find(header => isDateType(dataSet.schema[header]?.type));
+  const { min, max } = (date && dataSet.schema[date]) || {};
+  if (date && min && max) parts.push(`${date} runs from ${min} to ${max}.`);
+
+  const rows = allRows(dataSet.columns);
+  const single: Groups = { labels: [''], ids: new Int32Array(rows.length) };
+  const totals = measures
+    .filter(measure => measure.aggregation !== AggregationType.COUNT)
+    .map(measure => {
+      const [value] = aggregateGroups(dataSet.columns.columns[measure.column], rows, single, measure.aggregation);
+      return value === null ? null : `${measure.label} is ${formatFigure(value)}`;
+    })
+    .filter((part): part is string => part !== null);
+  if (totals.length > 0) parts.push(`${capitalize(totals.join(', '))}.`);
+
+  return { kind: 'overview', text: parts.join(' '), columns: [...(date ? [date] : []), ...measures.map(m => m.column)] };
+};
+
+// Least-squares line through the values at 0, 1, 2, ... and how much of their spread it explains
+const fitLine = (values: number[]) => {
+  const n = values.length;
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((acc, value) => acc + value, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  values.forEach((value, x) => {
+    sxy += (x - meanX) * (value - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (value - meanY) ** 2;
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { slope, r2: syy > 0 ? (sxy * sxy) / (sxx * syy) : 0 };
+};
+
+/**
+ * Trend of every measure over the periods of the first date column, and
+ * for the leading measures the categories that moved most between the last
+ * two periods.
+ */
+const timeFacts = (dataSet: DataSet, measures: Measure[], categories: string[]): Draft[] => {
+  const date = dataSet.headers.find(header => isDateType(dataSet.schema[header]?.type));
+  const granularity = date ? getColumnGranularity(date, dataSet.schema, MAX_TREND_PERIODS) : undefined;
+  if (!date || !granularity) return [];
+
+  const rows = allRows(dataSet.columns);
+  const groups = assignGroups(dataSet.columns.columns[date], rows, granularity);
+  const periods = groups.labels
+    .map((label, group) => ({ label, group, start: groups.starts![group] }))
+    .filter(period => !Number.isNaN(period.start))
+    .sort((a, b) => a.start - b.start);
+  if (periods.length < MIN_TREND_PERIODS) return [];
+  const facts: Draft[] = [];
+
+  measures.forEach(measure => {
+    const values = aggregateGroups(dataSet.columns.columns[measure.column], rows, groups, measure.aggregation);
+    const series = periods
+      .map(period => ({ ...period, value: values[period.group] }))
+      .filter((period): period is typeof period & { value: number } => period.value !== null);
+    if (series.length < MIN_TREND_PERIODS) return;
+
+    const first = series[0];
+    const last = series[series.length - 1];
+    const previous = series[series.length - 2];
+    const peak = series.reduce((best, period) => (period.value > best.value ? period : best), first);
+    const { slope, r2 } = fitLine(series.map(period => period.value));
+    const parts = [
+      `${capitalize(measure.label)} per ${granularity} went from ${formatFigure(first.value)} in ${first.label} to ${formatFigure(last.value)} in ${last.label},`
+        + ` a fitted trend of ${slope >= 0 ? '+' : ''}${formatFigure(slope)} per ${granularity} (R² ${r2.toFixed(2)}), peaking at ${formatFigure(peak.value)} in ${peak.label}.`,
+    ];
+    if (previous.value !== 0) {
+      const change = (last.value - previous.value) / Math.abs(previous.value);
+      parts.push(`The latest ${granularity}, ${last.label}, is ${formatShare(Math.abs(change))} ${change >= 0 ? 'above' : 'below'} ${previous.label}.`);
+    }
+    facts.push({ kind: 'trend', text: parts.join(' '), columns: [date, measure.column] });
+  });
+
+  // Movers compare the last two periods, member by member
+  const [before, latest] = periods.slice(-2);
+  const rowsOf = (group: number) => rows.filter((_, i) => groups.ids[i] === group);
+  const beforeRows = rowsOf(before.group);
+  const latestRows = rowsOf(latest.group);
+  measures.slice(0, MAX_RANKED_MEASURES).forEach(measure => {
+    categories.forEach(category => {
+      const then = aggregateMembers(dataSet, beforeRows, category, measure);
+      const now = aggregateMembers(dataSet, latestRows, category, measure);
+      // Counts and sums of members without rows are zero; averages just aren't there
+      const additive = measure.aggregation !== AggregationType.MEAN;
+      const changes = Array.from(new Set([...then.keys(), ...now.keys()]))
+        .filter(member => additive || (then.has(member) && now.has(member)))
+        .map(member => ({ member, from: then.get(member) ?? 0, to: now.get(member) ?? 0 }))
+        .map(change => ({ ...change, delta: change.to - change.from }));
+      const up = changes.reduce<typeof changes[number] | null>((best, change) => (change.delta > 0 && (!best || change.delta > best.delta) ? change : best), null);
+      const down = changes.reduce<typeof changes[number] | null>((best, change) => (change.delta < 0 && (!best || change.delta < best.delta) ? change : best), null);
+      if (!up && !down) return;
+
+      const describe = (change: typeof changes[number], verb: string) =>
+        `"${change.member}" ${verb} most, from ${formatFigure(change.from)} to ${formatFigure(change.to)}`
+        + (change.from !== 0 ? ` (${formatChange(change.delta / Math.abs(change.from))})` : '');
+      const moves = [up && describe(up, 'rose'), down && describe(down, 'fell')].filter(Boolean).join(' and ');
+      facts.push({
+        kind: 'mover',
+        text: `From ${before.label} to ${latest.label}, ${measure.label} by ${category}: ${moves}.`,
+        columns: [date, category, measure.column],
+      });
+    });
+  });
+
+  return facts;
+};
+
+const numberValues = (dataSet: DataSet, column: string): Float64Array | null => {
+  const store = dataSet.columns.columns[column];
+  return store?.kind === 'number' ? store.values : null;
+};
+
+const outlierFacts = (dataSet: DataSet, measures: Measure[]): Draft[] => {
+  const facts: Draft[] = [];
+  measures.forEach(({ column }) => {
+    const bounds = getOutlierBounds(dataSet.columns.columns[column]);
+    if (!bounds || bounds.sorted.length < MIN_STAT_ROWS) return;
+    const { q1, q3, low, high, sorted } = bounds;
+    const outliers = sorted.filter(value => value < low || value > high);
+    if (outliers.length === 0) return;
+
+    const smallest = sorted[0];
+    const largest = sorted[sorted.length - 1];
+    const extreme = largest > high && (smallest >= low || largest - q3 >= q1 - smallest) ? largest : smallest;
+    facts.push({
+      kind: 'outlier',
+      text: `${formatFigure(outliers.length)} of ${formatFigure(sorted.length)} ${column} values (${formatShare(outliers.length / sorted.length)}) lie far outside`
+        + ` the middle half of ${formatFigure(q1)} to ${formatFigure(q3)}; the most extreme is ${formatFigure(extreme)}.`,
+      columns: [column],
+    });
+  });
+  return facts;
+};
+
+const correlationFacts = (dataSet: DataSet, measures: Measure[]): Draft[] => {
+  const facts: Draft[] = [];
+  const columns = measures.map(m => m.column).filter(column => numberValues(dataSet, column));
+  columns.forEach((a, i) => columns.slice(i + 1).forEach(b => {
+    const xs = numberValues(dataSet, a)!;
+    const ys = numberValues(dataSet, b)!;
+    let n = 0;
+    let sx = 0;
+    let sy = 0;
+    let sxx = 0;
+    let syy = 0;
+    let sxy = 0;
+    for (let row = 0; row < xs.length; row++) {
+      const x = xs[row];
+      const y = ys[row];
+      if (Number.isNaN(x) || Number.isNaN(y)) continue;
+      n++;
+      sx += x;
+      sy += y;
+      sxx += x * x;
+      syy += y * y;
+      sxy += x * y;
+    }
+    if (n < MIN_STAT_ROWS) return;
+    const denominator = Math.sqrt((n * sxx - sx * sx) * (n * syy - sy * sy));
+    if (!(denominator > 0)) return;
+    const r = (n * sxy - sx * sy) / denominator;
+    if (Math.abs(r) < MIN_CORRELATION) return;
+
+    facts.push({
+      kind: 'correlation',
+      text: `${a} and ${b} ${r > 0 ? 'rise and fall together' : 'move in opposite directions'} (r = ${r.toFixed(2)} over ${formatFigure(n)} rows).`,
+      columns: [a, b],
+    });
+  }));
+  return facts;
+};
+
+// How much of a total its largest members hold. Only meaningful for sums and counts of non-negative values.
+const concentrationFacts = (dataSet: DataSet, measures: Measure[], categories: string[]): Draft[] => {
+  const facts: Draft[] = [];
+  const rows = allRows(dataSet.columns);
+  measures
+    .filter(measure => measure.aggregation !== AggregationType.MEAN)
+    .slice(0, MAX_RANKED_MEASURES)
+    .forEach(measure => categories.forEach(category => {
+      const members = Array.from(aggregateMembers(dataSet, rows, category, measure)).sort((a, b) => b[1] - a[1]);
+      const total = members.reduce((acc, [, value]) => acc + value, 0);
+      if (members.length < 2 || total <= 0 || members.some(([, value]) => value < 0)) return;
+
+      let leading = 0;
+      let share = 0;
+      while (share < CONCENTRATION_SHARE && leading < members.length) share += members[leading++][1] / total;
+      const [top, topValue] = members[0];
+      facts.push({
+        kind: 'concentration',
+        text: `"${top}" holds ${formatShare(topValue / total)} of ${measure.label} (${formatFigure(topValue)} of ${formatFigure(total)}) across ${formatFigure(members.length)} ${category} values`
+          + (leading < members.length ? `; the top ${formatFigure(leading)} hold ${formatShare(share)}.` : '.'),
+        columns: [category, measure.column],
+      });
+    }));
+  return facts;
+};
+
+/**
+ * Statistics of every row of every sheet: an overview, trends and movers
+ * over time, outliers, correlations and concentration. They are computed
+ * before a model is asked, so its statements can rest on them.
+ */
+export const computeFacts = (dataSets: DataSet[]): StatFact[] => {
+  const drafts: (Draft & { sheetName?: string })[] = [];
+  dataSets.forEach(dataSet => {
+    if (dataSet.rowCount === 0) return;
+    const measures = getMeasures(dataSet);
+    const categories = getCategories(dataSet);
+    const numeric = measures.filter(m => m.aggregation !== AggregationType.COUNT);
+    [
+      overviewFact(dataSet, measures),
+      ...timeFacts(dataSet, measures, categories),
+      ...concentrationFacts(dataSet, measures, categories),
+      ...correlationFacts(dataSet, numeric),
+      ...outlierFacts(dataSet, numeric),
+    ].forEach(fact => drafts.push({ ...fact, sheetName: dataSet.sheetName }));
+  });
+  return drafts.slice(0, MAX_FACTS).map((fact, index) => ({ id: `F${index + 1}`, ...fact }));
+};
+
+/** A fact as a prompt line, led by the id models cite. */
+export const formatFact = (fact: StatFact): string =>
+  `${fact.id}${fact.sheetName ? ` (sheet "${fact.sheetName}")` : ''}: ${fact.text}`;
+
+// --- Checking claims ---------------------------------------------------------
+
+interface Figure {
+  text: string; // As written, e.g. '1.2 million'
+  value: number; // Unsigned; claims say "fell 18%" where facts say -18.0%
+  tolerance: number; // Half a unit of the last digit written
+  isPlainCount: boolean;
+}
+
+const SCALES: Record<string, number> = { k: 1e3, thousand: 1e3, m: 1e6, million: 1e6, bn: 1e9, billion: 1e9 };
+const FIGURE_PATTERN = /(\d[\d,]*(?:\.\d+)?)(\s*(?:%|k\b|m\b|bn\b|thousand\b|million\b|billion\b))?/gi;
+
+const readFigures = (text: string): Figure[] =>
+  Array.from(text.matchAll(FIGURE_PATTERN), ([match, digits, suffix]) => {
+    const unit = (suffix || '').trim().toLowerCase();
+    const scale = SCALES[unit] || 1;
+    const decimals = digits.includes('.') ? digits.split('.')[1].length : 0;
+    const value = Number(digits.replace(/,/g, '')) * scale;
+    return {
+      text: match.trim(),
+      value,
+      tolerance: 0.5 * 10 ** -decimals * scale,
+      isPlainCount: !unit && decimals === 0 && value <= MAX_PLAIN_COUNT,
+    };
+  });
+
+// A claim's figure matches a fact's when it is the same number rounded, or within 1%
+const isSameFigure = (claim: Figure, fact: Figure) =>
+  Math.abs(claim.value - fact.value) <= Math.max(claim.tolerance, fact.value * 0.01);
+
+/**
+ * Checks a claim against the facts it cites: it must cite at least one, and
+ * every figure it states must be among theirs. Trends and rankings without
+ * figures pass on their citation alone.
+ */
+export const checkInsight = (insight: Insight, facts: StatFact[]): Insight => {
+  const { text, factIds } = insight;
+  const cited = facts.filter(fact => factIds.includes(fact.id));
+  if (cited.length === 0) {
+    return { text, factIds, unsupported: 'It cites none of the facts computed from the data.' };
+  }
+  const known = cited.flatMap(fact => readFigures(fact.text));
+  const missing = readFigures(text).filter(figure => !figure.isPlainCount && !known.some(fact => isSameFigure(figure, fact)));
+  if (missing.length > 0) {
+    const list = missing.map(figure => figure.text).join(', ');
+    return { text, factIds, unsupported: `${list} ${missing.length === 1 ? 'is' : 'are'} not among the figures of the facts it cites.` };
+  }
+  return { text, factIds };
+};
+
+// Models write ids loosely ('f3', '3', 'F3 '), and may leave the list out
+const toInsight = (raw: any): Insight | null => {
+  const text = typeof raw?.text === 'string' ? raw.text.trim() : '';
+  if (!text) return null;
+  const factIds = (Array.isArray(raw.factIds) ? raw.factIds : [])
+    .map((id: unknown) => String(id).trim().toUpperCase())
+    .map((id: string) => (/^\d+$/.test(id) ? `F${id}` : id));
+  return { text, factIds };
+};
+
+const PREFERRED_KINDS: Partial<Record<ChartType, StatFactKind[]>> = {
+  [ChartType.LINE]: ['trend'],
+  [ChartType.AREA]: ['trend'],
+  [ChartType.BAR]: ['concentration', 'mover'],
+  [ChartType.PIE]: ['concentration'],
+  [ChartType.PIVOT]: ['concentration', 'mover'],
+  [ChartType.SCATTER]: ['correlation'],
+};
+
+// The fact that best describes a chart: about its values, ideally also its category, and of a kind that suits it
+const factInsight = (chart: ChartConfig, facts: StatFact[]): Insight | undefined => {
+  const categories = [chart.xKey, chart.groupBy, ...(chart.pivot?.rows || []), ...(chart.pivot?.columns || [])];
+  const score = (fact: StatFact) => {
+    if (fact.kind === 'overview' || fact.sheetName !== chart.sheetName) return 0;
+    return (chart.yKeys.some(key => fact.columns.includes(key)) ? 2 : 0)
+      + (categories.some(key => key && fact.columns.includes(key)) ? 1 : 0)
+      + (PREFERRED_KINDS[chart.type]?.includes(fact.kind) ? 1 : 0);
+  };
+  const best = facts.reduce<StatFact | null>((top, fact) => (score(fact) > (top ? score(top) : 0) ? fact : top), null);
+  return best && score(best) >= 3 ? { text: best.text, factIds: [best.id] } : undefined;
+};
+
+/**
+ * Checks the summary and chart notes of a dashboard against the facts. Charts
+ * the model left without a note get the fact that fits them best. When the
+ * summary came as insights, it is rebuilt from them.
+ */
+export const groundInsights = (config: DashboardConfig, facts: StatFact[]): { config: DashboardConfig; unsupported: number } => {
+  const insights = (Array.isArray(config.insights) ? config.insights : [])
+    .map(toInsight)
+    .filter((insight): insight is Insight => insight !== null)
+    .map(insight => checkInsight(insight, facts));
+
+  const charts = config.charts.map(({ insight: original, ...chart }): ChartConfig => {
+    const own = toInsight(original);
+    const insight = own ? checkInsight(own, facts) : factInsight(chart, facts);
+    return insight ? { ...chart, insight } : chart;
+  });
+
+  const unsupported = [...insights, ...charts.map(chart => chart.insight)].filter(insight => insight?.unsupported).length;
+  return {
+    config: {
+      ...config,
+      summary: insights.length > 0 ? insights.map(insight => insight.text).join(' ') : config.summary,
+      insights: insights.length > 0 ? insights : undefined,
+      charts,
+      facts,
+    },
+    unsupported,
+  };
+};
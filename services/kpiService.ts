@@ -0,0 +1,46 @@
+import { DataSet, KpiConfig, RowSelection } from '../types';
+import { resolveAggregation } from './aggregationService';
+import { getDateRange, runQuery } from './queryService';
+import { PeriodRange, comparisonRanges, formatComparisonRange } from './periodService';
+
+export interface KpiResult {
+  current: number | null;
+  previous: number | null;
+  change: number | null; // Relative to the previous value, 0.1 = +10%. Null when there is nothing to compare with.
+  currentLabel: string;
+  previousLabel: string;
+}
+
+/**
+ * Computes a KPI for the latest period among the selected rows and the
+ * period it is compared with. The previous period is read from
+ * comparisonRows when given, so a date filter doesn't hide it. Returns null
+ * when the rows hold no dates.
+ */
+export const computeKpi = (dataSet: DataSet, rows: RowSelection, kpi: KpiConfig, comparisonRows: RowSelection = rows): KpiResult | null => {
+  const dateColumn = dataSet.columns.columns[kpi.dateKey];
+  if (!dateColumn || !dataSet.columns.columns[kpi.measure]) return null;
+  const range = getDateRange(dateColumn, rows);
+  if (!range) return null;
+
+  const { current, previous } = comparisonRanges(range.max, kpi.comparison);
+  const aggregation = resolveAggregation(kpi.aggregation, kpi.measure, dataSet.schema);
+  const valueIn = (period: PeriodRange): number | null => {
+    const [result] = runQuery(dataSet.columns, {
+      rows: comparisonRows,
+      where: [{ column: kpi.dateKey, op: 'between', min: period.start, max: period.end - 1 }],
+      aggregates: [{ column: kpi.measure, aggregation, as: 'value' }],
+    });
+    return typeof result?.value === 'number' ? result.value : null;
+  };
+
+  const currentValue = valueIn(current);
+  const previousValue = valueIn(previous);
+  return {
+    current: currentValue,
+    previous: previousValue,
+    change: currentValue !== null && previousValue ? (currentValue - previousValue) / Math.abs(previousValue) : null,
+    currentLabel: formatComparisonRange(current, kpi.comparison),
+    previousLabel: formatComparisonRange(previous, kpi.comparison),
+  };
+};
@@ -0,0 +1,78 @@
+import { Schema } from "@google/genai";
+import { AnalysisProvider, ProviderId, ProviderSettings } from '../types';
+import { createLLMProvider, JsonGenerator } from './promptService';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts the Gemini schema format (upper-case type names) into standard
+ * JSON Schema understood by OpenAI-compatible servers.
+ */
+const toJsonSchema = (schema: Schema): JsonSchema => {
+  const result: JsonSchema = {};
+  if (schema.type) result.type = String(schema.type).toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.required) result.required = schema.required;
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  return result;
+};
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API, such as
+ * Ollama, LM Studio, vLLM or llama.cpp running on the local network.
+ */
+export const createOpenAIProvider = (settings: ProviderSettings): AnalysisProvider => {
+  const generateJSON: JsonGenerator = async (prompt, schema) => {
+    if (!settings.openAIBaseUrl || !settings.openAIModel) {
+      throw new Error("No model server configured");
+    }
+
+    const url = `${settings.openAIBaseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.openAIApiKey) {
+      headers.Authorization = `Bearer ${settings.openAIApiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: settings.openAIModel,
+          temperature: 0.4,
+          messages: [
+            { role: 'system', content: 'You respond with a single JSON object and nothing else.' },
+            { role: 'user', content: prompt },
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toJsonSchema(schema) },
+          },
+        }),
+      });
+    } catch (error) {
+      console.error("Model Server Error:", error);
+      throw new Error(`Could not reach the model server at ${settings.openAIBaseUrl}`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Model server responded with ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.json() as ChatCompletionResponse;
+    return body.choices?.[0]?.message?.content || '';
+  };
+
+  return createLLMProvider(ProviderId.OPENAI_COMPATIBLE, `Local model (${settings.openAIModel || 'not configured'})`, generateJSON);
+};
@@ -0,0 +1,105 @@
+import { DataSet, HeaderRange, ParseProgress, RawSheet, TransformStep } from '../types';
+import { buildDataSets, readSheets } from './dataService';
+import { TransformIssue, applyTransforms } from './transformService';
+
+export type ParseWorkerRequest =
+  | { type: 'read'; file: File }
+  | { type: 'build'; sheets: RawSheet[]; ranges: HeaderRange[] }
+  | { type: 'transform'; dataSets: DataSet[]; steps: TransformStep[] };
+
+export interface TransformResult {
+  dataSets: DataSet[];
+  issues: TransformIssue[];
+}
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'result'; result: RawSheet[] | DataSet[] | TransformResult }
+  | { type: 'error'; message: string };
+
+export interface ParseTask<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+// Cancelled tasks reject like an aborted fetch, so callers can tell them apart from real failures
+const cancelledError = () => new DOMException('Parsing was cancelled', 'AbortError');
+
+export const isCancelled = (error: unknown): boolean => (error as Error)?.name === 'AbortError';
+
+/**
+ * Runs one request in a fresh worker. Cancelling terminates the worker, which
+ * stops the work immediately. Without worker support the request runs on the
+ * main thread and can't be interrupted.
+ */
+const runInWorker = <T>(
+  request: ParseWorkerRequest,
+  fallback: () => Promise<T>,
+  onProgress: (progress: ParseProgress) => void
+): ParseTask<T> => {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = fallback().then(result => {
+      if (cancelled) throw cancelledError();
+      return result;
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('./parseWorker.ts', import.meta.url), { type: 'module' });
+  let rejectTask: (reason: Error) => void = () => {};
+
+  const promise = new Promise<T>((resolve, reject) => {
+    rejectTask = reject;
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result as T);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The file parser crashed'));
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      rejectTask(cancelledError());
+    },
+  };
+};
+
+/** Reads a file into raw sheets off the main thread. */
+export const readSheetsInBackground = (file: File, onProgress: (progress: ParseProgress) => void): ParseTask<RawSheet[]> =>
+  runInWorker({ type: 'read', file }, () => readSheets(file, onProgress), onProgress);
+
+/** Reads confirmed sheets into DataSets (schema inference included) off the main thread. */
+export const buildDataSetsInBackground = (
+  sheets: RawSheet[],
+  ranges: HeaderRange[],
+  onProgress: (progress: ParseProgress) => void
+): ParseTask<DataSet[]> =>
+  runInWorker({ type: 'build', sheets, ranges }, () => buildDataSets(sheets, ranges, onProgress), onProgress);
+
+/** Runs the clean-up steps on every row of the sheets, and profiles them again, off the main thread. */
+export const applyTransformsInBackground = (
+  dataSets: DataSet[],
+  steps: TransformStep[],
+  onProgress: (progress: ParseProgress) => void
+): ParseTask<TransformResult> =>
+  runInWorker(
+    { type: 'transform', dataSets, steps },
+    async () => applyTransforms(dataSets, steps, undefined, onProgress),
+    onProgress
+  );
@@ -0,0 +1,42 @@
+import { DataSet, ParseProgress } from '../types';
+import { buildDataSets, readSheets } from './dataService';
+import { applyTransforms } from './transformService';
+import type { ParseWorkerRequest, ParseWorkerResponse } from './parseService';
+
+// Worker entry: file reading, clean-up steps and schema inference run here so the page stays responsive
+const post = (message: ParseWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const report = (progress: ParseProgress) => post({ type: 'progress', progress });
+
+// The typed arrays of the columns are handed over to the page rather than copied
+const columnBuffers = (dataSets: DataSet[]): ArrayBuffer[] => {
+  const buffers = new Set<ArrayBuffer>();
+  dataSets.forEach(dataSet => {
+    Object.values(dataSet.columns.columns).forEach(column => {
+      if (column.kind === 'number') {
+        buffers.add(column.values.buffer as ArrayBuffer);
+      } else {
+        buffers.add(column.codes.buffer as ArrayBuffer);
+        if (column.timestamps) buffers.add(column.timestamps.buffer as ArrayBuffer);
+      }
+    });
+  });
+  return Array.from(buffers);
+};
+
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const request = event.data;
+  try {
+    if (request.type === 'read') {
+      post({ type: 'result', result: await readSheets(request.file, report) });
+    } else if (request.type === 'transform') {
+      const result = applyTransforms(request.dataSets, request.steps, undefined, report);
+      post({ type: 'result', result }, columnBuffers(result.dataSets));
+    } else {
+      const dataSets = await buildDataSets(request.sheets, request.ranges, report);
+      post({ type: 'result', result: dataSets }, columnBuffers(dataSets));
+    }
+  } catch (error: any) {
+    post({ type: 'error', message: error?.message || 'Could not parse the file' });
+  }
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { comparisonRanges } from './periodService';
+
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date).getTime();
+
+describe('comparisonRanges', () => {
+  it('compares a running month with the same days of the month before', () => {
+    expect(comparisonRanges(new Date(2024, 2, 15, 10, 30).getTime(), 'month')).toEqual({
+      current: { start: day(2024, 3, 1), end: day(2024, 3, 16) },
+      previous: { start: day(2024, 2, 1), end: day(2024, 2, 16) },
+    });
+  });
+
+  it('stops the previous period at its own end when it is shorter', () => {
+    expect(comparisonRanges(day(2024, 3, 31), 'month')).toEqual({
+      current: { start: day(2024, 3, 1), end: day(2024, 4, 1) },
+      previous: { start: day(2024, 2, 1), end: day(2024, 3, 1) },
+    });
+  });
+
+  it('starts weeks on Monday', () => {
+    // 13 March 2024 is a Wednesday
+    expect(comparisonRanges(day(2024, 3, 13), 'week')).toEqual({
+      current: { start: day(2024, 3, 11), end: day(2024, 3, 14) },
+      previous: { start: day(2024, 3, 4), end: day(2024, 3, 7) },
+    });
+  });
+
+  it('counts a running quarter in days', () => {
+    expect(comparisonRanges(day(2024, 5, 10), 'quarter')).toEqual({
+      current: { start: day(2024, 4, 1), end: day(2024, 5, 11) },
+      previous: { start: day(2024, 1, 1), end: day(2024, 2, 10) },
+    });
+  });
+
+  it('runs year to date to the same day of the year before', () => {
+    expect(comparisonRanges(day(2024, 3, 15), 'ytd')).toEqual({
+      current: { start: day(2024, 1, 1), end: day(2024, 3, 16) },
+      previous: { start: day(2023, 1, 1), end: day(2023, 3, 16) },
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { DateGranularity, KpiComparison } from '../types';
+
+export const GRANULARITY_LABELS: Record<DateGranularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+  year: 'Year',
+};
+
+// Coarsest first, as in a drill path
+export const DATE_GRANULARITIES: DateGranularity[] = ['year', 'quarter', 'month', 'week', 'day'];
+
+// Automatic granularity picks the finest period that gives at most this many points
+const MAX_AUTO_PERIODS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const APPROX_PERIOD_DAYS: Record<DateGranularity, number> = { day: 1, week: 7, month: 30.44, quarter: 91.31, year: 365.25 };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Start of the period a timestamp falls in, in local time. Weeks start on
+ * Monday, as in ISO 8601.
+ */
+export const periodStart = (timestamp: number, granularity: DateGranularity): number => {
+  const d = new Date(timestamp);
+  switch (granularity) {
+    case 'year':
+      return new Date(d.getFullYear(), 0, 1).getTime();
+    case 'quarter':
+      return new Date(d.getFullYear(), d.getMonth() - (d.getMonth() % 3), 1).getTime();
+    case 'month':
+      return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+    case 'week':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7)).getTime();
+    default:
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  }
+};
+
+/** Start of the period following the one that starts at `start`. */
+export const nextPeriod = (start: number, granularity: DateGranularity): number => {
+  const d = new Date(start);
+  switch (granularity) {
+    case 'year':
+      return new Date(d.getFullYear() + 1, 0, 1).getTime();
+    case 'quarter':
+      return new Date(d.getFullYear(), d.getMonth() + 3, 1).getTime();
+    case 'month':
+      return new Date(d.getFullYear(), d.getMonth() + 1, 1).getTime();
+    case 'week':
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 7).getTime();
+    default:
+      return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+  }
+};
+
+/** The finest period that splits the range between two timestamps into a readable number of points. */
+export const autoGranularity = (min: number, max: number, maxPeriods = MAX_AUTO_PERIODS): DateGranularity => {
+  const days = (max - min) / DAY_MS;
+  const fine = [...DATE_GRANULARITIES].reverse().find(granularity => days / APPROX_PERIOD_DAYS[granularity] <= maxPeriods);
+  return fine || 'year';
+};
+
+// Monday of ISO week 1, the week holding the year's first Thursday
+const firstIsoWeek = (year: number) => periodStart(new Date(year, 0, 4).getTime(), 'week');
+
+/** Label of the period starting at `start`: 2024, 2024 Q1, 2024-03, 2024-W11 or 2024-03-15. */
+export const formatPeriod = (start: number, granularity: DateGranularity): string => {
+  const d = new Date(start);
+  switch (granularity) {
+    case 'year':
+      return String(d.getFullYear());
+    case 'quarter':
+      return `${d.getFullYear()} Q${Math.floor(d.getMonth() / 3) + 1}`;
+    case 'month':
+      return `${d.getFullYear()}-${pad(d.getMonth() + 1)}`;
+    case 'week': {
+      // The ISO year is the one the week's Thursday falls in
+      const year = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 3).getFullYear();
+      const week = Math.round((start - firstIsoWeek(year)) / (7 * DAY_MS)) + 1;
+      return `${year}-W${pad(week)}`;
+    }
+    default:
+      return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  }
+};
+
+/** Reads a label made by formatPeriod back into the start of its period. */
+export const parsePeriod = (label: string, granularity: DateGranularity): number | null => {
+  const patterns: Record<DateGranularity, RegExp> = {
+    year: /^(\d{4})$/,
+    quarter: /^(\d{4}) Q([1-4])$/,
+    month: /^(\d{4})-(\d{2})$/,
+    week: /^(\d{4})-W(\d{2})$/,
+    day: /^(\d{4})-(\d{2})-(\d{2})$/,
+  };
+  const match = patterns[granularity].exec(label);
+  if (!match) return null;
+  const [year, second, third] = match.slice(1).map(Number);
+
+  switch (granularity) {
+    case 'year':
+      return new Date(year, 0, 1).getTime();
+    case 'quarter':
+      return new Date(year, (second - 1) * 3, 1).getTime();
+    case 'month':
+      return new Date(year, second - 1, 1).getTime();
+    case 'week': {
+      const monday = new Date(firstIsoWeek(year));
+      return new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + (second - 1) * 7).getTime();
+    }
+    default:
+      return new Date(year, second - 1, third).getTime();
+  }
+};
+
+/** Short axis tick for the period starting at `start`, e.g. "Mar 15", "Mar 2024", "Q1 2024". */
+export const formatPeriodTick = (start: number, granularity: DateGranularity): string => {
+  const d = new Date(start);
+  switch (granularity) {
+    case 'year':
+      return String(d.getFullYear());
+    case 'quarter':
+      return `Q${Math.floor(d.getMonth() / 3) + 1} ${d.getFullYear()}`;
+    case 'month':
+      return d.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+    default:
+      return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  }
+};
+
+// --- Comparisons ---------------------------------------------------------------
+
+// Start inclusive, end exclusive
+export interface PeriodRange {
+  start: number;
+  end: number;
+}
+
+export const COMPARISON_LABELS: Record<KpiComparison, string> = {
+  week: 'Week over week',
+  month: 'Month over month',
+  quarter: 'Quarter over quarter',
+  year: 'Year over year',
+  ytd: 'Year to date',
+};
+
+/**
+ * The periods a comparison puts side by side, anchored at the latest date in
+ * the data rather than today, so older files still compare their last period.
+ * The latest period usually isn't over yet, so both run to the same day:
+ * March 1-15 against February 1-15, as year to date runs to the same day of
+ * the year before.
+ */
+export const comparisonRanges = (anchor: number, comparison: KpiComparison): { current: PeriodRange; previous: PeriodRange } => {
+  const d = new Date(anchor);
+  const end = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1).getTime();
+  if (comparison === 'ytd') {
+    return {
+      current: { start: new Date(d.getFullYear(), 0, 1).getTime(), end },
+      previous: { start: new Date(d.getFullYear() - 1, 0, 1).getTime(), end: new Date(d.getFullYear() - 1, d.getMonth(), d.getDate() + 1).getTime() },
+    };
+  }
+
+  const start = periodStart(anchor, comparison);
+  const previousStart = periodStart(start - 1, comparison);
+  // Counted in calendar days, so a daylight saving change doesn't shift the end
+  const days = Math.round((end - start) / DAY_MS);
+  const from = new Date(previousStart);
+  const previousEnd = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days).getTime();
+  return {
+    current: { start, end: Math.min(end, nextPeriod(start, comparison)) },
+    previous: { start: previousStart, end: Math.min(previousEnd, start) },
+  };
+};
+
+/** Label of a compared range, e.g. "2024-03", "2024-03 to Mar 15" while the month runs, or "2024 to Mar 15". */
+export const formatComparisonRange = (range: PeriodRange, comparison: KpiComparison): string => {
+  const last = new Date(range.end - 1);
+  const day = last.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  if (comparison === 'ytd') return `${last.getFullYear()} to ${day}`;
+  const label = formatPeriod(range.start, comparison);
+  return range.end < nextPeriod(range.start, comparison) ? `${label} to ${day}` : label;
+};
+
+/**
+ * The same period a year earlier, for prior-year overlays. Weeks go back 52
+ * weeks so they still start on a Monday.
+ */
+export const yearEarlier = (start: number, granularity: DateGranularity): number => {
+  const d = new Date(start);
+  return granularity === 'week'
+    ? new Date(d.getFullYear(), d.getMonth(), d.getDate() - 364).getTime()
+    : new Date(d.getFullYear() - 1, d.getMonth(), d.getDate()).getTime();
+};
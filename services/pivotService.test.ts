@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { AggregationType, ChartConfig, ChartType, PivotOptions } from '../types';
+import { buildPivot, getColumnHeaderRows, getRowLabels } from './pivotService';
+import { allRows } from './queryService';
+import { makeDataSet } from './testData';
+
+const sales = makeDataSet({
+  Region: ['North', 'North', 'South', 'South', 'North'],
+  Product: ['A', 'B', 'A', 'A', 'A'],
+  Year: ['2023', '2023', '2024', '2023', '2024'],
+  Sales: ['10', '20', '30', '40', '5'],
+});
+
+const pivotChart = (pivot: PivotOptions, aggregations?: ChartConfig['aggregations']): ChartConfig => ({
+  id: 'pivot',
+  type: ChartType.PIVOT,
+  title: 'Sales',
+  description: '',
+  xKey: 'Region',
+  yKeys: ['Sales'],
+  aggregations,
+  pivot,
+});
+
+const pivotOf = (config: ChartConfig) => buildPivot(sales, allRows(sales.columns), config);
+
+describe('buildPivot', () => {
+  const pivot = pivotOf(pivotChart({ rows: ['Region', 'Product'], columns: ['Year'] }));
+
+  it('lists members with a subtotal after each outer member and a grand total', () => {
+    expect(pivot.rows).toEqual([
+      { path: ['North', 'A'], kind: 'member' },
+      { path: ['North', 'B'], kind: 'member' },
+      { path: ['North'], kind: 'subtotal' },
+      { path: ['South', 'A'], kind: 'member' },
+      { path: ['South'], kind: 'subtotal' },
+      { path: [], kind: 'total' },
+    ]);
+    expect(pivot.columns).toEqual([
+      { path: ['2023'], kind: 'member' },
+      { path: ['2024'], kind: 'member' },
+      { path: [], kind: 'total' },
+    ]);
+  });
+
+  it('aggregates every cell, subtotal and total', () => {
+    expect(pivot.values.map(row => row.map(([value]) => value))).toEqual([
+      [10, 5, 15],
+      [20, null, 20],
+      [30, 5, 35],
+      [40, 30, 70],
+      [40, 30, 70],
+      [70, 35, 105],
+    ]);
+  });
+
+  it('takes the colour range from the cells below the subtotals', () => {
+    expect(pivot.ranges).toEqual([{ min: 5, max: 40 }]);
+  });
+
+  it('averages subtotals over their rows rather than over the cells above', () => {
+    const means = pivotOf(pivotChart({ rows: ['Region', 'Product'], columns: [] }, { Sales: AggregationType.MEAN }));
+    const northTotal = means.rows.findIndex(row => row.kind === 'subtotal' && row.path[0] === 'North');
+    expect(means.values[northTotal][0][0]).toBeCloseTo(35 / 3);
+  });
+
+  it('sorts rows by their total', () => {
+    const sorted = pivotOf(pivotChart({ rows: ['Region'], columns: [], sort: { by: 'value', direction: 'desc' } }));
+    expect(sorted.rows.map(row => row.path)).toEqual([['South'], ['North'], []]);
+    expect(sorted.values.map(row => row[0][0])).toEqual([70, 35, 105]);
+  });
+
+  it('leaves totals out when they are turned off', () => {
+    const bare = pivotOf(pivotChart({ rows: ['Region', 'Product'], columns: ['Year'], subtotals: false, grandTotals: false }));
+    expect(bare.rows.every(row => row.kind === 'member')).toBe(true);
+    expect(bare.columns.every(column => column.kind === 'member')).toBe(true);
+  });
+});
+
+describe('pivot headers', () => {
+  const pivot = pivotOf(pivotChart({ rows: ['Region', 'Product'], columns: ['Year'] }));
+
+  it('names an outer member on its first row only', () => {
+    expect(pivot.rows.map((_, index) => getRowLabels(pivot, index))).toEqual([
+      ['North', 'A'],
+      ['', 'B'],
+      ['North total', ''],
+      ['South', 'A'],
+      ['South total', ''],
+      ['Grand total', ''],
+    ]);
+  });
+
+  it('puts the measures under every column', () => {
+    const [years, measures] = getColumnHeaderRows(pivot);
+    expect(years.map(cell => cell.label)).toEqual(['2023', '2024', 'Grand total']);
+    expect(measures.map(cell => cell.label)).toEqual(['Sum of Sales', 'Sum of Sales', 'Sum of Sales']);
+  });
+});
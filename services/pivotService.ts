@@ -0,0 +1,383 @@
+import * as XLSX from 'xlsx';
+import { AggregationType, CellValue, ChartConfig, DataSchema, DataSet, DateGranularity, PivotColorScale, PivotOptions, RowSelection } from '../types';
+import { AGGREGATION_LABELS, getAggregation, getCategoryKey, getColumnGranularity } from './aggregationService';
+import { BLANK_LABEL, Groups, aggregateGroups, assignGroups } from './queryService';
+
+// Rows and columns past these are left out rather than rendered
+const MAX_PIVOT_ROWS = 1000;
+const MAX_PIVOT_COLUMNS = 200;
+// Date dimensions get coarser periods than a chart axis, since each one is a row or column
+const MAX_PIVOT_PERIODS = 24;
+
+export const COLOR_SCALE_LABELS: Record<PivotColorScale, string> = {
+  none: 'No colours',
+  sequential: 'Low to high',
+  diverging: 'Negative / positive',
+};
+
+export interface PivotMeasure {
+  key: string;
+  aggregation: AggregationType;
+  label: string; // e.g. 'Sum of Revenue'
+}
+
+// A row or column of the table: a member of the innermost dimension, the
+// total of a member of an outer one, or the grand total
+export interface PivotHeader {
+  path: string[]; // Member labels from the outermost dimension down; empty for the grand total
+  kind: 'member' | 'subtotal' | 'total';
+}
+
+export interface PivotResult {
+  rowDimensions: string[];
+  columnDimensions: string[];
+  measures: PivotMeasure[];
+  rows: PivotHeader[];
+  columns: PivotHeader[];
+  values: (number | null)[][][]; // By row, then column, then measure
+  ranges: ({ min: number; max: number } | null)[]; // Per measure, over the cells below the subtotals
+  truncated: boolean; // Rows or columns past the limits were left out
+}
+
+// A cell of the column header block, which is laid out like a spreadsheet
+export interface PivotHeaderCell {
+  label: string;
+  colSpan: number; // In value columns, so already multiplied by the number of measures
+  rowSpan: number;
+  isTotal: boolean;
+}
+
+/**
+ * The pivot layout of a chart with every default filled in. Without its own
+ * row dimensions the chart's category column is the only one.
+ */
+export const getPivotOptions = (config: ChartConfig): Required<PivotOptions> => ({
+  rows: config.pivot?.rows?.length ? config.pivot.rows : [getCategoryKey(config)],
+  columns: config.pivot?.columns || [],
+  subtotals: config.pivot?.subtotals ?? true,
+  grandTotals: config.pivot?.grandTotals ?? true,
+  sort: config.pivot?.sort || { by: 'label', direction: 'asc' },
+  colorScale: config.pivot?.colorScale || 'none',
+});
+
+/**
+ * The period a date dimension is cut into: the chart's own granularity for
+ * the first row dimension, otherwise one that cuts the column's range into
+ * a readable number of periods.
+ */
+export const getDimensionGranularity = (config: ChartConfig, key: string, schema: DataSchema): DateGranularity | undefined => {
+  const auto = getColumnGranularity(key, schema, MAX_PIVOT_PERIODS);
+  return auto && config.granularity && key === getPivotOptions(config).rows[0] ? config.granularity : auto;
+};
+
+// Every depth of a dimension list: depth d has one member per distinct label
+// path through the first d dimensions, and depth 0 a single member for all rows
+interface Depth {
+  ids: Int32Array; // Member of each selected row
+  parents: number[]; // Member one depth up
+  groups: number[]; // Group of the member within its own dimension
+}
+
+const buildDepths = (dimensions: Groups[], count: number): Depth[] => {
+  const depths: Depth[] = [{ ids: new Int32Array(count), parents: [-1], groups: [-1] }];
+  dimensions.forEach((dimension, d) => {
+    const above = depths[d];
+    const width = dimension.labels.length;
+    const lookup = new Map<number, number>();
+    const depth: Depth = { ids: new Int32Array(count), parents: [], groups: [] };
+    for (let i = 0; i < count; i++) {
+      const key = above.ids[i] * width + dimension.ids[i];
+      let member = lookup.get(key);
+      if (member === undefined) {
+        member = depth.parents.length;
+        depth.parents.push(above.ids[i]);
+        depth.groups.push(dimension.ids[i]);
+        lookup.set(key, member);
+      }
+      depth.ids[i] = member;
+    }
+    depths.push(depth);
+  });
+  return depths;
+};
+
+// Member labels in order: periods by date, everything else by text with
+// numbers compared numerically. Blanks come last in either direction.
+const compareGroups = (dimension: Groups, a: number, b: number, sign = 1): number => {
+  const blankA = dimension.labels[a] === BLANK_LABEL;
+  const blankB = dimension.labels[b] === BLANK_LABEL;
+  if (blankA || blankB) return Number(blankA) - Number(blankB);
+  if (dimension.starts) return sign * (dimension.starts[a] - dimension.starts[b]);
+  return sign * dimension.labels[a].localeCompare(dimension.labels[b], undefined, { numeric: true });
+};
+
+// A dimension list walked into headers: members in order, each outer member
+// followed by its subtotal
+const listHeaders = (
+  dimensions: Groups[],
+  depths: Depth[],
+  subtotals: boolean,
+  order: (depth: number, a: number, b: number) => number
+): { header: PivotHeader; depth: number; member: number }[] => {
+  const children = depths.map(() => new Map<number, number[]>());
+  depths.forEach((depth, d) => {
+    if (d === 0) return;
+    depth.parents.forEach((parent, member) => {
+      const siblings = children[d - 1].get(parent);
+      if (siblings) siblings.push(member);
+      else children[d - 1].set(parent, [member]);
+    });
+  });
+
+  const headers: { header: PivotHeader; depth: number; member: number }[] = [];
+  const visit = (d: number, member: number, path: string[]) => {
+    if (d === dimensions.length) {
+      headers.push({ header: { path, kind: 'member' }, depth: d, member });
+      return;
+    }
+    const below = [...(children[d].get(member) || [])].sort((a, b) => order(d + 1, a, b));
+    below.forEach(child => visit(d + 1, child, [...path, dimensions[d].labels[depths[d + 1].groups[child]]]));
+    if (d > 0 && subtotals) headers.push({ header: { path, kind: 'subtotal' }, depth: d, member });
+  };
+  visit(0, 0, []);
+  return headers;
+};
+
+/**
+ * Builds a pivot table from the selected rows: rows and columns are the
+ * members of the chart's row and column dimensions, and every cell holds
+ * each measure aggregated over the rows it covers. Subtotals and totals are
+ * aggregated from the rows themselves, so averages and medians stay exact.
+ * Date dimensions are cut into periods.
+ */
+export const buildPivot = (dataSet: DataSet, rows: RowSelection, config: ChartConfig): PivotResult => {
+  const { columns: store } = dataSet;
+  const options = getPivotOptions(config);
+  const rowDimensions = options.rows.filter(key => store.columns[key]);
+  const columnDimensions = options.columns.filter(key => store.columns[key] && !rowDimensions.includes(key));
+  const measures: PivotMeasure[] = config.yKeys.filter(key => store.columns[key]).map(key => {
+    const aggregation = getAggregation(config, key, dataSet.schema);
+    return { key, aggregation, label: `${AGGREGATION_LABELS[aggregation]} of ${key}` };
+  });
+
+  const group = (key: string) => assignGroups(store.columns[key], rows, getDimensionGranularity(config, key, dataSet.schema));
+  const rowGroups = rowDimensions.map(group);
+  const columnGroups = columnDimensions.map(group);
+  const rowDepths = buildDepths(rowGroups, rows.length);
+  const columnDepths = buildDepths(columnGroups, rows.length);
+
+  // Every row depth against every column depth, since sorting and the totals read the outer ones
+  const cells = rowDepths.map(rowDepth => columnDepths.map(columnDepth => {
+    const width = columnDepth.parents.length;
+    const lookup = new Map<number, number>();
+    const ids = new Int32Array(rows.length);
+    for (let i = 0; i < rows.length; i++) {
+      const key = rowDepth.ids[i] * width + columnDepth.ids[i];
+      let cell = lookup.get(key);
+      if (cell === undefined) {
+        cell = lookup.size;
+        lookup.set(key, cell);
+      }
+      ids[i] = cell;
+    }
+    const groups: Groups = { labels: new Array(lookup.size), ids };
+    const values = measures.map(measure => aggregateGroups(store.columns[measure.key], rows, groups, measure.aggregation));
+    return { width, lookup, values };
+  }));
+  const valueAt = (rowDepth: number, rowMember: number, columnDepth: number, columnMember: number, measure: number): number | null => {
+    const block = cells[rowDepth][columnDepth];
+    const cell = block.lookup.get(rowMember * block.width + columnMember);
+    return cell === undefined ? null : block.values[measure][cell];
+  };
+
+  // Rows sort within their parent, by label or by their total across all columns
+  const { sort } = options;
+  const sign = sort.direction === 'desc' ? -1 : 1;
+  const sortMeasure = Math.max(0, measures.findIndex(measure => measure.key === sort.measure));
+  const rowOrder = (d: number, a: number, b: number): number => {
+    const groups = rowDepths[d].groups;
+    if (sort.by === 'value' && measures.length > 0) {
+      const valueA = valueAt(d, a, 0, 0, sortMeasure);
+      const valueB = valueAt(d, b, 0, 0, sortMeasure);
+      if (valueA === null || valueB === null) return Number(valueA === null) - Number(valueB === null);
+      if (valueA !== valueB) return sign * (valueA - valueB);
+    }
+    return compareGroups(rowGroups[d - 1], groups[a], groups[b], sign);
+  };
+  const columnOrder = (d: number, a: number, b: number) =>
+    compareGroups(columnGroups[d - 1], columnDepths[d].groups[a], columnDepths[d].groups[b]);
+
+  const rowHeaders = listHeaders(rowGroups, rowDepths, options.subtotals, rowOrder);
+  const columnHeaders = columnDimensions.length > 0 ? listHeaders(columnGroups, columnDepths, options.subtotals, columnOrder) : [];
+  const truncated = rowHeaders.length > MAX_PIVOT_ROWS || columnHeaders.length > MAX_PIVOT_COLUMNS;
+  const total = { header: { path: [], kind: 'total' as const }, depth: 0, member: 0 };
+  const shownRows = [...rowHeaders.slice(0, MAX_PIVOT_ROWS), ...(options.grandTotals ? [total] : [])];
+  // Without column dimensions the one column is everything, so it is a member rather than a total
+  const shownColumns = columnDimensions.length === 0
+    ? [{ header: { path: [], kind: 'member' as const }, depth: 0, member: 0 }]
+    : [...columnHeaders.slice(0, MAX_PIVOT_COLUMNS), ...(options.grandTotals ? [total] : [])];
+
+  const values = shownRows.map(row => shownColumns.map(column =>
+    measures.map((_, m) => valueAt(row.depth, row.member, column.depth, column.member, m))
+  ));
+
+  const ranges = measures.map((_, m) => {
+    let min = Infinity;
+    let max = -Infinity;
+    shownRows.forEach((row, r) => {
+      if (row.header.kind !== 'member') return;
+      shownColumns.forEach((column, c) => {
+        const value = values[r][c][m];
+        if (column.header.kind !== 'member' || value === null) return;
+        if (value < min) min = value;
+        if (value > max) max = value;
+      });
+    });
+    return min <= max ? { min, max } : null;
+  });
+
+  return {
+    rowDimensions,
+    columnDimensions,
+    measures,
+    rows: shownRows.map(row => row.header),
+    columns: shownColumns.map(column => column.header),
+    values,
+    ranges,
+    truncated,
+  };
+};
+
+/**
+ * Labels of a row's header cells, one per row dimension. An outer member is
+ * only named on its first row, and a subtotal sits under the member it adds up.
+ */
+export const getRowLabels = (pivot: PivotResult, index: number): string[] => {
+  const { path, kind } = pivot.rows[index];
+  const labels = pivot.rowDimensions.map(() => '');
+  if (kind === 'total') {
+    labels[0] = 'Grand total';
+    return labels;
+  }
+  if (kind === 'subtotal') {
+    labels[path.length - 1] = `${path[path.length - 1]} total`;
+    return labels;
+  }
+  const previous = index > 0 && pivot.rows[index - 1].kind === 'member' ? pivot.rows[index - 1].path : [];
+  let repeats = true;
+  path.forEach((label, d) => {
+    repeats = repeats && previous[d] === label;
+    if (!repeats || d === path.length - 1) labels[d] = label;
+  });
+  return labels;
+};
+
+/**
+ * The column header block, one list of cells per header row: a row per
+ * column dimension, then the measures under every column. Neighbouring
+ * columns under the same member share a cell; a subtotal is named once and
+ * reaches down to the measures.
+ */
+export const getColumnHeaderRows = (pivot: PivotResult): PivotHeaderCell[][] => {
+  const measureCount = Math.max(1, pivot.measures.length);
+  const depth = pivot.columnDimensions.length;
+  const rows: PivotHeaderCell[][] = [];
+
+  for (let h = 0; h < depth; h++) {
+    const cells: PivotHeaderCell[] = [];
+    let spanKey: string | null = null;
+    pivot.columns.forEach(({ path, kind }) => {
+      if (kind === 'total') {
+        if (h === 0) cells.push({ label: 'Grand total', colSpan: measureCount, rowSpan: depth, isTotal: true });
+        spanKey = null;
+        return;
+      }
+      if (kind === 'subtotal' && h >= path.length - 1) {
+        if (h === path.length - 1) cells.push({ label: `${path[h]} total`, colSpan: measureCount, rowSpan: depth - h, isTotal: true });
+        spanKey = null;
+        return;
+      }
+      // Subtotals stay out of their member's span, so the member cell covers only its own columns
+      const key = JSON.stringify(path.slice(0, h + 1)) + kind;
+      if (key === spanKey) {
+        cells[cells.length - 1].colSpan += measureCount;
+      } else {
+        cells.push({ label: path[h], colSpan: measureCount, rowSpan: 1, isTotal: false });
+        spanKey = key;
+      }
+    });
+    rows.push(cells);
+  }
+
+  rows.push(pivot.columns.flatMap(({ kind }) => pivot.measures.map(measure => ({
+    label: measure.label,
+    colSpan: 1,
+    rowSpan: 1,
+    isTotal: kind !== 'member',
+  }))));
+  return rows;
+};
+
+/**
+ * Shades a value within its measure's range: light to dark indigo from low
+ * to high, or red below zero and green above it. Returns undefined for
+ * values left unshaded.
+ */
+export const getCellColor = (value: number | null, range: PivotResult['ranges'][number], scale: PivotColorScale): string | undefined => {
+  if (scale === 'none' || value === null || !range) return undefined;
+  if (scale === 'sequential') {
+    const share = range.max > range.min ? (value - range.min) / (range.max - range.min) : 1;
+    return `rgba(99, 102, 241, ${(0.08 + share * 0.62).toFixed(3)})`;
+  }
+  const extent = Math.max(Math.abs(range.min), Math.abs(range.max));
+  if (extent === 0 || value === 0) return undefined;
+  const share = Math.abs(value) / extent;
+  return value < 0 ? `rgba(244, 63, 94, ${(share * 0.6).toFixed(3)})` : `rgba(16, 185, 129, ${(share * 0.6).toFixed(3)})`;
+};
+
+/**
+ * Downloads a pivot table as an Excel workbook laid out like the widget,
+ * with merged header cells and the values as plain numbers.
+ */
+export const exportPivotWorkbook = (pivot: PivotResult, title: string): void => {
+  const headerRows = getColumnHeaderRows(pivot);
+  const lead = pivot.rowDimensions.length;
+  const sheetRows: CellValue[][] = [];
+  const merges: XLSX.Range[] = [];
+
+  headerRows.forEach((_, h) => {
+    const row: CellValue[] = new Array(lead).fill(null);
+    // Column dimensions are named beside their header row, row dimensions above their columns
+    if (h < pivot.columnDimensions.length) row[lead - 1] = pivot.columnDimensions[h];
+    else pivot.rowDimensions.forEach((name, d) => { row[d] = name; });
+    sheetRows.push(row);
+  });
+  // Cells covered by a span from an earlier row are skipped, as in an HTML table
+  const taken = headerRows.map(() => new Set<number>());
+  headerRows.forEach((cells, h) => {
+    let column = lead;
+    cells.forEach(cell => {
+      while (taken[h].has(column)) column++;
+      sheetRows[h][column] = cell.label;
+      for (let r = h; r < h + cell.rowSpan; r++) {
+        for (let c = column; c < column + cell.colSpan; c++) taken[r].add(c);
+      }
+      if (cell.colSpan > 1 || cell.rowSpan > 1) {
+        merges.push({ s: { r: h, c: column }, e: { r: h + cell.rowSpan - 1, c: column + cell.colSpan - 1 } });
+      }
+      column += cell.colSpan;
+    });
+  });
+
+  pivot.rows.forEach((_, r) => {
+    sheetRows.push([...getRowLabels(pivot, r).map(label => label || null), ...pivot.values[r].flat()]);
+  });
+
+  const sheet = XLSX.utils.aoa_to_sheet(sheetRows);
+  sheet['!merges'] = merges;
+  const workbook = XLSX.utils.book_new();
+  // Sheet names can't hold some characters and file names others
+  const clean = (pattern: RegExp) => title.replace(pattern, ' ').replace(/\s+/g, ' ').trim();
+  XLSX.utils.book_append_sheet(workbook, sheet, clean(/[\\/?*[\]:]/g).slice(0, 31) || 'Pivot');
+  XLSX.writeFile(workbook, `${clean(/[\\/:*?"<>|]/g) || 'pivot'}.xlsx`);
+};
@@ -0,0 +1,425 @@
+import {
+  CalculatedField, CellValue, ColumnPolicy, ColumnProfile, ColumnType, DashboardConfig, DataSet, DictionaryColumn, Insight,
+  PrivacyPolicies, QuestionFilter, QuestionQuery, SensitiveKind
+} from '../types';
+import { isDateType, isNumericType, toISODate } from './schemaService';
+import { renameChartColumns, renameKpiColumns, sheetKey } from './templateService';
+import { getFormulaColumns, renameFormulaColumns } from './formulaService';
+import { findDataSet } from './dataService';
+
+export const SENSITIVE_LABELS: Record<SensitiveKind, string> = {
+  email: 'Email',
+  name: 'Name',
+  phone: 'Phone',
+  address: 'Address',
+  iban: 'IBAN',
+  card: 'Card number',
+  national_id: 'National ID',
+  ip: 'IP address',
+  birth_date: 'Birth date',
+  compensation: 'Pay',
+};
+
+export const POLICY_LABELS: Record<ColumnPolicy, string> = {
+  send: 'Send as-is',
+  pseudonymize: 'Pseudonymize',
+  bucket: 'Bucket',
+  exclude: 'Exclude',
+};
+
+// Stand-ins read like 'Person-0007'; one numbering per prefix, so a value gets the same stand-in in every sheet
+const TOKEN_PREFIXES: Record<SensitiveKind, string> = {
+  email: 'Email',
+  name: 'Person',
+  phone: 'Phone',
+  address: 'Address',
+  iban: 'Account',
+  card: 'Card',
+  national_id: 'ID',
+  ip: 'Host',
+  birth_date: 'Date',
+  compensation: 'Amount',
+};
+const DEFAULT_PREFIX = 'Value';
+
+// Checked in order on the header with separators turned into spaces; the first match wins
+const HEADER_PATTERNS: [SensitiveKind, RegExp][] = [
+  ['email', /e ?mail/i],
+  ['iban', /\biban\b|bank account|account (number|no)\b/i],
+  ['card', /\b(credit|debit) card\b|\bcard (number|no)\b/i],
+  ['national_id', /\bssn\b|social security|national id|passport|\btax (id|number)\b/i],
+  ['ip', /\bip\b|ip address/i],
+  ['phone', /phone|mobile|\btel\b|\bfax\b/i],
+  ['birth_date', /birth|\bdob\b/i],
+  ['address', /address|street|\bzip\b|postal|post ?code/i],
+  ['compensation', /salary|salaries|wage|compensation|\bpay\b|payroll|bonus|income/i],
+  ['name', /^((first|last|middle|full|given|family|sur|customer|client|employee|contact|patient|user) ?)?name$|^(customer|client|employee|contact|patient)$/i],
+];
+
+// Mod 97 of the digits an IBAN turns into, computed piecewise so it stays within safe integers
+const isIban = (text: string) => {
+  const compact = text.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(compact)) return false;
+  const digits = (compact.slice(4) + compact.slice(0, 4)).replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (let i = 0; i < digits.length; i += 7) remainder = Number(`${remainder}${digits.slice(i, i + 7)}`) % 97;
+  return remainder === 1;
+};
+
+// Luhn checksum, which every payment card number passes
+const isCardNumber = (text: string) => {
+  if (!/^[\d -]+$/.test(text)) return false;
+  const digits = text.replace(/\D/g, '');
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const VALUE_PATTERNS: [SensitiveKind, (text: string) => boolean][] = [
+  ['email', text => /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i.test(text)],
+  ['iban', isIban],
+  ['card', isCardNumber],
+  ['national_id', text => /^\d{3}-\d{2}-\d{4}$/.test(text)],
+  ['ip', text => /^(\d{1,3}\.){3}\d{1,3}$/.test(text) || /^[0-9a-f]{1,4}(:[0-9a-f]{0,4}){2,7}$/i.test(text)],
+  // A separator or leading plus tells a phone number apart from a plain number or code
+  ['phone', text => /^\+?[\d ().-]{7,20}$/.test(text) && /[ ().+-]/.test(text) && text.replace(/\D/g, '').length >= 7],
+];
+
+// Distinct values checked per column, and the share of them that must fit a pattern
+const VALUE_SAMPLE = 200;
+const VALUE_MATCH_SHARE = 0.6;
+// Numeric columns are bucketed into about this many ranges
+const BUCKET_COUNT = 10;
+
+export const canBucket = (type: ColumnType | undefined) => isNumericType(type) || isDateType(type);
+
+const kindFromValues = (dataSet: DataSet, header: string): SensitiveKind | null => {
+  const column = dataSet.columns.columns[header];
+  const type = dataSet.schema[header]?.type;
+  if (column?.kind !== 'dictionary' || isDateType(type)) return null;
+  const texts = column.dictionary.slice(0, VALUE_SAMPLE).map(value => String(value).trim()).filter(Boolean);
+  if (texts.length === 0) return null;
+  const match = VALUE_PATTERNS.find(([, test]) => texts.filter(test).length >= texts.length * VALUE_MATCH_SHARE);
+  return match ? match[0] : null;
+};
+
+const kindFromHeader = (header: string): SensitiveKind | null => {
+  const normalized = header.replace(/[_\-.]+/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim();
+  const match = HEADER_PATTERNS.find(([, pattern]) => pattern.test(normalized));
+  return match ? match[0] : null;
+};
+
+/**
+ * Finds the columns of a sheet that likely hold personal data. Values that
+ * fit a pattern (emails, IBANs, card numbers...) outweigh the header; names,
+ * addresses, birth dates and pay are only recognisable by their header.
+ */
+export const detectSensitiveColumns = (dataSet: DataSet): Record<string, SensitiveKind> => {
+  const found: Record<string, SensitiveKind> = {};
+  dataSet.headers.forEach(header => {
+    const kind = kindFromValues(dataSet, header) || kindFromHeader(header);
+    if (kind) found[header] = kind;
+  });
+  return found;
+};
+
+const defaultPolicy = (kind: SensitiveKind, type: ColumnType | undefined): ColumnPolicy => {
+  if (kind === 'iban' || kind === 'card' || kind === 'national_id') return 'exclude';
+  if ((kind === 'birth_date' || kind === 'compensation') && canBucket(type)) return 'bucket';
+  return 'pseudonymize';
+};
+
+/** Starting policies for a review: account and ID numbers excluded, dates of birth and pay bucketed, other personal data pseudonymized. */
+export const defaultPolicies = (dataSets: DataSet[]): PrivacyPolicies =>
+  Object.fromEntries(dataSets.map(dataSet => {
+    const found = detectSensitiveColumns(dataSet);
+    return [sheetKey(dataSet.sheetName), Object.fromEntries(dataSet.headers.map(header => [
+      header,
+      found[header] ? defaultPolicy(found[header], dataSet.schema[header]?.type) : 'send',
+    ]))];
+  }));
+
+// Columns the review never listed are held back, so nothing reaches a model unreviewed
+const policyOf = (policies: PrivacyPolicies, sheetName: string | undefined, column: string): ColumnPolicy =>
+  policies[sheetKey(sheetName)]?.[column] || 'exclude';
+
+// Least to most withheld
+const STRICTNESS: ColumnPolicy[] = ['send', 'bucket', 'pseudonymize', 'exclude'];
+
+/**
+ * Extends reviewed policies to calculated fields, which are added after the
+ * review: a field is sent no more openly than the most withheld column its
+ * formula reads, so `LEFT([Email], 5)` is pseudonymized like Email. LOOKUP
+ * can read any sheet, so fields using it are excluded.
+ */
+export const withFieldPolicies = (policies: PrivacyPolicies, dataSets: DataSet[], fields: CalculatedField[] = []): PrivacyPolicies => {
+  const result: PrivacyPolicies = { ...policies };
+  fields.forEach(field => {
+    const sheetName = findDataSet(dataSets, field.sheetName).sheetName;
+    const key = sheetKey(sheetName);
+    const read = getFormulaColumns(field.formula).map(column => policyOf(result, sheetName, column));
+    // A policy the field already has (say, default ones found its header sensitive) is kept if stricter
+    const own = result[key]?.[field.name] || 'send';
+    const policy = /\bLOOKUP\s*\(/i.test(field.formula)
+      ? 'exclude'
+      : read.reduce((strictest, next) => (STRICTNESS.indexOf(next) > STRICTNESS.indexOf(strictest) ? next : strictest), own);
+    result[key] = { ...result[key], [field.name]: policy };
+  });
+  return result;
+};
+
+// What a question filter on a bucketed column turns back into
+type BucketRange = { min: number; max: number } | { start: string; end: string };
+
+/** A masked copy of the data and what is needed to read a model's answer about it back onto the real columns. */
+export interface MaskedData {
+  dataSets: DataSet[];
+  columns: Record<string, Record<string, string>>; // Sheet key, then masked header -> real header
+  tokens: Map<string, CellValue>; // Stand-in -> real value
+  buckets: Record<string, Record<string, Record<string, BucketRange>>>; // Sheet key, real header, then bucket label -> range
+}
+
+const roundStep = (value: number) => Number(value.toPrecision(12));
+
+const niceStep = (span: number, reference: number) => {
+  if (!(span > 0)) return 10 ** Math.floor(Math.log10(Math.abs(reference) || 1));
+  const raw = span / BUCKET_COUNT;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map(factor => factor * magnitude).find(step => step >= raw)!;
+};
+
+// Numbers become equal ranges with round bounds, dates their year
+const bucketColumn = (dataSet: DataSet, header: string): { column: DictionaryColumn; ranges: Record<string, BucketRange> } => {
+  const source = dataSet.columns.columns[header];
+  const codes = new Int32Array(dataSet.rowCount).fill(-1);
+  const dictionary: CellValue[] = [];
+  const ranges: Record<string, BucketRange> = {};
+  const codeOf = new Map<number, number>();
+  const assign = (row: number, key: number, label: string, range: BucketRange) => {
+    let code = codeOf.get(key);
+    if (code === undefined) {
+      code = dictionary.length;
+      codeOf.set(key, code);
+      dictionary.push(label);
+      ranges[label] = range;
+    }
+    codes[row] = code;
+  };
+
+  if (source.kind === 'number') {
+    let min = Infinity;
+    let max = -Infinity;
+    source.values.forEach(value => {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    const step = niceStep(max - min, min);
+    const start = Math.floor(min / step) * step;
+    const format = (value: number) => value.toLocaleString('en-US', { maximumFractionDigits: 6 });
+    source.values.forEach((value, row) => {
+      if (Number.isNaN(value)) return;
+      const index = Math.min(Math.floor((value - start) / step), Math.max(0, Math.ceil((max - start) / step) - 1));
+      const low = roundStep(start + index * step);
+      const high = roundStep(low + step);
+      assign(row, index, `${format(low)}–${format(high)}`, { min: low, max: high });
+    });
+  } else {
+    source.codes.forEach((code, row) => {
+      const timestamp = code >= 0 ? source.timestamps?.[code] : undefined;
+      if (timestamp === undefined || Number.isNaN(timestamp)) return;
+      const year = new Date(timestamp).getFullYear();
+      assign(row, year, String(year), { start: toISODate(new Date(year, 0, 1).getTime()), end: toISODate(new Date(year, 11, 31).getTime()) });
+    });
+  }
+
+  // Ranges read in order, so a model sees them sorted
+  const order = dictionary.map((_, code) => code).sort((a, b) => {
+    const rangeA = ranges[String(dictionary[a])];
+    const rangeB = ranges[String(dictionary[b])];
+    return 'min' in rangeA && 'min' in rangeB ? rangeA.min - rangeB.min : String(dictionary[a]).localeCompare(String(dictionary[b]));
+  });
+  const position = new Int32Array(dictionary.length);
+  order.forEach((code, index) => { position[code] = index; });
+  codes.forEach((code, row) => { if (code >= 0) codes[row] = position[code]; });
+  return { column: { kind: 'dictionary', codes, dictionary: order.map(code => dictionary[code]) }, ranges };
+};
+
+/**
+ * Applies the policies to copies of the data, which are all a model gets to
+ * see: pseudonymized columns hold stand-ins that are consistent across
+ * sheets, bucketed columns hold ranges, and excluded columns are gone.
+ * Masked columns are renamed ('Email (pseudonymized)') so the model knows
+ * what it's looking at. The copies carry no rows, only the column store the
+ * sample is drawn from.
+ */
+export const maskDataSets = (dataSets: DataSet[], policies: PrivacyPolicies): MaskedData => {
+  const masked: MaskedData = { dataSets: [], columns: {}, tokens: new Map(), buckets: {} };
+  const tokenOf = new Map<string, string>();
+  const counters = new Map<string, number>();
+  const pseudonym = (prefix: string, value: CellValue): string => {
+    const key = `${prefix}\u0000${String(value)}`;
+    let token = tokenOf.get(key);
+    if (!token) {
+      const next = (counters.get(prefix) || 0) + 1;
+      counters.set(prefix, next);
+      token = `${prefix}-${String(next).padStart(4, '0')}`;
+      tokenOf.set(key, token);
+      masked.tokens.set(token, value);
+    }
+    return token;
+  };
+
+  dataSets.forEach(dataSet => {
+    const key = sheetKey(dataSet.sheetName);
+    const detected = detectSensitiveColumns(dataSet);
+    const headers: string[] = [];
+    const schema: Record<string, ColumnProfile> = {};
+    const columns: DataSet['columns']['columns'] = {};
+    masked.columns[key] = {};
+    masked.buckets[key] = {};
+
+    dataSet.headers.forEach(header => {
+      const profile = dataSet.schema[header];
+      const source = dataSet.columns.columns[header];
+      let policy = policyOf(policies, dataSet.sheetName, header);
+      if (policy === 'bucket' && !canBucket(profile?.type)) policy = 'pseudonymize';
+      if (policy === 'exclude') return;
+
+      if (policy === 'send') {
+        headers.push(header);
+        schema[header] = profile;
+        columns[header] = source;
+        masked.columns[key][header] = header;
+        return;
+      }
+
+      const name = `${header} (${policy === 'bucket' ? 'bucketed' : 'pseudonymized'})`;
+      headers.push(name);
+      masked.columns[key][name] = header;
+
+      if (policy === 'bucket') {
+        const { column, ranges } = bucketColumn(dataSet, header);
+        masked.buckets[key][header] = ranges;
+        columns[name] = column;
+        schema[name] = { name, type: ColumnType.CATEGORICAL, nullCount: profile.nullCount, distinctCount: column.dictionary.length };
+        return;
+      }
+
+      const prefix = detected[header] ? TOKEN_PREFIXES[detected[header]] : DEFAULT_PREFIX;
+      if (source.kind === 'number') {
+        const codes = new Int32Array(dataSet.rowCount);
+        const dictionary: CellValue[] = [];
+        const codeOf = new Map<number, number>();
+        source.values.forEach((value, row) => {
+          if (Number.isNaN(value)) {
+            codes[row] = -1;
+            return;
+          }
+          let code = codeOf.get(value);
+          if (code === undefined) {
+            code = dictionary.length;
+            codeOf.set(value, code);
+            dictionary.push(pseudonym(prefix, value));
+          }
+          codes[row] = code;
+        });
+        columns[name] = { kind: 'dictionary', codes, dictionary };
+      } else {
+        columns[name] = { kind: 'dictionary', codes: source.codes, dictionary: source.dictionary.map(value => pseudonym(prefix, value)) };
+      }
+      // Stand-ins have no order or magnitude, so ranges and formats are dropped with the type
+      const type = canBucket(profile.type) ? ColumnType.TEXT : profile.type;
+      schema[name] = { name, type, nullCount: profile.nullCount, distinctCount: profile.distinctCount };
+    });
+
+    masked.dataSets.push({
+      ...dataSet,
+      headers,
+      schema,
+      columns: { rowCount: dataSet.rowCount, columns },
+    });
+  });
+
+  return masked;
+};
+
+/**
+ * The data with only the columns sent as-is. Facts are computed from it, so
+ * they can go along with the masked data without giving masked values away.
+ */
+export const sentColumnsOnly = (dataSets: DataSet[], policies: PrivacyPolicies): DataSet[] =>
+  dataSets.map(dataSet => {
+    const headers = dataSet.headers.filter(header => policyOf(policies, dataSet.sheetName, header) === 'send');
+    return {
+      ...dataSet,
+      headers,
+      schema: Object.fromEntries(headers.map(header => [header, dataSet.schema[header]])),
+      columns: { rowCount: dataSet.rowCount, columns: Object.fromEntries(headers.map(header => [header, dataSet.columns.columns[header]])) },
+    };
+  });
+
+const realColumn = (masked: MaskedData, sheetName: string | undefined) => {
+  const columns = masked.columns[sheetKey(sheetName ?? masked.dataSets[0]?.sheetName)] || {};
+  return (name: string) => columns[name] || name;
+};
+
+// Stand-ins the model repeated in its text are swapped back for the values they stand for
+const restoreText = (masked: MaskedData, text: string): string =>
+  text.replace(/\b[A-Z][A-Za-z]*-\d{4,}\b/g, token => (masked.tokens.has(token) ? String(masked.tokens.get(token)) : token));
+
+const restoreInsight = (masked: MaskedData, insight: Insight): Insight => ({ ...insight, text: restoreText(masked, insight.text) });
+
+/** Reads a dashboard designed on masked data back onto the real columns and values. */
+export const restoreDashboardConfig = (config: DashboardConfig, masked: MaskedData): DashboardConfig => ({
+  ...config,
+  title: restoreText(masked, config.title),
+  summary: restoreText(masked, config.summary),
+  insights: config.insights?.map(insight => restoreInsight(masked, insight)),
+  charts: config.charts.map(chart => ({
+    ...renameChartColumns(chart, realColumn(masked, chart.sheetName)),
+    title: restoreText(masked, chart.title),
+    description: restoreText(masked, chart.description),
+    insight: chart.insight && restoreInsight(masked, chart.insight),
+  })),
+  kpis: config.kpis?.map(kpi => ({ ...renameKpiColumns(kpi, realColumn(masked, kpi.sheetName)), title: restoreText(masked, kpi.title) })),
+  calculatedFields: config.calculatedFields?.map(field => ({
+    ...field,
+    formula: renameFormulaColumns(field.formula, realColumn(masked, field.sheetName)),
+  })),
+});
+
+// Stand-ins turn back into values; buckets into the range they cover, spanning all picked buckets
+const restoreFilter = (masked: MaskedData, sheetName: string | undefined, filter: QuestionFilter): QuestionFilter => {
+  const column = realColumn(masked, sheetName)(filter.column);
+  const ranges = masked.buckets[sheetKey(sheetName ?? masked.dataSets[0]?.sheetName)]?.[column];
+  if (!Array.isArray(filter.values)) return { ...filter, column };
+  if (!ranges) {
+    return { ...filter, column, values: filter.values.map(value => (masked.tokens.has(value) ? String(masked.tokens.get(value)) : value)) };
+  }
+
+  const picked = filter.values.map(value => ranges[value]).filter(Boolean);
+  if (picked.length === 0) return { ...filter, column };
+  const numeric = picked.filter((range): range is { min: number; max: number } => 'min' in range);
+  if (numeric.length > 0) {
+    return { column, min: Math.min(...numeric.map(range => range.min)), max: Math.max(...numeric.map(range => range.max)) };
+  }
+  const dates = picked as { start: string; end: string }[];
+  return { column, start: dates.map(range => range.start).sort()[0], end: dates.map(range => range.end).sort().reverse()[0] };
+};
+
+/** Reads a question's query, worked out on masked data, back onto the real columns and values. */
+export const restoreQuestionQuery = (query: QuestionQuery, masked: MaskedData): QuestionQuery => {
+  const rename = realColumn(masked, query.sheetName);
+  return {
+    ...query,
+    measure: rename(query.measure),
+    groupBy: query.groupBy ? rename(query.groupBy) : undefined,
+    filters: query.filters?.map(filter => restoreFilter(masked, query.sheetName, filter)),
+    compare: query.compare && { ...query.compare, column: rename(query.compare.column) },
+  };
+};
@@ -0,0 +1,397 @@
+import { Type, Schema } from "@google/genai";
+import { AnalysisContext, AnalysisProvider, DashboardConfig, ChartConfig, ChartType, AggregationType, ProviderId, QuestionAnswer, QuestionContext } from '../types';
+import { COMPARISON_LABELS, DATE_GRANULARITIES } from './periodService';
+import { formatFact } from './insightService';
+
+/**
+ * Sends a prompt to a language model and resolves with the raw JSON text of
+ * a response that follows the given schema.
+ */
+export type JsonGenerator = (prompt: string, schema: Schema) => Promise<string>;
+
+// A statement resting on computed facts
+const insightSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING, description: "One sentence that repeats the figures of the facts it rests on exactly." },
+    factIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Ids of the computed facts the sentence rests on, e.g. 'F3'." },
+  },
+  required: ["text", "factIds"],
+};
+
+// One chart, as recommended for a dashboard or in answer to a question
+const chartSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, description: "Unique identifier for the chart" },
+    type: { 
+      type: Type.STRING, 
+      enum: [ChartType.BAR, ChartType.LINE, ChartType.AREA, ChartType.PIE, ChartType.SCATTER, ChartType.PIVOT],
+      description: "The type of chart to render." 
+    },
+    title: { type: Type.STRING, description: "Title of the specific chart." },
+    description: { type: Type.STRING, description: "A brief insight or explanation of what this chart shows." },
+    xKey: { type: Type.STRING, description: "The key in the data object to use for the X-axis (category or time)." },
+    yKeys: { 
+      type: Type.ARRAY, 
+      items: { type: Type.STRING },
+      description: "The keys in the data object to use for the Y-axis (values). For Pie charts, use only one key." 
+    },
+    groupBy: {
+      type: Type.STRING,
+      description: "The key rows are grouped by before aggregation. Usually the same as xKey."
+    },
+    sheetName: {
+      type: Type.STRING,
+      description: "For workbooks with several sheets: the sheet whose columns this chart uses."
+    },
+    granularity: {
+      type: Type.STRING,
+      enum: DATE_GRANULARITIES,
+      description: "For date x-axes only: the period dates are grouped by. Omit to pick one from the date range.",
+    },
+    drillPath: {
+      type: Type.ARRAY,
+      description: "Optional hierarchy the chart can be drilled into, top level first. The first level is the groupBy column.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          column: { type: Type.STRING, description: "Column of this level." },
+          granularity: {
+            type: Type.STRING,
+            enum: DATE_GRANULARITIES,
+            description: "For date columns only: the period this level groups dates by.",
+          },
+        },
+        required: ["column"],
+      },
+    },
+    pivot: {
+      type: Type.OBJECT,
+      description: "For pivot tables only: the dimensions down the side and across the top. The yKeys are the values in the cells.",
+      properties: {
+        rows: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "Row dimensions, outermost first, starting with xKey.",
+        },
+        columns: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "Column dimensions, outermost first. Use columns with few distinct values, or a date column. May be empty.",
+        },
+        subtotals: { type: Type.BOOLEAN, description: "Whether every outer row and column member gets a total. Defaults to true." },
+        colorScale: {
+          type: Type.STRING,
+          enum: ['none', 'sequential', 'diverging'],
+          description: "Shades cells by value: 'sequential' for amounts, 'diverging' for values around zero such as growth or margin.",
+        },
+        sort: {
+          type: Type.OBJECT,
+          properties: {
+            by: { type: Type.STRING, enum: ['label', 'value'] },
+            direction: { type: Type.STRING, enum: ['asc', 'desc'] },
+            measure: { type: Type.STRING, description: "The yKey rows are sorted by when sorting by value." },
+          },
+          required: ["by", "direction"],
+        },
+      },
+      required: ["rows", "columns"],
+    },
+    aggregations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.STRING,
+        enum: Object.values(AggregationType),
+      },
+      description: "How each yKey is aggregated per group, in the same order as yKeys."
+    },
+    insight: { ...insightSchema, description: "When computed facts are given: the finding this chart shows, citing the facts behind it." },
+  },
+  required: ["id", "type", "title", "description", "xKey", "yKeys", "aggregations"],
+};
+
+export const dashboardResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: {
+      type: Type.STRING,
+      description: "A creative and relevant title for the dashboard based on the data context.",
+    },
+    summary: {
+      type: Type.STRING,
+      description: "A concise executive summary of the dataset (2-3 sentences).",
+    },
+    insights: {
+      type: Type.ARRAY,
+      description: "When computed facts are given: the executive summary as 2-4 sentences, each citing the facts behind it.",
+      items: insightSchema,
+    },
+    charts: {
+      type: Type.ARRAY,
+      description: "A list of 4-6 recommended charts to visualize the data.",
+      items: chartSchema,
+    },
+    kpis: {
+      type: Type.ARRAY,
+      description: "3-4 headline numbers shown above the charts, each compared with an earlier period. Empty when the data has no date column.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Unique identifier for the KPI" },
+          title: { type: Type.STRING, description: "Short label, e.g. 'Revenue'." },
+          measure: { type: Type.STRING, description: "The column the number is computed from." },
+          aggregation: {
+            type: Type.STRING,
+            enum: Object.values(AggregationType),
+            description: "How the measure is aggregated over a period.",
+          },
+          dateKey: { type: Type.STRING, description: "The date column that places rows in periods." },
+          comparison: {
+            type: Type.STRING,
+            enum: Object.keys(COMPARISON_LABELS),
+            description: "The latest week, month, quarter or year against the one before, or 'ytd' for year to date against the same span a year earlier.",
+          },
+          sheetName: {
+            type: Type.STRING,
+            description: "For workbooks with several sheets: the sheet whose columns this KPI uses."
+          },
+        },
+        required: ["id", "title", "measure", "aggregation", "dateKey", "comparison"],
+      },
+    },
+  },
+  required: ["title", "summary", "charts"],
+};
+
+export const questionResponseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: {
+      type: Type.STRING,
+      enum: ['query', 'chart'],
+      description: "'query' when the answer is a number or a short ranking, 'chart' when it is best seen as a chart.",
+    },
+    explanation: {
+      type: Type.STRING,
+      description: "One sentence on how the question is answered, e.g. 'Revenue per category in Q3 against Q2.' Don't state any numbers; they are computed afterwards.",
+    },
+    query: {
+      type: Type.OBJECT,
+      description: "For kind 'query': the calculation that answers the question.",
+      properties: {
+        sheetName: { type: Type.STRING, description: "For workbooks with several sheets: the sheet whose columns the query uses." },
+        measure: { type: Type.STRING, description: "The column that is aggregated." },
+        aggregation: { type: Type.STRING, enum: Object.values(AggregationType) },
+        groupBy: { type: Type.STRING, description: "Column to compute one value per member of. Omit for a single number." },
+        granularity: { type: Type.STRING, enum: DATE_GRANULARITIES, description: "For a date groupBy column: the period dates are grouped by." },
+        filters: {
+          type: Type.ARRAY,
+          description: "Conditions rows must meet, all of them.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              column: { type: Type.STRING },
+              values: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The cell is one of these values." },
+              start: { type: Type.STRING, description: "Dates from this day on, YYYY-MM-DD." },
+              end: { type: Type.STRING, description: "Dates up to and including this day, YYYY-MM-DD." },
+              min: { type: Type.NUMBER },
+              max: { type: Type.NUMBER },
+            },
+            required: ["column"],
+          },
+        },
+        compare: {
+          type: Type.OBJECT,
+          description: "For growth and change questions: the date range asked about and the earlier range it is compared with, YYYY-MM-DD and inclusive.",
+          properties: {
+            column: { type: Type.STRING, description: "The date column." },
+            start: { type: Type.STRING },
+            end: { type: Type.STRING },
+            previousStart: { type: Type.STRING },
+            previousEnd: { type: Type.STRING },
+          },
+          required: ["column", "start", "end", "previousStart", "previousEnd"],
+        },
+        sort: { type: Type.STRING, enum: ['asc', 'desc'], description: "Ranks the groups by value, or by relative change when comparing." },
+        limit: { type: Type.INTEGER, description: "Keep only this many groups after sorting." },
+      },
+      required: ["measure", "aggregation"],
+    },
+    chart: { ...chartSchema, description: "For kind 'chart': the chart that answers the question." },
+  },
+  required: ["kind", "explanation"],
+};
+
+// Models return aggregations as a list parallel to yKeys
+interface ChartResponse extends Omit<ChartConfig, 'aggregations'> {
+  aggregations?: string[];
+}
+
+interface DashboardResponse extends Omit<DashboardConfig, 'charts'> {
+  charts: ChartResponse[];
+}
+
+// A chart missing its yKeys is kept with none, so validation drops that chart rather than the whole answer
+const toChartConfig = ({ aggregations, ...chart }: ChartResponse): ChartConfig => {
+  const valid = Object.values(AggregationType) as string[];
+  const mapped: Record<string, AggregationType> = {};
+  const yKeys = Array.isArray(chart.yKeys) ? chart.yKeys : [];
+
+  yKeys.forEach((key, index) => {
+    const aggregation = aggregations?.[index];
+    if (aggregation && valid.includes(aggregation)) {
+      mapped[key] = aggregation as AggregationType;
+    }
+  });
+
+  return { ...chart, yKeys, groupBy: chart.groupBy || chart.xKey, aggregations: mapped };
+};
+
+export const buildDashboardPrompt = (context: AnalysisContext): string => {
+  return `
+    You are an expert data analyst and visualization specialist.
+    I will provide you with a sample of a dataset: headers, row count, a profile of every column (inferred type, range, null rate and most
+    frequent values), rows sampled across its categories and its whole date range, and its most extreme rows under 'outliers'.
+    
+    Your task is to:
+    1. Understand the domain and context of the data.
+    2. Create a dashboard configuration with a title and summary.
+    3. Recommend 4 to 6 insightful visualizations (charts) that best represent the patterns, trends, or comparisons in the data.
+    
+    For chart selection:
+    - Use LINE charts for trends over time.
+    - Use BAR charts for categorical comparisons.
+    - Use AREA charts for cumulative totals or volume over time.
+    - Use PIE charts for part-to-whole relationships (only if categories are few).
+    - Use SCATTER charts for correlations between two numerical variables.
+    - Use PIVOT tables when readers need exact figures across two or more dimensions (e.g. revenue by region and quarter) or several measures side by side.
+      Give them a 'pivot' with the row and column dimensions; keep to columns with few distinct values across the top.
+    
+    Rows are grouped by 'groupBy' and every yKey is aggregated per group, so pick an aggregation for each yKey:
+    - 'sum' for additive amounts (revenue, quantity, cost).
+    - 'mean' or 'median' for rates, prices, scores and other non-additive measures.
+    - 'count' or 'distinct_count' to count rows or unique values (the yKey may then be non-numeric).
+    - 'min' / 'max' for extremes.
+    Scatter charts plot raw rows and ignore aggregations. Pivot tables aggregate every yKey per cell, subtotal and total.
+    
+    If the sample lists several sheets, set 'sheetName' on every chart to the sheet its xKey and yKeys come from.
+    A chart may only use columns of a single sheet, but the dashboard should combine charts from the most relevant sheets.
+    
+    Look for hierarchies in the schema and give the charts built on them a 'drillPath', so users can click a bar to descend one level:
+    - Columns that nest, like Region > Country > City. The sample lists the nesting it found under 'hierarchies'.
+    - A date column cut into periods: year, then quarter, month and day of the same column.
+    The drill path starts at the chart's groupBy column and goes down from there. Scatter charts and pivot tables can't be drilled;
+    a pivot table lists the levels of a hierarchy as its row dimensions instead.
+    
+    If the data has a date column, also propose 3 to 4 headline KPIs: the measures a reader checks first (revenue, orders, active users),
+    each aggregated like a chart yKey and compared with the previous period of a fitting length, or year to date.
+    Pick a comparison the date range covers: a year over year comparison needs more than a year of data.
+    
+    Ensure 'xKey' and 'yKeys' exist exactly as written in the provided headers.
+    Rely on the provided column types rather than guessing from the sample:
+    - Only use integer, decimal, currency or percent columns as yKeys with 'sum', 'mean', 'median', 'min' or 'max'.
+    - Use date or datetime columns as the xKey of LINE and AREA charts. Dates are grouped by period and sorted automatically; set 'granularity' only when a specific period (e.g. month) suits the question.
+    - Avoid id and text columns as xKey; they have too many distinct values.
+    
+    Dataset Sample:
+    ${context.sample}
+  ${context.facts?.length ? `
+    The sample holds only some of the rows. These facts were computed from every row, and they are the only source of figures and trends:
+    ${context.facts.map(formatFact).join('\n    ')}
+    
+    Write the executive summary as 2 to 4 'insights', one sentence each, and give every chart an 'insight' on what it shows.
+    Each insight cites the ids of the facts it rests on in 'factIds' and repeats their figures exactly as written there.
+    Don't state a trend, ranking or figure that no fact backs; statements the cited facts don't back are flagged to the reader.
+  ` : ''}${context.feedback?.length ? `
+    Your previous answer for this dataset had these problems. Avoid them this time:
+    ${context.feedback.map(problem => `- ${problem}`).join('\n    ')}
+  ` : ''}`;
+};
+
+export const buildQuestionPrompt = (context: QuestionContext): string => {
+  return `
+    You are an expert data analyst. A user asks a question about a dataset.
+    I will provide you with a sample of the dataset: headers, row count, a profile of every column (inferred type, range, null rate and most
+    frequent values), rows sampled across its categories and its whole date range, and its most extreme rows under 'outliers'.
+    The full dataset is much larger, so never answer from the sample rows: turn the question into something the app computes on every row.
+    
+    Answer with kind 'query' when the answer is a number or a short ranking:
+    - 'measure' and 'aggregation' say what is computed, picked like the yKeys of a chart. 'count' counts the rows of any column.
+    - 'groupBy' gives one value per member of a column; leave it out for a single number. Set 'granularity' when grouping by a date column.
+    - 'filters' restrict the rows: 'values' for categories, 'start' and 'end' (YYYY-MM-DD) for dates, 'min' and 'max' for numbers.
+    - For growth and change questions ("which category grew fastest in Q3?"), set 'compare' to the date column, the period asked about
+      and the period before it of the same length (Q3 against Q2). Groups are then ranked by their relative change.
+    - 'sort' and 'limit' rank the groups, e.g. 'desc' and 5 for a top five.
+    
+    Answer with kind 'chart' when the question asks for a trend, a breakdown or a comparison that is best seen as a chart.
+    The chart follows the same rules as on a dashboard: LINE for trends over time, BAR for comparing categories, PIE for shares of a few categories,
+    SCATTER for the relation between two numeric columns, PIVOT for exact figures across two dimensions. Aggregate every yKey.
+    
+    A quarter, month or weekday without a year means the latest one in the data; the date columns list their range as min and max.
+    If the sample lists several sheets, set 'sheetName' to the sheet the columns come from.
+    Use column names exactly as written in the provided headers.
+    
+    Question: ${context.question}
+    
+    Dataset Sample:
+    ${context.sample}
+  `;
+};
+
+/**
+ * Parses a model response into a DashboardConfig. Tolerates markdown code
+ * fences, which local models often wrap around JSON.
+ */
+export const parseDashboardResponse = (text: string): DashboardConfig => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const raw = JSON.parse(json) as DashboardResponse;
+  if (!raw || typeof raw !== 'object' || (raw.charts !== undefined && !Array.isArray(raw.charts))) {
+    throw new Error("Response is not a dashboard configuration");
+  }
+
+  return {
+    ...raw,
+    charts: (raw.charts ?? []).map(toChartConfig),
+  };
+};
+
+/**
+ * Parses a model response into the answer to a question, tolerating code
+ * fences like parseDashboardResponse.
+ */
+export const parseQuestionResponse = (text: string): QuestionAnswer => {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const raw = JSON.parse(json);
+  const explanation = typeof raw?.explanation === 'string' ? raw.explanation : '';
+  if (raw?.kind === 'chart' && raw.chart && typeof raw.chart === 'object') {
+    return { kind: 'chart', chart: toChartConfig({ id: 'answer', ...raw.chart }), explanation };
+  }
+  if (raw?.query && typeof raw.query.measure === 'string') {
+    return { kind: 'query', query: raw.query, explanation };
+  }
+  throw new Error("Response is not an answer to the question");
+};
+
+/**
+ * Wraps a model client in the AnalysisProvider interface using the shared
+ * prompts, so every language model answers the same questions.
+ */
+export const createLLMProvider = (id: ProviderId, label: string, generate: JsonGenerator): AnalysisProvider => ({
+  id,
+  label,
+  generateDashboardConfig: async (context) => {
+    const text = await generate(buildDashboardPrompt(context), dashboardResponseSchema);
+    if (!text) {
+      throw new Error("Empty response from AI");
+    }
+    return parseDashboardResponse(text);
+  },
+  answerQuestion: async (context) => {
+    const text = await generate(buildQuestionPrompt(context), questionResponseSchema);
+    if (!text) {
+      throw new Error("Empty response from AI");
+    }
+    return parseQuestionResponse(text);
+  },
+});
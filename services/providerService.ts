@@ -0,0 +1,218 @@
+import { AnalysisContext, AnalysisProvider, DashboardConfig, DataSet, PrivacyPolicies, ProviderId, ProviderSettings, QuestionAnswer, StatFact } from '../types';
+import { DEFAULT_SAMPLE_TOKENS, prepareDataSample } from './samplingService';
+import { geminiProvider } from './geminiService';
+import { createOpenAIProvider } from './openAIService';
+import { heuristicProvider } from './heuristicService';
+import { validateDashboardConfig, ValidationResult } from './validationService';
+import { validateQuestionQuery } from './questionService';
+import { computeFacts, groundInsights } from './insightService';
+import { maskDataSets, MaskedData, restoreDashboardConfig, restoreQuestionQuery, sentColumnsOnly } from './privacyService';
+import { buildDashboardPrompt, buildQuestionPrompt } from './promptService';
+
+const SETTINGS_KEY = 'analysisProvider';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  [ProviderId.GEMINI]: 'Gemini',
+  [ProviderId.OPENAI_COMPATIBLE]: 'Local model (OpenAI-compatible)',
+  [ProviderId.HEURISTIC]: 'Offline rules',
+};
+
+const defaultProvider = (): ProviderId => {
+  if (process.env.API_KEY) return ProviderId.GEMINI;
+  if (process.env.OPENAI_BASE_URL) return ProviderId.OPENAI_COMPATIBLE;
+  return ProviderId.HEURISTIC;
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: defaultProvider(),
+  openAIBaseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+  openAIModel: process.env.OPENAI_MODEL || '',
+  openAIApiKey: process.env.OPENAI_API_KEY || '',
+  repromptOnErrors: true,
+  sampleTokens: DEFAULT_SAMPLE_TOKENS,
+  privacyMode: false,
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getProvider = (settings: ProviderSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case ProviderId.GEMINI:
+      return geminiProvider;
+    case ProviderId.OPENAI_COMPATIBLE:
+      return createOpenAIProvider(settings);
+    default:
+      return heuristicProvider;
+  }
+};
+
+export interface AnalysisResult {
+  config: DashboardConfig;
+  notices: string[];
+}
+
+const countRemoved = (result: ValidationResult) => result.issues.filter(issue => issue.severity === 'removed').length;
+
+const toNotices = (result: ValidationResult): string[] => {
+  if (result.issues.length === 0) return [];
+  return [
+    `Adjusted ${result.issues.length} chart ${result.issues.length === 1 ? 'setting' : 'settings'} that didn't match the data:`,
+    ...result.issues.map(issue => issue.message),
+  ];
+};
+
+/**
+ * Asks a provider for a dashboard and validates it against the data. When
+ * charts had to be removed, the model is optionally asked once more with the
+ * validation errors, and the better of both answers is kept.
+ */
+const generateValidated = async (
+  provider: AnalysisProvider,
+  context: AnalysisContext,
+  reprompt: boolean
+): Promise<ValidationResult> => {
+  const first = validateDashboardConfig(await provider.generateDashboardConfig(context), context.dataSets);
+  if (countRemoved(first) === 0 || !reprompt || provider.id === ProviderId.HEURISTIC) {
+    return first;
+  }
+
+  const feedback = first.issues.map(issue => issue.message);
+  try {
+    const second = validateDashboardConfig(
+      await provider.generateDashboardConfig({ ...context, feedback }),
+      context.dataSets
+    );
+    return second.config.charts.length >= first.config.charts.length && countRemoved(second) <= countRemoved(first)
+      ? second
+      : first;
+  } catch (error) {
+    console.warn('Re-prompt failed, keeping the first answer', error);
+    return first;
+  }
+};
+
+// Checks the summary and chart notes against the facts, and says how many claims they don't back
+const withInsights = (config: DashboardConfig, facts: StatFact[], notices: string[]): AnalysisResult => {
+  const grounded = groundInsights(config, facts);
+  if (grounded.unsupported === 0) return { config: grounded.config, notices };
+  return {
+    config: grounded.config,
+    notices: [
+      ...notices,
+      `${grounded.unsupported} ${grounded.unsupported === 1 ? 'statement is' : 'statements are'} not backed by the statistics computed from the full data and marked as such.`,
+    ],
+  };
+};
+
+// With privacy policies, facts only describe the columns sent as-is
+const factsFor = (dataSets: DataSet[], policies?: PrivacyPolicies): StatFact[] =>
+  computeFacts(policies ? sentColumnsOnly(dataSets, policies) : dataSets);
+
+// What a model is given: the data as the policies let it through, or as it is without policies
+const prepareContext = (dataSets: DataSet[], settings: ProviderSettings, facts: StatFact[], policies?: PrivacyPolicies) => {
+  const masked = policies ? maskDataSets(dataSets, policies) : null;
+  const shared = masked ? masked.dataSets : dataSets;
+  const context: AnalysisContext = { dataSets: shared, sample: prepareDataSample(shared, settings.sampleTokens), facts };
+  return { context, masked };
+};
+
+/** The prompt a dashboard request starts with, exactly as it would be sent, for review in privacy mode. */
+export const previewDashboardPrompt = (dataSets: DataSet[], settings: ProviderSettings, policies?: PrivacyPolicies): string =>
+  buildDashboardPrompt(prepareContext(dataSets, settings, factsFor(dataSets, policies), policies).context);
+
+/** The prompt a question is sent with, exactly as it would be sent, for review in privacy mode. */
+export const previewQuestionPrompt = (dataSets: DataSet[], question: string, settings: ProviderSettings, policies?: PrivacyPolicies): string =>
+  buildQuestionPrompt({ ...prepareContext(dataSets, settings, [], policies).context, question });
+
+/**
+ * Designs a dashboard with the configured provider. Statistics of the full
+ * data are computed first and handed over as grounding. With privacy
+ * policies the model only sees masked data, and its answer is read back
+ * onto the real columns. If a model provider fails, the offline rules take
+ * over so the user still gets a dashboard.
+ */
+export const generateDashboardConfig = async (
+  dataSets: DataSet[],
+  settings: ProviderSettings,
+  policies?: PrivacyPolicies
+): Promise<AnalysisResult> => {
+  const provider = getProvider(settings);
+  const facts = factsFor(dataSets, policies);
+  const { context, masked } = prepareContext(dataSets, settings, facts, policies);
+
+  try {
+    // A second prompt would go out without having been reviewed, so privacy mode keeps the first answer
+    const result = await generateValidated(provider, context, settings.repromptOnErrors && !policies);
+    if (result.config.charts.length === 0) {
+      throw new Error('none of the suggested charts matched the data');
+    }
+    const config = masked ? restoreDashboardConfig(result.config, masked) : result.config;
+    return withInsights(config, facts, toNotices(result));
+  } catch (error: any) {
+    if (provider.id === ProviderId.HEURISTIC) throw error;
+
+    console.warn(`${provider.label} failed, falling back to offline rules`, error);
+    // The offline rules run in the browser, so they get the real data
+    const result = validateDashboardConfig(await heuristicProvider.generateDashboardConfig({ ...context, dataSets }), dataSets);
+    return withInsights(result.config, facts, [
+      `${provider.label} was unavailable (${error.message || 'unknown error'}), so this dashboard was built with offline rules.`,
+    ]);
+  }
+};
+
+export interface AnsweredQuestion {
+  answer: QuestionAnswer;
+  notes: string[]; // What had to be adjusted to fit the data
+}
+
+// Reads an answer given on masked data back onto the real columns and values
+const restoreAnswer = (answer: QuestionAnswer, masked: MaskedData | null): QuestionAnswer => {
+  if (!masked) return answer;
+  return answer.kind === 'chart'
+    ? { ...answer, chart: restoreDashboardConfig({ title: '', summary: '', charts: [answer.chart] }, masked).charts[0] }
+    : { ...answer, query: restoreQuestionQuery(answer.query, masked) };
+};
+
+/**
+ * Asks the configured provider a question about the data and checks its
+ * answer like a dashboard: a chart goes through the chart validation, a
+ * query through its own. Only language models can answer questions. With
+ * privacy policies the model sees the same masked data as for the dashboard.
+ */
+export const askQuestion = async (
+  dataSets: DataSet[],
+  question: string,
+  settings: ProviderSettings,
+  policies?: PrivacyPolicies
+): Promise<AnsweredQuestion> => {
+  const provider = getProvider(settings);
+  if (!provider.answerQuestion) {
+    throw new Error('Questions are answered by a language model. Pick Gemini or a local model in the analysis settings.');
+  }
+
+  // Facts aren't part of the question prompt
+  const { context, masked } = prepareContext(dataSets, settings, [], policies);
+  const shared = context.dataSets;
+  const answer = await provider.answerQuestion({ dataSets: shared, sample: context.sample, question });
+  if (answer.kind === 'chart') {
+    const { config, issues } = validateDashboardConfig({ title: '', summary: '', charts: [answer.chart] }, shared);
+    if (config.charts.length === 0) {
+      throw new Error(issues.find(issue => issue.severity === 'removed')?.message || 'The suggested chart did not match the data.');
+    }
+    return { answer: restoreAnswer({ ...answer, chart: config.charts[0] }, masked), notes: issues.map(issue => issue.message) };
+  }
+
+  const { query, notes } = validateQuestionQuery(answer.query, shared);
+  return { answer: restoreAnswer({ ...answer, query }, masked), notes };
+};
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { AggregationType } from '../types';
+import { BLANK_LABEL, runQuery } from './queryService';
+import { makeDataSet } from './testData';
+
+const sales = makeDataSet({
+  Region: ['North', 'South', 'North', 'East', null, 'South'],
+  Sales: ['100', '250', '50', '75', '10', ''],
+  Date: ['2024-01-15', '2024-01-20', '2024-02-03', '2024-03-10', '2024-02-28', '2024-01-01'],
+});
+const store = sales.columns;
+
+describe('runQuery', () => {
+  it('projects the rows that pass every predicate, in row order', () => {
+    const rows = runQuery(store, { where: [{ column: 'Region', op: 'in', values: ['North'] }], select: ['Region', 'Sales'] });
+    expect(rows).toEqual([
+      { Region: 'North', Sales: 100 },
+      { Region: 'North', Sales: 50 },
+    ]);
+  });
+
+  it('keeps blank cells when a predicate is negated', () => {
+    const rows = runQuery(store, { where: [{ column: 'Region', op: 'in', values: ['North'], negate: true }], select: ['Region'] });
+    expect(rows.map(row => row.Region)).toEqual(['South', 'East', null, 'South']);
+  });
+
+  it('filters numbers and dates by inclusive ranges', () => {
+    const between = runQuery(store, { where: [{ column: 'Sales', op: 'between', min: 50, max: 100 }], select: ['Sales'] });
+    expect(between.map(row => row.Sales)).toEqual([100, 50, 75]);
+
+    const february = runQuery(store, {
+      where: [{ column: 'Date', op: 'between', min: new Date(2024, 1, 1).getTime(), max: new Date(2024, 1, 29).getTime() }],
+      select: ['Date'],
+    });
+    expect(february.map(row => row.Date)).toEqual(['2024-02-03', '2024-02-28']);
+  });
+
+  it('ignores predicates on columns the store does not have', () => {
+    expect(runQuery(store, { where: [{ column: 'Missing', op: 'empty' }] })).toHaveLength(sales.rowCount);
+  });
+
+  it('groups, aggregates, sorts and limits', () => {
+    const rows = runQuery(store, {
+      groupBy: 'Region',
+      aggregates: [{ column: 'Sales', aggregation: AggregationType.SUM }],
+      orderBy: { key: 'Sales', direction: 'desc' },
+      limit: 3,
+    });
+    expect(rows).toEqual([
+      { Region: 'South', Sales: 250 },
+      { Region: 'North', Sales: 150 },
+      { Region: 'East', Sales: 75 },
+    ]);
+  });
+
+  it('labels the group of blank cells', () => {
+    const rows = runQuery(store, { groupBy: 'Region', aggregates: [{ column: 'Sales', aggregation: AggregationType.SUM, as: 'Total' }] });
+    expect(rows).toContainEqual({ Region: BLANK_LABEL, Total: 10 });
+  });
+
+  it('groups dates by period in time order', () => {
+    const rows = runQuery(store, {
+      groupBy: 'Date',
+      granularity: 'month',
+      aggregates: [{ column: 'Sales', aggregation: AggregationType.SUM }],
+    });
+    expect(rows).toEqual([
+      { Date: '2024-01', Sales: 350 },
+      { Date: '2024-02', Sales: 60 },
+      { Date: '2024-03', Sales: 75 },
+    ]);
+  });
+
+  it('aggregates the whole selection without a group column', () => {
+    const [row] = runQuery(store, {
+      where: [{ column: 'Region', op: 'in', values: ['North', 'South'] }],
+      aggregates: [
+        { column: 'Sales', aggregation: AggregationType.MEAN, as: 'mean' },
+        { column: 'Region', aggregation: AggregationType.DISTINCT_COUNT, as: 'regions' },
+      ],
+    });
+    expect(row).toEqual({ mean: 400 / 3, regions: 2 });
+  });
+});
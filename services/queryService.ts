@@ -0,0 +1,463 @@
+import { AggregationType, CellValue, Column, ColumnStore, DataRow, DataSet, DateGranularity, RowSelection } from '../types';
+import { isDateType, isNumericType, parseDateValue } from './schemaService';
+import { formatPeriod, periodStart } from './periodService';
+
+// Label used for rows whose group value is empty
+export const BLANK_LABEL = '(blank)';
+
+// Negated predicates keep exactly the rows the plain predicate drops, blanks included
+export type Predicate =
+  | { column: string; op: 'in'; values: string[]; negate?: boolean } // Cell, as text, is one of the values
+  | { column: string; op: 'between'; min?: number; max?: number } // Inclusive; timestamps for date columns
+  | { column: string; op: 'match'; pattern: RegExp } // Cell, as text, matches the pattern
+  | { column: string; op: 'empty'; negate?: boolean }; // Cell is blank
+
+export interface AggregateSpec {
+  column: string;
+  aggregation: AggregationType;
+  as?: string; // Output key, defaults to the column name
+}
+
+export interface Query {
+  rows?: RowSelection; // Start from these rows instead of the whole store
+  where?: Predicate[];
+  groupBy?: string;
+  granularity?: DateGranularity; // Groups a date groupBy column by period; groups then come in time order
+  aggregates?: AggregateSpec[];
+  select?: string[]; // Columns of ungrouped results, defaults to all
+  orderBy?: { key: string; direction: 'asc' | 'desc' };
+  limit?: number;
+}
+
+const isEmpty = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || value === '';
+
+const toNumber = (value: CellValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value === null || value === '') return NaN;
+  return Number(String(value).replace(/,/g, ''));
+};
+
+// --- Building ----------------------------------------------------------------
+
+/**
+ * Converts row records into typed columns: measures become Float64Arrays,
+ * all other columns are dictionary-encoded, and date dictionaries carry their
+ * parsed timestamps so date filters never parse strings per row. Only needed
+ * for dashboards saved while sheets still kept their rows as records.
+ */
+export const buildColumnStore = ({ headers, schema }: Pick<DataSet, 'headers' | 'schema'>, data: DataRow[]): ColumnStore => {
+  const rowCount = data.length;
+  const columns: Record<string, Column> = {};
+
+  headers.forEach(header => {
+    const type = schema[header]?.type;
+
+    if (isNumericType(type)) {
+      const values = new Float64Array(rowCount);
+      for (let i = 0; i < rowCount; i++) {
+        const value = data[i][header];
+        values[i] = isEmpty(value) ? NaN : toNumber(value);
+      }
+      columns[header] = { kind: 'number', values };
+      return;
+    }
+
+    const codes = new Int32Array(rowCount);
+    const dictionary: CellValue[] = [];
+    const lookup = new Map<CellValue, number>();
+    for (let i = 0; i < rowCount; i++) {
+      const value = data[i][header];
+      if (isEmpty(value)) {
+        codes[i] = -1;
+        continue;
+      }
+      let code = lookup.get(value);
+      if (code === undefined) {
+        code = dictionary.length;
+        dictionary.push(value);
+        lookup.set(value, code);
+      }
+      codes[i] = code;
+    }
+
+    columns[header] = {
+      kind: 'dictionary',
+      codes,
+      dictionary,
+      timestamps: isDateType(type) ? Float64Array.from(dictionary, value => parseDateValue(value) ?? NaN) : undefined,
+    };
+  });
+
+  return { rowCount, columns };
+};
+
+export const getCellValue = (column: Column, row: number): CellValue => {
+  if (column.kind === 'number') {
+    const value = column.values[row];
+    return Number.isNaN(value) ? null : value;
+  }
+  const code = column.codes[row];
+  return code < 0 ? null : column.dictionary[code];
+};
+
+/** Distinct non-empty values of a column, without scanning its rows for dictionaries. */
+export const getDistinctValues = (column: Column): CellValue[] => {
+  if (column.kind === 'dictionary') return [...column.dictionary];
+  const distinct = new Set<number>();
+  column.values.forEach(value => {
+    if (!Number.isNaN(value)) distinct.add(value);
+  });
+  return Array.from(distinct);
+};
+
+/** Earliest and latest date in a date column among the given rows, or null when none has one. */
+export const getDateRange = (column: Column, rows: RowSelection): { min: number; max: number } | null => {
+  if (column.kind !== 'dictionary' || !column.timestamps) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < rows.length; i++) {
+    const code = column.codes[rows[i]];
+    if (code < 0) continue;
+    const timestamp = column.timestamps[code];
+    if (timestamp < min) min = timestamp;
+    if (timestamp > max) max = timestamp;
+  }
+  return min <= max ? { min, max } : null;
+};
+
+// --- Filtering ---------------------------------------------------------------
+
+export const allRows = (store: ColumnStore): RowSelection => {
+  const rows = new Uint32Array(store.rowCount);
+  for (let i = 0; i < rows.length; i++) rows[i] = i;
+  return rows;
+};
+
+// Dictionary predicates are evaluated once per distinct value, then looked up per row
+const compilePredicate = (column: Column, predicate: Predicate): ((row: number) => boolean) => {
+  const test = compilePositive(column, predicate);
+  const negate = (predicate.op === 'in' || predicate.op === 'empty') && predicate.negate;
+  return negate ? row => !test(row) : test;
+};
+
+const compilePositive = (column: Column, predicate: Predicate): ((row: number) => boolean) => {
+  if (predicate.op === 'empty') {
+    return column.kind === 'number'
+      ? row => Number.isNaN(column.values[row])
+      : row => column.codes[row] < 0;
+  }
+
+  const min = predicate.op === 'between' ? predicate.min ?? -Infinity : 0;
+  const max = predicate.op === 'between' ? predicate.max ?? Infinity : 0;
+
+  if (column.kind === 'number') {
+    const { values } = column;
+    if (predicate.op === 'between') return row => values[row] >= min && values[row] <= max;
+    if (predicate.op === 'match') {
+      const { pattern } = predicate;
+      return row => !Number.isNaN(values[row]) && pattern.test(String(values[row]));
+    }
+    const accepted = new Set(predicate.values.map(Number));
+    return row => accepted.has(values[row]);
+  }
+
+  const { codes, dictionary, timestamps } = column;
+  const matches = new Uint8Array(dictionary.length);
+  dictionary.forEach((value, code) => {
+    let match: boolean;
+    if (predicate.op === 'in') {
+      match = predicate.values.includes(String(value));
+    } else if (predicate.op === 'match') {
+      match = predicate.pattern.test(String(value));
+    } else {
+      const comparable = timestamps ? timestamps[code] : toNumber(value);
+      match = comparable >= min && comparable <= max;
+    }
+    matches[code] = match ? 1 : 0;
+  });
+  return row => codes[row] >= 0 && matches[codes[row]] === 1;
+};
+
+/**
+ * Rows that pass every predicate, or any of them when combined with 'or'.
+ * Predicates on columns the store doesn't have are ignored, so one set of
+ * filters can be shared by several sheets.
+ */
+export const selectRows = (
+  store: ColumnStore,
+  where: Predicate[] = [],
+  rows?: RowSelection,
+  combinator: 'and' | 'or' = 'and'
+): RowSelection => {
+  const tests = where
+    .filter(predicate => store.columns[predicate.column])
+    .map(predicate => compilePredicate(store.columns[predicate.column], predicate));
+  const source = rows || allRows(store);
+  if (tests.length === 0) return source;
+
+  const any = combinator === 'or';
+  const selected = new Uint32Array(source.length);
+  let count = 0;
+  for (let i = 0; i < source.length; i++) {
+    const row = source[i];
+    let keep = !any;
+    for (let t = 0; t < tests.length && keep !== any; t++) keep = tests[t](row);
+    if (keep) selected[count++] = row;
+  }
+  return selected.slice(0, count);
+};
+
+/**
+ * Counts the values of a numeric column in equal-width bins between min and
+ * max. Values outside the bounds are left out.
+ */
+export const histogram = (column: Column, min: number, max: number, bins: number): number[] => {
+  const counts = new Array<number>(bins).fill(0);
+  if (column.kind !== 'number' || !(max >= min)) return counts;
+
+  const width = (max - min) / bins || 1;
+  column.values.forEach(value => {
+    if (!(value >= min && value <= max)) return;
+    counts[Math.min(bins - 1, Math.floor((value - min) / width))]++;
+  });
+  return counts;
+};
+
+// Value at a fraction of the way through sorted values, interpolating between neighbours
+const quantile = (sorted: Float64Array, q: number) => {
+  const position = (sorted.length - 1) * q;
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+/**
+ * Quartiles of a numeric column and the bounds beyond which its values are
+ * outliers: `fence` interquartile ranges outside the middle half. Null for
+ * other columns and for values without a spread.
+ */
+export const getOutlierBounds = (column: Column, fence = 3): { q1: number; q3: number; low: number; high: number; sorted: Float64Array } | null => {
+  if (column.kind !== 'number') return null;
+  const sorted = column.values.filter(value => !Number.isNaN(value)).sort();
+  if (sorted.length === 0) return null;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const spread = q3 - q1;
+  if (!(spread > 0)) return null;
+  return { q1, q3, low: q1 - fence * spread, high: q3 + fence * spread, sorted };
+};
+
+// --- Grouping and aggregation ------------------------------------------------
+
+export interface Groups {
+  labels: string[];
+  ids: Int32Array; // Group of each selected row, parallel to the selection
+  starts?: number[]; // Period start of each group when grouping by period, NaN for blanks
+}
+
+/**
+ * Puts every selected row in the group of its value, or of its period when a
+ * date column is cut by granularity. Groups keep the order in which their
+ * first row appears.
+ */
+export const assignGroups = (column: Column, rows: RowSelection, granularity?: DateGranularity): Groups => {
+  const labels: string[] = [];
+  const starts: number[] = [];
+  const ids = new Int32Array(rows.length);
+  let blankGroup = -1;
+
+  const addGroup = (label: string, start = NaN) => {
+    labels.push(label);
+    starts.push(start);
+    return labels.length - 1;
+  };
+
+  // Dates cut into periods: every dictionary entry maps to the start of its period once
+  if (granularity && column.kind === 'dictionary' && column.timestamps) {
+    const startOfCode = Float64Array.from(column.timestamps, t => (Number.isNaN(t) ? NaN : periodStart(t, granularity)));
+    const lookup = new Map<number, number>();
+    for (let i = 0; i < rows.length; i++) {
+      const code = column.codes[rows[i]];
+      const start = code < 0 ? NaN : startOfCode[code];
+      if (Number.isNaN(start)) {
+        if (blankGroup < 0) blankGroup = addGroup(BLANK_LABEL);
+        ids[i] = blankGroup;
+        continue;
+      }
+      let group = lookup.get(start);
+      if (group === undefined) {
+        group = addGroup(formatPeriod(start, granularity), start);
+        lookup.set(start, group);
+      }
+      ids[i] = group;
+    }
+    return { labels, ids, starts };
+  }
+
+  if (column.kind === 'number') {
+    const lookup = new Map<number, number>();
+    for (let i = 0; i < rows.length; i++) {
+      const value = column.values[rows[i]];
+      if (Number.isNaN(value)) {
+        if (blankGroup < 0) blankGroup = addGroup(BLANK_LABEL);
+        ids[i] = blankGroup;
+        continue;
+      }
+      let group = lookup.get(value);
+      if (group === undefined) {
+        group = addGroup(String(value));
+        lookup.set(value, group);
+      }
+      ids[i] = group;
+    }
+  } else {
+    const groupOfCode = new Int32Array(column.dictionary.length).fill(-1);
+    for (let i = 0; i < rows.length; i++) {
+      const code = column.codes[rows[i]];
+      if (code < 0) {
+        if (blankGroup < 0) blankGroup = addGroup(BLANK_LABEL);
+        ids[i] = blankGroup;
+        continue;
+      }
+      if (groupOfCode[code] < 0) groupOfCode[code] = addGroup(String(column.dictionary[code]));
+      ids[i] = groupOfCode[code];
+    }
+  }
+
+  return { labels, ids };
+};
+
+/**
+ * Reduces a column per group, one value for each group in order. Groups may
+ * come from several columns at once, as long as every selected row has one.
+ */
+export const aggregateGroups = (column: Column, rows: RowSelection, groups: Groups, aggregation: AggregationType): (number | null)[] => {
+  const groupCount = groups.labels.length;
+  const counts = new Float64Array(groupCount);
+
+  // Non-empty cells: NaN marks empty numbers, -1 empty codes
+  const isPresent = column.kind === 'number'
+    ? (row: number) => !Number.isNaN(column.values[row])
+    : (row: number) => column.codes[row] >= 0;
+
+  if (aggregation === AggregationType.COUNT) {
+    for (let i = 0; i < rows.length; i++) if (isPresent(rows[i])) counts[groups.ids[i]]++;
+    return Array.from(counts);
+  }
+
+  if (aggregation === AggregationType.DISTINCT_COUNT) {
+    const distinct = Array.from({ length: groupCount }, () => new Set<number>());
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      if (!isPresent(row)) continue;
+      distinct[groups.ids[i]].add(column.kind === 'number' ? column.values[row] : column.codes[row]);
+    }
+    return distinct.map(set => set.size);
+  }
+
+  // Dictionary values are converted once, so numbers stored as text still add up
+  const dictionaryNumbers = column.kind === 'dictionary' ? column.dictionary.map(toNumber) : null;
+  const numberAt = column.kind === 'number'
+    ? (row: number) => column.values[row]
+    : (row: number) => (column.codes[row] < 0 ? NaN : dictionaryNumbers![column.codes[row]]);
+
+  const sums = new Float64Array(groupCount);
+  const mins = new Float64Array(groupCount).fill(Infinity);
+  const maxs = new Float64Array(groupCount).fill(-Infinity);
+  const samples = aggregation === AggregationType.MEDIAN ? Array.from({ length: groupCount }, () => [] as number[]) : null;
+
+  for (let i = 0; i < rows.length; i++) {
+    const value = numberAt(rows[i]);
+    if (Number.isNaN(value)) continue;
+    const group = groups.ids[i];
+    counts[group]++;
+    sums[group] += value;
+    if (value < mins[group]) mins[group] = value;
+    if (value > maxs[group]) maxs[group] = value;
+    samples?.[group].push(value);
+  }
+
+  return Array.from({ length: groupCount }, (_, group) => {
+    if (counts[group] === 0) return null;
+    switch (aggregation) {
+      case AggregationType.SUM:
+        return sums[group];
+      case AggregationType.MEAN:
+        return sums[group] / counts[group];
+      case AggregationType.MIN:
+        return mins[group];
+      case AggregationType.MAX:
+        return maxs[group];
+      case AggregationType.MEDIAN: {
+        const sorted = samples![group].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+      }
+      default:
+        return null;
+    }
+  });
+};
+
+const compareValues = (a: CellValue | undefined, b: CellValue | undefined): number => {
+  if (isEmpty(a)) return isEmpty(b) ? 0 : 1; // Empty values sort last
+  if (isEmpty(b)) return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+/**
+ * Runs a query against a column store: filter, then either group and
+ * aggregate or project plain rows, then sort and limit. Only the rows of the
+ * final result are materialised as records.
+ */
+export const runQuery = (store: ColumnStore, query: Query): DataRow[] => {
+  const rows = selectRows(store, query.where, query.rows);
+  const aggregates = (query.aggregates || []).filter(spec => store.columns[spec.column]);
+  let result: DataRow[];
+
+  if (query.groupBy !== undefined || aggregates.length > 0) {
+    const groupColumn = query.groupBy !== undefined ? store.columns[query.groupBy] : undefined;
+    const groups: Groups = groupColumn
+      ? assignGroups(groupColumn, rows, query.granularity)
+      : { labels: [''], ids: new Int32Array(rows.length) };
+
+    result = groups.labels.map(label => (query.groupBy !== undefined ? { [query.groupBy]: label } : {}));
+    aggregates.forEach(spec => {
+      const values = aggregateGroups(store.columns[spec.column], rows, groups, spec.aggregation);
+      values.forEach((value, group) => {
+        result[group][spec.as || spec.column] = value;
+      });
+    });
+
+    // Periods are listed in time order, blanks last
+    const { starts } = groups;
+    if (starts) {
+      result = result
+        .map((record, group) => ({ record, start: starts[group] }))
+        .sort((a, b) => (Number.isNaN(a.start) ? 1 : Number.isNaN(b.start) ? -1 : a.start - b.start))
+        .map(({ record }) => record);
+    }
+  } else {
+    const keys = (query.select || Object.keys(store.columns)).filter(key => store.columns[key]);
+    // Without sorting, only the rows within the limit need to be built
+    const count = query.orderBy ? rows.length : Math.min(rows.length, query.limit ?? rows.length);
+    result = new Array(count);
+    for (let i = 0; i < count; i++) {
+      const record: DataRow = {};
+      keys.forEach(key => {
+        record[key] = getCellValue(store.columns[key], rows[i]);
+      });
+      result[i] = record;
+    }
+  }
+
+  if (query.orderBy) {
+    const { key, direction } = query.orderBy;
+    const sign = direction === 'desc' ? -1 : 1;
+    result.sort((a, b) => sign * compareValues(a[key], b[key]));
+  }
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+};
@@ -0,0 +1,171 @@
+import { ActiveFilters, AggregationType, DataSet, QuestionFilter, QuestionQuery } from '../types';
+import { findDataSet } from './dataService';
+import { applyFilters } from './filterService';
+import { AGGREGATION_LABELS, getColumnGranularity, resolveAggregation } from './aggregationService';
+import { DATE_GRANULARITIES } from './periodService';
+import { runQuery } from './queryService';
+import { isDateType, parseDateValue, toISODate } from './schemaService';
+import { findClosestColumn } from './validationService';
+
+// Key the aggregated measure is read back under, clear of any column name
+const VALUE_KEY = '\u0000value';
+
+export interface QuestionRow {
+  label: string; // Member of the groupBy column, or the measure for a single number
+  value: number | null;
+  previous?: number | null; // Comparisons only: the value in the earlier range
+  change?: number | null; // Relative to previous, 0.1 = +10%. Null when there is nothing to compare with.
+}
+
+export interface QuestionResult {
+  label: string; // e.g. 'Sum of Revenue'
+  rows: QuestionRow[];
+  groupCount: number; // Groups before the limit was applied
+  rowCount: number; // Data rows the answer was computed from
+  ranges?: { current: string; previous: string }; // Comparisons only
+}
+
+/**
+ * Checks a model's query against the loaded data the way charts are
+ * checked: columns are fuzzy-matched and settings that don't fit are
+ * dropped, each with a note. Throws when the measure can't be found, since
+ * nothing could be computed.
+ */
+export const validateQuestionQuery = (original: QuestionQuery, dataSets: DataSet[]): { query: QuestionQuery; notes: string[] } => {
+  const notes: string[] = [];
+  const dataSet = dataSets.find(d => d.sheetName === original.sheetName)
+    || dataSets.find(d => findClosestColumn(original.measure, d.headers) !== null)
+    || dataSets[0];
+  const { headers, schema } = dataSet;
+  const resolve = (name: string | undefined, role: string): string | null => {
+    const column = findClosestColumn(name || '', headers);
+    if (!column) notes.push(`Unknown ${role} "${name}" was left out.`);
+    else if (column !== name) notes.push(`${role[0].toUpperCase()}${role.slice(1)} "${name}" matched to "${column}".`);
+    return column;
+  };
+
+  const measure = findClosestColumn(original.measure, headers);
+  if (!measure) throw new Error(`The data has no column "${original.measure}" to answer with.`);
+  if (measure !== original.measure) notes.push(`Column "${original.measure}" matched to "${measure}".`);
+  const aggregation = resolveAggregation(original.aggregation, measure, schema);
+  if (original.aggregation && aggregation !== original.aggregation) {
+    notes.push(`"${measure}" can't be aggregated by ${original.aggregation}, so ${AGGREGATION_LABELS[aggregation].toLowerCase()} is used instead.`);
+  }
+  const query: QuestionQuery = { sheetName: dataSet.sheetName, measure, aggregation };
+
+  if (original.groupBy) {
+    const groupBy = resolve(original.groupBy, 'group-by column');
+    if (groupBy) {
+      query.groupBy = groupBy;
+      if (original.granularity && DATE_GRANULARITIES.includes(original.granularity) && isDateType(schema[groupBy]?.type)) {
+        query.granularity = original.granularity;
+      }
+    }
+  }
+
+  const filters: QuestionFilter[] = [];
+  (Array.isArray(original.filters) ? original.filters : []).forEach(filter => {
+    const column = resolve(filter?.column, 'filter column');
+    if (column) filters.push({ ...filter, column });
+  });
+  if (filters.length > 0) query.filters = filters;
+
+  if (original.compare) {
+    const { start, end, previousStart, previousEnd } = original.compare;
+    const column = resolve(original.compare.column, 'comparison column');
+    const dates = [start, end, previousStart, previousEnd].map(date => parseDateValue(date ?? null));
+    if (column && isDateType(schema[column]?.type) && dates.every(date => date !== null)) {
+      query.compare = { column, start, end, previousStart, previousEnd };
+    } else if (column) {
+      notes.push('The comparison needs a date column and four dates, so it was left out.');
+    }
+  }
+
+  if (original.sort === 'asc' || original.sort === 'desc') query.sort = original.sort;
+  if (typeof original.limit === 'number' && original.limit >= 1) query.limit = Math.floor(original.limit);
+  return { query, notes };
+};
+
+// Conditions of a question as dashboard filters, so they select rows the same way
+const toActiveFilters = (filters: QuestionFilter[] = []): ActiveFilters => {
+  const result: ActiveFilters = {};
+  filters.forEach(({ column, values, start, end, min, max }) => {
+    if (Array.isArray(values) && values.length > 0) result[column] = { kind: 'values', values: values.map(String), exclude: false };
+    else if (start || end) result[column] = { kind: 'date', start: start || '', end: end || '' };
+    else if (typeof min === 'number' || typeof max === 'number') result[column] = { kind: 'range', min: min ?? null, max: max ?? null };
+  });
+  return result;
+};
+
+const toISO = (date: string) => toISODate(parseDateValue(date)!);
+
+/**
+ * Computes the answer to a question on every row of its sheet: one number,
+ * or one per group, optionally against an earlier date range. Sorting ranks
+ * by value, or by relative change when comparing, with blanks last.
+ */
+export const runQuestionQuery = (dataSets: DataSet[], query: QuestionQuery): QuestionResult => {
+  const dataSet = findDataSet(dataSets, query.sheetName);
+  const filters = toActiveFilters(query.filters);
+  const granularity = query.groupBy ? query.granularity || getColumnGranularity(query.groupBy, dataSet.schema) : undefined;
+  const aggregation = resolveAggregation(query.aggregation, query.measure, dataSet.schema);
+
+  const compute = (range?: { start: string; end: string }) => {
+    const rows = applyFilters(dataSet, range && query.compare
+      ? { ...filters, [query.compare.column]: { kind: 'date', start: toISO(range.start), end: toISO(range.end) } }
+      : filters);
+    const records = runQuery(dataSet.columns, {
+      rows,
+      groupBy: query.groupBy,
+      granularity,
+      aggregates: [{ column: query.measure, aggregation, as: VALUE_KEY }],
+    });
+    const values = new Map<string, number | null>();
+    records.forEach(record => {
+      const value = record[VALUE_KEY];
+      values.set(query.groupBy ? String(record[query.groupBy]) : query.measure, typeof value === 'number' ? value : null);
+    });
+    return { values, rowCount: rows.length };
+  };
+
+  const { compare } = query;
+  const current = compute(compare);
+  let rows: QuestionRow[] = Array.from(current.values, ([label, value]) => ({ label, value }));
+  let rowCount = current.rowCount;
+
+  if (compare) {
+    const previous = compute({ start: compare.previousStart, end: compare.previousEnd });
+    rowCount += previous.rowCount;
+    // Groups that only had rows earlier shrank to nothing
+    const isCount = aggregation === AggregationType.COUNT || aggregation === AggregationType.DISTINCT_COUNT;
+    previous.values.forEach((_, label) => {
+      if (!current.values.has(label)) rows.push({ label, value: isCount ? 0 : null });
+    });
+    rows = rows.map(row => {
+      const before = previous.values.get(row.label) ?? null;
+      return { ...row, previous: before, change: row.value !== null && before ? (row.value - before) / Math.abs(before) : null };
+    });
+  }
+
+  if (query.sort) {
+    const sign = query.sort === 'desc' ? -1 : 1;
+    const key = (row: QuestionRow) => (compare ? row.change ?? null : row.value);
+    rows = [...rows].sort((a, b) => {
+      const keyA = key(a);
+      const keyB = key(b);
+      if (keyA === null || keyB === null) return Number(keyA === null) - Number(keyB === null);
+      return sign * (keyA - keyB);
+    });
+  }
+
+  return {
+    label: `${AGGREGATION_LABELS[aggregation]} of ${query.measure}`,
+    rows: query.limit ? rows.slice(0, query.limit) : rows,
+    groupCount: rows.length,
+    rowCount,
+    ranges: compare && {
+      current: `${toISO(compare.start)} to ${toISO(compare.end)}`,
+      previous: `${toISO(compare.previousStart)} to ${toISO(compare.previousEnd)}`,
+    },
+  };
+};
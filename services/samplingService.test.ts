@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { estimateTokens, prepareDataSample, sampleRows } from './samplingService';
+import { toISODate } from './schemaService';
+import { makeDataSet } from './testData';
+
+const range = (count: number) => Uint32Array.from({ length: count }, (_, i) => i);
+
+// 2000 orders over 2023; "West" only has a handful of them
+const orders = makeDataSet({
+  Region: Array.from({ length: 2000 }, (_, i) => (i % 500 === 7 ? 'West' : ['North', 'South', 'East'][i % 3])),
+  'Order Date': Array.from({ length: 2000 }, (_, i) => toISODate(new Date(2023, 0, 1 + Math.floor(i / 5.48)).getTime())),
+  Amount: Array.from({ length: 2000 }, (_, i) => String((i * 37) % 500)),
+}, 'Orders');
+
+describe('sampleRows', () => {
+  it('keeps selections that are small enough as they are', () => {
+    const rows = range(50);
+    expect(sampleRows(rows, 50)).toBe(rows);
+  });
+
+  it('picks the same rows every time for the same selection', () => {
+    expect(Array.from(sampleRows(range(10000), 100))).toEqual(Array.from(sampleRows(range(10000), 100)));
+  });
+
+  it('picks distinct rows of the selection, in row order', () => {
+    const rows = Uint32Array.from({ length: 5000 }, (_, i) => i * 3);
+    const sample = Array.from(sampleRows(rows, 200));
+    expect(sample).toHaveLength(200);
+    expect(new Set(sample).size).toBe(200);
+    expect(sample.every(row => row % 3 === 0)).toBe(true);
+    expect(sample).toEqual([...sample].sort((a, b) => a - b));
+  });
+
+  it('spreads the sample over the whole selection', () => {
+    const sample = sampleRows(range(10000), 100);
+    expect(sample[0]).toBeLessThan(1000);
+    expect(sample[sample.length - 1]).toBeGreaterThan(9000);
+  });
+});
+
+describe('prepareDataSample', () => {
+  it('gives the same description for the same data', () => {
+    expect(prepareDataSample([orders])).toBe(prepareDataSample([orders]));
+  });
+
+  it.each([2000, 4000, 8000])('stays within a budget of %i tokens', budget => {
+    expect(estimateTokens(prepareDataSample([orders], budget))).toBeLessThanOrEqual(budget);
+  });
+
+  it('samples every level of a categorical column, however rare', () => {
+    const { sample } = JSON.parse(prepareDataSample([orders], 8000));
+    expect(new Set(sample.map((row: { Region: string }) => row.Region))).toEqual(new Set(['North', 'South', 'East', 'West']));
+  });
+
+  it('samples across the whole date range', () => {
+    const { sample } = JSON.parse(prepareDataSample([orders], 8000));
+    const months = new Set(sample.map((row: { 'Order Date': string }) => row['Order Date'].slice(0, 7)));
+    expect(months.size).toBe(12);
+  });
+
+  it('shares the budget between sheets', () => {
+    const returns = makeDataSet({ Reason: ['Damaged', 'Late', 'Damaged'], Amount: ['10', '20', '5'] }, 'Returns');
+    const described = prepareDataSample([orders, returns], 4000);
+    expect(estimateTokens(described)).toBeLessThanOrEqual(4000);
+    expect(JSON.parse(described).sheets.map((sheet: { sheetName: string }) => sheet.sheetName)).toEqual(['Orders', 'Returns']);
+  });
+});
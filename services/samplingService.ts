@@ -0,0 +1,303 @@
+import { CellValue, ColumnType, DataRow, DataSet, DictionaryColumn, RowSelection } from '../types';
+import { getCellValue, getOutlierBounds } from './queryService';
+import { isDateType } from './schemaService';
+
+// Budgets offered in the settings, in estimated tokens
+export const SAMPLE_BUDGETS = [2000, 4000, 8000, 16000];
+export const DEFAULT_SAMPLE_TOKENS = 4000;
+
+// Rough size of a token in characters of JSON, the usual estimate for English text and numbers
+const CHARS_PER_TOKEN = 4;
+// Most rows a sheet's sample holds, however large the budget
+const MAX_SAMPLE_ROWS = 200;
+// Categorical columns with at most this many levels get every level into the sample
+const MAX_COVERED_LEVELS = 20;
+// Slices the date range is cut into, so the sample spans all of it
+const TIME_BUCKETS = 12;
+const TOP_VALUES = 5;
+const MAX_OUTLIER_ROWS = 5;
+// Longer cells are cut, so a single free-text column can't eat the budget
+const MAX_CELL_CHARS = 80;
+// Rows checked when looking for columns that nest inside each other
+const HIERARCHY_SAMPLE_ROWS = 10000;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Small seeded generator (mulberry32), so the same data always yields the same sample
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * At most `max` of the rows, picked at random but the same for the same
+ * selection, in row order.
+ */
+export const sampleRows = (rows: RowSelection, max: number): RowSelection => {
+  if (rows.length <= max) return rows;
+  const random = createRandom(rows.length);
+  // Partial Fisher-Yates: the first `max` slots end up a uniform pick
+  const shuffled = rows.slice();
+  for (let i = 0; i < max; i++) {
+    const j = i + Math.floor(random() * (shuffled.length - i));
+    const swap = shuffled[i];
+    shuffled[i] = shuffled[j];
+    shuffled[j] = swap;
+  }
+  return shuffled.subarray(0, max).sort();
+};
+
+/**
+ * Finds columns that nest: every value of the child belongs to a single value
+ * of the parent (City in Country in Region). Returns paths, top level first.
+ */
+const findHierarchies = (dataset: DataSet): string[][] => {
+  const { schema, columns, rowCount } = dataset;
+  const rows = Math.min(rowCount, HIERARCHY_SAMPLE_ROWS);
+  // Only repeated labels can form levels; mostly unique text nests inside anything
+  const candidates = dataset.headers.filter(header => {
+    const profile = schema[header];
+    return columns.columns[header]?.kind === 'dictionary'
+      && (profile.type === ColumnType.CATEGORICAL || profile.type === ColumnType.TEXT)
+      && profile.distinctCount > 1
+      && profile.distinctCount <= rowCount / 2;
+  });
+
+  const nests = (child: string, parent: string): boolean => {
+    const childColumn = columns.columns[child] as DictionaryColumn;
+    const parentColumn = columns.columns[parent] as DictionaryColumn;
+    const parentOf = new Int32Array(childColumn.dictionary.length).fill(-1);
+    for (let row = 0; row < rows; row++) {
+      const code = childColumn.codes[row];
+      const parentCode = parentColumn.codes[row];
+      if (code < 0 || parentCode < 0) continue;
+      if (parentOf[code] < 0) parentOf[code] = parentCode;
+      else if (parentOf[code] !== parentCode) return false;
+    }
+    return true;
+  };
+
+  // A column's parent is the closest coarser column it nests in
+  const parents = new Map<string, string>();
+  candidates.forEach(child => {
+    const parent = candidates
+      .filter(other => schema[other].distinctCount < schema[child].distinctCount && nests(child, other))
+      .sort((a, b) => schema[b].distinctCount - schema[a].distinctCount)[0];
+    if (parent) parents.set(child, parent);
+  });
+
+  const hasChild = new Set(parents.values());
+  return Array.from(parents.keys())
+    .filter(column => !hasChild.has(column))
+    .map(leaf => {
+      const path = [leaf];
+      while (parents.has(path[0])) path.unshift(parents.get(path[0])!);
+      return path;
+    });
+};
+
+const shorten = (value: CellValue): CellValue =>
+  typeof value === 'string' && value.length > MAX_CELL_CHARS ? `${value.slice(0, MAX_CELL_CHARS)}…` : value;
+
+// Most frequent values of a labelled column, with their counts
+const topValues = (column: DictionaryColumn): { value: CellValue; count: number }[] => {
+  const counts = new Uint32Array(column.dictionary.length);
+  column.codes.forEach(code => {
+    if (code >= 0) counts[code]++;
+  });
+  return Array.from(counts, (count, code) => ({ value: shorten(column.dictionary[code]), count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUES);
+};
+
+const profileColumns = (dataset: DataSet) =>
+  dataset.headers.map(header => {
+    const { name, type, nullCount, distinctCount, min, max, dateFormat } = dataset.schema[header];
+    const column = dataset.columns.columns[header];
+    const labelled = column.kind === 'dictionary' && !isDateType(type) && type !== ColumnType.ID;
+    return {
+      name,
+      type,
+      nullRate: dataset.rowCount > 0 ? Math.round((nullCount / dataset.rowCount) * 1000) / 1000 : 0,
+      distinctCount,
+      ...(min !== undefined ? { min, max } : {}),
+      ...(dateFormat ? { dateFormat } : {}),
+      ...(labelled ? { topValues: topValues(column as DictionaryColumn) } : {}),
+    };
+  });
+
+/**
+ * Rows in the order they join the sample, so any prefix is a sample of its
+ * own: first one row for every level of the small categorical columns, then
+ * rows taken in turn from each slice of category and date range, at random
+ * within a slice.
+ */
+const pickRows = (dataset: DataSet, random: () => number): number[] => {
+  const { schema, columns, rowCount } = dataset;
+  const picked: number[] = [];
+  const seen = new Set<number>();
+  const take = (row: number) => {
+    if (row < 0 || seen.has(row) || picked.length >= MAX_SAMPLE_ROWS) return;
+    seen.add(row);
+    picked.push(row);
+  };
+
+  const categories = dataset.headers
+    .filter(header => {
+      const profile = schema[header];
+      return columns.columns[header].kind === 'dictionary'
+        && (profile.type === ColumnType.CATEGORICAL || profile.type === ColumnType.BOOLEAN)
+        && profile.distinctCount >= 2 && profile.distinctCount <= MAX_COVERED_LEVELS;
+    })
+    .sort((a, b) => schema[a].distinctCount - schema[b].distinctCount);
+
+  // A random row per level, chosen in one pass by reservoir sampling
+  categories.forEach(header => {
+    const { codes, dictionary } = columns.columns[header] as DictionaryColumn;
+    const counts = new Uint32Array(dictionary.length);
+    const chosen = new Int32Array(dictionary.length).fill(-1);
+    for (let row = 0; row < rowCount; row++) {
+      const code = codes[row];
+      if (code < 0) continue;
+      counts[code]++;
+      if (random() * counts[code] < 1) chosen[code] = row;
+    }
+    chosen.forEach(take);
+  });
+
+  // Slices: the smallest categorical column crossed with equal stretches of the first date column
+  const strata = columns.columns[categories[0]] as DictionaryColumn | undefined;
+  const dateHeader = dataset.headers.find(header => isDateType(schema[header]?.type));
+  const dates = dateHeader ? columns.columns[dateHeader] as DictionaryColumn : undefined;
+  let min = Infinity;
+  let max = -Infinity;
+  dates?.timestamps?.forEach(timestamp => {
+    if (timestamp < min) min = timestamp;
+    if (timestamp > max) max = timestamp;
+  });
+  const bucketOf = (row: number) => {
+    const code = dates ? dates.codes[row] : -1;
+    const timestamp = code >= 0 ? dates!.timestamps![code] : NaN;
+    if (Number.isNaN(timestamp) || !(max > min)) return 0;
+    return Math.min(TIME_BUCKETS - 1, Math.floor(((timestamp - min) / (max - min)) * TIME_BUCKETS));
+  };
+
+  const slices = new Map<number, number[]>();
+  for (let row = 0; row < rowCount; row++) {
+    const key = (strata ? strata.codes[row] + 1 : 0) * TIME_BUCKETS + bucketOf(row);
+    let slice = slices.get(key);
+    if (!slice) {
+      slice = [];
+      slices.set(key, slice);
+    }
+    slice.push(row);
+  }
+
+  // Round-robin over the slices, each time drawing a row not taken yet
+  const pending = Array.from(slices.values());
+  while (pending.length > 0 && picked.length < MAX_SAMPLE_ROWS) {
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const slice = pending[i];
+      const index = Math.floor(random() * slice.length);
+      const row = slice[index];
+      slice[index] = slice[slice.length - 1];
+      slice.pop();
+      take(row);
+      if (slice.length === 0) pending.splice(i, 1);
+    }
+  }
+  return picked;
+};
+
+// The most extreme row of every numeric column that has outliers, furthest out first
+const findOutliers = (dataset: DataSet): { column: string; row: number }[] =>
+  dataset.headers
+    .map(header => {
+      const column = dataset.columns.columns[header];
+      const bounds = getOutlierBounds(column);
+      if (!bounds || column.kind !== 'number') return null;
+      let row = -1;
+      let distance = 0;
+      column.values.forEach((value, index) => {
+        const beyond = value > bounds.high ? value - bounds.high : value < bounds.low ? bounds.low - value : 0;
+        if (beyond / (bounds.q3 - bounds.q1) > distance) {
+          distance = beyond / (bounds.q3 - bounds.q1);
+          row = index;
+        }
+      });
+      return row >= 0 ? { column: header, row, distance } : null;
+    })
+    .filter((outlier): outlier is { column: string; row: number; distance: number } => outlier !== null)
+    .sort((a, b) => b.distance - a.distance)
+    .slice(0, MAX_OUTLIER_ROWS)
+    .map(({ column, row }) => ({ column, row }));
+
+const toRecord = (dataset: DataSet, row: number): DataRow => {
+  const record: DataRow = {};
+  dataset.headers.forEach(header => {
+    record[header] = shorten(getCellValue(dataset.columns.columns[header], row));
+  });
+  return record;
+};
+
+/**
+ * Describes a sheet within a character budget: column profiles, a stratified
+ * sample and outlier rows. The sample takes as many rows as fit; only the
+ * profiles themselves can exceed a budget too small for them.
+ */
+const describeDataSet = (dataset: DataSet, maxChars: number) => {
+  const random = createRandom(dataset.rowCount * 31 + dataset.headers.length);
+  const hierarchies = findHierarchies(dataset).map(path => path.join(' > '));
+  const base = {
+    headers: dataset.headers,
+    rowCount: dataset.rowCount,
+    columns: profileColumns(dataset),
+    ...(hierarchies.length > 0 ? { hierarchies } : {}),
+  };
+
+  const outliers = findOutliers(dataset).map(({ column, row }) => ({ column, row: toRecord(dataset, row) }));
+  const withOutliers = outliers.length > 0 && JSON.stringify({ ...base, outliers }).length <= maxChars;
+  const payload = withOutliers ? { ...base, outliers } : base;
+
+  // Picked rows are a valid sample at any length, so the longest prefix that fits is kept
+  const picked = pickRows(dataset, random);
+  const sampleOf = (count: number) => picked.slice(0, count).sort((a, b) => a - b).map(row => toRecord(dataset, row));
+  const fits = (count: number) => JSON.stringify({ ...payload, sample: sampleOf(count) }).length <= maxChars;
+  let low = 0;
+  let high = picked.length;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(middle)) low = middle;
+    else high = middle - 1;
+  }
+
+  return { ...payload, sample: sampleOf(low) };
+};
+
+/**
+ * Prepares the data for an AI model: per sheet, a profile of every column
+ * (type, range, null rate, top values), rows sampled across categories and
+ * the whole date range, and the most extreme rows. The result stays within
+ * `maxTokens` (estimated), shared evenly between sheets.
+ */
+export const prepareDataSample = (dataSets: DataSet[], maxTokens = DEFAULT_SAMPLE_TOKENS): string => {
+  // Characters left for each sheet's own description once the wrapping JSON is accounted for
+  const perSheet = Math.floor((maxTokens * CHARS_PER_TOKEN) / dataSets.length) - (dataSets.length > 1 ? 32 : 0);
+
+  if (dataSets.length === 1) {
+    return JSON.stringify(describeDataSet(dataSets[0], perSheet));
+  }
+
+  return JSON.stringify({
+    sheets: dataSets.map(dataset => ({
+      sheetName: dataset.sheetName,
+      ...describeDataSet(dataset, perSheet - JSON.stringify(dataset.sheetName ?? '').length),
+    })),
+  });
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnType } from '../types';
+import { createColumnBuilder } from './columnService';
+import { runQuery } from './queryService';
+import { profileColumn } from './schemaService';
+import { applyTransforms } from './transformService';
+import { makeDataSet } from './testData';
+
+const profile = (name: string, cells: (string | null)[]) => {
+  const builder = createColumnBuilder();
+  cells.forEach(cell => builder.push(cell));
+  return profileColumn(name, builder.finish());
+};
+
+describe('profileColumn', () => {
+  it('reads dates day first when a day is above 12', () => {
+    const { profile: date } = profile('Date', ['01/02/2023', '13/04/2023', '05/06/2023']);
+    expect(date).toMatchObject({ type: ColumnType.DATE, dateFormat: 'DD/MM/YYYY', min: '2023-02-01', max: '2023-06-05' });
+  });
+
+  it('reads dates month first when a day in second place is above 12', () => {
+    const { profile: date } = profile('Date', ['01/02/2023', '04/13/2023', '05/06/2023']);
+    expect(date).toMatchObject({ type: ColumnType.DATE, dateFormat: 'MM/DD/YYYY', min: '2023-01-02', max: '2023-05-06' });
+  });
+
+  it('leaves dates as text when they read either way', () => {
+    const { profile: date, column } = profile('Date', ['01/02/2023', '03/04/2023 10:00', '12/11/2023']);
+    expect(date.type).toBe(ColumnType.CATEGORICAL);
+    expect(date.ambiguousDates).toEqual({ type: ColumnType.DATETIME, formats: ['MM/DD/YYYY', 'DD/MM/YYYY'] });
+    expect(column.kind === 'dictionary' && column.dictionary).toEqual(['01/02/2023', '03/04/2023 10:00', '12/11/2023']);
+  });
+
+  it('counts the values that did not fit the type and were left empty', () => {
+    const amounts = Array.from({ length: 30 }, (_, i) => String(i * 2.5));
+    const { profile: amount, column } = profile('Amount', [...amounts, 'n/a', null]);
+    expect(amount).toMatchObject({ type: ColumnType.CURRENCY, nullCount: 2, coercedCount: 1 });
+    expect(column.kind === 'number' && Number.isNaN(column.values[30])).toBe(true);
+
+    const { profile: date } = profile('Date', [...Array.from({ length: 30 }, (_, i) => `2023-01-${String(i + 1).padStart(2, '0')}`), 'soon']);
+    expect(date).toMatchObject({ type: ColumnType.DATE, nullCount: 1, coercedCount: 1 });
+  });
+
+  it('has no count when every value fit', () => {
+    expect(profile('Amount', ['1', '2', null]).profile.coercedCount).toBeUndefined();
+  });
+});
+
+describe('date format picked for a column', () => {
+  const sheet = makeDataSet({ Date: ['01/02/2023', '03/04/2023', '12/11/2023'] });
+  const readAs = (dataSet: typeof sheet, column: string, dateFormat: string) =>
+    applyTransforms([dataSet], [{ kind: 'changeType', column, type: ColumnType.DATE, dateFormat }]).dataSets[0];
+
+  it('reads the text in that format', () => {
+    const read = readAs(sheet, 'Date', 'DD/MM/YYYY');
+    expect(read.schema.Date).toMatchObject({ type: ColumnType.DATE, dateFormat: 'DD/MM/YYYY' });
+    expect(runQuery(read.columns, { select: ['Date'] }).map(row => row.Date)).toEqual(['2023-02-01', '2023-04-03', '2023-11-12']);
+  });
+
+  it('keeps dates that were already read', () => {
+    const again = readAs(readAs(sheet, 'Date', 'DD/MM/YYYY'), 'Date', 'DD/MM/YYYY');
+    expect(runQuery(again.columns, { select: ['Date'] }).map(row => row.Date)).toEqual(['2023-02-01', '2023-04-03', '2023-11-12']);
+  });
+
+  it('follows the column when it is renamed', () => {
+    const [renamed] = applyTransforms([sheet], [
+      { kind: 'changeType', column: 'Date', type: ColumnType.DATE, dateFormat: 'MM/DD/YYYY' },
+      { kind: 'rename', column: 'Date', to: 'Ordered' },
+    ]).dataSets;
+    expect(runQuery(renamed.columns, { select: ['Ordered'] }).map(row => row.Ordered)).toEqual(['2023-01-02', '2023-03-04', '2023-12-11']);
+  });
+});
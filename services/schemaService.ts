@@ -0,0 +1,500 @@
+import { Column, ColumnProfile, ColumnStore, ColumnType, DataRow, DataSchema, DictionaryColumn } from '../types';
+import { toDictionary } from './columnService';
+
+type CellValue = DataRow[string];
+
+// Share of non-empty values that must match a type for it to be chosen
+const MATCH_RATIO = 0.95;
+// Columns with at most this many distinct values are always categorical
+const CATEGORICAL_MAX_DISTINCT = 50;
+
+const NUMERIC_TYPES = [ColumnType.INTEGER, ColumnType.DECIMAL, ColumnType.CURRENCY, ColumnType.PERCENT];
+const DATE_TYPES = [ColumnType.DATE, ColumnType.DATETIME];
+
+const ID_HEADER = /(^id$|[\s_-]id$|^id[\s_-]|identifier|uuid|guid|\bcode$|\bkey$|\bno\.?$|number$)/i;
+const CURRENCY_HEADER = /(price|revenue|cost|amount|sales|salary|income|expense|profit|budget|spend|fee|payment|balance|umsatz|betrag|preis|kosten)/i;
+const PERCENT_HEADER = /(percent|pct|%)/i;
+const BOOLEAN_STRING = /^(true|false|yes|no|y|n|ja|nein)$/i;
+const TRUE_STRING = /^(true|yes|y|ja)$/i;
+const CURRENCY_SYMBOL = /[$€£¥₹]|^(USD|EUR|GBP|CHF)\s|\s(USD|EUR|GBP|CHF)$/i;
+
+export const isNumericType = (type: ColumnType | undefined): boolean =>
+  type !== undefined && NUMERIC_TYPES.includes(type);
+
+export const isDateType = (type: ColumnType | undefined): boolean =>
+  type !== undefined && DATE_TYPES.includes(type);
+
+const isEmpty = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+// A distinct non-empty cell of a column and the number of rows holding it
+interface Entry<T extends CellValue = CellValue> {
+  value: T;
+  count: number;
+}
+
+const rowsOf = (entries: { count: number }[]): number => entries.reduce((acc, entry) => acc + entry.count, 0);
+
+// --- Numbers ---------------------------------------------------------------
+
+interface ParsedNumber {
+  value: number;
+  currency: boolean;
+  percent: boolean;
+}
+
+const parseNumber = (value: CellValue): ParsedNumber | null => {
+  if (typeof value === 'number') return isFinite(value) ? { value, currency: false, percent: false } : null;
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim();
+  const currency = CURRENCY_SYMBOL.test(text);
+  const percent = text.endsWith('%');
+  const negative = /^\(.*\)$/.test(text);
+
+  text = text
+    .replace(CURRENCY_SYMBOL, '')
+    .replace(/[%()\s]/g, '')
+    .replace(/,/g, '');
+
+  if (text === '' || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) return null;
+
+  const parsed = Number(text);
+  return { value: negative ? -parsed : parsed, currency, percent };
+};
+
+// --- Dates -----------------------------------------------------------------
+
+interface DateRule {
+  format: string;
+  pattern: RegExp;
+  // Maps regex groups to [year, month, day, hour, minute, second]
+  parts: (m: RegExpMatchArray) => number[];
+}
+
+const TIME = '(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2}))?(?:\\.\\d+)?(?:Z|[+-]\\d{2}:?\\d{2})?)?';
+
+const time = (m: RegExpMatchArray, offset: number) =>
+  [Number(m[offset] || 0), Number(m[offset + 1] || 0), Number(m[offset + 2] || 0)];
+
+const DATE_RULES: DateRule[] = [
+  {
+    format: 'YYYY-MM-DD',
+    pattern: new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})${TIME}$`),
+    parts: m => [Number(m[1]), Number(m[2]), Number(m[3]), ...time(m, 4)],
+  },
+  {
+    format: 'YYYY/MM/DD',
+    pattern: new RegExp(`^(\\d{4})/(\\d{1,2})/(\\d{1,2})${TIME}$`),
+    parts: m => [Number(m[1]), Number(m[2]), Number(m[3]), ...time(m, 4)],
+  },
+  {
+    format: 'DD.MM.YYYY',
+    pattern: new RegExp(`^(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${TIME}$`),
+    parts: m => [Number(m[3]), Number(m[2]), Number(m[1]), ...time(m, 4)],
+  },
+  {
+    format: 'MM/DD/YYYY',
+    pattern: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME}$`),
+    parts: m => [Number(m[3]), Number(m[1]), Number(m[2]), ...time(m, 4)],
+  },
+  {
+    format: 'DD/MM/YYYY',
+    pattern: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME}$`),
+    parts: m => [Number(m[3]), Number(m[2]), Number(m[1]), ...time(m, 4)],
+  },
+  {
+    format: 'DD-MM-YYYY',
+    pattern: new RegExp(`^(\\d{1,2})-(\\d{1,2})-(\\d{4})${TIME}$`),
+    parts: m => [Number(m[3]), Number(m[2]), Number(m[1]), ...time(m, 4)],
+  },
+];
+
+/** Formats a date column can be read in, for the user to pick from. */
+export const DATE_FORMATS = DATE_RULES.map(rule => rule.format);
+const ISO_FORMAT = DATE_FORMATS[0];
+
+// Fallback for formats like "Jan 5, 2023", handled by the browser's parser
+const NATIVE_FORMAT = 'native';
+const DATE_WORD = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec|january|february|march|april|june|july|august|september|october|november|december|mon|tue|wed|thu|fri|sat|sun|am|pm|gmt|utc|t|z)$/i;
+
+const parseWithRule = (text: string, rule: DateRule): number | null => {
+  const match = text.match(rule.pattern);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute, second] = rule.parts(match);
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 59) return null;
+
+  const date = new Date(year, month - 1, day, hour, minute, second);
+  // Reject overflow such as 31.02.2023
+  if (date.getMonth() !== month - 1) return null;
+  return date.getTime();
+};
+
+/**
+ * Parses a cell into a local timestamp (ms). When no format is given,
+ * every known format is tried in order.
+ */
+export const parseDateValue = (value: CellValue | undefined, format?: string): number | null => {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const text = value.trim();
+
+  const rules = format ? DATE_RULES.filter(rule => rule.format === format) : DATE_RULES;
+  for (const rule of rules) {
+    const timestamp = parseWithRule(text, rule);
+    if (timestamp !== null) return timestamp;
+  }
+
+  if (!format || format === NATIVE_FORMAT) {
+    // Browsers parse almost anything ("INV-1", "2023"), so require a year and only date words
+    if (!/\b\d{4}\b/.test(text) || !isNaN(Number(text))) return null;
+    if (!(text.match(/[a-z]+/gi) || []).every(word => DATE_WORD.test(word))) return null;
+    const timestamp = Date.parse(text);
+    return isNaN(timestamp) ? null : timestamp;
+  }
+  return null;
+};
+
+// Formats that read the sample about equally well. Month-first and day-first
+// dates match the same text and only differ where a part is above 12, so
+// the format reading the most rows wins; a tie is settled on every value,
+// and is left for the user to decide when even that doesn't tell them apart.
+const detectDateFormats = (entries: Entry<string>[]): string[] => {
+  const sample = entries.slice(0, 1000);
+  const required = Math.ceil(rowsOf(sample) * MATCH_RATIO);
+  const matching = (rows: Entry<string>[], rule: DateRule) =>
+    rowsOf(rows.filter(e => parseWithRule(e.value.trim(), rule) !== null));
+
+  const matches = DATE_RULES.map(rule => ({ rule, rows: matching(sample, rule) }));
+  const best = Math.max(...matches.map(m => m.rows));
+  if (best >= required) {
+    let tied = matches.filter(m => m.rows === best).map(m => m.rule);
+    if (tied.length > 1 && entries.length > sample.length) {
+      const counts = tied.map(rule => matching(entries, rule));
+      tied = tied.filter((_, i) => counts[i] === Math.max(...counts));
+    }
+    return tied.map(rule => rule.format);
+  }
+
+  const native = rowsOf(sample.filter(e => parseDateValue(e.value, NATIVE_FORMAT) !== null));
+  return native >= required ? [NATIVE_FORMAT] : [];
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Formats a timestamp as a local ISO date ('YYYY-MM-DD'), optionally with time.
+ */
+export const toISODate = (timestamp: number, withTime = false): string => {
+  const d = new Date(timestamp);
+  const date = `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+  return withTime ? `${date}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}` : date;
+};
+
+// --- Profiling ---------------------------------------------------------------
+
+interface ColumnInference {
+  profile: ColumnProfile;
+  // Normalises a raw cell to the inferred type
+  coerce?: (value: CellValue) => CellValue;
+}
+
+// Coerced cells are counted in the profile as well as among the empty ones
+const withCoerced = (profile: ColumnProfile, coerced: number): ColumnProfile =>
+  coerced > 0 ? { ...profile, nullCount: profile.nullCount + coerced, coercedCount: coerced } : profile;
+
+// Percentages and amounts by their symbols or the header; unique whole numbers under an ID header are identifiers
+const numberType = (name: string, found: { allIntegers: boolean; isUnique: boolean; percent: boolean; currency: boolean }): ColumnType => {
+  if (found.percent || PERCENT_HEADER.test(name)) return ColumnType.PERCENT;
+  if (found.currency || CURRENCY_HEADER.test(name)) return ColumnType.CURRENCY;
+  if (found.allIntegers && found.isUnique && ID_HEADER.test(name)) return ColumnType.ID;
+  return found.allIntegers ? ColumnType.INTEGER : ColumnType.DECIMAL;
+};
+
+const inferColumn = (name: string, entries: Entry[], blanks: number): ColumnInference => {
+  const present = rowsOf(entries);
+  const base = {
+    name,
+    nullCount: blanks,
+    distinctCount: new Set(entries.map(e => String(e.value))).size,
+  };
+
+  if (present === 0) {
+    return { profile: { ...base, type: ColumnType.TEXT } };
+  }
+
+  const required = Math.ceil(present * MATCH_RATIO);
+  const isUnique = base.distinctCount === present;
+
+  // Booleans
+  if (entries.every(({ value: v }) => typeof v === 'boolean' || (typeof v === 'string' && BOOLEAN_STRING.test(v.trim())))) {
+    return {
+      profile: { ...base, type: ColumnType.BOOLEAN },
+      coerce: v => (typeof v === 'string' ? TRUE_STRING.test(v.trim()) : v),
+    };
+  }
+
+  // Numbers (plain, currency, percent)
+  const numbers = entries.flatMap(e => {
+    const parsed = parseNumber(e.value);
+    return parsed ? [{ ...parsed, count: e.count }] : [];
+  });
+  if (rowsOf(numbers) >= required) {
+    const values = numbers.map(n => n.value);
+    const type = numberType(name, {
+      allIntegers: values.every(Number.isInteger),
+      isUnique,
+      percent: numbers.some(n => n.percent),
+      currency: numbers.some(n => n.currency),
+    });
+
+    return {
+      profile: withCoerced({
+        ...base,
+        type,
+        min: values.reduce((a, b) => Math.min(a, b), Infinity),
+        max: values.reduce((a, b) => Math.max(a, b), -Infinity),
+      }, present - rowsOf(numbers)),
+      coerce: v => (typeof v === 'number' || isEmpty(v) ? v : parseNumber(v)?.value ?? null),
+    };
+  }
+
+  // Dates
+  const strings = entries.filter((e): e is Entry<string> => typeof e.value === 'string');
+  const dateFormats = rowsOf(strings) >= required ? detectDateFormats(strings) : [];
+  let ambiguousDates: ColumnProfile['ambiguousDates'];
+  if (dateFormats.length > 0) {
+    // Tied formats read the same cells, with the same times
+    const [dateFormat] = dateFormats;
+    const parsed = strings.flatMap(e => {
+      const timestamp = parseDateValue(e.value, dateFormat);
+      return timestamp === null ? [] : [{ value: timestamp, count: e.count }];
+    });
+    const timestamps = parsed.map(e => e.value);
+    const hasTime = timestamps.some(t => {
+      const d = new Date(t);
+      return d.getHours() !== 0 || d.getMinutes() !== 0 || d.getSeconds() !== 0;
+    });
+    const type = hasTime ? ColumnType.DATETIME : ColumnType.DATE;
+
+    if (dateFormats.length > 1) {
+      ambiguousDates = { type, formats: dateFormats };
+    } else {
+      const min = timestamps.reduce((a, b) => Math.min(a, b), Infinity);
+      const max = timestamps.reduce((a, b) => Math.max(a, b), -Infinity);
+
+      return {
+        profile: withCoerced({
+          ...base,
+          type,
+          dateFormat,
+          min: toISODate(min, hasTime),
+          max: toISODate(max, hasTime),
+        }, present - rowsOf(parsed)),
+        // Store dates as ISO strings so every consumer can parse and sort them the same way
+        coerce: v => {
+          const timestamp = parseDateValue(v, dateFormat);
+          return timestamp === null ? null : toISODate(timestamp, hasTime);
+        },
+      };
+    }
+  }
+
+  // Text: identifiers, categories or free text
+  const averageLength = entries.reduce<number>((acc, e) => acc + String(e.value).length * e.count, 0) / present;
+
+  let type = ColumnType.TEXT;
+  if (isUnique && present > 1 && (ID_HEADER.test(name) || entries.every(e => /^[A-Za-z]*[-_#]?\d+$/.test(String(e.value))))) {
+    type = ColumnType.ID;
+  } else if (base.distinctCount <= CATEGORICAL_MAX_DISTINCT || (base.distinctCount / present <= 0.2 && averageLength <= 40)) {
+    type = ColumnType.CATEGORICAL;
+  }
+
+  return { profile: ambiguousDates ? { ...base, type, ambiguousDates } : { ...base, type } };
+};
+
+// Converts a cell to a type the user picked; cells that don't fit become empty.
+// Dates in another format than `dateFormat` are only kept when already ISO.
+const convertCell = (value: CellValue, type: ColumnType, dateFormat?: string): CellValue => {
+  if (isNumericType(type)) {
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return parseNumber(value)?.value ?? null;
+  }
+  if (isDateType(type)) {
+    const text = typeof value === 'string' ? value : null;
+    const timestamp = dateFormat ? parseDateValue(text, dateFormat) ?? parseDateValue(text, ISO_FORMAT) : parseDateValue(text);
+    return timestamp === null ? null : toISODate(timestamp, type === ColumnType.DATETIME);
+  }
+  if (type === ColumnType.BOOLEAN) {
+    if (typeof value !== 'string') return typeof value === 'number' ? value !== 0 : value;
+    return BOOLEAN_STRING.test(value.trim()) ? TRUE_STRING.test(value.trim()) : null;
+  }
+  return String(value);
+};
+
+const convertColumn = (name: string, entries: Entry[], blanks: number, type: ColumnType, dateFormat?: string): ColumnInference => {
+  const present = entries
+    .map(e => ({ value: convertCell(e.value, type, dateFormat), count: e.count }))
+    .filter(e => e.value !== null);
+  const profile: ColumnProfile = withCoerced({
+    name,
+    type,
+    nullCount: blanks,
+    distinctCount: new Set(present.map(e => String(e.value))).size,
+  }, rowsOf(entries) - rowsOf(present));
+  if (dateFormat && isDateType(type)) profile.dateFormat = dateFormat;
+
+  // ISO dates sort as text, so both kinds of range come from a plain comparison
+  if (present.length > 0 && (isNumericType(type) || isDateType(type))) {
+    const values = present.map(e => e.value);
+    profile.min = values.reduce((a, b) => (b! < a! ? b : a)) as number | string;
+    profile.max = values.reduce((a, b) => (b! > a! ? b : a)) as number | string;
+  }
+  return { profile, coerce: v => convertCell(v, type, dateFormat) };
+};
+
+// Rows per dictionary entry; entries no row uses any more (after rows were dropped) count zero
+const countCodes = (column: DictionaryColumn): { counts: Int32Array; blanks: number } => {
+  const counts = new Int32Array(column.dictionary.length);
+  let blanks = 0;
+  column.codes.forEach(code => {
+    if (code < 0) blanks++;
+    else counts[code]++;
+  });
+  return { counts, blanks };
+};
+
+/**
+ * Writes a column in its typed form: measures become a Float64Array, all
+ * other types a dictionary of the coerced values. Coercion can give distinct
+ * cells the same value ("1/2/2023" and "01/02/2023"), so the dictionary is
+ * built again, without entries no row uses. Date dictionaries carry their
+ * parsed timestamps so date filters never parse strings per row.
+ */
+const encodeColumn = (
+  column: DictionaryColumn,
+  counts: Int32Array,
+  type: ColumnType,
+  coerce: (value: CellValue) => CellValue = v => v
+): Column => {
+  const coerced = column.dictionary.map((value, code) => (counts[code] === 0 || isEmpty(value) ? null : coerce(value)));
+
+  if (isNumericType(type)) {
+    const numbers = Float64Array.from(coerced, value => (typeof value === 'number' ? value : NaN));
+    const values = new Float64Array(column.codes.length);
+    column.codes.forEach((code, row) => {
+      values[row] = code < 0 ? NaN : numbers[code];
+    });
+    return { kind: 'number', values };
+  }
+
+  const dictionary: CellValue[] = [];
+  const lookup = new Map<CellValue, number>();
+  const remap = Int32Array.from(coerced, value => {
+    if (isEmpty(value)) return -1;
+    let code = lookup.get(value);
+    if (code === undefined) {
+      code = dictionary.length;
+      dictionary.push(value);
+      lookup.set(value, code);
+    }
+    return code;
+  });
+
+  return {
+    kind: 'dictionary',
+    codes: column.codes.map(code => (code < 0 ? -1 : remap[code])),
+    dictionary,
+    timestamps: isDateType(type) ? Float64Array.from(dictionary, value => parseDateValue(value) ?? NaN) : undefined,
+  };
+};
+
+// Columns that already hold numbers are profiled straight from their values.
+// Without a type one is inferred, which may turn out not to be a measure.
+const profileNumbers = (name: string, values: Float64Array, type?: ColumnType): ColumnProfile => {
+  const distinct = new Set<number>();
+  let nullCount = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let allIntegers = true;
+  values.forEach(value => {
+    if (Number.isNaN(value)) {
+      nullCount++;
+      return;
+    }
+    distinct.add(value);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    if (!Number.isInteger(value)) allIntegers = false;
+  });
+
+  const isUnique = distinct.size === values.length - nullCount;
+  const profile: ColumnProfile = {
+    name,
+    type: type ?? (distinct.size === 0 ? ColumnType.TEXT : numberType(name, { allIntegers, isUnique, percent: false, currency: false })),
+    nullCount,
+    distinctCount: distinct.size,
+  };
+  if (distinct.size > 0) {
+    profile.min = min;
+    profile.max = max;
+  }
+  return profile;
+};
+
+/**
+ * Profiles one column and writes it in its typed form (numbers, booleans,
+ * ISO dates), so downstream consumers never have to guess again. Only the
+ * distinct cells are parsed, each weighted by the rows holding it. With
+ * `type` the column is converted to that type instead of being inferred,
+ * reading dates in `dateFormat` when one is given.
+ */
+export const profileColumn = (
+  name: string,
+  column: Column,
+  type?: ColumnType,
+  dateFormat?: string
+): { profile: ColumnProfile; column: Column } => {
+  if (column.kind === 'number' && (type === undefined || isNumericType(type))) {
+    const profile = profileNumbers(name, column.values, type);
+    if (isNumericType(profile.type)) return { profile, column };
+  }
+
+  const raw = toDictionary(column);
+  const { counts, blanks } = countCodes(raw);
+  const entries: Entry[] = [];
+  let emptyRows = blanks;
+  raw.dictionary.forEach((value, code) => {
+    if (counts[code] === 0) return;
+    if (isEmpty(value)) emptyRows += counts[code];
+    else entries.push({ value, count: counts[code] });
+  });
+
+  const { profile, coerce } = type ? convertColumn(name, entries, emptyRows, type, dateFormat) : inferColumn(name, entries, emptyRows);
+  return { profile, column: encodeColumn(raw, counts, profile.type, coerce) };
+};
+
+/**
+ * Profiles every column of a sheet and builds its column store. Columns
+ * listed in `types` are converted to that type instead of being inferred,
+ * those in `dateFormats` read in that format.
+ */
+export const profileColumns = (
+  headers: string[],
+  store: ColumnStore,
+  types: Record<string, ColumnType> = {},
+  dateFormats: Record<string, string> = {}
+): { schema: DataSchema; columns: ColumnStore } => {
+  const schema: DataSchema = {};
+  const columns: Record<string, Column> = {};
+
+  headers.forEach(header => {
+    const type = Object.prototype.hasOwnProperty.call(types, header) ? types[header] : undefined;
+    const dateFormat = Object.prototype.hasOwnProperty.call(dateFormats, header) ? dateFormats[header] : undefined;
+    const profiled = profileColumn(header, store.columns[header], type, dateFormat);
+    schema[header] = profiled.profile;
+    columns[header] = profiled.column;
+  });
+
+  return { schema, columns: { rowCount: store.rowCount, columns } };
+};
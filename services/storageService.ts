@@ -0,0 +1,168 @@
+import { ActiveFilters, DashboardConfig, DashboardVersion, DataRow, DataSet, FilterCombinator, SavedDashboard } from '../types';
+import { buildColumnStore } from './queryService';
+
+const DB_NAME = 'insightflow';
+const DB_VERSION = 1;
+const DASHBOARDS = 'dashboards';
+const DATASETS = 'datasets';
+// Older versions are dropped once a dashboard has this many
+const MAX_VERSIONS = 25;
+
+// Sheets saved before the column store existed only have their rows as records
+type StoredDataSet = DataSet | (Omit<DataSet, 'columns'> & { columns?: undefined; data: DataRow[] });
+
+interface StoredDataSets {
+  id: string; // Same id as the dashboard
+  dataSets: StoredDataSet[];
+}
+
+export interface LoadedDashboard {
+  dashboard: SavedDashboard;
+  version: DashboardVersion;
+  dataSets: DataSet[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot store dashboards'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DASHBOARDS)) db.createObjectStore(DASHBOARDS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Could not open the dashboard library'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Storage transaction was aborted'));
+  });
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const getDashboard = async (id: string): Promise<SavedDashboard> => {
+  const db = await openDatabase();
+  const dashboard = await promisify<SavedDashboard | undefined>(db.transaction(DASHBOARDS).objectStore(DASHBOARDS).get(id));
+  if (!dashboard) throw new Error('This dashboard no longer exists');
+  return dashboard;
+};
+
+const putDashboard = async (dashboard: SavedDashboard, dataSets?: DataSet[]): Promise<void> => {
+  const db = await openDatabase();
+  const stores = dataSets ? [DASHBOARDS, DATASETS] : [DASHBOARDS];
+  const tx = db.transaction(stores, 'readwrite');
+  tx.objectStore(DASHBOARDS).put(dashboard);
+  if (dataSets) tx.objectStore(DATASETS).put({ id: dashboard.id, dataSets } as StoredDataSets);
+  await completion(tx);
+};
+
+/** All saved dashboards without their data, most recently updated first. */
+export const listDashboards = async (): Promise<SavedDashboard[]> => {
+  const db = await openDatabase();
+  const dashboards = await promisify<SavedDashboard[]>(db.transaction(DASHBOARDS).objectStore(DASHBOARDS).getAll());
+  return dashboards.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Saves the current state of a dashboard. Without an id a new library entry
+ * is created together with its data; with an id a new version is appended.
+ */
+export const saveDashboard = async (
+  id: string | null,
+  dataSets: DataSet[],
+  config: DashboardConfig,
+  filters: ActiveFilters,
+  combinator: FilterCombinator = 'and'
+): Promise<SavedDashboard> => {
+  const now = Date.now();
+
+  if (id) {
+    const existing = await getDashboard(id);
+    const last = existing.versions[existing.versions.length - 1];
+    const versions = [...existing.versions, { version: (last?.version || 0) + 1, savedAt: now, config, filters, combinator }];
+    const dashboard = { ...existing, updatedAt: now, versions: versions.slice(-MAX_VERSIONS) };
+    await putDashboard(dashboard);
+    return dashboard;
+  }
+
+  const dashboard: SavedDashboard = {
+    id: createId(),
+    name: config.title,
+    fileName: dataSets[0].fileName,
+    sheetCount: dataSets.length,
+    rowCount: dataSets.reduce((acc, dataSet) => acc + dataSet.rowCount, 0),
+    createdAt: now,
+    updatedAt: now,
+    versions: [{ version: 1, savedAt: now, config, filters, combinator }],
+  };
+  await putDashboard(dashboard, dataSets);
+  return dashboard;
+};
+
+/** Loads a dashboard with its data, at the latest version unless one is given. */
+export const loadDashboard = async (id: string, version?: number): Promise<LoadedDashboard> => {
+  const dashboard = await getDashboard(id);
+  const db = await openDatabase();
+  const stored = await promisify<StoredDataSets | undefined>(db.transaction(DATASETS).objectStore(DATASETS).get(id));
+  if (!stored) throw new Error('The data of this dashboard is missing');
+
+  const selected = version === undefined
+    ? dashboard.versions[dashboard.versions.length - 1]
+    : dashboard.versions.find(v => v.version === version);
+  if (!selected) throw new Error(`Version ${version} of this dashboard no longer exists`);
+
+  // Dashboards saved before the column store existed get one rebuilt, and their records are let go
+  const dataSets = stored.dataSets.map((entry): DataSet => {
+    const { data, ...dataSet } = entry as StoredDataSet & { data?: DataRow[] };
+    return dataSet.columns ? (dataSet as DataSet) : { ...dataSet, columns: buildColumnStore(dataSet, data!) };
+  });
+  return { dashboard, version: selected, dataSets };
+};
+
+export const renameDashboard = async (id: string, name: string): Promise<SavedDashboard> => {
+  const dashboard = { ...(await getDashboard(id)), name };
+  await putDashboard(dashboard);
+  return dashboard;
+};
+
+/** Copies a dashboard, its data and its full version history under a new id. */
+export const duplicateDashboard = async (id: string): Promise<SavedDashboard> => {
+  const { dashboard, dataSets } = await loadDashboard(id);
+  const now = Date.now();
+  const copy: SavedDashboard = { ...dashboard, id: createId(), name: `${dashboard.name} (copy)`, createdAt: now, updatedAt: now };
+  await putDashboard(copy, dataSets);
+  return copy;
+};
+
+export const deleteDashboard = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([DASHBOARDS, DATASETS], 'readwrite');
+  tx.objectStore(DASHBOARDS).delete(id);
+  tx.objectStore(DATASETS).delete(id);
+  await completion(tx);
+};
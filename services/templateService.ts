@@ -0,0 +1,214 @@
+import { ChartConfig, ColumnType, DashboardConfig, DashboardTemplate, DataSet, KpiConfig, TemplateBinding, TemplateSheet } from '../types';
+import { isDateType, isNumericType } from './schemaService';
+import { findClosestColumn } from './validationService';
+import { getFormulaColumns, renameFormulaColumns } from './formulaService';
+
+const TEMPLATE_FORMAT = 'insightflow-template';
+
+export interface TemplateIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+// Sheets are keyed by name; a CSV has no sheet name
+export const sheetKey = (sheetName?: string) => sheetName || '';
+
+const chartColumns = (chart: ChartConfig): string[] => [
+  chart.xKey,
+  ...chart.yKeys,
+  ...(chart.groupBy ? [chart.groupBy] : []),
+  ...(chart.drillPath || []).map(level => level.column),
+  ...(chart.pivot ? [...chart.pivot.rows, ...chart.pivot.columns] : []),
+];
+
+const kpiColumns = (kpi: KpiConfig): string[] => [kpi.measure, kpi.dateKey];
+
+/** Points every column a chart reads at another name; everything else is kept. */
+export const renameChartColumns = (chart: ChartConfig, rename: (name: string) => string): ChartConfig => ({
+  ...chart,
+  xKey: rename(chart.xKey),
+  yKeys: chart.yKeys.map(rename),
+  groupBy: chart.groupBy ? rename(chart.groupBy) : undefined,
+  drillPath: chart.drillPath?.map(level => ({ ...level, column: rename(level.column) })),
+  pivot: chart.pivot && {
+    ...chart.pivot,
+    rows: chart.pivot.rows.map(rename),
+    columns: chart.pivot.columns.map(rename),
+    sort: chart.pivot.sort?.measure ? { ...chart.pivot.sort, measure: rename(chart.pivot.sort.measure) } : chart.pivot.sort,
+  },
+  aggregations: chart.aggregations
+    ? Object.fromEntries(Object.entries(chart.aggregations).map(([name, aggregation]) => [rename(name), aggregation]))
+    : undefined,
+});
+
+export const renameKpiColumns = (kpi: KpiConfig, rename: (name: string) => string): KpiConfig => ({
+  ...kpi,
+  measure: rename(kpi.measure),
+  dateKey: rename(kpi.dateKey),
+});
+
+// Numbers, dates and everything else can't stand in for each other in a chart
+const typeFamily = (type: ColumnType | undefined) => {
+  if (isNumericType(type)) return 'number';
+  if (isDateType(type)) return 'date';
+  return 'text';
+};
+
+/**
+ * Turns a dashboard into a template that records, per sheet, the columns its
+ * charts and KPIs read and the type each column had. Calculated fields are
+ * kept as formulas, so the template records the columns they read instead.
+ */
+export const createTemplate = (config: DashboardConfig, dataSets: DataSet[]): DashboardTemplate => {
+  const sheets: TemplateSheet[] = [];
+  const calculated = new Set((config.calculatedFields || []).map(field => field.name));
+  const addColumns = (sheetName: string | undefined, names: string[]) => {
+    const dataSet = dataSets.find(d => d.sheetName === sheetName) || dataSets[0];
+    let sheet = sheets.find(s => s.sheetName === dataSet.sheetName);
+    if (!sheet) {
+      sheet = { sheetName: dataSet.sheetName, columns: [] };
+      sheets.push(sheet);
+    }
+    names.filter(name => !calculated.has(name)).forEach(name => {
+      if (!sheet!.columns.some(column => column.name === name)) {
+        sheet!.columns.push({ name, type: dataSet.schema[name]?.type || ColumnType.TEXT });
+      }
+    });
+  };
+  config.charts.forEach(chart => addColumns(chart.sheetName, chartColumns(chart)));
+  (config.kpis || []).forEach(kpi => addColumns(kpi.sheetName, kpiColumns(kpi)));
+  (config.calculatedFields || []).forEach(field => addColumns(field.sheetName, getFormulaColumns(field.formula)));
+
+  return {
+    format: TEMPLATE_FORMAT,
+    version: 1,
+    name: config.title,
+    createdAt: Date.now(),
+    sheets,
+    // Charts, KPIs and fields always name their sheet so they can be re-pointed when the template is applied.
+    // Insights and their facts describe this file's numbers, and the privacy review its columns, so they stay behind.
+    config: {
+      ...config,
+      insights: undefined,
+      facts: undefined,
+      privacy: undefined,
+      charts: config.charts.map(({ insight, ...chart }) => ({ ...chart, sheetName: chart.sheetName ?? dataSets[0].sheetName })),
+      kpis: config.kpis?.map(kpi => ({ ...kpi, sheetName: kpi.sheetName ?? dataSets[0].sheetName })),
+      calculatedFields: config.calculatedFields?.map(field => ({ ...field, sheetName: field.sheetName ?? dataSets[0].sheetName })),
+    },
+  };
+};
+
+/** Reads a template file, rejecting anything that isn't one. */
+export const parseTemplate = (text: string): DashboardTemplate => {
+  let template: DashboardTemplate;
+  try {
+    template = JSON.parse(text);
+  } catch {
+    throw new Error('The template file is not valid JSON');
+  }
+  if (template?.format !== TEMPLATE_FORMAT || !Array.isArray(template.sheets) || !Array.isArray(template.config?.charts)) {
+    throw new Error('This file is not a dashboard template');
+  }
+  if (template.version !== 1) {
+    throw new Error(`Template version ${template.version} is not supported`);
+  }
+  return template;
+};
+
+/**
+ * Proposes a binding: sheets are matched by name and otherwise by position,
+ * columns by (fuzzy) name within the matched sheet.
+ */
+export const bindTemplate = (template: DashboardTemplate, dataSets: DataSet[]): TemplateBinding => {
+  const binding: TemplateBinding = { sheets: {}, columns: {} };
+  const loadedNames = dataSets.map(d => sheetKey(d.sheetName));
+
+  template.sheets.forEach((sheet, index) => {
+    const key = sheetKey(sheet.sheetName);
+    const byName = findClosestColumn(key, loadedNames);
+    const target = byName !== null ? byName : loadedNames[Math.min(index, loadedNames.length - 1)];
+    binding.sheets[key] = target;
+
+    const dataSet = dataSets.find(d => sheetKey(d.sheetName) === target)!;
+    binding.columns[key] = Object.fromEntries(
+      sheet.columns.map(column => [column.name, findClosestColumn(column.name, dataSet.headers)])
+    );
+  });
+
+  return binding;
+};
+
+/** Missing columns are errors; columns whose kind of data changed are warnings. */
+export const checkBinding = (template: DashboardTemplate, dataSets: DataSet[], binding: TemplateBinding): TemplateIssue[] => {
+  const issues: TemplateIssue[] = [];
+  const multiSheet = template.sheets.length > 1;
+
+  template.sheets.forEach(sheet => {
+    const key = sheetKey(sheet.sheetName);
+    const dataSet = dataSets.find(d => sheetKey(d.sheetName) === binding.sheets[key]);
+    const where = multiSheet ? ` on sheet "${key}"` : '';
+    if (!dataSet) {
+      issues.push({ severity: 'error', message: `Sheet "${key}" is not mapped to a loaded sheet.` });
+      return;
+    }
+
+    sheet.columns.forEach(column => {
+      const mapped = binding.columns[key]?.[column.name];
+      if (!mapped || !dataSet.headers.includes(mapped)) {
+        issues.push({ severity: 'error', message: `Column "${column.name}"${where} is missing. Pick the column that replaces it.` });
+        return;
+      }
+      const actual = dataSet.schema[mapped]?.type;
+      if (typeFamily(actual) !== typeFamily(column.type)) {
+        issues.push({
+          severity: 'warning',
+          message: `"${mapped}" holds ${actual} values, but the template expects ${column.type} for "${column.name}"${where}.`,
+        });
+      }
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Rewrites the template's charts, KPIs and calculated fields onto the loaded
+ * data. Titles, types, aggregations, colours and sizes are kept exactly; only
+ * column and sheet names change. Call checkBinding first - unmapped columns are left as-is.
+ */
+export const applyTemplate = (template: DashboardTemplate, dataSets: DataSet[], binding: TemplateBinding): DashboardConfig => {
+  const bind = (sheetName: string | undefined) => {
+    const key = sheetKey(sheetName);
+    const columns = binding.columns[key] || {};
+    return {
+      rename: (name: string) => columns[name] || name,
+      target: dataSets.find(d => sheetKey(d.sheetName) === binding.sheets[key]) || dataSets[0],
+    };
+  };
+
+  const charts = template.config.charts.map(chart => {
+    const { rename, target } = bind(chart.sheetName);
+    return { ...renameChartColumns(chart, rename), sheetName: target.sheetName };
+  });
+
+  const kpis = template.config.kpis?.map(kpi => {
+    const { rename, target } = bind(kpi.sheetName);
+    return { ...renameKpiColumns(kpi, rename), sheetName: target.sheetName };
+  });
+
+  const calculatedFields = template.config.calculatedFields?.map(field => {
+    const { rename, target } = bind(field.sheetName);
+    return { ...field, sheetName: target.sheetName, formula: renameFormulaColumns(field.formula, rename) };
+  });
+
+  const rows = dataSets.reduce((acc, dataSet) => acc + dataSet.rowCount, 0);
+  return {
+    ...template.config,
+    // The template's own summary describes the numbers of the file it was made from
+    summary: `Built from the "${template.name}" template for ${dataSets[0].fileName} (${rows.toLocaleString()} rows).`,
+    charts,
+    kpis,
+    calculatedFields,
+  };
+};
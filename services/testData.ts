@@ -0,0 +1,19 @@
+import { CellValue, DataSet } from '../types';
+import { createColumnBuilder } from './columnService';
+import { profileColumns } from './schemaService';
+
+/**
+ * A sheet built from its columns' cells the way a loaded file is: cells are
+ * dictionary-encoded, then profiled and typed. For tests only.
+ */
+export const makeDataSet = (cells: Record<string, CellValue[]>, sheetName?: string): DataSet => {
+  const headers = Object.keys(cells);
+  const rowCount = headers.length > 0 ? cells[headers[0]].length : 0;
+  const columns = Object.fromEntries(headers.map(header => {
+    const builder = createColumnBuilder();
+    cells[header].forEach(value => builder.push(value));
+    return [header, builder.finish()];
+  }));
+  const { schema, columns: store } = profileColumns(headers, { rowCount, columns });
+  return { fileName: 'test.csv', sheetName, headers, rowCount, schema, columns: store };
+};
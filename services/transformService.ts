@@ -0,0 +1,435 @@
+import { CellValue, Column, ColumnType, DataSet, ParseProgress, TextCase, TransformStep } from '../types';
+import { profileColumns } from './schemaService';
+import { getCellValue } from './queryService';
+import { createColumnBuilder, firstRows, takeRows, toDictionary } from './columnService';
+import { findDataSet } from './dataService';
+
+const STEPS_KEY = 'transformSteps';
+
+export type TransformKind = TransformStep['kind'];
+
+export const STEP_LABELS: Record<TransformKind, string> = {
+  rename: 'Rename column',
+  drop: 'Drop columns',
+  changeType: 'Change type',
+  trim: 'Trim and change case',
+  split: 'Split column',
+  merge: 'Merge columns',
+  fillNulls: 'Fill or drop blanks',
+  dedupe: 'Remove duplicates',
+  replace: 'Find and replace',
+  unpivot: 'Unpivot columns',
+};
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  [ColumnType.INTEGER]: 'Whole number',
+  [ColumnType.DECIMAL]: 'Decimal number',
+  [ColumnType.CURRENCY]: 'Currency',
+  [ColumnType.PERCENT]: 'Percentage',
+  [ColumnType.DATE]: 'Date',
+  [ColumnType.DATETIME]: 'Date and time',
+  [ColumnType.BOOLEAN]: 'Yes/no',
+  [ColumnType.CATEGORICAL]: 'Category',
+  [ColumnType.TEXT]: 'Text',
+  [ColumnType.ID]: 'Identifier',
+};
+
+export const CASE_LABELS: Record<TextCase, string> = {
+  upper: 'UPPER CASE',
+  lower: 'lower case',
+  title: 'Title Case',
+};
+
+export interface TransformIssue {
+  index: number; // Position of the step in the pipeline
+  message: string;
+}
+
+// A sheet's columns while the steps run on them. Steps put new columns in
+// place of old ones and never write into a column's arrays, so the sheet the
+// table started from stays as it was.
+interface Table {
+  headers: string[];
+  rowCount: number;
+  columns: Record<string, Column>;
+  types: Record<string, ColumnType>; // Types kept as they were; columns a step rewrites are profiled again
+  dateFormats: Record<string, string>; // Formats picked for columns changed to dates, only read along with their type
+}
+
+// Month, quarter and year headers such as "Jan", "March 2024", "Q3-23", "2024-05" or "2023"
+const PERIOD_HEADER = /^((jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?([\s'-]*\d{2,4})?|q[1-4]([\s'-]*\d{2,4})?|\d{4}([\s/-]*(q[1-4]|\d{1,2}))?|\d{1,2}\/\d{4})$/i;
+
+const isBlank = (value: CellValue | undefined): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+const quoted = (names: string[]) => names.map(name => `"${name}"`).join(', ');
+
+const requireColumns = (table: Table, columns: string[]) => {
+  const missing = columns.filter(column => !table.headers.includes(column));
+  if (missing.length > 0) throw new Error(`There is no column ${quoted(missing)}`);
+};
+
+// New names must be filled in and can only reuse the names of columns the step removes
+const requireFreeNames = (table: Table, names: string[], replaced: string[] = []) => {
+  if (names.some(name => !name.trim())) throw new Error('New columns need a name');
+  const taken = names.filter((name, i) => (table.headers.includes(name) && !replaced.includes(name)) || names.indexOf(name) !== i);
+  if (taken.length > 0) throw new Error(`There is already a column ${quoted(taken)}`);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const changeCase = (text: string, textCase?: TextCase): string => {
+  switch (textCase) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'lower':
+      return text.toLowerCase();
+    case 'title':
+      return text.toLowerCase().replace(/(^|[\s\-/(])(\p{L})/gu, (_, before, letter) => before + letter.toUpperCase());
+    default:
+      return text;
+  }
+};
+
+// Puts `added` where `removed` were, at the position of the first removed column
+const replaceHeaders = (headers: string[], removed: string[], added: string[]): string[] => {
+  const at = Math.min(...removed.map(column => headers.indexOf(column)));
+  const rest = headers.filter(header => !removed.includes(header));
+  const before = headers.slice(0, at).filter(header => !removed.includes(header)).length;
+  return [...rest.slice(0, before), ...added, ...rest.slice(before)];
+};
+
+const cellAt = (table: Table, column: string, row: number): CellValue => getCellValue(table.columns[column], row);
+
+// Keeps the given rows of every column, in that order
+const keepRows = (table: Table, rows: number[]) => {
+  table.columns = Object.fromEntries(Object.entries(table.columns).map(([name, column]) => [name, takeRows(column, rows)]));
+  table.rowCount = rows.length;
+};
+
+const rowsWhere = (table: Table, keep: (row: number) => boolean): number[] => {
+  const rows: number[] = [];
+  for (let row = 0; row < table.rowCount; row++) {
+    if (keep(row)) rows.push(row);
+  }
+  return rows;
+};
+
+// Rewrites the cells of some columns; columns where anything changed are profiled again.
+// Each distinct value is rewritten once, whatever the number of rows holding it.
+const mapCells = (table: Table, columns: string[], map: (value: CellValue) => CellValue) => {
+  columns.forEach(name => {
+    const column = toDictionary(table.columns[name]);
+    let changed = false;
+    const dictionary = column.dictionary.map(value => {
+      const next = map(value);
+      if (next !== value) changed = true;
+      return next;
+    });
+    if (!changed) return;
+    table.columns[name] = { kind: 'dictionary', codes: column.codes, dictionary };
+    delete table.types[name];
+  });
+};
+
+// Every step checks its columns before touching any row, so a step that fails leaves the table as it was
+const runStep = (table: Table, step: TransformStep) => {
+  switch (step.kind) {
+    case 'rename': {
+      requireColumns(table, [step.column]);
+      if (step.to === step.column) return;
+      requireFreeNames(table, [step.to]);
+      table.headers = table.headers.map(header => (header === step.column ? step.to : header));
+      table.columns[step.to] = table.columns[step.column];
+      delete table.columns[step.column];
+      if (Object.hasOwn(table.types, step.column)) table.types[step.to] = table.types[step.column];
+      delete table.types[step.column];
+      if (Object.hasOwn(table.dateFormats, step.column)) table.dateFormats[step.to] = table.dateFormats[step.column];
+      else delete table.dateFormats[step.to];
+      delete table.dateFormats[step.column];
+      return;
+    }
+
+    case 'drop': {
+      requireColumns(table, step.columns);
+      if (step.columns.length === 0) throw new Error('Pick the columns to drop');
+      if (step.columns.length === table.headers.length) throw new Error('At least one column has to stay');
+      table.headers = table.headers.filter(header => !step.columns.includes(header));
+      step.columns.forEach(column => {
+        delete table.columns[column];
+        delete table.types[column];
+      });
+      return;
+    }
+
+    case 'changeType':
+      requireColumns(table, [step.column]);
+      table.types[step.column] = step.type;
+      if (step.dateFormat) table.dateFormats[step.column] = step.dateFormat;
+      else delete table.dateFormats[step.column];
+      return;
+
+    case 'trim': {
+      requireColumns(table, step.columns);
+      const columns = step.columns.length > 0 ? step.columns : table.headers;
+      mapCells(table, columns, value =>
+        typeof value === 'string' ? changeCase(value.trim().replace(/\s+/g, ' '), step.case) : value
+      );
+      return;
+    }
+
+    case 'split': {
+      requireColumns(table, [step.column]);
+      if (!step.separator) throw new Error('Enter the text to split at');
+      if (step.into.length < 2) throw new Error('Name at least two columns to split into');
+      requireFreeNames(table, step.into, [step.column]);
+
+      const builders = step.into.map(() => createColumnBuilder());
+      for (let row = 0; row < table.rowCount; row++) {
+        const value = cellAt(table, step.column, row);
+        const parts = isBlank(value) ? [] : String(value).split(step.separator);
+        // Leftover parts stay together in the last column
+        builders.forEach((builder, i) => {
+          const cell = i === step.into.length - 1 ? parts.slice(i).join(step.separator) : parts[i] ?? '';
+          builder.push(cell.trim() || null);
+        });
+      }
+      delete table.columns[step.column];
+      step.into.forEach((name, i) => {
+        table.columns[name] = builders[i].finish();
+      });
+      table.headers = replaceHeaders(table.headers, [step.column], step.into);
+      delete table.types[step.column];
+      step.into.forEach(name => delete table.types[name]);
+      return;
+    }
+
+    case 'merge': {
+      requireColumns(table, step.columns);
+      if (step.columns.length < 2) throw new Error('Pick at least two columns to merge');
+      requireFreeNames(table, [step.into], step.columns);
+
+      const builder = createColumnBuilder();
+      for (let row = 0; row < table.rowCount; row++) {
+        const parts = step.columns.map(column => cellAt(table, column, row)).filter(value => !isBlank(value)).map(String);
+        builder.push(parts.length > 0 ? parts.join(step.separator) : null);
+      }
+      step.columns.forEach(column => delete table.columns[column]);
+      table.columns[step.into] = builder.finish();
+      table.headers = replaceHeaders(table.headers, step.columns, [step.into]);
+      step.columns.forEach(column => delete table.types[column]);
+      return;
+    }
+
+    case 'fillNulls': {
+      requireColumns(table, [step.column]);
+      if (step.method === 'drop') {
+        keepRows(table, rowsWhere(table, row => !isBlank(cellAt(table, step.column, row))));
+      } else if (step.method === 'previous') {
+        const column = table.columns[step.column];
+        if (column.kind === 'number') {
+          const values = column.values.slice();
+          for (let row = 1; row < values.length; row++) {
+            if (Number.isNaN(values[row])) values[row] = values[row - 1];
+          }
+          table.columns[step.column] = { kind: 'number', values };
+        } else {
+          const codes = column.codes.slice();
+          for (let row = 0; row < codes.length; row++) {
+            if (codes[row] < 0 || isBlank(column.dictionary[codes[row]])) codes[row] = row > 0 ? codes[row - 1] : -1;
+          }
+          table.columns[step.column] = { ...column, codes };
+        }
+      } else {
+        if (!step.value) throw new Error('Enter the value to fill blanks with');
+        // Blank cells have no dictionary entry to rewrite, so they are pointed at the value
+        const column = toDictionary(table.columns[step.column]);
+        const fill = column.dictionary.length;
+        const codes = column.codes.map(code => (code < 0 || isBlank(column.dictionary[code]) ? fill : code));
+        if (codes.some(code => code === fill)) {
+          table.columns[step.column] = { kind: 'dictionary', codes, dictionary: [...column.dictionary, step.value] };
+          delete table.types[step.column];
+        }
+      }
+      return;
+    }
+
+    case 'dedupe': {
+      requireColumns(table, step.columns);
+      const columns = step.columns.length > 0 ? step.columns : table.headers;
+      const seen = new Set<string>();
+      keepRows(table, rowsWhere(table, row => {
+        const key = JSON.stringify(columns.map(column => {
+          const value = cellAt(table, column, row);
+          return isBlank(value) ? null : value;
+        }));
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }));
+      return;
+    }
+
+    case 'replace': {
+      requireColumns(table, step.columns);
+      if (!step.find) throw new Error('Enter the text to find');
+      const columns = step.columns.length > 0 ? step.columns : table.headers;
+      const flags = step.matchCase ? '' : 'i';
+      const pattern = new RegExp(step.wholeCell ? `^${escapeRegExp(step.find)}$` : escapeRegExp(step.find), `g${flags}`);
+      mapCells(table, columns, value => {
+        if (value === null) return value;
+        const text = String(value);
+        const next = text.replace(pattern, () => step.replace);
+        if (next === text) return value;
+        return next.trim() === '' ? null : next;
+      });
+      return;
+    }
+
+    case 'unpivot': {
+      requireColumns(table, step.keep);
+      const unpivoted = table.headers.filter(header => !step.keep.includes(header));
+      if (unpivoted.length === 0) throw new Error('Every column is kept, so there is nothing to unpivot');
+      requireFreeNames(table, [step.keyName, step.valueName], unpivoted);
+
+      // One row per filled cell of the unpivoted columns, repeating the kept cells of its row
+      const sources: number[] = [];
+      const keys = createColumnBuilder();
+      const values = createColumnBuilder();
+      for (let row = 0; row < table.rowCount; row++) {
+        unpivoted.forEach(column => {
+          const value = cellAt(table, column, row);
+          if (isBlank(value)) return;
+          sources.push(row);
+          keys.push(column);
+          values.push(value);
+        });
+      }
+      table.columns = Object.fromEntries(step.keep.map(kept => [kept, takeRows(table.columns[kept], sources)]));
+      table.columns[step.keyName] = keys.finish();
+      table.columns[step.valueName] = values.finish();
+      table.rowCount = sources.length;
+      table.headers = [...table.headers.filter(header => step.keep.includes(header)), step.keyName, step.valueName];
+      table.types = Object.fromEntries(Object.entries(table.types).filter(([column]) => step.keep.includes(column)));
+      return;
+    }
+  }
+};
+
+/**
+ * Runs the steps in order on the sheets they work on, then profiles those
+ * sheets again. Steps that fail (say, a column a new file doesn't have) are
+ * skipped and reported. With `sampleRows`, only that many rows of each
+ * sheet are used, which keeps previews quick.
+ */
+export const applyTransforms = (
+  dataSets: DataSet[],
+  steps: TransformStep[] = [],
+  sampleRows?: number,
+  onProgress?: (progress: ParseProgress) => void
+): { dataSets: DataSet[]; issues: TransformIssue[] } => {
+  const tables = new Map<DataSet, Table>();
+  const issues: TransformIssue[] = [];
+
+  steps.forEach((step, index) => {
+    const dataSet = findDataSet(dataSets, step.sheetName);
+    onProgress?.({ phase: 'cleaning', fraction: index / steps.length, sheetName: dataSet.sheetName });
+    let table = tables.get(dataSet);
+    if (!table) {
+      const rowCount = sampleRows === undefined ? dataSet.rowCount : Math.min(sampleRows, dataSet.rowCount);
+      table = {
+        headers: [...dataSet.headers],
+        rowCount,
+        columns: Object.fromEntries(dataSet.headers.map(header => {
+          const column = dataSet.columns.columns[header];
+          return [header, rowCount < dataSet.rowCount ? firstRows(column, rowCount) : column];
+        })),
+        types: Object.fromEntries(dataSet.headers.map(header => [header, dataSet.schema[header].type])),
+        dateFormats: {},
+      };
+      tables.set(dataSet, table);
+    }
+
+    try {
+      runStep(table, step);
+    } catch (error: any) {
+      issues.push({ index, message: error.message });
+    }
+  });
+
+  return {
+    dataSets: dataSets.map((dataSet, index) => {
+      const table = tables.get(dataSet);
+      if (!table) return dataSet;
+      onProgress?.({ phase: 'profiling', fraction: index / dataSets.length, sheetName: dataSet.sheetName });
+      const { schema, columns } = profileColumns(
+        table.headers,
+        { rowCount: table.rowCount, columns: table.columns },
+        table.types,
+        table.dateFormats
+      );
+      return {
+        fileName: dataSet.fileName,
+        sheetName: dataSet.sheetName,
+        headers: table.headers,
+        rowCount: table.rowCount,
+        schema,
+        columns,
+      };
+    }),
+    issues,
+  };
+};
+
+/** One-line description of a step for the pipeline list. */
+export const describeStep = (step: TransformStep): string => {
+  const all = (columns: string[], fallback: string) => (columns.length > 0 ? quoted(columns) : fallback);
+  switch (step.kind) {
+    case 'rename':
+      return `Rename "${step.column}" to "${step.to}"`;
+    case 'drop':
+      return `Drop ${quoted(step.columns)}`;
+    case 'changeType':
+      return `Make "${step.column}" ${COLUMN_TYPE_LABELS[step.type].toLowerCase()}${step.dateFormat ? ` (${step.dateFormat})` : ''}`;
+    case 'trim':
+      return `Trim ${all(step.columns, 'all text')}${step.case ? ` to ${CASE_LABELS[step.case]}` : ''}`;
+    case 'split':
+      return `Split "${step.column}" at "${step.separator}" into ${quoted(step.into)}`;
+    case 'merge':
+      return `Merge ${quoted(step.columns)} into "${step.into}"`;
+    case 'fillNulls':
+      if (step.method === 'drop') return `Drop rows with a blank "${step.column}"`;
+      return step.method === 'previous'
+        ? `Fill blanks in "${step.column}" from the row above`
+        : `Fill blanks in "${step.column}" with "${step.value}"`;
+    case 'dedupe':
+      return `Remove rows with the same ${all(step.columns, 'values in every column')}`;
+    case 'replace':
+      return `Replace ${step.wholeCell ? 'cells equal to ' : ''}"${step.find}" with "${step.replace}" in ${all(step.columns, 'every column')}`;
+    case 'unpivot':
+      return `Unpivot everything but ${quoted(step.keep)} into "${step.keyName}" and "${step.valueName}"`;
+  }
+};
+
+/**
+ * Columns to keep when unpivoting: everything but month, quarter or year
+ * headers when the sheet has a run of those, otherwise every column.
+ */
+export const suggestUnpivotKeep = (headers: string[]): string[] => {
+  const periods = headers.filter(header => PERIOD_HEADER.test(header.trim()));
+  return periods.length >= 2 ? headers.filter(header => !periods.includes(header)) : headers;
+};
+
+/** Steps used last, replayed on the next file that is loaded. */
+export const loadTransformSteps = (): TransformStep[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STEPS_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveTransformSteps = (steps: TransformStep[]) => {
+  localStorage.setItem(STEPS_KEY, JSON.stringify(steps));
+};
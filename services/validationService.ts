@@ -0,0 +1,357 @@
+import { AggregationType, ChartConfig, ChartType, DashboardConfig, DataSet, DrillLevel, KpiConfig, PivotOptions } from '../types';
+import { isDateType, isNumericType } from './schemaService';
+import { COMPARISON_LABELS, DATE_GRANULARITIES } from './periodService';
+import { getAllowedAggregations, isAggregatedChart } from './aggregationService';
+
+export interface ValidationIssue {
+  chartId: string;
+  severity: 'fixed' | 'removed';
+  message: string;
+}
+
+export interface ValidationResult {
+  config: DashboardConfig;
+  issues: ValidationIssue[];
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+/**
+ * Finds the header a (possibly misspelled) name refers to: exact match,
+ * then case/punctuation-insensitive match, then the closest header within a
+ * small edit distance, then a header that contains the name or vice versa.
+ */
+export const findClosestColumn = (name: string, headers: string[]): string | null => {
+  if (!name) return null;
+  if (headers.includes(name)) return name;
+
+  const target = normalize(name);
+  if (!target) return null;
+
+  const normalizedMatch = headers.find(header => normalize(header) === target);
+  if (normalizedMatch) return normalizedMatch;
+
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  headers.forEach(header => {
+    const distance = levenshtein(target, normalize(header));
+    if (distance < bestDistance) {
+      best = header;
+      bestDistance = distance;
+    }
+  });
+  if (best !== null && bestDistance <= Math.max(1, Math.floor(target.length * 0.3))) return best;
+
+  const containing = headers.filter(header => {
+    const candidate = normalize(header);
+    const shorter = Math.min(candidate.length, target.length);
+    const longer = Math.max(candidate.length, target.length);
+    return shorter / longer >= 0.5 && (candidate.includes(target) || target.includes(candidate));
+  });
+  return containing.length === 1 ? containing[0] : null;
+};
+
+const VALID_TYPES = Object.values(ChartType) as string[];
+
+/**
+ * Repairs the headline KPIs the same way as charts: columns are
+ * fuzzy-matched, and a KPI without a measure or a date column is removed.
+ */
+const validateKpis = (kpis: KpiConfig[], dataSets: DataSet[], issues: ValidationIssue[]): KpiConfig[] => {
+  const usedIds = new Set<string>();
+  const valid: KpiConfig[] = [];
+
+  kpis.forEach((original, index) => {
+    const kpi: KpiConfig = { ...original };
+    const label = kpi.title ? `KPI "${kpi.title}"` : `KPI ${index + 1}`;
+    const fixed = (message: string) => issues.push({ chartId: kpi.id, severity: 'fixed', message: `${label}: ${message}` });
+    const removed = (message: string) => issues.push({ chartId: kpi.id, severity: 'removed', message: `${label} was removed: ${message}` });
+
+    let id = kpi.id || `kpi-${index + 1}`;
+    while (usedIds.has(id)) id = `${id}-${index + 1}`;
+    kpi.id = id;
+
+    const dataSet = dataSets.find(d => d.sheetName === kpi.sheetName)
+      || dataSets.find(d => findClosestColumn(kpi.measure, d.headers) !== null)
+      || dataSets[0];
+    kpi.sheetName = dataSet.sheetName;
+    const { headers, schema } = dataSet;
+
+    const measure = findClosestColumn(kpi.measure, headers);
+    if (!measure) {
+      removed(`column "${kpi.measure}" does not exist.`);
+      return;
+    }
+    if (measure !== kpi.measure) fixed(`column "${kpi.measure}" matched to "${measure}".`);
+    kpi.measure = measure;
+    if (!kpi.title) kpi.title = measure;
+
+    // Periods need a date column; fall back to the sheet's first one
+    const dateKey = findClosestColumn(kpi.dateKey, headers);
+    if (!dateKey || !isDateType(schema[dateKey]?.type)) {
+      const firstDate = headers.find(header => isDateType(schema[header]?.type));
+      if (!firstDate) {
+        removed('the sheet has no date column to compare periods by.');
+        return;
+      }
+      fixed(`"${kpi.dateKey}" is not a date column, so "${firstDate}" is used.`);
+      kpi.dateKey = firstDate;
+    } else {
+      if (dateKey !== kpi.dateKey) fixed(`date column "${kpi.dateKey}" matched to "${dateKey}".`);
+      kpi.dateKey = dateKey;
+    }
+
+    if (kpi.aggregation && !getAllowedAggregations(measure, schema).includes(kpi.aggregation)) {
+      fixed(`"${measure}" is not numeric, so it is counted instead of ${kpi.aggregation}.`);
+      kpi.aggregation = AggregationType.COUNT;
+    }
+    if (!Object.keys(COMPARISON_LABELS).includes(kpi.comparison)) {
+      if (kpi.comparison) fixed(`unknown comparison "${kpi.comparison}" replaced with month over month.`);
+      kpi.comparison = 'month';
+    }
+
+    usedIds.add(kpi.id);
+    valid.push(kpi);
+  });
+
+  return valid;
+};
+
+const COLOR_SCALES = ['none', 'sequential', 'diverging'];
+
+/**
+ * Resolves the dimensions of a pivot table like any other column. The x axis
+ * is always the outermost row dimension, and a column is used only once.
+ */
+const validatePivot = (chart: ChartConfig, headers: string[], fixed: (message: string) => void): PivotOptions => {
+  const original: Partial<PivotOptions> = chart.pivot || {};
+  const used = [chart.xKey];
+  const resolve = (names: unknown, role: string): string[] => {
+    const resolved: string[] = [];
+    (Array.isArray(names) ? names : []).forEach(name => {
+      const column = findClosestColumn(String(name), headers);
+      if (!column) {
+        fixed(`unknown ${role} "${name}" dropped.`);
+        return;
+      }
+      if (column !== name) fixed(`${role} "${name}" matched to "${column}".`);
+      if (used.includes(column)) return;
+      used.push(column);
+      resolved.push(column);
+    });
+    return resolved;
+  };
+
+  const pivot: PivotOptions = {
+    rows: [chart.xKey, ...resolve(original.rows, 'row dimension')],
+    columns: resolve(original.columns, 'column dimension'),
+  };
+  if (typeof original.subtotals === 'boolean') pivot.subtotals = original.subtotals;
+  if (typeof original.grandTotals === 'boolean') pivot.grandTotals = original.grandTotals;
+  if (original.colorScale && COLOR_SCALES.includes(original.colorScale)) pivot.colorScale = original.colorScale;
+
+  const sort = original.sort;
+  if (sort && (sort.by === 'label' || sort.by === 'value')) {
+    const measure = sort.measure ? findClosestColumn(sort.measure, chart.yKeys) : null;
+    if (sort.measure && !measure) fixed(`rows can't be sorted by "${sort.measure}", which isn't one of the values, so the first value is used.`);
+    pivot.sort = {
+      by: sort.by,
+      direction: sort.direction === 'asc' || sort.direction === 'desc' ? sort.direction : sort.by === 'label' ? 'asc' : 'desc',
+      ...(sort.by === 'value' && measure ? { measure } : {}),
+    };
+  }
+  return pivot;
+};
+
+/**
+ * Checks a generated dashboard against the loaded data and repairs what it
+ * can: misspelled columns are fuzzy-matched, impossible settings are fixed
+ * and charts that can't be rendered are removed. Every change is reported.
+ */
+export const validateDashboardConfig = (config: DashboardConfig, dataSets: DataSet[]): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const usedIds = new Set<string>();
+  const charts: ChartConfig[] = [];
+
+  (config.charts || []).forEach((original, index) => {
+    const chart: ChartConfig = { ...original, yKeys: [...(original.yKeys || [])] };
+    const label = chart.title ? `"${chart.title}"` : `Chart ${index + 1}`;
+    const fixed = (message: string) => issues.push({ chartId: chart.id, severity: 'fixed', message: `${label}: ${message}` });
+    const removed = (message: string) => issues.push({ chartId: chart.id, severity: 'removed', message: `${label} was removed: ${message}` });
+
+    // Unique, non-empty id
+    let id = chart.id || `chart-${index + 1}`;
+    while (usedIds.has(id)) id = `${id}-${index + 1}`;
+    if (id !== chart.id) {
+      const previous = chart.id;
+      chart.id = id;
+      if (previous) fixed(`duplicate id "${previous}" renamed to "${id}".`);
+    }
+
+    if (!VALID_TYPES.includes(chart.type)) {
+      fixed(`unknown chart type "${chart.type}" replaced with bar.`);
+      chart.type = ChartType.BAR;
+    }
+    if (!chart.title) chart.title = `Chart ${index + 1}`;
+    if (!chart.description) chart.description = '';
+
+    // Sheet - fuzzy match the name, or find the sheet that holds the x-axis column
+    let dataSet = dataSets.find(d => d.sheetName === chart.sheetName);
+    if (!dataSet && chart.sheetName !== undefined) {
+      const sheetNames = dataSets.map(d => d.sheetName || '');
+      const closest = findClosestColumn(chart.sheetName, sheetNames);
+      dataSet = dataSets.find(d => (d.sheetName || '') === closest);
+      if (dataSet && dataSets.length > 1) fixed(`sheet "${chart.sheetName}" matched to "${dataSet.sheetName}".`);
+    }
+    if (!dataSet) {
+      dataSet = dataSets.find(d => findClosestColumn(chart.xKey, d.headers) !== null) || dataSets[0];
+    }
+    chart.sheetName = dataSet.sheetName;
+    const { headers, schema } = dataSet;
+
+    // X axis
+    const xKey = findClosestColumn(chart.xKey, headers);
+    if (!xKey) {
+      removed(`column "${chart.xKey}" does not exist.`);
+      return;
+    }
+    if (xKey !== chart.xKey) fixed(`column "${chart.xKey}" matched to "${xKey}".`);
+    chart.xKey = xKey;
+
+    if (chart.groupBy !== undefined) {
+      const groupBy = findClosestColumn(chart.groupBy, headers);
+      if (groupBy !== chart.groupBy) {
+        fixed(groupBy ? `group-by "${chart.groupBy}" matched to "${groupBy}".` : `unknown group-by "${chart.groupBy}" replaced with "${xKey}".`);
+      }
+      chart.groupBy = groupBy || xKey;
+    }
+
+    // Drill path - resolve columns, keep periods on date columns only, start at the category column
+    if (chart.drillPath) {
+      const levels: DrillLevel[] = [];
+      chart.drillPath.forEach(level => {
+        const column = findClosestColumn(level?.column, headers);
+        if (!column) {
+          fixed(`unknown drill level "${level?.column}" dropped.`);
+          return;
+        }
+        if (column !== level.column) fixed(`drill level "${level.column}" matched to "${column}".`);
+        const granularity = level.granularity && isDateType(schema[column]?.type) && DATE_GRANULARITIES.includes(level.granularity)
+          ? level.granularity
+          : undefined;
+        if (levels.some(existing => existing.column === column && existing.granularity === granularity)) return;
+        levels.push(granularity ? { column, granularity } : { column });
+      });
+
+      const category = chart.groupBy || xKey;
+      if (levels.length > 0 && levels[0].column !== category) levels.unshift({ column: category });
+      if (!isAggregatedChart(chart)) {
+        fixed('scatter charts can\'t be drilled into, so the drill path was dropped.');
+        delete chart.drillPath;
+      } else if (chart.type === ChartType.PIVOT) {
+        fixed('pivot tables show their levels side by side, so the drill path was dropped.');
+        delete chart.drillPath;
+      } else if (levels.length < 2) {
+        if (chart.drillPath.length > 0) fixed('the drill path has fewer than two usable levels and was dropped.');
+        delete chart.drillPath;
+      } else {
+        chart.drillPath = levels;
+      }
+    }
+
+    // Periods only apply to date categories; without one the date range picks it
+    if (chart.granularity && (!DATE_GRANULARITIES.includes(chart.granularity) || !isDateType(schema[chart.groupBy || xKey]?.type))) {
+      fixed(`"${chart.granularity}" periods need a date axis, so the granularity is picked automatically.`);
+      delete chart.granularity;
+    }
+    if (chart.gapFill && chart.gapFill !== 'zero' && chart.gapFill !== 'null') delete chart.gapFill;
+    if (chart.comparePrevious && chart.type !== ChartType.LINE) delete chart.comparePrevious;
+    if (chart.anomalies) {
+      chart.anomalies = { ...chart.anomalies };
+      const { method, threshold } = chart.anomalies;
+      if (method && !['zscore', 'iqr', 'seasonal'].includes(method)) delete chart.anomalies.method;
+      if (threshold !== undefined && !(typeof threshold === 'number' && threshold > 0)) delete chart.anomalies.threshold;
+    }
+
+    // Y axis - resolve names, drop unknown and duplicate keys, remap aggregations
+    const aggregations: Record<string, AggregationType> = {};
+    const yKeys: string[] = [];
+    chart.yKeys.forEach(key => {
+      const resolved = findClosestColumn(key, headers);
+      if (!resolved) {
+        fixed(`unknown column "${key}" dropped.`);
+        return;
+      }
+      if (resolved !== key) fixed(`column "${key}" matched to "${resolved}".`);
+      if (yKeys.includes(resolved)) return;
+
+      yKeys.push(resolved);
+      const aggregation = chart.aggregations?.[key] || chart.aggregations?.[resolved];
+      if (aggregation) aggregations[resolved] = aggregation;
+    });
+
+    // Non-numeric measures can only be counted; scatter plots need numbers
+    chart.yKeys = yKeys.filter(key => {
+      if (isNumericType(schema[key]?.type)) return true;
+      if (!isAggregatedChart(chart)) {
+        fixed(`non-numeric column "${key}" can't be plotted on a scatter chart.`);
+        return false;
+      }
+      if (aggregations[key] && !getAllowedAggregations(key, schema).includes(aggregations[key])) {
+        fixed(`"${key}" is not numeric, so it is counted instead of ${aggregations[key]}.`);
+        aggregations[key] = AggregationType.COUNT;
+      }
+      return true;
+    });
+    chart.aggregations = aggregations;
+
+    if (chart.yKeys.length === 0) {
+      removed('it has no valid values to plot.');
+      return;
+    }
+
+    if (chart.type === ChartType.PIVOT) {
+      chart.pivot = validatePivot(chart, headers, fixed);
+    } else {
+      delete chart.pivot;
+    }
+
+    if (chart.type === ChartType.PIE && chart.yKeys.length > 1) {
+      fixed(`pie charts show a single measure, kept "${chart.yKeys[0]}".`);
+      chart.yKeys = chart.yKeys.slice(0, 1);
+      chart.aggregations = aggregations[chart.yKeys[0]] ? { [chart.yKeys[0]]: aggregations[chart.yKeys[0]] } : {};
+    }
+
+    usedIds.add(chart.id);
+    charts.push(chart);
+  });
+
+  return {
+    config: {
+      ...config,
+      title: config.title || 'Dashboard',
+      summary: config.summary || '',
+      charts,
+      kpis: config.kpis ? validateKpis(config.kpis, dataSets, issues) : undefined,
+    },
+    issues,
+  };
+};
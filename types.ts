@@ -1,10 +1,100 @@
-export type DataRow = Record<string, string | number | boolean | null>;
+export type CellValue = string | number | boolean | null;
+
+export type DataRow = Record<string, CellValue>;
+
+export enum ColumnType {
+  INTEGER = 'integer',
+  DECIMAL = 'decimal',
+  CURRENCY = 'currency',
+  PERCENT = 'percent',
+  DATE = 'date',
+  DATETIME = 'datetime',
+  BOOLEAN = 'boolean',
+  CATEGORICAL = 'categorical',
+  TEXT = 'text',
+  ID = 'id'
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: ColumnType;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string; // Numbers for measures, ISO strings for dates
+  max?: number | string;
+  dateFormat?: string; // e.g. 'YYYY-MM-DD', 'DD.MM.YYYY'
+  // Values that read as dates in more than one order (03/04/2023 with no part above 12).
+  // The column stays text until the user picks a format.
+  ambiguousDates?: { type: ColumnType; formats: string[] };
+  coercedCount?: number; // Non-empty cells that didn't fit the type and were left empty
+}
+
+export type DataSchema = Record<string, ColumnProfile>;
+
+// Measures: one float per row, NaN where the cell is empty
+export interface NumberColumn {
+  kind: 'number';
+  values: Float64Array;
+}
+
+// Everything else is dictionary-encoded: one code per row (-1 when empty)
+// pointing into the distinct values. Date columns also carry the parsed
+// timestamp of every dictionary entry.
+export interface DictionaryColumn {
+  kind: 'dictionary';
+  codes: Int32Array;
+  dictionary: CellValue[];
+  timestamps?: Float64Array;
+}
+
+export type Column = NumberColumn | DictionaryColumn;
+
+export interface ColumnStore {
+  rowCount: number;
+  columns: Record<string, Column>;
+}
+
+// Indices of the rows a query works on, in row order
+export type RowSelection = Uint32Array;
 
 export interface DataSet {
   fileName: string;
   headers: string[];
-  data: DataRow[];
   rowCount: number;
+  schema: DataSchema;
+  columns: ColumnStore; // The cells; rows are only put together for exports and previews
+  sheetName?: string; // Set for Excel workbooks, one DataSet per sheet
+}
+
+// Zero-based, inclusive row indices of the header block within a raw sheet
+export interface HeaderRange {
+  start: number;
+  end: number;
+}
+
+// The rows of a raw sheet past its first ones, summed up while the file was read
+export interface SheetTail {
+  rowCount: number; // Filled rows other than total rows
+  excludedRows: number[]; // Raw row indices of total rows
+  filledColumns: number[]; // Columns with a value in any of those rows
+}
+
+// A sheet as read from the file, before headers are applied. Only its first
+// rows are kept; the whole sheet is read again once the headers are confirmed.
+export interface RawSheet {
+  fileName: string;
+  sheetName?: string;
+  workbookSheet?: string; // Name in the workbook, as sheetName may be changed to tell files apart
+  file: File;
+  rows: CellValue[][]; // The first rows, enough to hold the header block
+  tail: SheetTail;
+  headerRange: HeaderRange; // Detected automatically, adjustable in the preview
+}
+
+export interface ParseProgress {
+  phase: 'reading' | 'parsing' | 'cleaning' | 'profiling';
+  fraction: number; // 0..1 across the whole file
+  sheetName?: string;
 }
 
 export enum ChartType {
@@ -12,7 +102,46 @@ export enum ChartType {
   LINE = 'line',
   AREA = 'area',
   PIE = 'pie',
-  SCATTER = 'scatter'
+  SCATTER = 'scatter',
+  PIVOT = 'pivot'
+}
+
+export enum AggregationType {
+  SUM = 'sum',
+  MEAN = 'mean',
+  COUNT = 'count',
+  MIN = 'min',
+  MAX = 'max',
+  MEDIAN = 'median',
+  DISTINCT_COUNT = 'distinct_count'
+}
+
+export type ChartSpan = 1 | 2;
+
+export type DateGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+// One level of a drill path: a column, or a date column cut into periods
+export interface DrillLevel {
+  column: string;
+  granularity?: DateGranularity; // Date columns only
+}
+
+export type PivotColorScale = 'none' | 'sequential' | 'diverging'; // Diverging centres on zero
+
+export interface PivotSort {
+  by: 'label' | 'value'; // Members by name (periods in time order), or by their total of a measure
+  direction: 'asc' | 'desc';
+  measure?: string; // yKey sorted by value. Defaults to the first.
+}
+
+// Layout of a pivot table; its measures are the chart's yKeys with their aggregations
+export interface PivotOptions {
+  rows: string[]; // Row dimensions, outermost first. The first is the chart's xKey.
+  columns: string[]; // Column dimensions, outermost first. Without any, every measure gets one column.
+  subtotals?: boolean; // A total row and column after every member of an outer dimension. Defaults to true.
+  grandTotals?: boolean; // Defaults to true
+  sort?: PivotSort; // Sorts rows within their parent. Columns are always in label order.
+  colorScale?: PivotColorScale; // Shades the cells below the subtotals by value, per measure. Defaults to 'none'.
 }
 
 export interface ChartConfig {
@@ -23,16 +152,248 @@ export interface ChartConfig {
   xKey: string;
   yKeys: string[];
   colors?: string[];
+  groupBy?: string; // Column rows are grouped on before plotting. Defaults to xKey.
+  granularity?: DateGranularity; // Period a date category column is grouped by. Picked from the date range if unset.
+  gapFill?: 'zero' | 'null'; // Periods without rows on line and area charts: plotted as zero or left as gaps (default)
+  comparePrevious?: boolean; // Line charts on a time axis: overlay the same periods a year earlier
+  drillPath?: DrillLevel[]; // Hierarchy to drill into, top level first. The top level is the category column.
+  aggregations?: Record<string, AggregationType>; // Per yKey. Defaults to SUM for numbers, COUNT otherwise.
+  pivot?: PivotOptions; // Pivot tables only. Without it the xKey is the only row dimension.
+  insight?: Insight; // Note under the chart, citing figures computed from every row
+  anomalies?: AnomalySettings; // How unusual points are flagged. Defaults apply when unset.
+  sheetName?: string; // Sheet the chart draws from. Defaults to the first loaded sheet.
+  width?: ChartSpan; // Grid columns the chart spans. Defaults to 1.
+  height?: ChartSpan; // Grid rows the chart spans. Defaults to 1.
+}
+
+// Z-scores against the mean, distance beyond the quartiles, or the residual left by trend and season
+export type AnomalyMethod = 'zscore' | 'iqr' | 'seasonal';
+
+export interface AnomalySettings {
+  method?: AnomalyMethod; // Seasonal for line and area time series with two full seasons, IQR otherwise
+  threshold?: number; // Standard deviations for z-score and seasonal, interquartile ranges for IQR
+  hidden?: boolean; // No markers on the chart and no findings in the anomalies panel
+}
+
+// The latest week/month/quarter/year in the data against the one before, or year-to-date against the same span a year earlier
+export type KpiComparison = 'week' | 'month' | 'quarter' | 'year' | 'ytd';
+
+export interface KpiConfig {
+  id: string;
+  title: string;
+  measure: string; // Column the headline number is computed from
+  aggregation?: AggregationType; // Defaults to SUM for numbers, COUNT otherwise
+  dateKey: string; // Date column that places rows in periods
+  comparison: KpiComparison;
+  sheetName?: string; // Sheet the KPI draws from. Defaults to the first loaded sheet.
+}
+
+// A column computed from a formula over the other columns of its sheet
+export interface CalculatedField {
+  name: string;
+  formula: string; // e.g. '([Revenue] - [Cost]) / [Revenue]'
+  sheetName?: string; // Sheet the column is added to. Defaults to the first loaded sheet.
+}
+
+export type TextCase = 'upper' | 'lower' | 'title';
+
+// One recorded clean-up step, run on the loaded data before analysis. The
+// sheet it works on defaults to the first loaded sheet.
+export type TransformStep = { sheetName?: string } & (
+  | { kind: 'rename'; column: string; to: string }
+  | { kind: 'drop'; columns: string[] }
+  // Cells that don't fit the type become empty; dates are read in `dateFormat` when given
+  | { kind: 'changeType'; column: string; type: ColumnType; dateFormat?: string }
+  | { kind: 'trim'; columns: string[]; case?: TextCase } // Every text column when none are listed
+  | { kind: 'split'; column: string; separator: string; into: string[] } // Leftover parts stay in the last column
+  | { kind: 'merge'; columns: string[]; separator: string; into: string }
+  | { kind: 'fillNulls'; column: string; method: 'value' | 'previous' | 'drop'; value?: string }
+  | { kind: 'dedupe'; columns: string[] } // Rows count as duplicates when these columns match, or all when none are listed
+  | { kind: 'replace'; columns: string[]; find: string; replace: string; wholeCell: boolean; matchCase: boolean }
+  // Every column not kept turns into rows, so months added to a later file are picked up too
+  | { kind: 'unpivot'; keep: string[]; keyName: string; valueName: string }
+);
+
+export type JoinType = 'inner' | 'left' | 'full';
+
+// How uploaded files and sheets are combined before analysis; sheets are referred to by name
+export type CombineStep =
+  | { kind: 'union'; sheets: string[]; name: string; sourceColumn?: string } // Stacks rows; sourceColumn records each row's sheet
+  | { kind: 'join'; left: string; right: string; keys: JoinKey[]; type: JoinType; name: string };
+
+export interface JoinKey {
+  left: string;
+  right: string;
 }
 
 export interface DashboardConfig {
   title: string;
   summary: string;
   charts: ChartConfig[];
+  kpis?: KpiConfig[]; // Headline numbers shown above the charts
+  calculatedFields?: CalculatedField[]; // Added to the data in order, so later fields can use earlier ones
+  transforms?: TransformStep[]; // Clean-up the data went through, replayed when a new file is loaded
+  insights?: Insight[]; // The summary sentence by sentence, when it was written from computed facts
+  facts?: StatFact[]; // Statistics of the full data the insights were checked against
+  privacy?: PrivacyPolicies; // How each column was sent to the model, as reviewed in privacy mode
+}
+
+export type StatFactKind = 'overview' | 'trend' | 'mover' | 'outlier' | 'correlation' | 'concentration';
+
+// A statistic computed locally from every row, handed to the model as grounding
+export interface StatFact {
+  id: string; // e.g. 'F3', cited by insights
+  kind: StatFactKind;
+  text: string; // States the exact figures, e.g. 'Revenue and Cost move together (r = 0.87 over 4,980 rows).'
+  columns: string[]; // Columns the fact is about
+  sheetName?: string;
+}
+
+// A claim about the data and the facts it rests on
+export interface Insight {
+  text: string;
+  factIds: string[];
+  unsupported?: string; // Why the facts don't back the claim, set by the check. Unset when they do.
 }
 
+// One filter per column, tagged by kind
+export type FilterValue =
+  | { kind: 'values'; values: string[]; exclude: boolean } // Keep (or drop) the listed values
+  | { kind: 'date'; start: string; end: string } // Inclusive range, YYYY-MM-DD, either end open
+  | { kind: 'range'; min: number | null; max: number | null } // Inclusive numeric range
+  | { kind: 'text'; query: string; regex: boolean } // Case-insensitive contains, or a regular expression
+  | { kind: 'empty'; empty: boolean }; // Only blank cells, or only filled ones
+
+export type ActiveFilters = Record<string, FilterValue>;
+
+// How filters on different columns combine
+export type FilterCombinator = 'and' | 'or';
+
 export interface AnalysisState {
   isLoading: boolean;
   error: string | null;
   config: DashboardConfig | null;
+  notices: string[]; // Non-fatal messages about how the dashboard was produced
+}
+
+export enum ProviderId {
+  GEMINI = 'gemini',
+  OPENAI_COMPATIBLE = 'openai',
+  HEURISTIC = 'heuristic'
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  openAIBaseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+  openAIModel: string;
+  openAIApiKey: string;
+  repromptOnErrors: boolean; // Ask the model again when its dashboard had unusable charts
+  sampleTokens: number; // Budget of the data description sent with every prompt, in estimated tokens
+  privacyMode: boolean; // Review and mask sensitive columns before anything is sent to a model
+}
+
+// Personal data a column can hold, found from its header and values
+export type SensitiveKind = 'email' | 'name' | 'phone' | 'address' | 'iban' | 'card' | 'national_id' | 'ip' | 'birth_date' | 'compensation';
+
+// What reaches a model from a column: its values, consistent stand-ins for them, ranges instead of values, or nothing
+export type ColumnPolicy = 'send' | 'pseudonymize' | 'bucket' | 'exclude';
+
+// Per sheet (keyed by sheet name, '' for a CSV), then per column. Columns not listed are sent as-is.
+export type PrivacyPolicies = Record<string, Record<string, ColumnPolicy>>;
+
+// Everything a provider may use to design a dashboard
+export interface AnalysisContext {
+  dataSets: DataSet[];
+  sample: string; // Prompt-ready JSON produced by prepareDataSample
+  feedback?: string[]; // Validation errors of a previous attempt, for re-prompting
+  facts?: StatFact[]; // Computed from every row; models cite them in the summary and chart notes
+}
+
+// A question about the loaded data, answered from a sample like a dashboard
+export interface QuestionContext extends AnalysisContext {
+  question: string;
+}
+
+// A condition a question puts on a column; which fields are set picks the kind
+export interface QuestionFilter {
+  column: string;
+  values?: string[]; // Cell is one of these
+  start?: string; // Inclusive date range, YYYY-MM-DD, either end open
+  end?: string;
+  min?: number; // Inclusive numeric range, either end open
+  max?: number;
+}
+
+// A question turned into a calculation the app runs itself on every row
+export interface QuestionQuery {
+  sheetName?: string; // Defaults to the first loaded sheet
+  measure: string;
+  aggregation: AggregationType;
+  groupBy?: string; // One value per member of this column, or a single number without it
+  granularity?: DateGranularity; // Period a date groupBy column is cut into
+  filters?: QuestionFilter[];
+  // Growth questions: the measure within a date range against an earlier one, per group
+  compare?: { column: string; start: string; end: string; previousStart: string; previousEnd: string };
+  sort?: 'asc' | 'desc'; // By value, or by relative change when comparing. Groups keep their own order without it.
+  limit?: number;
+}
+
+// A model's answer: a calculation for a number or a short ranking, or a chart
+export type QuestionAnswer =
+  | { kind: 'query'; query: QuestionQuery; explanation: string }
+  | { kind: 'chart'; chart: ChartConfig; explanation: string };
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  generateDashboardConfig: (context: AnalysisContext) => Promise<DashboardConfig>;
+  answerQuestion?: (context: QuestionContext) => Promise<QuestionAnswer>; // Language models only
+}
+
+// One saved state of a dashboard - the config carries user edits and chart type overrides
+export interface DashboardVersion {
+  version: number;
+  savedAt: number; // ms timestamp
+  config: DashboardConfig;
+  filters: ActiveFilters;
+  combinator?: FilterCombinator; // Missing in versions saved before filters could be OR-ed
+}
+
+// Library entry; the datasets are stored separately so listing stays cheap
+export interface SavedDashboard {
+  id: string;
+  name: string;
+  fileName: string;
+  sheetCount: number;
+  rowCount: number;
+  createdAt: number;
+  updatedAt: number;
+  versions: DashboardVersion[]; // Oldest first
+}
+
+// A column a template's charts read, with the type it had when the template was made
+export interface TemplateColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface TemplateSheet {
+  sheetName?: string;
+  columns: TemplateColumn[];
+}
+
+// Reusable dashboard layout for files with the same shape
+export interface DashboardTemplate {
+  format: 'insightflow-template';
+  version: 1;
+  name: string;
+  createdAt: number;
+  sheets: TemplateSheet[];
+  config: DashboardConfig;
+}
+
+// How a template's sheets and columns map onto loaded datasets, keyed by template names
+export interface TemplateBinding {
+  sheets: Record<string, string>; // Template sheet -> loaded sheet ('' for a single CSV)
+  columns: Record<string, Record<string, string | null>>; // Template sheet -> template column -> loaded column
 }